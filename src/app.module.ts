@@ -7,6 +7,8 @@ import { AuthModule } from './auth/auth.module';
 import { UsersModule } from './users/users.module';
 import { WhiteboardsModule } from './whiteboards/whiteboards.module';
 import { WhiteboardSnapshotsModule } from './whiteboard-snapshots/whiteboard-snapshots.module';
+import { WorkspacesModule } from './workspaces/workspaces.module';
+import { UserGroupsModule } from './user-groups/user-groups.module';
 import { WebSocketModule } from './websocket/websocket.module';
 
 @Module({
@@ -16,6 +18,8 @@ import { WebSocketModule } from './websocket/websocket.module';
     UsersModule,
     WhiteboardsModule,
     WhiteboardSnapshotsModule,
+    WorkspacesModule,
+    UserGroupsModule,
     WebSocketModule,
   ],
   controllers: [AppController],
@@ -4,25 +4,42 @@ import {
   Get,
   Body,
   Res,
+  Ip,
   HttpStatus,
   HttpCode,
   ValidationPipe,
   UseGuards,
   UseFilters,
   ConflictException,
+  NotFoundException,
+  ForbiddenException,
+  UnauthorizedException,
+  HttpException,
 } from '@nestjs/common';
 import type { Response } from 'express';
 import { AuthService } from './auth.service';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
+import { GuestLoginDto } from './dto/guest-login.dto';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { CurrentUser } from './decorators/current-user.decorator';
 import { User } from '../users/entities/user.entity';
 import { ValidationExceptionFilter } from '../common/filters/validation-exception.filter';
+import { FixedWindowLimiter } from '../common/rate-limit/fixed-window-limiter';
+import { guestAccessConfig } from '../config/guest-access.config';
 
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  // Every guest join creates a user, so each IP address gets a few per window
+  private readonly guestJoinLimiter: FixedWindowLimiter;
+
+  constructor(private readonly authService: AuthService) {
+    const config = guestAccessConfig();
+    this.guestJoinLimiter = new FixedWindowLimiter(
+      config.joinLimit,
+      config.joinWindowMs,
+    );
+  }
 
   /**
    * Register a new user
@@ -141,6 +158,98 @@ export class AuthController {
     }
   }
 
+  /**
+   * Join a whiteboard as a guest through a share link
+   * Creates a guest identity and returns a short-lived guest token for the
+   * WebSocket handshake. The token is not set as a cookie: it must not
+   * replace the session of a signed-in user, and no HTTP endpoint accepts it.
+   * Joins are limited per IP address (GUEST_JOIN_LIMIT per window)
+   * @param guestLoginDto - Share link token, display name and optional link password
+   * @param ip - Client IP address
+   * @param res - Express response object
+   * @returns Guest token, guest user and the whiteboard it is scoped to
+   */
+  @Post('guest')
+  @UseFilters(ValidationExceptionFilter)
+  async joinAsGuest(
+    @Body(ValidationPipe) guestLoginDto: GuestLoginDto,
+    @Ip() ip: string,
+    @Res() res: Response,
+  ) {
+    const retryAfterMs = this.guestJoinLimiter.hit(ip);
+    if (retryAfterMs > 0) {
+      res.setHeader('Retry-After', Math.ceil(retryAfterMs / 1000));
+      return res.status(HttpStatus.TOO_MANY_REQUESTS).json({
+        success: false,
+        message: 'Too many guest joins, try again later',
+      });
+    }
+
+    try {
+      const session = await this.authService.joinAsGuest(
+        guestLoginDto.shareToken,
+        guestLoginDto.displayName,
+        guestLoginDto.password,
+        ip,
+      );
+
+      return res.status(HttpStatus.CREATED).json({
+        success: true,
+        message: 'Joined as guest successfully',
+        token: session.token,
+        expiresAt: session.expiresAt,
+        user: {
+          id: session.user.id,
+          fullName: session.user.fullName,
+          isGuest: true,
+        },
+        whiteboard: {
+          id: session.whiteboard.id,
+          title: session.whiteboard.title,
+          role: session.role,
+        },
+      });
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        return res.status(HttpStatus.NOT_FOUND).json({
+          success: false,
+          message: error.message || 'Share link not found',
+        });
+      }
+
+      if (error instanceof ForbiddenException) {
+        return res.status(HttpStatus.FORBIDDEN).json({
+          success: false,
+          message: error.message || 'Guests cannot join this whiteboard',
+        });
+      }
+
+      if (error instanceof UnauthorizedException) {
+        return res.status(HttpStatus.UNAUTHORIZED).json({
+          success: false,
+          message:
+            error.message || 'A valid password is required for this share link',
+        });
+      }
+
+      if (
+        error instanceof HttpException &&
+        (error.getStatus() as HttpStatus) === HttpStatus.TOO_MANY_REQUESTS
+      ) {
+        return res.status(HttpStatus.TOO_MANY_REQUESTS).json({
+          success: false,
+          message: error.message || 'Too many wrong passwords, try again later',
+        });
+      }
+
+      return res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
+        success: false,
+        message: 'Failed to join as guest',
+        error: error.message,
+      });
+    }
+  }
+
   /**
    * Get current authenticated user
    * Returns the user information for the authenticated user
@@ -4,11 +4,16 @@ import { PassportModule } from '@nestjs/passport';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { JwtStrategy } from './strategies/jwt.strategy';
+import { GuestCleanupService } from './guest-cleanup.service';
 import { UsersModule } from '../users/users.module';
+import { WhiteboardInvitationsModule } from '../whiteboard-invitations/whiteboard-invitations.module';
+import { WhiteboardsModule } from '../whiteboards/whiteboards.module';
 
 @Module({
   imports: [
     UsersModule,
+    WhiteboardInvitationsModule,
+    WhiteboardsModule,
     PassportModule.register({ defaultStrategy: 'jwt' }),
     JwtModule.register({
       secret: process.env.JWT_SECRET || 'your-secret-key',
@@ -16,7 +21,7 @@ import { UsersModule } from '../users/users.module';
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy],
+  providers: [AuthService, JwtStrategy, GuestCleanupService],
   exports: [AuthService, PassportModule],
 })
 export class AuthModule {}
@@ -0,0 +1,62 @@
+import { JwtService } from '@nestjs/jwt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AuthService } from './auth.service';
+import { UsersService } from '../users/users.service';
+import { WhiteboardInvitationsService } from '../whiteboard-invitations/whiteboard-invitations.service';
+import { WhiteboardsService } from '../whiteboards/whiteboards.service';
+
+const user = { id: 'user-1', email: 'grace@example.com' };
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let usersService: Record<string, jest.Mock>;
+  let invitationsService: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    usersService = {
+      create: jest.fn().mockResolvedValue(user),
+    };
+    invitationsService = {
+      acceptPendingInvitations: jest.fn().mockResolvedValue([]),
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        { provide: UsersService, useValue: usersService },
+        { provide: JwtService, useValue: {} },
+        { provide: WhiteboardInvitationsService, useValue: invitationsService },
+        { provide: WhiteboardsService, useValue: {} },
+      ],
+    }).compile();
+    // Failed invitations are logged as errors; keep the test output readable
+    app.useLogger(false);
+
+    service = app.get<AuthService>(AuthService);
+  });
+
+  describe('register', () => {
+    it('should accept the pending invitations of the new user', async () => {
+      const registered = await service.register(
+        'grace@example.com',
+        'secret123',
+        'Grace',
+      );
+
+      expect(registered).toBe(user);
+      expect(invitationsService.acceptPendingInvitations).toHaveBeenCalledWith(
+        user,
+      );
+    });
+
+    it('should still register the user when the invitations cannot be accepted', async () => {
+      invitationsService.acceptPendingInvitations.mockRejectedValue(
+        new Error('Connection lost'),
+      );
+
+      await expect(
+        service.register('grace@example.com', 'secret123', 'Grace'),
+      ).resolves.toBe(user);
+    });
+  });
+});
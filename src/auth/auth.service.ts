@@ -1,19 +1,42 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { UsersService } from '../users/users.service';
 import { User } from '../users/entities/user.entity';
 import { JwtPayload } from './strategies/jwt.strategy';
+import { WhiteboardInvitationsService } from '../whiteboard-invitations/whiteboard-invitations.service';
+import { WhiteboardsService } from '../whiteboards/whiteboards.service';
+import { Whiteboard } from '../whiteboards/entities/whiteboard.entity';
+import { CollaboratorRole } from '../whiteboard-collaborators/entities/whiteboard-collaborator.entity';
 import bcrypt from 'bcrypt';
 
+// Guest tokens only last one working session
+export const GUEST_TOKEN_TTL_SECONDS = 8 * 60 * 60;
+
+/**
+ * A guest identity for one whiteboard
+ */
+export interface GuestSession {
+  user: User;
+  token: string;
+  whiteboard: Whiteboard;
+  role: CollaboratorRole;
+  expiresAt: Date;
+}
+
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
   constructor(
     private readonly usersService: UsersService,
     private readonly jwtService: JwtService,
+    private readonly invitationsService: WhiteboardInvitationsService,
+    private readonly whiteboardsService: WhiteboardsService,
   ) {}
 
   /**
    * Register a new user
+   * Pending whiteboard invitations for the email make the user a collaborator
    * @param email - User email address
    * @param password - User password (will be hashed)
    * @param fullName - User full name
@@ -24,7 +47,24 @@ export class AuthService {
     password: string,
     fullName: string,
   ): Promise<User> {
-    return await this.usersService.create(email, password, fullName);
+    const user = await this.usersService.create(email, password, fullName);
+
+    // The account exists either way; invitations that fail here stay pending
+    try {
+      const collaborations =
+        await this.invitationsService.acceptPendingInvitations(user);
+      if (collaborations.length > 0) {
+        this.logger.log(
+          `User ${user.id} joined ${collaborations.length} whiteboard(s) from pending invitations`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to accept pending invitations for user ${user.id}: ${error.message}`,
+      );
+    }
+
+    return user;
   }
 
   /**
@@ -39,7 +79,8 @@ export class AuthService {
     // Find user by email
     const user = await this.usersService.findByEmail(email.toLowerCase().trim());
 
-    if (!user) {
+    // Guests can't sign in
+    if (!user || user.isGuest) {
       throw new UnauthorizedException('Invalid email or password');
     }
 
@@ -53,6 +94,56 @@ export class AuthService {
     return user;
   }
 
+  /**
+   * Create a guest identity for the whiteboard of a share link
+   * The guest token works on the WebSocket gateway only, for that one
+   * whiteboard, and expires after GUEST_TOKEN_TTL_SECONDS
+   * @param shareToken - Share link token
+   * @param displayName - Name shown to the other participants
+   * @param password - Password, for links that have one
+   * @param clientIp - IP address of the client
+   * @returns Guest user, token, whiteboard and the role the guest gets
+   * @throws NotFoundException if the link is invalid, revoked or its whiteboard is gone
+   * @throws ForbiddenException if the link expired or the board doesn't allow guests
+   * @throws UnauthorizedException if the password is missing or wrong
+   * @throws HttpException (429) if the client tried too many wrong passwords
+   */
+  async joinAsGuest(
+    shareToken: string,
+    displayName: string,
+    password: string | undefined,
+    clientIp: string,
+  ): Promise<GuestSession> {
+    const { whiteboard, shareLink, role } =
+      await this.whiteboardsService.resolveGuestAccess(
+        shareToken,
+        password,
+        clientIp,
+      );
+
+    const user = await this.usersService.createGuest(displayName);
+
+    const payload: JwtPayload = {
+      sub: user.id,
+      email: user.email,
+      type: 'guest',
+      whiteboardId: whiteboard.id,
+      shareLinkId: shareLink.id,
+    };
+    const token = this.jwtService.sign(payload, {
+      secret: process.env.JWT_SECRET || 'your-secret-key',
+      expiresIn: GUEST_TOKEN_TTL_SECONDS,
+    });
+
+    return {
+      user,
+      token,
+      whiteboard,
+      role,
+      expiresAt: new Date(Date.now() + GUEST_TOKEN_TTL_SECONDS * 1000),
+    };
+  }
+
   /**
    * Generate JWT token for authenticated user
    * Uses JWT_SECRET from environment variables for signing
@@ -0,0 +1,16 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class GuestLoginDto {
+  @IsString({ message: 'Share token must be a string' })
+  @IsNotEmpty({ message: 'Share token is required' })
+  shareToken: string;
+
+  @IsString({ message: 'Display name must be a string' })
+  @IsNotEmpty({ message: 'Display name is required' })
+  @MaxLength(100, { message: 'Display name must not exceed 100 characters' })
+  displayName: string;
+
+  @IsOptional()
+  @IsString({ message: 'Password must be a string' })
+  password?: string;
+}
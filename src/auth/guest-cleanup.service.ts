@@ -0,0 +1,67 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { UsersService } from '../users/users.service';
+import { GUEST_TOKEN_TTL_SECONDS } from './auth.service';
+import { guestAccessConfig } from '../config/guest-access.config';
+
+// Guests outlive their token by this much before they are deleted
+const GUEST_CLEANUP_GRACE_MS = 60 * 60 * 1000;
+
+/**
+ * Guest Cleanup Service
+ * Deletes guest users on a schedule once their token has expired
+ *
+ * A guest can't do anything without its token, and the gateway disconnects
+ * guest sockets when the token expires, so nothing uses the account anymore.
+ * The guest's edits stay on its boards but lose their author: operations
+ * keep a null user_id, and diffs can't resolve the guest's CRDT actor id.
+ * Every API process runs the job; deleting the same guests twice is harmless.
+ */
+@Injectable()
+export class GuestCleanupService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(GuestCleanupService.name);
+  private readonly config = guestAccessConfig();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly usersService: UsersService) {}
+
+  onModuleInit(): void {
+    if (this.config.cleanupIntervalMs > 0) {
+      this.timer = setInterval(() => {
+        void this.deleteExpiredGuests();
+      }, this.config.cleanupIntervalMs);
+    }
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Delete the guests whose token expired
+   * @returns Number of deleted guests
+   */
+  async deleteExpiredGuests(): Promise<number> {
+    const createdBefore = new Date(
+      Date.now() - GUEST_TOKEN_TTL_SECONDS * 1000 - GUEST_CLEANUP_GRACE_MS,
+    );
+
+    try {
+      const deleted =
+        await this.usersService.deleteGuestsCreatedBefore(createdBefore);
+      if (deleted > 0) {
+        this.logger.log(`Deleted ${deleted} expired guest user(s)`);
+      }
+      return deleted;
+    } catch (error) {
+      this.logger.error(`Failed to delete expired guests: ${error.message}`);
+      return 0;
+    }
+  }
+}
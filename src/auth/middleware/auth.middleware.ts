@@ -39,6 +39,11 @@ export class AuthMiddleware implements NestMiddleware {
         throw new UnauthorizedException('User not found');
       }
 
+      // Guests only exist inside one live session
+      if (payload.type === 'guest' || user.isGuest) {
+        throw new UnauthorizedException('Guests cannot use this endpoint');
+      }
+
       // Attach user to request object for use in controllers
       (req as any).user = user;
       next();
@@ -12,6 +12,10 @@ import { User } from '../../users/entities/user.entity';
 export interface JwtPayload {
   sub: string; // User ID
   email: string; // User email
+  type?: 'guest'; // Set on guest tokens, which only work on the WebSocket gateway
+  whiteboardId?: string; // Guest tokens: the whiteboard the guest may join
+  shareLinkId?: string; // Guest tokens: the share link the guest joined through
+  exp?: number; // Expiry (seconds since the epoch), set by the JWT library
 }
 
 /**
@@ -44,6 +48,11 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     if (!user) {
       throw new UnauthorizedException('User not found');
     }
+
+    // Guests only exist inside one live session
+    if (payload.type === 'guest' || user.isGuest) {
+      throw new UnauthorizedException('Guests cannot use this endpoint');
+    }
     return user;
   }
 }
@@ -0,0 +1,38 @@
+import { FixedWindowLimiter } from './fixed-window-limiter';
+
+describe('FixedWindowLimiter', () => {
+  it('should refuse attempts over the limit until the window has passed', () => {
+    const limiter = new FixedWindowLimiter(2, 1000);
+
+    expect(limiter.hit('a', 0)).toBe(0);
+    expect(limiter.hit('a', 100)).toBe(0);
+    expect(limiter.hit('a', 400)).toBe(600);
+    expect(limiter.hit('a', 1000)).toBe(0);
+  });
+
+  it('should count every key on its own', () => {
+    const limiter = new FixedWindowLimiter(1, 1000);
+
+    expect(limiter.hit('a', 0)).toBe(0);
+    expect(limiter.hit('b', 0)).toBe(0);
+    expect(limiter.hit('a', 10)).toBe(990);
+  });
+
+  it('should tell when a key may try again without counting an attempt', () => {
+    const limiter = new FixedWindowLimiter(1, 1000);
+
+    expect(limiter.retryAfter('a', 0)).toBe(0);
+    expect(limiter.retryAfter('a', 0)).toBe(0);
+    limiter.hit('a', 0);
+    expect(limiter.retryAfter('a', 250)).toBe(750);
+    expect(limiter.retryAfter('a', 1000)).toBe(0);
+  });
+
+  it('should allow every attempt with a limit of 0', () => {
+    const limiter = new FixedWindowLimiter(0, 1000);
+
+    for (let i = 0; i < 10; i++) {
+      expect(limiter.hit('a', 0)).toBe(0);
+    }
+  });
+});
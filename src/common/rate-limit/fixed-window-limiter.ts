@@ -0,0 +1,88 @@
+/**
+ * Fixed Window Limiter
+ * Counts attempts per key (e.g. a client IP address) and refuses them once a
+ * key used up its limit, until its window has passed
+ *
+ * The counts live in memory, so every API process limits on its own. Keys
+ * whose window has passed are swept at most once per window.
+ */
+
+interface LimiterWindow {
+  count: number;
+  resetAt: number;
+}
+
+export class FixedWindowLimiter {
+  private readonly windows = new Map<string, LimiterWindow>();
+  private nextSweepAt = 0;
+
+  /**
+   * @param limit - Attempts a key may make per window; 0 turns the limit off
+   * @param windowMs - Length of a window
+   */
+  constructor(
+    private readonly limit: number,
+    private readonly windowMs: number,
+  ) {}
+
+  /**
+   * Count an attempt of a key
+   * @param key - Key the attempt belongs to
+   * @param now - Current time
+   * @returns 0 if the attempt is allowed, otherwise the milliseconds until
+   *   the key may try again
+   */
+  hit(key: string, now = Date.now()): number {
+    if (this.limit <= 0) {
+      return 0;
+    }
+
+    this.sweep(now);
+
+    const window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      this.windows.set(key, { count: 1, resetAt: now + this.windowMs });
+      return 0;
+    }
+
+    if (window.count >= this.limit) {
+      return window.resetAt - now;
+    }
+
+    window.count++;
+    return 0;
+  }
+
+  /**
+   * Check whether a key may make an attempt, without counting one
+   * @param key - Key to check
+   * @param now - Current time
+   * @returns 0 if an attempt would be allowed, otherwise the milliseconds
+   *   until the key may try again
+   */
+  retryAfter(key: string, now = Date.now()): number {
+    const window = this.windows.get(key);
+    if (
+      this.limit <= 0 ||
+      !window ||
+      window.resetAt <= now ||
+      window.count < this.limit
+    ) {
+      return 0;
+    }
+    return window.resetAt - now;
+  }
+
+  private sweep(now: number): void {
+    if (now < this.nextSweepAt) {
+      return;
+    }
+
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+    this.nextSweepAt = now + this.windowMs;
+  }
+}
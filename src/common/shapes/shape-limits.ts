@@ -0,0 +1,45 @@
+/**
+ * Shape Schema Limits
+ * Bounds every shape sent by a client has to stay within, so one client
+ * can't push payloads that other clients fail to render
+ */
+
+// Version of the shape schema below; shapes and snapshots may state it
+export const SHAPE_SCHEMA_VERSION = 1;
+export const SUPPORTED_SHAPE_SCHEMA_VERSIONS = [SHAPE_SCHEMA_VERSION];
+
+export const SHAPE_KINDS = [
+  'stroke',
+  'rectangle',
+  'circle',
+  'arrow',
+  'line',
+  'text',
+] as const;
+
+export type ShapeKind = (typeof SHAPE_KINDS)[number];
+
+// Board coordinates must lie within ±MAX_COORDINATE
+export const MAX_COORDINATE = 1_000_000;
+
+// Largest width, height or radius of a shape
+export const MAX_SHAPE_SIZE = 100_000;
+
+export const MAX_SHAPE_ID_LENGTH = 128;
+export const MAX_STROKE_WIDTH = 200;
+export const MAX_STROKE_POINTS = 10_000;
+export const MAX_LINE_POINTS = 100;
+export const MAX_TEXT_LENGTH = 10_000;
+export const MAX_FONT_SIZE = 1_000;
+export const MAX_FONT_FAMILY_LENGTH = 64;
+export const MAX_SNAPSHOT_SHAPES = 10_000;
+
+// #rgb, #rgba, #rrggbb, #rrggbbaa, rgb()/rgba() or a CSS colour name (red, transparent, ...)
+export const COLOR_PATTERN =
+  /^(#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})|rgba?\(\s*\d{1,3}\s*,\s*\d{1,3}\s*,\s*\d{1,3}\s*(,\s*(0|1|0?\.\d+)\s*)?\)|[a-z]{3,20})$/i;
+
+// Font names, optionally quoted and comma separated
+export const FONT_FAMILY_PATTERN = /^[\w\s,'"-]+$/;
+
+// Text without markup tags
+export const PLAIN_TEXT_PATTERN = /^(?![\s\S]*<[a-z!/?])/i;
@@ -0,0 +1,82 @@
+import { applyDecorators } from '@nestjs/common';
+import {
+  IsNumber,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateBy,
+} from 'class-validator';
+import {
+  COLOR_PATTERN,
+  MAX_COORDINATE,
+  MAX_TEXT_LENGTH,
+  PLAIN_TEXT_PATTERN,
+} from './shape-limits';
+
+/**
+ * Finite number within [min, max]
+ * Rejects NaN and Infinity, which clients can't render
+ */
+export const IsBoundedNumber = (min: number, max: number) =>
+  applyDecorators(
+    IsNumber(
+      { allowNaN: false, allowInfinity: false },
+      { message: '$property must be a finite number' },
+    ),
+    Min(min, { message: `$property must not be less than ${min}` }),
+    Max(max, { message: `$property must not be greater than ${max}` }),
+  );
+
+/**
+ * Board coordinate within ±MAX_COORDINATE
+ */
+export const IsCoordinate = () =>
+  IsBoundedNumber(-MAX_COORDINATE, MAX_COORDINATE);
+
+/**
+ * Colour as hex, rgb()/rgba() or a CSS colour name
+ */
+export const IsColor = () =>
+  applyDecorators(
+    IsString({ message: '$property must be a string' }),
+    Matches(COLOR_PATTERN, {
+      message: '$property must be a hex, rgb(), rgba() or named colour',
+    }),
+  );
+
+// Control characters other than tab, line feed and carriage return
+const hasControlCharacter = (text: string) => {
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code === 0x7f || (code < 0x20 && ![0x09, 0x0a, 0x0d].includes(code))) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Text without markup or control characters
+ */
+export const IsPlainText = (maxLength = MAX_TEXT_LENGTH) =>
+  applyDecorators(
+    IsString({ message: '$property must be a string' }),
+    MaxLength(maxLength, {
+      message: `$property must be at most ${maxLength} characters`,
+    }),
+    Matches(PLAIN_TEXT_PATTERN, {
+      message: '$property must not contain markup or control characters',
+    }),
+    ValidateBy(
+      {
+        name: 'isPlainText',
+        validator: {
+          validate: (value) =>
+            typeof value === 'string' && !hasControlCharacter(value),
+        },
+      },
+      { message: '$property must not contain markup or control characters' },
+    ),
+  );
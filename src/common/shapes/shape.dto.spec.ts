@@ -0,0 +1,131 @@
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+import { DrawUpdateDto } from '../../websocket/dto/draw-update.dto';
+import { SaveSnapshotDto } from '../../whiteboard-snapshots/dto/save-snapshot.dto';
+
+const validate = (dto: new () => object, plain: Record<string, unknown>) =>
+  validateSync(plainToInstance(dto, plain), {
+    whitelist: true,
+    forbidNonWhitelisted: true,
+  });
+
+const drawUpdate = (updateType: string, data: Record<string, unknown>) => ({
+  whiteboardId: '5f0c7c1e-6d3e-4c4b-9a53-2f0f7f0b9d11',
+  updateType,
+  data,
+});
+
+describe('shape schema', () => {
+  it('should accept a valid shape of each kind', () => {
+    const shapes = [
+      { id: 'r', type: 'rectangle', x: 0, y: 0, width: 10, height: 5 },
+      { id: 'c', type: 'circle', x: 1, y: 1, radius: 3, color: '#ff0000' },
+      {
+        id: 'l',
+        type: 'line',
+        points: [
+          { x: 0, y: 0 },
+          { x: 1, y: 1 },
+        ],
+      },
+      {
+        id: 'a',
+        type: 'arrow',
+        points: [
+          { x: 0, y: 0 },
+          { x: 2, y: 2 },
+        ],
+      },
+      { id: 't', type: 'text', x: 0, y: 0, text: 'a < b', fontSize: 12 },
+      { id: 's', type: 'stroke', points: [{ x: 0, y: 0 }], width: 2 },
+    ];
+
+    expect(
+      validate(SaveSnapshotDto, { data: { shapes }, baseSequence: 0 }),
+    ).toEqual([]);
+  });
+
+  it('should validate draw_update shapes by their update type', () => {
+    const errors = validate(
+      DrawUpdateDto,
+      drawUpdate('rectangle', { shape: { id: 'r', x: 0, y: 0, width: 1 } }),
+    );
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].property).toBe('data');
+  });
+
+  it('should accept strokes without an id and deletes by reference', () => {
+    expect(
+      validate(
+        DrawUpdateDto,
+        drawUpdate('stroke', {
+          stroke: { color: '#000', width: 2, points: [{ x: 1, y: 2 }] },
+        }),
+      ),
+    ).toEqual([]);
+    expect(
+      validate(DrawUpdateDto, drawUpdate('delete', { shape: { id: 'a' } })),
+    ).toEqual([]);
+  });
+
+  it.each([
+    ['out of bounds coordinates', { x: 1e9 }],
+    ['NaN coordinates', { x: NaN }],
+    ['invalid colours', { color: 'url(javascript:alert(1))' }],
+    ['markup in text', { text: '<img src=x onerror=alert(1)>' }],
+    ['control characters in text', { text: 'a\u0000b' }],
+    ['unknown properties', { onClick: 'alert(1)' }],
+  ])('should reject %s', (_, override) => {
+    const errors = validate(
+      DrawUpdateDto,
+      drawUpdate('text', {
+        shape: { id: 't', type: 'text', x: 0, y: 0, text: 'hi', ...override },
+      }),
+    );
+
+    expect(errors).not.toEqual([]);
+  });
+
+  it('should reject strokes with too many points', () => {
+    const points = Array.from({ length: 10_001 }, () => ({ x: 0, y: 0 }));
+
+    expect(
+      validate(DrawUpdateDto, drawUpdate('stroke', { stroke: { points } })),
+    ).not.toEqual([]);
+  });
+
+  it('should reject snapshot shapes of unknown kinds', () => {
+    expect(
+      validate(SaveSnapshotDto, {
+        data: { shapes: [{ id: 'x', type: 'iframe' }] },
+        baseSequence: 0,
+      }),
+    ).not.toEqual([]);
+  });
+
+  it('should check the shape of snapshot CRDT metadata', () => {
+    const crdt = {
+      clock: 4,
+      registers: {},
+      cleared: { clock: 2, actor: 'alice' },
+    };
+
+    expect(
+      validate(SaveSnapshotDto, {
+        data: { shapes: [], crdt },
+        baseSequence: 0,
+      }),
+    ).toEqual([]);
+    expect(
+      validate(SaveSnapshotDto, {
+        data: { shapes: [], crdt: { ...crdt, cleared: { clock: 'x' } } },
+        baseSequence: 0,
+      }),
+    ).not.toEqual([]);
+  });
+
+  it('should accept snapshots without a baseSequence from older clients', () => {
+    expect(validate(SaveSnapshotDto, { data: { shapes: [] } })).toEqual([]);
+  });
+});
@@ -0,0 +1,233 @@
+import { plainToInstance, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import {
+  FONT_FAMILY_PATTERN,
+  MAX_FONT_FAMILY_LENGTH,
+  MAX_FONT_SIZE,
+  MAX_LINE_POINTS,
+  MAX_SHAPE_ID_LENGTH,
+  MAX_SHAPE_SIZE,
+  MAX_STROKE_POINTS,
+  MAX_STROKE_WIDTH,
+  SHAPE_KINDS,
+  SUPPORTED_SHAPE_SCHEMA_VERSIONS,
+} from './shape-limits';
+import type { ShapeKind } from './shape-limits';
+import {
+  IsBoundedNumber,
+  IsColor,
+  IsCoordinate,
+  IsPlainText,
+} from './shape-validators';
+
+/**
+ * Point in board coordinates
+ */
+export class PointDto {
+  @IsCoordinate()
+  x: number;
+
+  @IsCoordinate()
+  y: number;
+
+  // Pen pressure of freehand strokes
+  @IsBoundedNumber(0, 1)
+  @IsOptional()
+  pressure?: number;
+}
+
+/**
+ * Fields shared by every shape kind
+ */
+export class ShapeDto {
+  // Strokes may be sent without an id; the server keys them by sequence
+  @ValidateIf(
+    (shape: ShapeDto) => shape.type !== 'stroke' || shape.id !== undefined,
+  )
+  @IsString({ message: 'Shape ID must be a string' })
+  @IsNotEmpty({ message: 'Shape ID must not be empty' })
+  @MaxLength(MAX_SHAPE_ID_LENGTH, {
+    message: `Shape ID must be at most ${MAX_SHAPE_ID_LENGTH} characters`,
+  })
+  id: string;
+
+  @IsIn(SHAPE_KINDS, {
+    message: `Shape type must be one of: ${SHAPE_KINDS.join(', ')}`,
+  })
+  type: ShapeKind;
+
+  @IsIn(SUPPORTED_SHAPE_SCHEMA_VERSIONS, {
+    message: `Shape version must be one of: ${SUPPORTED_SHAPE_SCHEMA_VERSIONS.join(', ')}`,
+  })
+  @IsOptional()
+  version?: number;
+
+  // Outline or ink colour
+  @IsColor()
+  @IsOptional()
+  color?: string;
+
+  @IsColor()
+  @IsOptional()
+  fillColor?: string;
+
+  @IsBoundedNumber(0, MAX_STROKE_WIDTH)
+  @IsOptional()
+  strokeWidth?: number;
+
+  @IsBoundedNumber(0, 1)
+  @IsOptional()
+  opacity?: number;
+
+  // Degrees
+  @IsBoundedNumber(-360, 360)
+  @IsOptional()
+  rotation?: number;
+}
+
+export class RectangleShapeDto extends ShapeDto {
+  @IsCoordinate()
+  x: number;
+
+  @IsCoordinate()
+  y: number;
+
+  @IsBoundedNumber(0, MAX_SHAPE_SIZE)
+  width: number;
+
+  @IsBoundedNumber(0, MAX_SHAPE_SIZE)
+  height: number;
+
+  @IsBoundedNumber(0, MAX_SHAPE_SIZE)
+  @IsOptional()
+  cornerRadius?: number;
+}
+
+export class CircleShapeDto extends ShapeDto {
+  // Centre
+  @IsCoordinate()
+  x: number;
+
+  @IsCoordinate()
+  y: number;
+
+  @IsBoundedNumber(0, MAX_SHAPE_SIZE)
+  radius: number;
+}
+
+/**
+ * Straight line through two or more points (arrows point at the last one)
+ */
+export class LineShapeDto extends ShapeDto {
+  @IsArray({ message: 'Points must be an array' })
+  @ArrayMinSize(2, { message: 'A line needs at least 2 points' })
+  @ArrayMaxSize(MAX_LINE_POINTS, {
+    message: `A line can have at most ${MAX_LINE_POINTS} points`,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => PointDto)
+  points: PointDto[];
+}
+
+export class ArrowShapeDto extends LineShapeDto {}
+
+export class TextShapeDto extends ShapeDto {
+  @IsCoordinate()
+  x: number;
+
+  @IsCoordinate()
+  y: number;
+
+  @IsPlainText()
+  text: string;
+
+  @IsBoundedNumber(1, MAX_FONT_SIZE)
+  @IsOptional()
+  fontSize?: number;
+
+  @IsString({ message: 'Font family must be a string' })
+  @MaxLength(MAX_FONT_FAMILY_LENGTH, {
+    message: `Font family must be at most ${MAX_FONT_FAMILY_LENGTH} characters`,
+  })
+  @Matches(FONT_FAMILY_PATTERN, {
+    message:
+      'Font family may only contain letters, digits, spaces, quotes, commas and dashes',
+  })
+  @IsOptional()
+  fontFamily?: string;
+
+  // Wrapping width
+  @IsBoundedNumber(0, MAX_SHAPE_SIZE)
+  @IsOptional()
+  width?: number;
+
+  @IsIn(['left', 'center', 'right'], {
+    message: 'Text align must be one of: left, center, right',
+  })
+  @IsOptional()
+  align?: 'left' | 'center' | 'right';
+}
+
+/**
+ * Freehand stroke
+ */
+export class StrokeShapeDto extends ShapeDto {
+  @IsArray({ message: 'Points must be an array' })
+  @ArrayMinSize(1, { message: 'A stroke needs at least 1 point' })
+  @ArrayMaxSize(MAX_STROKE_POINTS, {
+    message: `A stroke can have at most ${MAX_STROKE_POINTS} points`,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => PointDto)
+  points: PointDto[];
+
+  // Line width (same as strokeWidth, kept for existing clients)
+  @IsBoundedNumber(0, MAX_STROKE_WIDTH)
+  @IsOptional()
+  width?: number;
+}
+
+const SHAPE_DTO_CLASSES: Record<ShapeKind, typeof ShapeDto> = {
+  stroke: StrokeShapeDto,
+  rectangle: RectangleShapeDto,
+  circle: CircleShapeDto,
+  arrow: ArrowShapeDto,
+  line: LineShapeDto,
+  text: TextShapeDto,
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Turn a plain shape into the DTO of its kind, for validation
+ * Values that aren't objects are returned as-is so their own validators reject them
+ * @param value - Plain shape from a payload
+ * @param defaultType - Kind to assume when the shape has no type
+ * @returns Shape DTO instance (ShapeDto for unknown kinds, which fails on type)
+ */
+export const toShapeDto = (value: unknown, defaultType?: string): unknown => {
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const type = value.type === undefined ? defaultType : value.type;
+  const dtoClass =
+    typeof type === 'string' && type in SHAPE_DTO_CLASSES
+      ? SHAPE_DTO_CLASSES[type as ShapeKind]
+      : ShapeDto;
+
+  return plainToInstance(dtoClass, { ...value, type });
+};
@@ -0,0 +1,15 @@
+/**
+ * Read a non-negative number from an environment variable
+ * @param value - Raw value of the variable
+ * @param fallback - Value used if the variable is unset, empty or not a number
+ * @returns The number, raised to 0 if negative
+ */
+export const parseNumber = (
+  value: string | undefined,
+  fallback: number,
+): number => {
+  const parsed = Number(value);
+  return value === undefined || value === '' || Number.isNaN(parsed)
+    ? fallback
+    : Math.max(parsed, 0);
+};
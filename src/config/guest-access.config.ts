@@ -0,0 +1,18 @@
+import { parseNumber } from './env-values';
+import 'dotenv/config';
+
+export interface GuestAccessConfig {
+  // Guest joins one IP address may make per window; 0 turns the limit off
+  joinLimit: number;
+  joinWindowMs: number;
+  // How often guest accounts with an expired token are deleted; 0 turns it off
+  cleanupIntervalMs: number;
+}
+
+export const guestAccessConfig = (): GuestAccessConfig => ({
+  joinLimit: Math.floor(parseNumber(process.env.GUEST_JOIN_LIMIT, 10)),
+  joinWindowMs:
+    parseNumber(process.env.GUEST_JOIN_WINDOW_MINUTES, 10) * 60 * 1000,
+  cleanupIntervalMs:
+    parseNumber(process.env.GUEST_CLEANUP_INTERVAL_MINUTES, 60) * 60 * 1000,
+});
@@ -0,0 +1,50 @@
+import {
+  DEFAULT_RETENTION_POLICY,
+  RetentionPolicy,
+} from '../whiteboard-snapshots/snapshot-retention';
+import { parseNumber } from './env-values';
+import 'dotenv/config';
+
+export interface SnapshotRetentionConfig {
+  // How often the retention job runs; 0 turns it off
+  intervalMs: number;
+  // Only log what the job would delete
+  dryRun: boolean;
+  // Policy of boards without their own settings
+  policy: RetentionPolicy;
+}
+
+export const snapshotRetentionConfig = (): SnapshotRetentionConfig => {
+  const maxVersions = parseNumber(
+    process.env.SNAPSHOT_RETENTION_MAX_VERSIONS,
+    DEFAULT_RETENTION_POLICY.maxVersions ?? 0,
+  );
+
+  return {
+    intervalMs:
+      parseNumber(process.env.SNAPSHOT_RETENTION_INTERVAL_MINUTES, 60) *
+      60 *
+      1000,
+    dryRun: process.env.SNAPSHOT_RETENTION_DRY_RUN === 'true',
+    policy: {
+      keepAllHours: parseNumber(
+        process.env.SNAPSHOT_RETENTION_KEEP_ALL_HOURS,
+        DEFAULT_RETENTION_POLICY.keepAllHours,
+      ),
+      hourlyDays: parseNumber(
+        process.env.SNAPSHOT_RETENTION_HOURLY_DAYS,
+        DEFAULT_RETENTION_POLICY.hourlyDays,
+      ),
+      dailyDays: parseNumber(
+        process.env.SNAPSHOT_RETENTION_DAILY_DAYS,
+        DEFAULT_RETENTION_POLICY.dailyDays,
+      ),
+      weeklyWeeks: parseNumber(
+        process.env.SNAPSHOT_RETENTION_WEEKLY_WEEKS,
+        DEFAULT_RETENTION_POLICY.weeklyWeeks,
+      ),
+      // 0 keeps any number of versions
+      maxVersions: maxVersions > 0 ? Math.floor(maxVersions) : null,
+    },
+  };
+};
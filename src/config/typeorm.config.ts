@@ -4,6 +4,18 @@ import { User } from '../users/entities/user.entity';
 import { Whiteboard } from '../whiteboards/entities/whiteboard.entity';
 import { WhiteboardCollaborator } from '../whiteboard-collaborators/entities/whiteboard-collaborator.entity';
 import { WhiteboardSnapshot } from '../whiteboard-snapshots/entities/whiteboard-snapshot.entity';
+import { WhiteboardOperation } from '../whiteboard-operations/entities/whiteboard-operation.entity';
+import { WhiteboardPresence } from '../presence/entities/whiteboard-presence.entity';
+import { PubSubAttachment } from '../pubsub/entities/pubsub-attachment.entity';
+import { WhiteboardShapeLock } from '../shape-locks/entities/whiteboard-shape-lock.entity';
+import { WhiteboardHistoryEntry } from '../whiteboard-history/entities/whiteboard-history-entry.entity';
+import { WhiteboardInvitation } from '../whiteboard-invitations/entities/whiteboard-invitation.entity';
+import { WhiteboardShareLink } from '../whiteboard-share-links/entities/whiteboard-share-link.entity';
+import { Workspace } from '../workspaces/entities/workspace.entity';
+import { WorkspaceMember } from '../workspaces/entities/workspace-member.entity';
+import { UserGroup } from '../user-groups/entities/user-group.entity';
+import { UserGroupMember } from '../user-groups/entities/user-group-member.entity';
+import { WhiteboardGroupCollaborator } from '../whiteboard-collaborators/entities/whiteboard-group-collaborator.entity';
 import 'dotenv/config';
 
 const parsePort = (value: string | undefined, fallback: number): number => {
@@ -18,7 +30,24 @@ export const typeOrmConfig = (): TypeOrmModuleOptions & DataSourceOptions => ({
   username: process.env.DB_USERNAME ?? 'postgres',
   password: process.env.DB_PASSWORD ?? 'admin',
   database: process.env.DB_NAME ?? 'whiteboard_db',
-  entities: [User, Whiteboard, WhiteboardCollaborator, WhiteboardSnapshot],
+  entities: [
+    User,
+    Whiteboard,
+    WhiteboardCollaborator,
+    WhiteboardSnapshot,
+    WhiteboardOperation,
+    WhiteboardPresence,
+    PubSubAttachment,
+    WhiteboardShapeLock,
+    WhiteboardHistoryEntry,
+    WhiteboardInvitation,
+    WhiteboardShareLink,
+    Workspace,
+    WorkspaceMember,
+    UserGroup,
+    UserGroupMember,
+    WhiteboardGroupCollaborator,
+  ],
   migrations: ['dist/database/migrations/*.js'],
   synchronize: true,
   logging: process.env.DB_LOGGING === 'true',
@@ -0,0 +1,55 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateWhiteboardOperationsTable1792396800000
+  implements MigrationInterface
+{
+  name = 'CreateWhiteboardOperationsTable1792396800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Per-board counter used to hand out operation sequence numbers
+    await queryRunner.query(`
+      ALTER TABLE "whiteboards"
+      ADD COLUMN "last_operation_sequence" integer NOT NULL DEFAULT 0;
+    `);
+
+    // Sequence of the last operation a snapshot already includes
+    await queryRunner.query(`
+      ALTER TABLE "whiteboard_snapshots"
+      ADD COLUMN "sequence" integer NOT NULL DEFAULT 0;
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "whiteboard_operations" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "whiteboard_id" uuid NOT NULL,
+        "sequence" integer NOT NULL,
+        "user_id" uuid,
+        "update_type" character varying(32) NOT NULL,
+        "data" jsonb,
+        "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_whiteboard_operations" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_whiteboard_operations_board" FOREIGN KEY ("whiteboard_id") REFERENCES "whiteboards"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_whiteboard_operations_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE SET NULL
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_whiteboard_operations_sequence" ON "whiteboard_operations" ("whiteboard_id", "sequence");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_whiteboard_operations_sequence"`,
+    );
+    await queryRunner.query(`DROP TABLE "whiteboard_operations"`);
+    await queryRunner.query(`
+      ALTER TABLE "whiteboard_snapshots"
+      DROP COLUMN IF EXISTS "sequence";
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "whiteboards"
+      DROP COLUMN IF EXISTS "last_operation_sequence";
+    `);
+  }
+}
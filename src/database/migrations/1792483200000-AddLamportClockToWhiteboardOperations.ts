@@ -0,0 +1,44 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddLamportClockToWhiteboardOperations1792483200000
+  implements MigrationInterface
+{
+  name = 'AddLamportClockToWhiteboardOperations1792483200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "whiteboards"
+      ADD COLUMN "lamport_clock" bigint NOT NULL DEFAULT 0;
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "whiteboard_operations"
+      ADD COLUMN "clock" bigint;
+    `);
+
+    // Existing operations were applied in sequence order, which is a valid clock
+    await queryRunner.query(`
+      UPDATE "whiteboard_operations" SET "clock" = "sequence";
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "whiteboard_operations"
+      ALTER COLUMN "clock" SET NOT NULL;
+    `);
+
+    await queryRunner.query(`
+      UPDATE "whiteboards" SET "lamport_clock" = "last_operation_sequence";
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "whiteboard_operations"
+      DROP COLUMN IF EXISTS "clock";
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "whiteboards"
+      DROP COLUMN IF EXISTS "lamport_clock";
+    `);
+  }
+}
@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddClientOpIdToWhiteboardOperations1792569600000
+  implements MigrationInterface
+{
+  name = 'AddClientOpIdToWhiteboardOperations1792569600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "whiteboard_operations"
+      ADD COLUMN "client_op_id" character varying(64);
+    `);
+
+    // A client may retry an update; the same id from the same user is only logged once
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_whiteboard_operations_client_op_id"
+      ON "whiteboard_operations" ("whiteboard_id", "user_id", "client_op_id")
+      WHERE "client_op_id" IS NOT NULL;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DROP INDEX IF EXISTS "IDX_whiteboard_operations_client_op_id";
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "whiteboard_operations"
+      DROP COLUMN IF EXISTS "client_op_id";
+    `);
+  }
+}
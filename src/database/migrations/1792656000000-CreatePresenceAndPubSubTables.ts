@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreatePresenceAndPubSubTables1792656000000
+  implements MigrationInterface
+{
+  name = 'CreatePresenceAndPubSubTables1792656000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Socket connections per whiteboard, shared by every API process (PRESENCE_STORE=postgres)
+    await queryRunner.query(`
+      CREATE TABLE "whiteboard_presence" (
+        "whiteboard_id" uuid NOT NULL,
+        "socket_id" character varying(64) NOT NULL,
+        "user_id" uuid NOT NULL,
+        "server_id" uuid NOT NULL,
+        "joined_at" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "seen_at" TIMESTAMP WITH TIME ZONE NOT NULL,
+        CONSTRAINT "PK_whiteboard_presence" PRIMARY KEY ("whiteboard_id", "socket_id"),
+        CONSTRAINT "FK_whiteboard_presence_board" FOREIGN KEY ("whiteboard_id") REFERENCES "whiteboards"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_whiteboard_presence_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_whiteboard_presence_server_id" ON "whiteboard_presence" ("server_id");
+    `);
+
+    // Payloads too big for NOTIFY (PUBSUB_BACKEND=postgres)
+    await queryRunner.query(`
+      CREATE TABLE "pubsub_attachments" (
+        "id" bigserial NOT NULL,
+        "payload" text NOT NULL,
+        "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_pubsub_attachments" PRIMARY KEY ("id")
+      )
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "pubsub_attachments"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_whiteboard_presence_server_id"`,
+    );
+    await queryRunner.query(`DROP TABLE "whiteboard_presence"`);
+  }
+}
@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateWhiteboardShapeLocksTable1792742400000
+  implements MigrationInterface
+{
+  name = 'CreateWhiteboardShapeLocksTable1792742400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "whiteboard_shape_locks" (
+        "whiteboard_id" uuid NOT NULL,
+        "shape_id" character varying(128) NOT NULL,
+        "user_id" uuid NOT NULL,
+        "socket_id" character varying(64) NOT NULL,
+        "acquired_at" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "expires_at" TIMESTAMP WITH TIME ZONE NOT NULL,
+        CONSTRAINT "PK_whiteboard_shape_locks" PRIMARY KEY ("whiteboard_id", "shape_id"),
+        CONSTRAINT "FK_whiteboard_shape_locks_board" FOREIGN KEY ("whiteboard_id") REFERENCES "whiteboards"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_whiteboard_shape_locks_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    // Released on disconnect, swept on expiry
+    await queryRunner.query(`
+      CREATE INDEX "IDX_whiteboard_shape_locks_socket_id" ON "whiteboard_shape_locks" ("socket_id");
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_whiteboard_shape_locks_expires_at" ON "whiteboard_shape_locks" ("expires_at");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_whiteboard_shape_locks_expires_at"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_whiteboard_shape_locks_socket_id"`,
+    );
+    await queryRunner.query(`DROP TABLE "whiteboard_shape_locks"`);
+  }
+}
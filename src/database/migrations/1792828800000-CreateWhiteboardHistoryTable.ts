@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateWhiteboardHistoryTable1792828800000
+  implements MigrationInterface
+{
+  name = 'CreateWhiteboardHistoryTable1792828800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "whiteboard_history" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "whiteboard_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        "sequence" integer NOT NULL,
+        "undo_operations" jsonb NOT NULL,
+        "redo_operations" jsonb,
+        "undone" boolean NOT NULL DEFAULT false,
+        "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_whiteboard_history" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_whiteboard_history_board" FOREIGN KEY ("whiteboard_id") REFERENCES "whiteboards"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_whiteboard_history_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    // Undo and redo read the top of a user's stack on a board
+    await queryRunner.query(`
+      CREATE INDEX "IDX_whiteboard_history_user_sequence" ON "whiteboard_history" ("whiteboard_id", "user_id", "sequence");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_whiteboard_history_user_sequence"`,
+    );
+    await queryRunner.query(`DROP TABLE "whiteboard_history"`);
+  }
+}
@@ -0,0 +1,82 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddViewerAndCommenterCollaboratorRoles1792915200000
+  implements MigrationInterface
+{
+  name = 'AddViewerAndCommenterCollaboratorRoles1792915200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Step 1: Drop the default constraint first
+    await queryRunner.query(`
+      ALTER TABLE "whiteboard_collaborators"
+      ALTER COLUMN "role" DROP DEFAULT;
+    `);
+
+    // Step 2: Create new enum type with the read-only roles
+    await queryRunner.query(`
+      CREATE TYPE "whiteboard_collaborators_role_enum_new" AS ENUM ('viewer', 'commenter', 'editor', 'owner');
+    `);
+
+    // Step 3: Alter the column to use the new enum type
+    await queryRunner.query(`
+      ALTER TABLE "whiteboard_collaborators"
+      ALTER COLUMN "role" TYPE "whiteboard_collaborators_role_enum_new"
+      USING "role"::text::"whiteboard_collaborators_role_enum_new";
+    `);
+
+    // Step 4: Drop the old enum type
+    await queryRunner.query(`
+      DROP TYPE "whiteboard_collaborators_role_enum";
+    `);
+
+    // Step 5: Rename the new enum type to the original name
+    await queryRunner.query(`
+      ALTER TYPE "whiteboard_collaborators_role_enum_new"
+      RENAME TO "whiteboard_collaborators_role_enum";
+    `);
+
+    // Step 6: Restore the default value
+    await queryRunner.query(`
+      ALTER TABLE "whiteboard_collaborators"
+      ALTER COLUMN "role" SET DEFAULT 'editor'::"whiteboard_collaborators_role_enum";
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // The old enum has no read-only role: remove read-only collaborators
+    // rather than letting them edit
+    await queryRunner.query(`
+      DELETE FROM "whiteboard_collaborators"
+      WHERE "role" IN ('viewer', 'commenter');
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "whiteboard_collaborators"
+      ALTER COLUMN "role" DROP DEFAULT;
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "whiteboard_collaborators_role_enum_old" AS ENUM ('editor', 'owner');
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "whiteboard_collaborators"
+      ALTER COLUMN "role" TYPE "whiteboard_collaborators_role_enum_old"
+      USING "role"::text::"whiteboard_collaborators_role_enum_old";
+    `);
+
+    await queryRunner.query(`
+      DROP TYPE "whiteboard_collaborators_role_enum";
+    `);
+
+    await queryRunner.query(`
+      ALTER TYPE "whiteboard_collaborators_role_enum_old"
+      RENAME TO "whiteboard_collaborators_role_enum";
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "whiteboard_collaborators"
+      ALTER COLUMN "role" SET DEFAULT 'editor'::"whiteboard_collaborators_role_enum";
+    `);
+  }
+}
@@ -0,0 +1,51 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateWhiteboardInvitationsTable1793001600000
+  implements MigrationInterface
+{
+  name = 'CreateWhiteboardInvitationsTable1793001600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "whiteboard_invitations_role_enum" AS ENUM ('viewer', 'commenter', 'editor');
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "whiteboard_invitations" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "whiteboard_id" uuid NOT NULL,
+        "email" character varying(255) NOT NULL,
+        "role" "whiteboard_invitations_role_enum" NOT NULL DEFAULT 'editor',
+        "invited_by_id" uuid NOT NULL,
+        "expires_at" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "last_sent_at" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_whiteboard_invitations" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_whiteboard_invitations_board" FOREIGN KEY ("whiteboard_id") REFERENCES "whiteboards"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_whiteboard_invitations_inviter" FOREIGN KEY ("invited_by_id") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    // One invitation per email and board
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_whiteboard_invitations_board_email" ON "whiteboard_invitations" ("whiteboard_id", "email");
+    `);
+
+    // Registration looks up every invitation for the new user's email
+    await queryRunner.query(`
+      CREATE INDEX "IDX_whiteboard_invitations_email" ON "whiteboard_invitations" ("email");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_whiteboard_invitations_email"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_whiteboard_invitations_board_email"`,
+    );
+    await queryRunner.query(`DROP TABLE "whiteboard_invitations"`);
+    await queryRunner.query(`DROP TYPE "whiteboard_invitations_role_enum"`);
+  }
+}
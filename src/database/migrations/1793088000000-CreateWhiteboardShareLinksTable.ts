@@ -0,0 +1,44 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateWhiteboardShareLinksTable1793088000000
+  implements MigrationInterface
+{
+  name = 'CreateWhiteboardShareLinksTable1793088000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "whiteboard_share_links_role_enum" AS ENUM ('viewer', 'commenter', 'editor');
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "whiteboard_share_links" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "whiteboard_id" uuid NOT NULL,
+        "role" "whiteboard_share_links_role_enum" NOT NULL DEFAULT 'viewer',
+        "password_hash" character varying,
+        "expires_at" TIMESTAMP WITH TIME ZONE,
+        "use_count" integer NOT NULL DEFAULT 0,
+        "last_used_at" TIMESTAMP WITH TIME ZONE,
+        "created_by_id" uuid NOT NULL,
+        "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_whiteboard_share_links" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_whiteboard_share_links_board" FOREIGN KEY ("whiteboard_id") REFERENCES "whiteboards"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_whiteboard_share_links_creator" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    // Owners list the links of a board
+    await queryRunner.query(`
+      CREATE INDEX "IDX_whiteboard_share_links_whiteboard" ON "whiteboard_share_links" ("whiteboard_id");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_whiteboard_share_links_whiteboard"`,
+    );
+    await queryRunner.query(`DROP TABLE "whiteboard_share_links"`);
+    await queryRunner.query(`DROP TYPE "whiteboard_share_links_role_enum"`);
+  }
+}
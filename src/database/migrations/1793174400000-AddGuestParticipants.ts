@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddGuestParticipants1793174400000 implements MigrationInterface {
+  name = 'AddGuestParticipants1793174400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "users"
+      ADD COLUMN "is_guest" boolean NOT NULL DEFAULT false
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "whiteboards_guest_role_enum" AS ENUM ('viewer', 'commenter', 'editor');
+    `);
+
+    // Existing boards let guests in read-only until their owner decides otherwise
+    await queryRunner.query(`
+      ALTER TABLE "whiteboards"
+      ADD COLUMN "guest_role" "whiteboards_guest_role_enum" DEFAULT 'viewer'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "whiteboards" DROP COLUMN "guest_role"`,
+    );
+    await queryRunner.query(`DROP TYPE "whiteboards_guest_role_enum"`);
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "is_guest"`);
+  }
+}
@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddWhiteboardOwnershipTransfer1793260800000
+  implements MigrationInterface
+{
+  name = 'AddWhiteboardOwnershipTransfer1793260800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "whiteboards"
+      ADD COLUMN "pending_owner_id" uuid,
+      ADD COLUMN "ownership_transfer_requested_at" TIMESTAMP WITH TIME ZONE,
+      ADD CONSTRAINT "FK_whiteboards_pending_owner" FOREIGN KEY ("pending_owner_id") REFERENCES "users"("id") ON DELETE SET NULL
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_whiteboards_pending_owner" ON "whiteboards" ("pending_owner_id")
+    `);
+
+    // Only whiteboards.owner_id makes someone the owner: drop collaborator
+    // rows of owners and demote any other 'owner' row to editor
+    await queryRunner.query(`
+      DELETE FROM "whiteboard_collaborators" "c"
+      USING "whiteboards" "w"
+      WHERE "w"."id" = "c"."whiteboard_id" AND "w"."owner_id" = "c"."user_id"
+    `);
+    await queryRunner.query(`
+      UPDATE "whiteboard_collaborators" SET "role" = 'editor' WHERE "role" = 'owner'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_whiteboards_pending_owner"`,
+    );
+    await queryRunner.query(`
+      ALTER TABLE "whiteboards"
+      DROP CONSTRAINT "FK_whiteboards_pending_owner",
+      DROP COLUMN "ownership_transfer_requested_at",
+      DROP COLUMN "pending_owner_id"
+    `);
+  }
+}
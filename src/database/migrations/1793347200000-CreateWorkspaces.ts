@@ -0,0 +1,64 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateWorkspaces1793347200000 implements MigrationInterface {
+  name = 'CreateWorkspaces1793347200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "workspaces" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "name" character varying(255) NOT NULL,
+        "description" text,
+        "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_workspaces" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "workspace_members_role_enum" AS ENUM ('admin', 'member', 'guest');
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "workspace_members" (
+        "workspace_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        "role" "workspace_members_role_enum" NOT NULL DEFAULT 'member',
+        "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_workspace_members" PRIMARY KEY ("workspace_id", "user_id"),
+        CONSTRAINT "FK_workspace_members_workspace" FOREIGN KEY ("workspace_id") REFERENCES "workspaces"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_workspace_members_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    // Users list the workspaces they belong to
+    await queryRunner.query(`
+      CREATE INDEX "IDX_workspace_members_user" ON "workspace_members" ("user_id");
+    `);
+
+    // A workspace can't be deleted while it still has boards
+    await queryRunner.query(`
+      ALTER TABLE "whiteboards"
+      ADD COLUMN "workspace_id" uuid,
+      ADD CONSTRAINT "FK_whiteboards_workspace" FOREIGN KEY ("workspace_id") REFERENCES "workspaces"("id") ON DELETE RESTRICT
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_whiteboards_workspace" ON "whiteboards" ("workspace_id");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_whiteboards_workspace"`);
+    await queryRunner.query(`
+      ALTER TABLE "whiteboards"
+      DROP CONSTRAINT "FK_whiteboards_workspace",
+      DROP COLUMN "workspace_id"
+    `);
+    await queryRunner.query(`DROP INDEX "public"."IDX_workspace_members_user"`);
+    await queryRunner.query(`DROP TABLE "workspace_members"`);
+    await queryRunner.query(`DROP TYPE "workspace_members_role_enum"`);
+    await queryRunner.query(`DROP TABLE "workspaces"`);
+  }
+}
@@ -0,0 +1,77 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateUserGroups1793433600000 implements MigrationInterface {
+  name = 'CreateUserGroups1793433600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "user_groups" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "name" character varying(255) NOT NULL,
+        "description" text,
+        "created_by_id" uuid NOT NULL,
+        "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_user_groups" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_user_groups_created_by" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_user_groups_created_by" ON "user_groups" ("created_by_id");
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "user_group_members" (
+        "group_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_user_group_members" PRIMARY KEY ("group_id", "user_id"),
+        CONSTRAINT "FK_user_group_members_group" FOREIGN KEY ("group_id") REFERENCES "user_groups"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_user_group_members_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    // Role lookups start from the user
+    await queryRunner.query(`
+      CREATE INDEX "IDX_user_group_members_user" ON "user_group_members" ("user_id");
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "whiteboard_group_collaborators_role_enum" AS ENUM ('viewer', 'commenter', 'editor');
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "whiteboard_group_collaborators" (
+        "whiteboard_id" uuid NOT NULL,
+        "group_id" uuid NOT NULL,
+        "role" "whiteboard_group_collaborators_role_enum" NOT NULL DEFAULT 'editor',
+        "created_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_whiteboard_group_collaborators" PRIMARY KEY ("whiteboard_id", "group_id"),
+        CONSTRAINT "FK_whiteboard_group_collaborators_whiteboard" FOREIGN KEY ("whiteboard_id") REFERENCES "whiteboards"("id") ON DELETE CASCADE,
+        CONSTRAINT "FK_whiteboard_group_collaborators_group" FOREIGN KEY ("group_id") REFERENCES "user_groups"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_whiteboard_group_collaborators_group" ON "whiteboard_group_collaborators" ("group_id");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_whiteboard_group_collaborators_group"`,
+    );
+    await queryRunner.query(`DROP TABLE "whiteboard_group_collaborators"`);
+    await queryRunner.query(
+      `DROP TYPE "whiteboard_group_collaborators_role_enum"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_user_group_members_user"`,
+    );
+    await queryRunner.query(`DROP TABLE "user_group_members"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_user_groups_created_by"`);
+    await queryRunner.query(`DROP TABLE "user_groups"`);
+  }
+}
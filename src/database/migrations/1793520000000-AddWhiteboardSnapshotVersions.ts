@@ -0,0 +1,77 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddWhiteboardSnapshotVersions1793520000000
+  implements MigrationInterface
+{
+  name = 'AddWhiteboardSnapshotVersions1793520000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "whiteboard_snapshots_kind_enum" AS ENUM ('autosave', 'checkpoint', 'restore');
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "whiteboard_snapshots"
+      ADD COLUMN "version" integer,
+      ADD COLUMN "kind" "whiteboard_snapshots_kind_enum" NOT NULL DEFAULT 'autosave',
+      ADD COLUMN "name" character varying(255),
+      ADD COLUMN "created_by_id" uuid,
+      ADD COLUMN "restored_from_version" integer,
+      ADD CONSTRAINT "FK_whiteboard_snapshots_created_by" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE SET NULL
+    `);
+
+    // Existing snapshots become the first versions of their board, oldest first
+    await queryRunner.query(`
+      UPDATE "whiteboard_snapshots" AS "snapshot"
+      SET "version" = "numbered"."version"
+      FROM (
+        SELECT "id", ROW_NUMBER() OVER (PARTITION BY "whiteboard_id" ORDER BY "created_at", "id") AS "version"
+        FROM "whiteboard_snapshots"
+      ) AS "numbered"
+      WHERE "snapshot"."id" = "numbered"."id"
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "whiteboard_snapshots" ALTER COLUMN "version" SET NOT NULL
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_whiteboard_snapshots_whiteboard_version" ON "whiteboard_snapshots" ("whiteboard_id", "version");
+    `);
+
+    // Version numbers are taken from the whiteboard row, like operation sequences
+    await queryRunner.query(`
+      ALTER TABLE "whiteboards" ADD COLUMN "last_snapshot_version" integer NOT NULL DEFAULT 0
+    `);
+
+    await queryRunner.query(`
+      UPDATE "whiteboards" AS "whiteboard"
+      SET "last_snapshot_version" = "latest"."version"
+      FROM (
+        SELECT "whiteboard_id", MAX("version") AS "version"
+        FROM "whiteboard_snapshots"
+        GROUP BY "whiteboard_id"
+      ) AS "latest"
+      WHERE "whiteboard"."id" = "latest"."whiteboard_id"
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "whiteboards" DROP COLUMN "last_snapshot_version"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_whiteboard_snapshots_whiteboard_version"`,
+    );
+    await queryRunner.query(`
+      ALTER TABLE "whiteboard_snapshots"
+      DROP CONSTRAINT "FK_whiteboard_snapshots_created_by",
+      DROP COLUMN "restored_from_version",
+      DROP COLUMN "created_by_id",
+      DROP COLUMN "name",
+      DROP COLUMN "kind",
+      DROP COLUMN "version"
+    `);
+    await queryRunner.query(`DROP TYPE "whiteboard_snapshots_kind_enum"`);
+  }
+}
@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSnapshotRetention1793606400000 implements MigrationInterface {
+  name = 'AddSnapshotRetention1793606400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "whiteboard_snapshots" ADD COLUMN "pinned" boolean NOT NULL DEFAULT false
+    `);
+
+    // Checkpoints were named on purpose, so the retention job keeps them
+    await queryRunner.query(`
+      UPDATE "whiteboard_snapshots" SET "pinned" = true WHERE "kind" = 'checkpoint'
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "whiteboards" ADD COLUMN "retention_policy" jsonb
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "whiteboards" DROP COLUMN "retention_policy"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "whiteboard_snapshots" DROP COLUMN "pinned"`,
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddWhiteboardSnapshotRevision1793692800000
+  implements MigrationInterface
+{
+  name = 'AddWhiteboardSnapshotRevision1793692800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "whiteboard_snapshots" ADD COLUMN "revision" integer NOT NULL DEFAULT 1
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "whiteboard_snapshots" DROP COLUMN "revision"`,
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddWhiteboardCompactedSequence1793865600000
+  implements MigrationInterface
+{
+  name = 'AddWhiteboardCompactedSequence1793865600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "whiteboards" ADD COLUMN "compacted_sequence" integer NOT NULL DEFAULT 0
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "whiteboards" DROP COLUMN "compacted_sequence"`,
+    );
+  }
+}
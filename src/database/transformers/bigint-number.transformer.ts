@@ -0,0 +1,12 @@
+import { ValueTransformer } from 'typeorm';
+
+/**
+ * Reads a bigint column as a number
+ * node-postgres returns int8 as a string; the values stored through it
+ * (clocks, counters) stay far below Number.MAX_SAFE_INTEGER
+ */
+export const bigintNumberTransformer: ValueTransformer = {
+  to: (value: number | null | undefined) => value,
+  from: (value: string | number | null) =>
+    value === null ? null : Number(value),
+};
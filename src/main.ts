@@ -3,6 +3,8 @@ import { ValidationPipe } from '@nestjs/common';
 import { AppModule } from './app.module';
 import cookieParser from 'cookie-parser';
 import { UnauthorizedExceptionFilter } from './common/filters/unauthorized-exception.filter';
+import { PubSubBroker } from './pubsub/pubsub-broker';
+import { PubSubIoAdapter } from './websocket/adapters/pubsub-io.adapter';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
@@ -12,7 +14,8 @@ async function bootstrap() {
     origin: process.env.FRONTEND_URL || 'http://localhost:3000',
     credentials: true, // Allow cookies to be sent
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'If-Match'],
+    exposedHeaders: ['ETag'], // Version tags of snapshots
   });
   
   // Set global API prefix
@@ -35,6 +38,11 @@ async function bootstrap() {
   
   // Note: WebSocket (Socket.IO) CORS is configured in WhiteboardGateway
   // The gateway is accessible at /whiteboard namespace
+
+  // Share Socket.IO rooms and broadcasts with the other API processes
+  // (see PUBSUB_BACKEND)
+  app.useWebSocketAdapter(new PubSubIoAdapter(app, app.get(PubSubBroker)));
+  app.enableShutdownHooks();
   
   await app.listen(process.env.PORT ?? 8000);
 }
@@ -0,0 +1,46 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryColumn,
+} from 'typeorm';
+import { Whiteboard } from '../../whiteboards/entities/whiteboard.entity';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * A socket connection to a whiteboard, shared between API processes
+ * Each process refreshes seenAt of its own rows; rows of a process that
+ * stopped refreshing them (e.g. crashed) expire
+ */
+@Entity({ name: 'whiteboard_presence' })
+@Index('IDX_whiteboard_presence_server_id', ['serverId'])
+export class WhiteboardPresence {
+  @PrimaryColumn({ name: 'whiteboard_id', type: 'uuid' })
+  whiteboardId: string;
+
+  @ManyToOne(() => Whiteboard, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'whiteboard_id' })
+  whiteboard: Whiteboard;
+
+  @PrimaryColumn({ name: 'socket_id', type: 'varchar', length: 64 })
+  socketId: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  // ID of the API process the socket is connected to
+  @Column({ name: 'server_id', type: 'uuid' })
+  serverId: string;
+
+  @Column({ name: 'joined_at', type: 'timestamp with time zone' })
+  joinedAt: Date;
+
+  @Column({ name: 'seen_at', type: 'timestamp with time zone' })
+  seenAt: Date;
+}
@@ -0,0 +1,25 @@
+import { PRESENCE_COLORS, getPresenceColor } from './presence-color';
+
+describe('getPresenceColor', () => {
+  it('should give a user the same colour every time', () => {
+    expect(getPresenceColor('user-1')).toBe(getPresenceColor('user-1'));
+  });
+
+  it('should pick from the presence palette', () => {
+    for (const userId of [
+      'a',
+      'user-1',
+      'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+    ]) {
+      expect(PRESENCE_COLORS).toContain(getPresenceColor(userId));
+    }
+  });
+
+  it('should spread users over the palette', () => {
+    const colors = new Set(
+      Array.from({ length: 50 }, (_, i) => getPresenceColor(`user-${i}`)),
+    );
+
+    expect(colors.size).toBeGreaterThan(PRESENCE_COLORS.length / 2);
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Colours handed out to participants for their cursor and selection
+ * Picked to stay readable on a white board
+ */
+export const PRESENCE_COLORS = [
+  '#e6194b',
+  '#3cb44b',
+  '#4363d8',
+  '#f58231',
+  '#911eb4',
+  '#42d4f4',
+  '#f032e6',
+  '#469990',
+  '#9a6324',
+  '#800000',
+  '#808000',
+  '#000075',
+] as const;
+
+/**
+ * Get the presence colour of a user
+ * The colour is derived from the user ID (FNV-1a hash), so it is the same on
+ * every connection, server instance and whiteboard
+ * @param userId - User ID
+ * @returns Hex colour from PRESENCE_COLORS
+ */
+export const getPresenceColor = (userId: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < userId.length; i++) {
+    hash ^= userId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return PRESENCE_COLORS[(hash >>> 0) % PRESENCE_COLORS.length];
+};
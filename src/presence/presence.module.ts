@@ -0,0 +1,39 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule, getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { PresenceService } from './presence.service';
+import { WhiteboardPresence } from './entities/whiteboard-presence.entity';
+import { PresenceStore } from './stores/presence-store';
+import { MemoryPresenceStore } from './stores/memory-presence.store';
+import { PostgresPresenceStore } from './stores/postgres-presence.store';
+
+/**
+ * Pick the presence store from PRESENCE_STORE
+ * - memory (default): for a single API process
+ * - postgres: the whiteboard_presence table, shared by several processes
+ */
+const createPresenceStore = (
+  presenceRepository: Repository<WhiteboardPresence>,
+): PresenceStore =>
+  process.env.PRESENCE_STORE === 'postgres'
+    ? new PostgresPresenceStore(presenceRepository)
+    : new MemoryPresenceStore();
+
+/**
+ * Presence Module
+ * Tracks who is connected to which whiteboard, for the WebSocket gateway
+ * and the participants endpoint
+ */
+@Module({
+  imports: [TypeOrmModule.forFeature([WhiteboardPresence])],
+  providers: [
+    PresenceService,
+    {
+      provide: PresenceStore,
+      useFactory: createPresenceStore,
+      inject: [getRepositoryToken(WhiteboardPresence)],
+    },
+  ],
+  exports: [PresenceService],
+})
+export class PresenceModule {}
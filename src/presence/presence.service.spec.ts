@@ -0,0 +1,119 @@
+import { PresenceService } from './presence.service';
+import { MemoryPresenceStore } from './stores/memory-presence.store';
+import { getPresenceColor } from './presence-color';
+import { User } from '../users/entities/user.entity';
+
+const ada = { id: 'user-1', email: 'ada@example.com', fullName: 'Ada' } as User;
+const alan = {
+  id: 'user-2',
+  email: 'alan@example.com',
+  fullName: 'Alan',
+} as User;
+
+describe('PresenceService', () => {
+  let presenceService: PresenceService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T10:00:00Z') });
+    presenceService = new PresenceService(new MemoryPresenceStore());
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('join', () => {
+    it("should only report a user's first connection to a board", async () => {
+      expect(await presenceService.join('board-1', 'socket-1', ada)).toBe(true);
+      expect(await presenceService.join('board-1', 'socket-2', ada)).toBe(
+        false,
+      );
+      expect(await presenceService.join('board-1', 'socket-3', alan)).toBe(
+        true,
+      );
+    });
+
+    it('should ignore a socket joining the same board twice', async () => {
+      await presenceService.join('board-1', 'socket-1', ada);
+
+      expect(await presenceService.join('board-1', 'socket-1', ada)).toBe(
+        false,
+      );
+      expect(await presenceService.getParticipants('board-1')).toMatchObject([
+        { userId: ada.id, connections: 1 },
+      ]);
+    });
+  });
+
+  describe('leave', () => {
+    it('should keep a user on the board until their last tab leaves', async () => {
+      await presenceService.join('board-1', 'socket-1', ada);
+      await presenceService.join('board-1', 'socket-2', ada);
+
+      expect(await presenceService.leave('board-1', 'socket-1')).toEqual({
+        whiteboardId: 'board-1',
+        userId: ada.id,
+        email: ada.email,
+        lastConnection: false,
+      });
+      expect(await presenceService.leave('board-1', 'socket-2')).toMatchObject({
+        lastConnection: true,
+      });
+    });
+
+    it('should return null for a socket that is not on the board', async () => {
+      expect(await presenceService.leave('board-1', 'socket-1')).toBeNull();
+    });
+
+    it('should take a socket off every board it is on', async () => {
+      await presenceService.join('board-1', 'socket-1', ada);
+      await presenceService.join('board-2', 'socket-1', ada);
+      await presenceService.join('board-2', 'socket-2', ada);
+
+      const departures = await presenceService.leaveAll('socket-1');
+
+      expect(departures).toEqual([
+        expect.objectContaining({
+          whiteboardId: 'board-1',
+          lastConnection: true,
+        }),
+        expect.objectContaining({
+          whiteboardId: 'board-2',
+          lastConnection: false,
+        }),
+      ]);
+    });
+  });
+
+  describe('getParticipants', () => {
+    it('should list each user once with their oldest join time', async () => {
+      await presenceService.join('board-1', 'socket-1', ada);
+      jest.advanceTimersByTime(1000);
+      await presenceService.join('board-1', 'socket-2', alan);
+      await presenceService.join('board-1', 'socket-3', ada);
+
+      expect(await presenceService.getParticipants('board-1')).toEqual([
+        {
+          userId: ada.id,
+          email: ada.email,
+          fullName: 'Ada',
+          color: getPresenceColor(ada.id),
+          joinedAt: new Date('2026-01-01T10:00:00Z'),
+          connections: 2,
+        },
+        {
+          userId: alan.id,
+          email: alan.email,
+          fullName: 'Alan',
+          color: getPresenceColor(alan.id),
+          joinedAt: new Date('2026-01-01T10:00:01Z'),
+          connections: 1,
+        },
+      ]);
+    });
+
+    it('should return an empty roster for a board nobody is on', async () => {
+      expect(await presenceService.getParticipants('board-1')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { Injectable } from '@nestjs/common';
+import { User } from '../users/entities/user.entity';
+import { getPresenceColor } from './presence-color';
+import { PresenceStore } from './stores/presence-store';
+
+/**
+ * A user on a whiteboard, aggregated over all of their connections
+ */
+export interface Participant {
+  userId: string;
+  email: string;
+  fullName: string | null;
+  color: string;
+  // When the user's oldest open connection joined
+  joinedAt: Date;
+  connections: number;
+}
+
+/**
+ * Result of removing a connection from a whiteboard
+ */
+export interface PresenceDeparture {
+  whiteboardId: string;
+  userId: string;
+  email: string;
+  // True if it was the user's last connection to the whiteboard
+  lastConnection: boolean;
+}
+
+/**
+ * Presence Service
+ * Tracks which socket connections are on which whiteboard
+ *
+ * Presence is kept per socket, so a user with several tabs open stays on a
+ * board until their last tab leaves it. The roster aggregates connections
+ * per user. Connections live in the PresenceStore, which may be shared by
+ * several API processes.
+ */
+@Injectable()
+export class PresenceService {
+  constructor(private readonly presenceStore: PresenceStore) {}
+
+  /**
+   * Record that a socket joined a whiteboard
+   * @param whiteboardId - Whiteboard ID
+   * @param socketId - Socket.IO socket ID
+   * @param user - User the socket belongs to
+   * @returns True if it is the user's first connection to the whiteboard
+   */
+  async join(
+    whiteboardId: string,
+    socketId: string,
+    user: User,
+  ): Promise<boolean> {
+    const added = await this.presenceStore.add(whiteboardId, {
+      socketId,
+      userId: user.id,
+      email: user.email,
+      fullName: user.fullName ?? null,
+      joinedAt: new Date(),
+    });
+
+    // Joining the same board twice from one socket is a no-op
+    if (!added) {
+      return false;
+    }
+
+    const connections = await this.presenceStore.list(whiteboardId);
+    return (
+      connections.filter((connection) => connection.userId === user.id)
+        .length === 1
+    );
+  }
+
+  /**
+   * Record that a socket left a whiteboard
+   * @param whiteboardId - Whiteboard ID
+   * @param socketId - Socket.IO socket ID
+   * @returns The departure, or null if the socket wasn't on the whiteboard
+   */
+  async leave(
+    whiteboardId: string,
+    socketId: string,
+  ): Promise<PresenceDeparture | null> {
+    const connection = await this.presenceStore.remove(whiteboardId, socketId);
+    if (!connection) {
+      return null;
+    }
+
+    const connections = await this.presenceStore.list(whiteboardId);
+    return {
+      whiteboardId,
+      userId: connection.userId,
+      email: connection.email,
+      lastConnection: !connections.some(
+        (other) => other.userId === connection.userId,
+      ),
+    };
+  }
+
+  /**
+   * Remove a socket from every whiteboard it is on (e.g. on disconnect)
+   * @param socketId - Socket.IO socket ID
+   * @returns One departure per whiteboard the socket was on
+   */
+  async leaveAll(socketId: string): Promise<PresenceDeparture[]> {
+    const departures: PresenceDeparture[] = [];
+
+    for (const whiteboardId of await this.presenceStore.findWhiteboardIds(
+      socketId,
+    )) {
+      const departure = await this.leave(whiteboardId, socketId);
+      if (departure) {
+        departures.push(departure);
+      }
+    }
+
+    return departures;
+  }
+
+  /**
+   * Get the live roster of a whiteboard
+   * @param whiteboardId - Whiteboard ID
+   * @returns One participant per user, longest present first
+   */
+  async getParticipants(whiteboardId: string): Promise<Participant[]> {
+    const participants = new Map<string, Participant>();
+
+    for (const connection of await this.presenceStore.list(whiteboardId)) {
+      const participant = participants.get(connection.userId);
+      if (!participant) {
+        participants.set(connection.userId, {
+          userId: connection.userId,
+          email: connection.email,
+          fullName: connection.fullName,
+          color: getPresenceColor(connection.userId),
+          joinedAt: connection.joinedAt,
+          connections: 1,
+        });
+        continue;
+      }
+
+      participant.connections++;
+      if (connection.joinedAt < participant.joinedAt) {
+        participant.joinedAt = connection.joinedAt;
+      }
+    }
+
+    return Array.from(participants.values()).sort(
+      (a, b) => a.joinedAt.getTime() - b.joinedAt.getTime(),
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { MemoryPresenceStore } from './memory-presence.store';
+import { PresenceConnection } from './presence-store';
+
+const connection = (
+  socketId: string,
+  userId = 'user-1',
+): PresenceConnection => ({
+  socketId,
+  userId,
+  email: `${userId}@example.com`,
+  fullName: null,
+  joinedAt: new Date(0),
+});
+
+describe('MemoryPresenceStore', () => {
+  let store: MemoryPresenceStore;
+
+  beforeEach(() => {
+    store = new MemoryPresenceStore();
+  });
+
+  it('should list the connections on a board', async () => {
+    expect(await store.add('board-1', connection('socket-1'))).toBe(true);
+    expect(await store.add('board-1', connection('socket-2', 'user-2'))).toBe(
+      true,
+    );
+    await store.add('board-2', connection('socket-3'));
+
+    expect(await store.list('board-1')).toEqual([
+      connection('socket-1'),
+      connection('socket-2', 'user-2'),
+    ]);
+  });
+
+  it('should not add a socket to the same board twice', async () => {
+    await store.add('board-1', connection('socket-1'));
+
+    expect(await store.add('board-1', connection('socket-1'))).toBe(false);
+    expect(await store.list('board-1')).toHaveLength(1);
+  });
+
+  it('should find the boards a socket is on', async () => {
+    await store.add('board-1', connection('socket-1'));
+    await store.add('board-2', connection('socket-1'));
+    await store.add('board-3', connection('socket-2'));
+
+    expect(await store.findWhiteboardIds('socket-1')).toEqual([
+      'board-1',
+      'board-2',
+    ]);
+  });
+
+  it('should return the removed connection, or null if it was not there', async () => {
+    await store.add('board-1', connection('socket-1'));
+
+    expect(await store.remove('board-1', 'socket-1')).toEqual(
+      connection('socket-1'),
+    );
+    expect(await store.remove('board-1', 'socket-1')).toBeNull();
+    expect(await store.list('board-1')).toEqual([]);
+    expect(await store.findWhiteboardIds('socket-1')).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+import { PresenceConnection, PresenceStore } from './presence-store';
+
+/**
+ * Presence store kept in process memory
+ * Only suitable when a single API process serves every socket
+ */
+export class MemoryPresenceStore extends PresenceStore {
+  // whiteboardId -> socketId -> connection
+  private readonly boards = new Map<string, Map<string, PresenceConnection>>();
+
+  add(whiteboardId: string, connection: PresenceConnection): Promise<boolean> {
+    const connections =
+      this.boards.get(whiteboardId) ?? new Map<string, PresenceConnection>();
+    this.boards.set(whiteboardId, connections);
+
+    if (connections.has(connection.socketId)) {
+      return Promise.resolve(false);
+    }
+
+    connections.set(connection.socketId, connection);
+    return Promise.resolve(true);
+  }
+
+  remove(
+    whiteboardId: string,
+    socketId: string,
+  ): Promise<PresenceConnection | null> {
+    const connections = this.boards.get(whiteboardId);
+    const connection = connections?.get(socketId) ?? null;
+
+    if (connections && connection) {
+      connections.delete(socketId);
+      if (connections.size === 0) {
+        this.boards.delete(whiteboardId);
+      }
+    }
+
+    return Promise.resolve(connection);
+  }
+
+  findWhiteboardIds(socketId: string): Promise<string[]> {
+    return Promise.resolve(
+      Array.from(this.boards.entries())
+        .filter(([, connections]) => connections.has(socketId))
+        .map(([whiteboardId]) => whiteboardId),
+    );
+  }
+
+  list(whiteboardId: string): Promise<PresenceConnection[]> {
+    return Promise.resolve(
+      Array.from(this.boards.get(whiteboardId)?.values() ?? []),
+    );
+  }
+}
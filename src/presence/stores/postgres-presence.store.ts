@@ -0,0 +1,132 @@
+import { Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { LessThan, MoreThan, Repository } from 'typeorm';
+import { WhiteboardPresence } from '../entities/whiteboard-presence.entity';
+import { PresenceConnection, PresenceStore } from './presence-store';
+
+// How often a process refreshes the rows of its own sockets
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+// Rows not refreshed for this long belong to a process that is gone
+const PRESENCE_TTL_MS = 45_000;
+
+/**
+ * Presence store in the whiteboard_presence table
+ * Shared by every API process connected to the same database
+ */
+export class PostgresPresenceStore
+  extends PresenceStore
+  implements OnModuleInit, OnModuleDestroy
+{
+  // Identifies this process' rows
+  private readonly serverId = randomUUID();
+  private heartbeat: NodeJS.Timeout | null = null;
+  private readonly logger = new Logger(PostgresPresenceStore.name);
+
+  constructor(
+    private readonly presenceRepository: Repository<WhiteboardPresence>,
+  ) {
+    super();
+  }
+
+  onModuleInit(): void {
+    this.heartbeat = setInterval(() => {
+      void this.refresh();
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+    }
+    await this.presenceRepository.delete({ serverId: this.serverId });
+  }
+
+  async add(
+    whiteboardId: string,
+    connection: PresenceConnection,
+  ): Promise<boolean> {
+    const result = await this.presenceRepository
+      .createQueryBuilder()
+      .insert()
+      .values({
+        whiteboardId,
+        socketId: connection.socketId,
+        userId: connection.userId,
+        serverId: this.serverId,
+        joinedAt: connection.joinedAt,
+        seenAt: new Date(),
+      })
+      .orIgnore()
+      .returning(['socket_id'])
+      .execute();
+
+    return (result.raw as unknown[]).length > 0;
+  }
+
+  async remove(
+    whiteboardId: string,
+    socketId: string,
+  ): Promise<PresenceConnection | null> {
+    const presence = await this.presenceRepository.findOne({
+      where: { whiteboardId, socketId },
+      relations: ['user'],
+    });
+    if (!presence) {
+      return null;
+    }
+
+    await this.presenceRepository.delete({ whiteboardId, socketId });
+    return this.toConnection(presence);
+  }
+
+  async findWhiteboardIds(socketId: string): Promise<string[]> {
+    const rows = await this.presenceRepository.find({
+      where: { socketId, serverId: this.serverId },
+      select: ['whiteboardId'],
+    });
+    return rows.map((row) => row.whiteboardId);
+  }
+
+  async list(whiteboardId: string): Promise<PresenceConnection[]> {
+    const rows = await this.presenceRepository.find({
+      where: {
+        whiteboardId,
+        seenAt: MoreThan(new Date(Date.now() - PRESENCE_TTL_MS)),
+      },
+      relations: ['user'],
+      order: { joinedAt: 'ASC' },
+    });
+    return rows.map((row) => this.toConnection(row));
+  }
+
+  /**
+   * Keep this process' rows alive and drop those of processes that are gone
+   */
+  private async refresh(): Promise<void> {
+    try {
+      await this.presenceRepository.update(
+        { serverId: this.serverId },
+        { seenAt: new Date() },
+      );
+      await this.presenceRepository.delete({
+        seenAt: LessThan(new Date(Date.now() - PRESENCE_TTL_MS)),
+      });
+    } catch (error) {
+      // Retried on the next heartbeat
+      this.logger.warn(
+        `Failed to refresh presence: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private toConnection(presence: WhiteboardPresence): PresenceConnection {
+    return {
+      socketId: presence.socketId,
+      userId: presence.userId,
+      email: presence.user.email,
+      fullName: presence.user.fullName ?? null,
+      joinedAt: presence.joinedAt,
+    };
+  }
+}
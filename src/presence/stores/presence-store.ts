@@ -0,0 +1,44 @@
+/**
+ * One socket connection of a user to a whiteboard
+ */
+export interface PresenceConnection {
+  socketId: string;
+  userId: string;
+  email: string;
+  fullName: string | null;
+  joinedAt: Date;
+}
+
+/**
+ * Storage of the connections on each whiteboard
+ * Used as the injection token; the implementation is picked by PRESENCE_STORE
+ */
+export abstract class PresenceStore {
+  /**
+   * Add a connection to a whiteboard
+   * @returns False if the socket was already on the whiteboard
+   */
+  abstract add(
+    whiteboardId: string,
+    connection: PresenceConnection,
+  ): Promise<boolean>;
+
+  /**
+   * Remove a connection from a whiteboard
+   * @returns The removed connection, or null if it wasn't there
+   */
+  abstract remove(
+    whiteboardId: string,
+    socketId: string,
+  ): Promise<PresenceConnection | null>;
+
+  /**
+   * Get the IDs of the whiteboards a socket is on
+   */
+  abstract findWhiteboardIds(socketId: string): Promise<string[]>;
+
+  /**
+   * Get every connection on a whiteboard, across all API processes
+   */
+  abstract list(whiteboardId: string): Promise<PresenceConnection[]>;
+}
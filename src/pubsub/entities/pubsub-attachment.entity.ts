@@ -0,0 +1,22 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+/**
+ * Payload of a pub/sub message too big for a Postgres NOTIFY
+ * The notification only carries the row ID; rows are pruned after a minute
+ */
+@Entity({ name: 'pubsub_attachments' })
+export class PubSubAttachment {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id: string;
+
+  @Column({ type: 'text' })
+  payload: string;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp with time zone' })
+  createdAt: Date;
+}
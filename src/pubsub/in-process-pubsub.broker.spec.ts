@@ -0,0 +1,51 @@
+import { InProcessPubSubBroker } from './in-process-pubsub.broker';
+
+// Messages are delivered on a later turn of the event loop
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('InProcessPubSubBroker', () => {
+  let broker: InProcessPubSubBroker;
+
+  beforeEach(() => {
+    broker = new InProcessPubSubBroker();
+  });
+
+  it('should deliver a copy of a message to every subscriber later', async () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    await broker.subscribe('board', first);
+    await broker.subscribe('board', second);
+
+    const message = { shapes: [{ id: 'a' }] };
+    await broker.publish('board', message);
+
+    expect(first).not.toHaveBeenCalled();
+
+    await flush();
+
+    expect(first).toHaveBeenCalledWith(message);
+    expect(second).toHaveBeenCalledWith(message);
+    expect(first.mock.calls[0][0]).not.toBe(message);
+  });
+
+  it('should only deliver to subscribers of the channel', async () => {
+    const handler = jest.fn();
+    await broker.subscribe('board-1', handler);
+
+    await broker.publish('board-2', 'hello');
+    await flush();
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should stop delivering once unsubscribed', async () => {
+    const handler = jest.fn();
+    const unsubscribe = await broker.subscribe('board', handler);
+
+    await unsubscribe();
+    await broker.publish('board', 'hello');
+    await flush();
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,34 @@
+import { EventEmitter } from 'events';
+import { PubSubBroker, PubSubHandler } from './pubsub-broker';
+
+/**
+ * Pub/sub broker that only reaches subscribers in the same process
+ * The default for a single API process, and handy for running several
+ * Socket.IO servers side by side in one process
+ */
+export class InProcessPubSubBroker extends PubSubBroker {
+  private readonly emitter = new EventEmitter().setMaxListeners(0);
+
+  publish(channel: string, message: unknown): Promise<void> {
+    const payload = JSON.stringify(message);
+
+    // Deliver later and as a copy, like a network broker would
+    setImmediate(() => {
+      this.emitter.emit(channel, JSON.parse(payload));
+    });
+
+    return Promise.resolve();
+  }
+
+  subscribe(
+    channel: string,
+    handler: PubSubHandler,
+  ): Promise<() => Promise<void>> {
+    this.emitter.on(channel, handler);
+
+    return Promise.resolve(() => {
+      this.emitter.off(channel, handler);
+      return Promise.resolve();
+    });
+  }
+}
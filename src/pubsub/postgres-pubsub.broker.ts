@@ -0,0 +1,181 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { Client, ClientConfig, Notification } from 'pg';
+import { PubSubBroker, PubSubHandler } from './pubsub-broker';
+
+// NOTIFY payloads must stay below 8000 bytes; bigger ones go through pubsub_attachments
+const MAX_NOTIFY_PAYLOAD_BYTES = 7900;
+
+// Attachments older than this are deleted, every subscriber has read them by then
+const ATTACHMENT_TTL_SECONDS = 60;
+
+const RECONNECT_DELAY_MS = 2000;
+
+/**
+ * What is actually sent in a notification
+ */
+type Envelope = { message: unknown } | { attachmentId: string };
+
+/**
+ * Pub/sub broker on top of Postgres LISTEN/NOTIFY
+ * Lets several API processes that share a database talk to each other
+ * without extra infrastructure
+ *
+ * One dedicated connection listens to every subscribed channel. If it
+ * drops, the broker reconnects and listens again; messages published in
+ * between are lost.
+ */
+export class PostgresPubSubBroker
+  extends PubSubBroker
+  implements OnModuleDestroy
+{
+  private readonly logger = new Logger(PostgresPubSubBroker.name);
+  private readonly handlers = new Map<string, Set<PubSubHandler>>();
+  private client: Promise<Client> | null = null;
+  private closed = false;
+
+  constructor(private readonly config: ClientConfig) {
+    super();
+  }
+
+  async publish(channel: string, message: unknown): Promise<void> {
+    const client = await this.getClient();
+    let payload = JSON.stringify({ message } satisfies Envelope);
+
+    if (Buffer.byteLength(payload) > MAX_NOTIFY_PAYLOAD_BYTES) {
+      const result = await client.query<{ id: string }>(
+        'INSERT INTO "pubsub_attachments" ("payload") VALUES ($1) RETURNING "id"',
+        [payload],
+      );
+      payload = JSON.stringify({
+        attachmentId: result.rows[0].id,
+      } satisfies Envelope);
+
+      await client.query(
+        `DELETE FROM "pubsub_attachments" WHERE "created_at" < now() - interval '${ATTACHMENT_TTL_SECONDS} seconds'`,
+      );
+    }
+
+    await client.query('SELECT pg_notify($1, $2)', [channel, payload]);
+  }
+
+  async subscribe(
+    channel: string,
+    handler: PubSubHandler,
+  ): Promise<() => Promise<void>> {
+    const client = await this.getClient();
+
+    let handlers = this.handlers.get(channel);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(channel, handlers);
+      await client.query(`LISTEN ${client.escapeIdentifier(channel)}`);
+    }
+    handlers.add(handler);
+
+    return async () => {
+      handlers.delete(handler);
+      if (handlers.size > 0 || this.handlers.get(channel) !== handlers) {
+        return;
+      }
+
+      this.handlers.delete(channel);
+      const current = await this.getClient();
+      await current.query(`UNLISTEN ${current.escapeIdentifier(channel)}`);
+    };
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    this.closed = true;
+    const client = await this.client?.catch(() => null);
+    await client?.end();
+  }
+
+  /**
+   * Get the listening connection, connecting (and re-listening) if needed
+   */
+  private getClient(): Promise<Client> {
+    if (!this.client) {
+      const pending = this.connect();
+      this.client = pending;
+
+      // Let the next call try again
+      pending.catch(() => {
+        if (this.client === pending) {
+          this.client = null;
+        }
+      });
+    }
+    return this.client;
+  }
+
+  private async connect(): Promise<Client> {
+    const client = new Client(this.config);
+
+    client.on('notification', (notification) => {
+      void this.dispatch(client, notification);
+    });
+    client.on('error', (error) => this.handleConnectionLoss(client, error));
+
+    await client.connect();
+    for (const channel of this.handlers.keys()) {
+      await client.query(`LISTEN ${client.escapeIdentifier(channel)}`);
+    }
+
+    return client;
+  }
+
+  private handleConnectionLoss(client: Client, error: Error): void {
+    this.logger.error(`Pub/sub connection lost: ${error.message}`);
+    this.client = null;
+    void client.end().catch(() => undefined);
+
+    if (this.closed || this.handlers.size === 0) {
+      return;
+    }
+
+    // Subscribers keep their handlers; listen again on a new connection
+    setTimeout(() => {
+      this.getClient().catch((reconnectError: Error) =>
+        this.handleConnectionLoss(client, reconnectError),
+      );
+    }, RECONNECT_DELAY_MS);
+  }
+
+  private async dispatch(
+    client: Client,
+    notification: Notification,
+  ): Promise<void> {
+    const handlers = this.handlers.get(notification.channel);
+    if (!handlers || !notification.payload) {
+      return;
+    }
+
+    try {
+      let envelope = JSON.parse(notification.payload) as Envelope;
+
+      if ('attachmentId' in envelope) {
+        const result = await client.query<{ payload: string }>(
+          'SELECT "payload" FROM "pubsub_attachments" WHERE "id" = $1',
+          [envelope.attachmentId],
+        );
+        if (result.rows.length === 0) {
+          this.logger.warn(
+            `Pub/sub attachment ${envelope.attachmentId} on ${notification.channel} expired`,
+          );
+          return;
+        }
+        envelope = JSON.parse(result.rows[0].payload) as Envelope;
+      }
+
+      if ('message' in envelope) {
+        for (const handler of handlers) {
+          handler(envelope.message);
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to handle message on ${notification.channel}: ${(error as Error).message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,28 @@
+export type PubSubHandler = (message: unknown) => void;
+
+/**
+ * Publish/subscribe transport shared by every process of the API
+ * Used as the injection token; the implementation is picked by PUBSUB_BACKEND
+ *
+ * Messages must be JSON-serialisable. Delivery is at most once and
+ * asynchronous, also to subscribers in the publishing process.
+ */
+export abstract class PubSubBroker {
+  /**
+   * Publish a message to every subscriber of a channel
+   * @param channel - Channel name
+   * @param message - JSON-serialisable message
+   */
+  abstract publish(channel: string, message: unknown): Promise<void>;
+
+  /**
+   * Subscribe to a channel
+   * @param channel - Channel name
+   * @param handler - Called with every message published to the channel
+   * @returns Function that cancels the subscription
+   */
+  abstract subscribe(
+    channel: string,
+    handler: PubSubHandler,
+  ): Promise<() => Promise<void>>;
+}
@@ -0,0 +1,37 @@
+import { Module } from '@nestjs/common';
+import { PostgresConnectionOptions } from 'typeorm/driver/postgres/PostgresConnectionOptions';
+import { typeOrmConfig } from '../config/typeorm.config';
+import { PubSubBroker } from './pubsub-broker';
+import { InProcessPubSubBroker } from './in-process-pubsub.broker';
+import { PostgresPubSubBroker } from './postgres-pubsub.broker';
+
+/**
+ * Pick the pub/sub backend from PUBSUB_BACKEND
+ * - memory (default): in-process only, for a single API process
+ * - postgres: LISTEN/NOTIFY on the application database, for several processes
+ */
+const createPubSubBroker = (): PubSubBroker => {
+  if (process.env.PUBSUB_BACKEND === 'postgres') {
+    const config = typeOrmConfig() as PostgresConnectionOptions;
+    return new PostgresPubSubBroker({
+      host: config.host,
+      port: config.port,
+      user: config.username,
+      password: config.password as string | undefined,
+      database: config.database,
+    });
+  }
+
+  return new InProcessPubSubBroker();
+};
+
+/**
+ * Pub/Sub Module
+ * Provides the PubSubBroker that API processes use to reach each other
+ * (Socket.IO broadcasts, cross-process gateway events)
+ */
+@Module({
+  providers: [{ provide: PubSubBroker, useFactory: createPubSubBroker }],
+  exports: [PubSubBroker],
+})
+export class PubSubModule {}
@@ -0,0 +1,46 @@
+import {
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryColumn,
+} from 'typeorm';
+import { Whiteboard } from '../../whiteboards/entities/whiteboard.entity';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Short-lived edit lease on one shape of a whiteboard
+ * Held by a single socket connection; a row whose expiresAt has passed no
+ * longer locks anything and may be taken over
+ */
+@Entity({ name: 'whiteboard_shape_locks' })
+@Index('IDX_whiteboard_shape_locks_socket_id', ['socketId'])
+@Index('IDX_whiteboard_shape_locks_expires_at', ['expiresAt'])
+export class WhiteboardShapeLock {
+  @PrimaryColumn({ name: 'whiteboard_id', type: 'uuid' })
+  whiteboardId: string;
+
+  @ManyToOne(() => Whiteboard, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'whiteboard_id' })
+  whiteboard: Whiteboard;
+
+  @PrimaryColumn({ name: 'shape_id', type: 'varchar', length: 128 })
+  shapeId: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ name: 'socket_id', type: 'varchar', length: 64 })
+  socketId: string;
+
+  @Column({ name: 'acquired_at', type: 'timestamp with time zone' })
+  acquiredAt: Date;
+
+  @Column({ name: 'expires_at', type: 'timestamp with time zone' })
+  expiresAt: Date;
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ShapeLocksService } from './shape-locks.service';
+import { WhiteboardShapeLock } from './entities/whiteboard-shape-lock.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([WhiteboardShapeLock])],
+  providers: [ShapeLocksService],
+  exports: [ShapeLocksService],
+})
+export class ShapeLocksModule {}
@@ -0,0 +1,254 @@
+import { ConflictException, Injectable } from '@nestjs/common';
+import { InjectDataSource, InjectRepository } from '@nestjs/typeorm';
+import { DataSource, In, Not, Raw, Repository } from 'typeorm';
+import { WhiteboardShapeLock } from './entities/whiteboard-shape-lock.entity';
+import { User } from '../users/entities/user.entity';
+
+// How long a lock lasts without being renewed
+export const SHAPE_LOCK_TTL_SECONDS = 30;
+
+/**
+ * Lock row as returned by RETURNING clauses
+ */
+interface ShapeLockRow {
+  whiteboard_id: string;
+  shape_id: string;
+  user_id: string;
+  socket_id: string;
+  acquired_at: Date;
+  expires_at: Date;
+}
+
+/**
+ * Outcome of a lock request
+ * Either every requested shape was acquired, or none was and conflicts
+ * lists the locks held by other connections
+ */
+export interface ShapeLockResult {
+  acquired: WhiteboardShapeLock[];
+  conflicts: WhiteboardShapeLock[];
+}
+
+/**
+ * Shape Locks Service
+ * Hands out short-lived edit leases on shapes, so two editors don't type
+ * into the same text box at once
+ *
+ * Locks are stored in the database, so they hold across API processes.
+ * Expiry is checked against the database clock.
+ */
+@Injectable()
+export class ShapeLocksService {
+  constructor(
+    @InjectRepository(WhiteboardShapeLock)
+    private readonly lockRepository: Repository<WhiteboardShapeLock>,
+    @InjectDataSource()
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Lock shapes for a connection
+   * All or nothing: if another connection holds a live lock on any of the
+   * shapes, nothing is locked. Shapes the connection already holds are renewed.
+   * @param whiteboardId - Whiteboard ID
+   * @param shapeIds - IDs of the shapes to lock
+   * @param user - User requesting the locks
+   * @param socketId - Socket.IO socket ID that will hold the locks
+   * @returns Acquired locks, or the conflicting locks
+   */
+  async acquire(
+    whiteboardId: string,
+    shapeIds: string[],
+    user: User,
+    socketId: string,
+  ): Promise<ShapeLockResult> {
+    const ids = Array.from(new Set(shapeIds));
+
+    try {
+      const acquired = await this.dataSource.transaction(async (manager) => {
+        // Only rows that are free, expired or already ours are written
+        const rows: ShapeLockRow[] = await manager.query(
+          `
+          INSERT INTO "whiteboard_shape_locks"
+            ("whiteboard_id", "shape_id", "user_id", "socket_id", "acquired_at", "expires_at")
+          SELECT $1, "shape_id", $3, $4, now(), now() + make_interval(secs => $5)
+          FROM unnest($2::varchar[]) AS "shape_id"
+          ON CONFLICT ("whiteboard_id", "shape_id") DO UPDATE SET
+            "user_id" = EXCLUDED."user_id",
+            "socket_id" = EXCLUDED."socket_id",
+            "acquired_at" = CASE
+              WHEN "whiteboard_shape_locks"."socket_id" = EXCLUDED."socket_id"
+              THEN "whiteboard_shape_locks"."acquired_at"
+              ELSE EXCLUDED."acquired_at"
+            END,
+            "expires_at" = EXCLUDED."expires_at"
+          WHERE "whiteboard_shape_locks"."expires_at" <= now()
+            OR "whiteboard_shape_locks"."socket_id" = EXCLUDED."socket_id"
+          RETURNING *
+          `,
+          [whiteboardId, ids, user.id, socketId, SHAPE_LOCK_TTL_SECONDS],
+        );
+
+        // Someone else holds one of the shapes: roll back the others
+        if (rows.length < ids.length) {
+          throw new ConflictException('Some shapes are locked by someone else');
+        }
+
+        return rows.map((row) => this.toLock(row));
+      });
+
+      return { acquired, conflicts: [] };
+    } catch (error) {
+      if (!(error instanceof ConflictException)) {
+        throw error;
+      }
+
+      return {
+        acquired: [],
+        conflicts: await this.findConflicts(whiteboardId, ids, socketId),
+      };
+    }
+  }
+
+  /**
+   * Extend the locks a connection holds
+   * @param whiteboardId - Whiteboard ID
+   * @param shapeIds - IDs of the shapes to renew
+   * @param socketId - Socket.IO socket ID holding the locks
+   * @returns Renewed locks (locks that already expired are not renewed)
+   */
+  async renew(
+    whiteboardId: string,
+    shapeIds: string[],
+    socketId: string,
+  ): Promise<WhiteboardShapeLock[]> {
+    const result = await this.lockRepository
+      .createQueryBuilder()
+      .update()
+      .set({
+        expiresAt: () => `now() + make_interval(secs => :ttl)`,
+      })
+      .where('whiteboard_id = :whiteboardId', { whiteboardId })
+      .andWhere('shape_id IN (:...shapeIds)', { shapeIds })
+      .andWhere('socket_id = :socketId', { socketId })
+      .andWhere('expires_at > now()')
+      .setParameter('ttl', SHAPE_LOCK_TTL_SECONDS)
+      .returning('*')
+      .execute();
+
+    return (result.raw as ShapeLockRow[]).map((row) => this.toLock(row));
+  }
+
+  /**
+   * Release locks held by a connection
+   * @param socketId - Socket.IO socket ID holding the locks
+   * @param whiteboardId - Only release locks on this whiteboard (all if omitted)
+   * @param shapeIds - Only release these shapes (all if omitted)
+   * @returns Released locks
+   */
+  async release(
+    socketId: string,
+    whiteboardId?: string,
+    shapeIds?: string[],
+  ): Promise<WhiteboardShapeLock[]> {
+    const query = this.lockRepository
+      .createQueryBuilder()
+      .delete()
+      .where('socket_id = :socketId', { socketId });
+
+    if (whiteboardId) {
+      query.andWhere('whiteboard_id = :whiteboardId', { whiteboardId });
+    }
+    if (shapeIds) {
+      query.andWhere('shape_id IN (:...shapeIds)', { shapeIds });
+    }
+
+    const result = await query.returning('*').execute();
+    return (result.raw as ShapeLockRow[]).map((row) => this.toLock(row));
+  }
+
+  /**
+   * Delete every lock that has expired
+   * Each expired lock is returned by exactly one call, even with several
+   * API processes sweeping at once
+   * @returns Expired locks
+   */
+  async releaseExpired(): Promise<WhiteboardShapeLock[]> {
+    const result = await this.lockRepository
+      .createQueryBuilder()
+      .delete()
+      .where('expires_at <= now()')
+      .returning('*')
+      .execute();
+
+    return (result.raw as ShapeLockRow[]).map((row) => this.toLock(row));
+  }
+
+  /**
+   * Get the live locks of a whiteboard
+   * @param whiteboardId - Whiteboard ID
+   * @returns Locks that haven't expired
+   */
+  async findActive(whiteboardId: string): Promise<WhiteboardShapeLock[]> {
+    return await this.lockRepository.find({
+      where: { whiteboardId, expiresAt: Raw((column) => `${column} > now()`) },
+    });
+  }
+
+  /**
+   * Get the live locks other connections hold on some shapes
+   * @param whiteboardId - Whiteboard ID
+   * @param shapeIds - Shape IDs to check (all shapes of the board if omitted)
+   * @param socketId - Socket.IO socket ID whose own locks are ignored
+   * @returns Conflicting locks
+   */
+  async findConflicts(
+    whiteboardId: string,
+    shapeIds: string[] | undefined,
+    socketId: string,
+  ): Promise<WhiteboardShapeLock[]> {
+    return await this.lockRepository.find({
+      where: {
+        whiteboardId,
+        socketId: Not(socketId),
+        expiresAt: Raw((column) => `${column} > now()`),
+        ...(shapeIds ? { shapeId: In(shapeIds) } : {}),
+      },
+    });
+  }
+
+  /**
+   * Get the live locks other users hold on some shapes
+   * For changes made outside a connection (e.g. over HTTP), which may touch
+   * shapes the same user has locked from any of their connections
+   * @param whiteboardId - Whiteboard ID
+   * @param shapeIds - Shape IDs to check
+   * @param userId - User whose own locks are ignored
+   * @returns Conflicting locks
+   */
+  async findHeldByOthers(
+    whiteboardId: string,
+    shapeIds: string[],
+    userId: string,
+  ): Promise<WhiteboardShapeLock[]> {
+    return await this.lockRepository.find({
+      where: {
+        whiteboardId,
+        userId: Not(userId),
+        expiresAt: Raw((column) => `${column} > now()`),
+        shapeId: In(shapeIds),
+      },
+    });
+  }
+
+  private toLock(row: ShapeLockRow): WhiteboardShapeLock {
+    return this.lockRepository.create({
+      whiteboardId: row.whiteboard_id,
+      shapeId: row.shape_id,
+      userId: row.user_id,
+      socketId: row.socket_id,
+      acquiredAt: row.acquired_at,
+      expiresAt: row.expires_at,
+    });
+  }
+}
@@ -0,0 +1,16 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+/**
+ * DTO for renaming a user group or changing its description
+ */
+export class UpdateUserGroupDto {
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name cannot be empty' })
+  @MaxLength(255, { message: 'Name must be at most 255 characters' })
+  @IsOptional()
+  name?: string;
+
+  @IsString({ message: 'Description must be a string' })
+  @IsOptional()
+  description?: string;
+}
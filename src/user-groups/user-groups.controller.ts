@@ -0,0 +1,445 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Patch,
+  Body,
+  Param,
+  HttpStatus,
+  HttpCode,
+  ValidationPipe,
+  ParseUUIDPipe,
+  UseGuards,
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+  Res,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { UserGroupsService } from './user-groups.service';
+import { CreateUserGroupDto } from './dto/create-user-group.dto';
+import { UpdateUserGroupDto } from './dto/update-user-group.dto';
+import { AddUserGroupMemberDto } from './dto/add-user-group-member.dto';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { User } from '../users/entities/user.entity';
+
+@Controller('user-groups')
+@UseGuards(JwtAuthGuard)
+export class UserGroupsController {
+  constructor(private readonly userGroupsService: UserGroupsService) {}
+
+  /**
+   * Create a user group
+   * The current user manages it and is its first member
+   * Requires authentication
+   * @param createUserGroupDto - Group name and optional description
+   * @param user - Current authenticated user (from JWT token)
+   * @returns Created group information
+   */
+  @Post()
+  async create(
+    @Body(ValidationPipe) createUserGroupDto: CreateUserGroupDto,
+    @CurrentUser() user: User,
+  ) {
+    const group = await this.userGroupsService.create(
+      createUserGroupDto.name,
+      createUserGroupDto.description,
+      user,
+    );
+
+    return {
+      statusCode: HttpStatus.CREATED,
+      message: 'Group created successfully',
+      data: {
+        id: group.id,
+        name: group.name,
+        description: group.description,
+        createdById: group.createdById,
+        createdAt: group.createdAt,
+        updatedAt: group.updatedAt,
+      },
+    };
+  }
+
+  /**
+   * Get all groups the current user created or belongs to
+   * Requires authentication
+   * @param user - Current authenticated user (from JWT token)
+   * @returns List of groups
+   */
+  @Get()
+  async getMyGroups(@CurrentUser() user: User) {
+    try {
+      const groups = await this.userGroupsService.findForUser(user.id);
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Groups retrieved successfully',
+        data: groups.map((group) => ({
+          id: group.id,
+          name: group.name,
+          description: group.description,
+          isCreator: group.createdById === user.id,
+          updatedAt: group.updatedAt,
+        })),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to retrieve groups',
+        error: error.message,
+        data: [],
+      };
+    }
+  }
+
+  /**
+   * Get a group with its members (creator and members only)
+   * Requires authentication
+   * @param id - Group ID
+   * @param user - Current authenticated user (creator or member)
+   * @param res - Express response object for setting status codes
+   * @returns Group information with its members
+   */
+  @Get(':id')
+  async getGroupById(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const group = await this.userGroupsService.findVisible(id, user);
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Group retrieved successfully',
+        data: {
+          id: group.id,
+          name: group.name,
+          description: group.description,
+          createdById: group.createdById,
+          members: group.members.map((member) => ({
+            userId: member.userId,
+            user: {
+              id: member.user.id,
+              email: member.user.email,
+              fullName: member.user.fullName,
+            },
+            joinedAt: member.createdAt,
+          })),
+          createdAt: group.createdAt,
+          updatedAt: group.updatedAt,
+        },
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Group not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message || 'You do not have permission to access this group',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to retrieve group',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Rename a group or change its description (creator only)
+   * Requires authentication
+   * @param id - Group ID
+   * @param updateUserGroupDto - New name and/or description
+   * @param user - Current authenticated user (must be the creator)
+   * @param res - Express response object for setting status codes
+   * @returns Updated group information
+   */
+  @Patch(':id')
+  @HttpCode(HttpStatus.OK)
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(ValidationPipe) updateUserGroupDto: UpdateUserGroupDto,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const group = await this.userGroupsService.update(
+        id,
+        updateUserGroupDto,
+        user,
+      );
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Group updated successfully',
+        data: {
+          id: group.id,
+          name: group.name,
+          description: group.description,
+          updatedAt: group.updatedAt,
+        },
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Group not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message || 'You do not have permission to change this group',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to update group',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Delete a group (creator only)
+   * Its members lose the access it gave them
+   * Requires authentication
+   * @param id - Group ID
+   * @param user - Current authenticated user (must be the creator)
+   * @param res - Express response object for setting status codes
+   * @returns Success message
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  async delete(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      await this.userGroupsService.delete(id, user);
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Group deleted successfully',
+        data: null,
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Group not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message || 'You do not have permission to delete this group',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to delete group',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Add a registered user to a group (creator only)
+   * Requires authentication
+   * @param id - Group ID
+   * @param addUserGroupMemberDto - Email of the user to add
+   * @param user - Current authenticated user (must be the creator)
+   * @param res - Express response object for setting status codes
+   * @returns Added member information
+   */
+  @Post(':id/members')
+  @HttpCode(HttpStatus.CREATED)
+  async addMember(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(ValidationPipe) addUserGroupMemberDto: AddUserGroupMemberDto,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const member = await this.userGroupsService.addMember(
+        id,
+        addUserGroupMemberDto.email,
+        user,
+      );
+
+      return {
+        success: true,
+        statusCode: HttpStatus.CREATED,
+        message: 'Member added successfully',
+        data: {
+          userId: member.userId,
+          user: {
+            id: member.user.id,
+            email: member.user.email,
+            fullName: member.user.fullName,
+          },
+          joinedAt: member.createdAt,
+        },
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Group or user not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to add members to this group',
+          data: null,
+        };
+      }
+
+      if (error instanceof ConflictException) {
+        res.status(HttpStatus.CONFLICT);
+        return {
+          success: false,
+          statusCode: HttpStatus.CONFLICT,
+          message:
+            error.message || 'This user is already a member of this group',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to add member',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Remove a member from a group (creator only, or the member to leave)
+   * Requires authentication
+   * @param id - Group ID
+   * @param userId - User ID of the member
+   * @param user - Current authenticated user (the creator, or the member)
+   * @param res - Express response object for setting status codes
+   * @returns Success message
+   */
+  @Delete(':id/members/:userId')
+  @HttpCode(HttpStatus.OK)
+  async removeMember(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      await this.userGroupsService.removeMember(id, userId, user);
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Member removed successfully',
+        data: null,
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Group or member not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to remove members from this group',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to remove member',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+}
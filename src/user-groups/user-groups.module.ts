@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { UserGroupsService } from './user-groups.service';
+import { UserGroupsController } from './user-groups.controller';
+import { UserGroup } from './entities/user-group.entity';
+import { UserGroupMember } from './entities/user-group-member.entity';
+import { WhiteboardGroupCollaborator } from '../whiteboard-collaborators/entities/whiteboard-group-collaborator.entity';
+import { UsersModule } from '../users/users.module';
+import { PubSubModule } from '../pubsub/pubsub.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      UserGroup,
+      UserGroupMember,
+      WhiteboardGroupCollaborator,
+    ]),
+    UsersModule,
+    PubSubModule,
+  ],
+  controllers: [UserGroupsController],
+  providers: [UserGroupsService],
+  exports: [UserGroupsService],
+})
+export class UserGroupsModule {}
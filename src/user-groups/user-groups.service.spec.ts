@@ -0,0 +1,212 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { UserGroupsService } from './user-groups.service';
+import { UserGroup } from './entities/user-group.entity';
+import { UserGroupMember } from './entities/user-group-member.entity';
+import { WhiteboardGroupCollaborator } from '../whiteboard-collaborators/entities/whiteboard-group-collaborator.entity';
+import { User } from '../users/entities/user.entity';
+import { UsersService } from '../users/users.service';
+import { PubSubBroker } from '../pubsub/pubsub-broker';
+import { WHITEBOARD_ACCESS_CHANNEL } from '../whiteboards/whiteboard-access-events';
+
+const GROUP_ID = 'group-1';
+
+const creator = { id: 'creator-1', email: 'creator@example.com' } as User;
+const member = { id: 'member-1', email: 'member@example.com' } as User;
+const newcomer = { id: 'user-2', email: 'grace@example.com' } as User;
+
+describe('UserGroupsService', () => {
+  let service: UserGroupsService;
+  let groupRepository: Record<string, jest.Mock>;
+  let memberRepository: Record<string, jest.Mock>;
+  let usersService: Record<string, jest.Mock>;
+  let pubSubBroker: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    groupRepository = {
+      findOne: jest.fn().mockResolvedValue({
+        id: GROUP_ID,
+        createdById: creator.id,
+        members: [{ userId: creator.id }, { userId: member.id }],
+      }),
+      remove: jest.fn().mockResolvedValue(undefined),
+    };
+    memberRepository = {
+      findOne: jest.fn(({ where }: { where: { userId: string } }) =>
+        Promise.resolve(
+          [creator.id, member.id].includes(where.userId)
+            ? { groupId: GROUP_ID, userId: where.userId }
+            : null,
+        ),
+      ),
+      find: jest
+        .fn()
+        .mockResolvedValue([{ userId: creator.id }, { userId: member.id }]),
+      create: jest.fn((entity: Partial<UserGroupMember>) => ({ ...entity })),
+      save: jest.fn((entity: UserGroupMember) => Promise.resolve(entity)),
+      remove: jest.fn().mockResolvedValue(undefined),
+    };
+    usersService = {
+      findByEmail: jest.fn().mockResolvedValue(newcomer),
+    };
+    pubSubBroker = {
+      publish: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserGroupsService,
+        { provide: getRepositoryToken(UserGroup), useValue: groupRepository },
+        {
+          provide: getRepositoryToken(UserGroupMember),
+          useValue: memberRepository,
+        },
+        {
+          provide: getRepositoryToken(WhiteboardGroupCollaborator),
+          useValue: {
+            find: jest
+              .fn()
+              .mockResolvedValue([
+                { whiteboardId: 'board-1' },
+                { whiteboardId: 'board-2' },
+              ]),
+          },
+        },
+        { provide: UsersService, useValue: usersService },
+        { provide: PubSubBroker, useValue: pubSubBroker },
+      ],
+    }).compile();
+
+    service = app.get<UserGroupsService>(UserGroupsService);
+  });
+
+  /**
+   * Get the whiteboard and user of every access_changed event published
+   */
+  const publishedChanges = () =>
+    pubSubBroker.publish.mock.calls.map(
+      ([channel, event]: [
+        string,
+        { type: string; whiteboardId: string; userId: string },
+      ]) => {
+        expect(channel).toBe(WHITEBOARD_ACCESS_CHANNEL);
+        expect(event.type).toBe('access_changed');
+        return [event.whiteboardId, event.userId];
+      },
+    );
+
+  describe('findVisible', () => {
+    it('should show a group to its members', async () => {
+      await expect(
+        service.findVisible(GROUP_ID, member),
+      ).resolves.toMatchObject({ id: GROUP_ID });
+    });
+
+    it('should hide a group from anyone else', async () => {
+      await expect(
+        service.findVisible(GROUP_ID, newcomer),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+  });
+
+  describe('addMember', () => {
+    it('should add the user and give them the group boards right away', async () => {
+      const added = await service.addMember(
+        GROUP_ID,
+        ' Grace@Example.com ',
+        creator,
+      );
+
+      expect(usersService.findByEmail).toHaveBeenCalledWith(
+        'grace@example.com',
+      );
+      expect(added).toMatchObject({
+        groupId: GROUP_ID,
+        userId: newcomer.id,
+        user: newcomer,
+      });
+      expect(publishedChanges()).toEqual([
+        ['board-1', newcomer.id],
+        ['board-2', newcomer.id],
+      ]);
+    });
+
+    it('should only let the creator add members', async () => {
+      await expect(
+        service.addMember(GROUP_ID, newcomer.email, member),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(memberRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject an email without an account', async () => {
+      usersService.findByEmail.mockResolvedValue(null);
+
+      await expect(
+        service.addMember(GROUP_ID, 'nobody@example.com', creator),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it('should not add an existing member twice', async () => {
+      usersService.findByEmail.mockResolvedValue(member);
+
+      await expect(
+        service.addMember(GROUP_ID, member.email, creator),
+      ).rejects.toBeInstanceOf(ConflictException);
+      expect(pubSubBroker.publish).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeMember', () => {
+    it('should let a member leave and take away the group boards', async () => {
+      await service.removeMember(GROUP_ID, member.id, member);
+
+      expect(memberRepository.remove).toHaveBeenCalledWith({
+        groupId: GROUP_ID,
+        userId: member.id,
+      });
+      expect(publishedChanges()).toEqual([
+        ['board-1', member.id],
+        ['board-2', member.id],
+      ]);
+    });
+
+    it('should not let a member remove someone else', async () => {
+      await expect(
+        service.removeMember(GROUP_ID, creator.id, member),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(memberRepository.remove).not.toHaveBeenCalled();
+    });
+
+    it('should reject a user who is not a member', async () => {
+      await expect(
+        service.removeMember(GROUP_ID, newcomer.id, creator),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+
+  describe('delete', () => {
+    it('should have every member re-check access to every group board', async () => {
+      await service.delete(GROUP_ID, creator);
+
+      expect(groupRepository.remove).toHaveBeenCalled();
+      expect(publishedChanges()).toEqual([
+        ['board-1', creator.id],
+        ['board-1', member.id],
+        ['board-2', creator.id],
+        ['board-2', member.id],
+      ]);
+    });
+
+    it('should only let the creator delete the group', async () => {
+      await expect(service.delete(GROUP_ID, member)).rejects.toBeInstanceOf(
+        ForbiddenException,
+      );
+      expect(groupRepository.remove).not.toHaveBeenCalled();
+    });
+  });
+});
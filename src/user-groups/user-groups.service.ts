@@ -0,0 +1,356 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { UserGroup } from './entities/user-group.entity';
+import { UserGroupMember } from './entities/user-group-member.entity';
+import { WhiteboardGroupCollaborator } from '../whiteboard-collaborators/entities/whiteboard-group-collaborator.entity';
+import { User } from '../users/entities/user.entity';
+import { UsersService } from '../users/users.service';
+import { PubSubBroker } from '../pubsub/pubsub-broker';
+import {
+  WHITEBOARD_ACCESS_CHANNEL,
+  WhiteboardAccessEvent,
+} from '../whiteboards/whiteboard-access-events';
+
+/**
+ * User Groups Service
+ * Keeps named groups of users that can be added to whiteboards as one
+ * collaborator (see WhiteboardGroupCollaborator)
+ *
+ * Only a group's creator manages it; members can see it and leave it.
+ * Membership changes tell the gateway to re-check the affected users'
+ * open connections to every board the group was added to.
+ */
+@Injectable()
+export class UserGroupsService {
+  private readonly logger = new Logger(UserGroupsService.name);
+
+  constructor(
+    @InjectRepository(UserGroup)
+    private readonly groupRepository: Repository<UserGroup>,
+    @InjectRepository(UserGroupMember)
+    private readonly memberRepository: Repository<UserGroupMember>,
+    @InjectRepository(WhiteboardGroupCollaborator)
+    private readonly groupCollaboratorRepository: Repository<WhiteboardGroupCollaborator>,
+    private readonly usersService: UsersService,
+    private readonly pubSubBroker: PubSubBroker,
+  ) {}
+
+  /**
+   * Create a user group; its creator is its first member
+   * @param name - Group name
+   * @param description - Optional description
+   * @param creator - User creating the group
+   * @returns Created group entity
+   */
+  async create(
+    name: string,
+    description: string | undefined,
+    creator: User,
+  ): Promise<UserGroup> {
+    return await this.groupRepository.manager.transaction(async (manager) => {
+      const group = await manager.save(
+        manager.create(UserGroup, {
+          name: name.trim(),
+          description: description?.trim() || undefined,
+          createdById: creator.id,
+        }),
+      );
+
+      await manager.save(
+        manager.create(UserGroupMember, {
+          groupId: group.id,
+          userId: creator.id,
+        }),
+      );
+
+      return group;
+    });
+  }
+
+  /**
+   * Find the groups a user created or belongs to
+   * @param userId - User ID
+   * @returns Array of group entities, most recent first
+   */
+  async findForUser(userId: string): Promise<UserGroup[]> {
+    return await this.groupRepository
+      .createQueryBuilder('userGroup')
+      .leftJoin(
+        UserGroupMember,
+        'member',
+        'member.groupId = userGroup.id AND member.userId = :userId',
+        { userId },
+      )
+      .where('userGroup.createdById = :userId OR member.userId = :userId', {
+        userId,
+      })
+      .orderBy('userGroup.createdAt', 'DESC')
+      .getMany();
+  }
+
+  /**
+   * Find a group by ID
+   * @param groupId - Group ID
+   * @returns Group entity or null
+   */
+  async findById(groupId: string): Promise<UserGroup | null> {
+    return await this.groupRepository.findOne({ where: { id: groupId } });
+  }
+
+  /**
+   * Find a group the user created or belongs to
+   * @param groupId - Group ID
+   * @param user - Current user
+   * @returns Group entity with its members
+   * @throws NotFoundException if group not found
+   * @throws ForbiddenException if the user neither created nor belongs to the group
+   */
+  async findVisible(groupId: string, user: User): Promise<UserGroup> {
+    const group = await this.groupRepository.findOne({
+      where: { id: groupId },
+      relations: ['members', 'members.user'],
+      order: { members: { createdAt: 'ASC' } },
+    });
+
+    if (!group) {
+      throw new NotFoundException('Group not found');
+    }
+
+    if (
+      group.createdById !== user.id &&
+      !group.members.some((member) => member.userId === user.id)
+    ) {
+      throw new ForbiddenException(
+        'You do not have permission to access this group',
+      );
+    }
+
+    return group;
+  }
+
+  /**
+   * Rename a group or change its description (creator only)
+   * @param groupId - Group ID
+   * @param changes - New name and/or description
+   * @param user - Current user (must be the creator)
+   * @returns Updated group entity
+   * @throws NotFoundException if group not found
+   * @throws ForbiddenException if user is not the creator
+   */
+  async update(
+    groupId: string,
+    changes: { name?: string; description?: string },
+    user: User,
+  ): Promise<UserGroup> {
+    const group = await this.findManagedGroup(
+      groupId,
+      user,
+      'Only the creator can change this group',
+    );
+
+    if (changes.name !== undefined) {
+      group.name = changes.name.trim();
+    }
+    if (changes.description !== undefined) {
+      group.description = changes.description.trim() || undefined;
+    }
+
+    return await this.groupRepository.save(group);
+  }
+
+  /**
+   * Delete a group (creator only)
+   * Its members lose the access the group gave them right away
+   * @param groupId - Group ID
+   * @param user - Current user (must be the creator)
+   * @throws NotFoundException if group not found
+   * @throws ForbiddenException if user is not the creator
+   */
+  async delete(groupId: string, user: User): Promise<void> {
+    const group = await this.findManagedGroup(
+      groupId,
+      user,
+      'Only the creator can delete this group',
+    );
+
+    const memberIds = await this.findMemberIds(groupId);
+    const whiteboardIds = await this.findWhiteboardIds(groupId);
+
+    // CASCADE removes its members and its whiteboard grants
+    await this.groupRepository.remove(group);
+
+    await this.publishAccessChanged(whiteboardIds, memberIds);
+  }
+
+  /**
+   * Add a registered user to a group (creator only)
+   * @param groupId - Group ID
+   * @param email - Email of the user to add
+   * @param user - Current user (must be the creator)
+   * @returns Created member entity with user relation
+   * @throws NotFoundException if group or user not found
+   * @throws ForbiddenException if current user is not the creator
+   * @throws ConflictException if the user is already a member
+   */
+  async addMember(
+    groupId: string,
+    email: string,
+    user: User,
+  ): Promise<UserGroupMember> {
+    await this.findManagedGroup(
+      groupId,
+      user,
+      'Only the creator can add members to this group',
+    );
+
+    const userToAdd = await this.usersService.findByEmail(
+      email.toLowerCase().trim(),
+    );
+    if (!userToAdd || userToAdd.isGuest) {
+      throw new NotFoundException('User with this email does not exist');
+    }
+
+    const existing = await this.memberRepository.findOne({
+      where: { groupId, userId: userToAdd.id },
+    });
+    if (existing) {
+      throw new ConflictException(
+        'This user is already a member of this group',
+      );
+    }
+
+    const member = await this.memberRepository.save(
+      this.memberRepository.create({ groupId, userId: userToAdd.id }),
+    );
+    member.user = userToAdd;
+
+    await this.publishAccessChanged(await this.findWhiteboardIds(groupId), [
+      userToAdd.id,
+    ]);
+
+    return member;
+  }
+
+  /**
+   * Remove a member from a group (creator, or the member themselves to leave)
+   * @param groupId - Group ID
+   * @param userId - User ID of the member
+   * @param user - Current user (the creator, or the member)
+   * @throws NotFoundException if group or member not found
+   * @throws ForbiddenException if current user is neither the creator nor the member
+   */
+  async removeMember(
+    groupId: string,
+    userId: string,
+    user: User,
+  ): Promise<void> {
+    const group = await this.findById(groupId);
+    if (!group) {
+      throw new NotFoundException('Group not found');
+    }
+
+    if (group.createdById !== user.id && userId !== user.id) {
+      throw new ForbiddenException(
+        'Only the creator can remove members from this group',
+      );
+    }
+
+    const member = await this.memberRepository.findOne({
+      where: { groupId, userId },
+    });
+    if (!member) {
+      throw new NotFoundException('Member not found in this group');
+    }
+
+    await this.memberRepository.remove(member);
+
+    await this.publishAccessChanged(await this.findWhiteboardIds(groupId), [
+      userId,
+    ]);
+  }
+
+  /**
+   * Get the IDs of every member of a group
+   * @param groupId - Group ID
+   * @returns Array of user IDs
+   */
+  async findMemberIds(groupId: string): Promise<string[]> {
+    const members = await this.memberRepository.find({
+      where: { groupId },
+      select: ['userId'],
+    });
+
+    return members.map((member) => member.userId);
+  }
+
+  /**
+   * Find a group and check that the user created it
+   * @throws NotFoundException if group not found
+   * @throws ForbiddenException if user is not the creator
+   */
+  private async findManagedGroup(
+    groupId: string,
+    user: User,
+    forbiddenMessage: string,
+  ): Promise<UserGroup> {
+    const group = await this.findById(groupId);
+
+    if (!group) {
+      throw new NotFoundException('Group not found');
+    }
+
+    if (group.createdById !== user.id) {
+      throw new ForbiddenException(forbiddenMessage);
+    }
+
+    return group;
+  }
+
+  /**
+   * Get the IDs of the whiteboards a group was added to
+   */
+  private async findWhiteboardIds(groupId: string): Promise<string[]> {
+    const grants = await this.groupCollaboratorRepository.find({
+      where: { groupId },
+      select: ['whiteboardId'],
+    });
+
+    return grants.map((grant) => grant.whiteboardId);
+  }
+
+  /**
+   * Tell the gateway to re-check some users' connections to some whiteboards
+   * The change itself is already saved, so a failed publish is not rethrown
+   * @param whiteboardIds - Whiteboards the change applies to
+   * @param userIds - Users whose access may have changed
+   */
+  private async publishAccessChanged(
+    whiteboardIds: string[],
+    userIds: string[],
+  ): Promise<void> {
+    for (const whiteboardId of whiteboardIds) {
+      for (const userId of userIds) {
+        const event: WhiteboardAccessEvent = {
+          type: 'access_changed',
+          whiteboardId,
+          userId,
+        };
+
+        try {
+          await this.pubSubBroker.publish(WHITEBOARD_ACCESS_CHANNEL, event);
+        } catch (error) {
+          this.logger.error(
+            `Failed to publish access_changed event for whiteboard ${whiteboardId}: ${error.message}`,
+          );
+        }
+      }
+    }
+  }
+}
@@ -26,6 +26,10 @@ export class User {
   @Column({ name: 'is_verified', type: 'boolean', default: false })
   isVerified: boolean;
 
+  // Guests join one whiteboard through a share link and can't sign in
+  @Column({ name: 'is_guest', type: 'boolean', default: false })
+  isGuest: boolean;
+
   @CreateDateColumn({ name: 'created_at', type: 'timestamp with time zone' })
   createdAt: Date;
 
@@ -1,6 +1,7 @@
 import { Injectable, ConflictException } from '@nestjs/common';
+import { randomBytes, randomUUID } from 'crypto';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, LessThan, Repository } from 'typeorm';
 import { User } from './entities/user.entity';
 import bcrypt from 'bcrypt';
 
@@ -41,6 +42,32 @@ export class UsersService {
     return await this.userRepository.save(user);
   }
 
+  /**
+   * Create a guest user for a live session
+   * Guests get a placeholder email on the reserved .invalid domain and a
+   * random password nobody knows, so the account can never be signed into
+   * @param displayName - Name shown to the other participants
+   * @returns Created guest user
+   */
+  async createGuest(displayName: string): Promise<User> {
+    const id = randomUUID();
+    const hashedPassword = await bcrypt.hash(
+      randomBytes(32).toString('hex'),
+      10,
+    );
+
+    const guest = this.userRepository.create({
+      id,
+      email: `guest-${id}@guest.invalid`,
+      password: hashedPassword,
+      fullName: displayName.trim(),
+      isVerified: false,
+      isGuest: true,
+    });
+
+    return await this.userRepository.save(guest);
+  }
+
   async findByEmail(email: string): Promise<User | null> {
     return await this.userRepository.findOne({ where: { email } });
   }
@@ -48,5 +75,28 @@ export class UsersService {
   async findById(id: string): Promise<User | null> {
     return await this.userRepository.findOne({ where: { id } });
   }
-}
 
+  async findByIds(ids: string[]): Promise<User[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    return await this.userRepository.find({ where: { id: In(ids) } });
+  }
+
+  /**
+   * Delete the guest users created before a point in time
+   * Their operations stay in the log without an author; everything else
+   * they held on a board goes with them
+   * @param createdBefore - Guests created before this are deleted
+   * @returns Number of deleted guests
+   */
+  async deleteGuestsCreatedBefore(createdBefore: Date): Promise<number> {
+    const result = await this.userRepository.delete({
+      isGuest: true,
+      createdAt: LessThan(createdBefore),
+    });
+
+    return result.affected ?? 0;
+  }
+}
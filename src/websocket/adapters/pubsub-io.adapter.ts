@@ -0,0 +1,24 @@
+import { INestApplicationContext } from '@nestjs/common';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { Server, ServerOptions } from 'socket.io';
+import { PubSubBroker } from '../../pubsub/pubsub-broker';
+import { createPubSubAdapter } from './pubsub.adapter';
+
+/**
+ * Nest WebSocket adapter whose Socket.IO servers share rooms and broadcasts
+ * with the other API processes through the PubSubBroker
+ */
+export class PubSubIoAdapter extends IoAdapter {
+  constructor(
+    app: INestApplicationContext,
+    private readonly broker: PubSubBroker,
+  ) {
+    super(app);
+  }
+
+  createIOServer(port: number, options?: ServerOptions): Server {
+    const server = super.createIOServer(port, options) as Server;
+    server.adapter(createPubSubAdapter(this.broker));
+    return server;
+  }
+}
@@ -0,0 +1,68 @@
+import { Namespace, Server } from 'socket.io';
+import { createPubSubAdapter } from './pubsub.adapter';
+import { InProcessPubSubBroker } from '../../pubsub/in-process-pubsub.broker';
+
+// Let subscriptions settle and in-process messages arrive
+const flush = async () => {
+  for (let i = 0; i < 5; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+};
+
+describe('PubSubAdapter', () => {
+  let servers: Server[];
+  let namespaces: Namespace[];
+
+  beforeEach(async () => {
+    // Two API processes sharing one broker
+    const broker = new InProcessPubSubBroker();
+    servers = [new Server(), new Server()];
+    namespaces = servers.map((server) => {
+      server.adapter(createPubSubAdapter(broker));
+      return server.of('/whiteboard');
+    });
+    await flush();
+  });
+
+  afterEach(async () => {
+    // The servers were never attached, so only their adapters need closing
+    const opened = [...servers.map((server) => server.sockets), ...namespaces];
+    for (const namespace of opened) {
+      await namespace.adapter.close();
+    }
+  });
+
+  it('should relay server-side events to the other processes', async () => {
+    const [first, second] = namespaces;
+    const onFirst = jest.fn();
+    const onSecond = jest.fn();
+    first.on('board_changed', onFirst);
+    second.on('board_changed', onSecond);
+
+    first.serverSideEmit('board_changed', { whiteboardId: 'board-1' });
+    await flush();
+
+    expect(onSecond).toHaveBeenCalledWith({ whiteboardId: 'board-1' });
+    expect(onFirst).not.toHaveBeenCalled();
+  });
+
+  it('should keep namespaces apart', async () => {
+    const [first] = namespaces;
+    const other = servers[1].of('/other');
+    namespaces.push(other);
+    await flush();
+    const onOther = jest.fn();
+    other.on('board_changed', onOther);
+
+    first.serverSideEmit('board_changed', { whiteboardId: 'board-1' });
+    await flush();
+
+    expect(onOther).not.toHaveBeenCalled();
+  });
+
+  it('should find the sockets of every process', async () => {
+    const [first] = namespaces;
+
+    await expect(first.fetchSockets()).resolves.toEqual([]);
+  });
+});
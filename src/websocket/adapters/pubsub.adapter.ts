@@ -0,0 +1,91 @@
+import { Logger } from '@nestjs/common';
+import type { Namespace } from 'socket.io';
+import {
+  ClusterAdapterOptions,
+  ClusterAdapterWithHeartbeat,
+  ClusterMessage,
+  ClusterResponse,
+} from 'socket.io-adapter';
+import { PubSubBroker } from '../../pubsub/pubsub-broker';
+
+/**
+ * Socket.IO adapter that relays room broadcasts, joins and socket lookups
+ * to the other API processes through a PubSubBroker
+ *
+ * Each namespace publishes on `socket.io:<namespace>`; responses to
+ * requests like fetchSockets go to the requesting server's own channel.
+ * Packets are sent as JSON, so binary attachments aren't supported.
+ */
+export class PubSubAdapter extends ClusterAdapterWithHeartbeat {
+  private readonly logger = new Logger(PubSubAdapter.name);
+  private readonly channel: string;
+  private readonly responseChannel: string;
+  private unsubscribers: Array<() => Promise<void>> = [];
+
+  constructor(
+    nsp: Namespace,
+    private readonly broker: PubSubBroker,
+    opts: ClusterAdapterOptions = {},
+  ) {
+    super(nsp, opts);
+    this.channel = `socket.io:${nsp.name}`;
+    this.responseChannel = `${this.channel}:${this.uid}`;
+  }
+
+  init(): void {
+    // Say hello to the cluster only once we can hear the answers
+    void Promise.all([
+      this.broker.subscribe(this.channel, (message) =>
+        this.onMessage(message as ClusterMessage),
+      ),
+      this.broker.subscribe(this.responseChannel, (response) =>
+        this.onResponse(response as ClusterResponse),
+      ),
+    ])
+      .then((unsubscribers) => {
+        this.unsubscribers = unsubscribers;
+        super.init();
+      })
+      .catch((error: Error) => {
+        this.logger.error(
+          `Failed to subscribe ${this.channel}: ${error.message}`,
+          error.stack,
+        );
+      });
+  }
+
+  close(): void {
+    super.close();
+    for (const unsubscribe of this.unsubscribers) {
+      void unsubscribe();
+    }
+    this.unsubscribers = [];
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<string> {
+    await this.broker.publish(this.channel, message);
+    // No connection state recovery, so no offsets
+    return '';
+  }
+
+  protected async doPublishResponse(
+    requesterUid: string,
+    response: ClusterResponse,
+  ): Promise<void> {
+    await this.broker.publish(`${this.channel}:${requesterUid}`, response);
+  }
+}
+
+/**
+ * Build the adapter constructor passed to `server.adapter()`
+ * Socket.IO calls it with `new`, hence a function rather than an arrow
+ * @param broker - Pub/sub broker shared by the API processes
+ * @param opts - Heartbeat options
+ */
+export const createPubSubAdapter = (
+  broker: PubSubBroker,
+  opts: ClusterAdapterOptions = {},
+) =>
+  function (nsp: Namespace) {
+    return new PubSubAdapter(nsp, broker, opts);
+  };
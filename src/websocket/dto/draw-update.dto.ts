@@ -1,4 +1,109 @@
-import { IsNotEmpty, IsUUID, IsObject, IsOptional, IsString } from 'class-validator';
+import {
+  IsNotEmpty,
+  IsUUID,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsInt,
+  Min,
+  Max,
+  MaxLength,
+  IsIn,
+  IsBoolean,
+  ValidateNested,
+} from 'class-validator';
+import { plainToInstance, Transform } from 'class-transformer';
+import {
+  ShapeDto,
+  StrokeShapeDto,
+  toShapeDto,
+} from '../../common/shapes/shape.dto';
+import {
+  MAX_SHAPE_ID_LENGTH,
+  SHAPE_KINDS,
+} from '../../common/shapes/shape-limits';
+
+export const DRAW_UPDATE_TYPES = [...SHAPE_KINDS, 'clear', 'delete'] as const;
+
+/**
+ * Shape a delete targets, when sent without its content
+ */
+export class ShapeReferenceDto {
+  @IsString({ message: 'Shape ID must be a string' })
+  @IsNotEmpty({ message: 'Shape ID must not be empty' })
+  @MaxLength(MAX_SHAPE_ID_LENGTH, {
+    message: `Shape ID must be at most ${MAX_SHAPE_ID_LENGTH} characters`,
+  })
+  id: string;
+}
+
+/**
+ * Payload of a draw_update
+ * Shapes are validated against the schema of their kind (see common/shapes)
+ */
+export class DrawUpdateDataDto {
+  // For stroke updates
+  @ValidateNested()
+  @IsOptional()
+  stroke?: StrokeShapeDto;
+
+  // For shape updates (stroke, rectangle, circle, arrow, line, text) and deletes
+  @ValidateNested()
+  @IsOptional()
+  shape?: ShapeDto | ShapeReferenceDto;
+
+  // For delete operations
+  @IsString({ message: 'Shape ID must be a string' })
+  @IsNotEmpty({ message: 'Shape ID must not be empty' })
+  @MaxLength(MAX_SHAPE_ID_LENGTH, {
+    message: `Shape ID must be at most ${MAX_SHAPE_ID_LENGTH} characters`,
+  })
+  @IsOptional()
+  shapeId?: string;
+
+  // For clear operations
+  @IsBoolean({ message: 'clearAll must be a boolean' })
+  @IsOptional()
+  clearAll?: boolean;
+}
+
+/**
+ * Turn a plain draw_update payload into a DrawUpdateDataDto for validation
+ * data.shape is checked against the schema of its type, or of the update
+ * type if it has none; data.stroke against the stroke schema; a delete may
+ * name the shape by id only
+ */
+const toDrawUpdateData = (value: unknown, updateType: unknown): unknown => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return value;
+  }
+
+  const data = plainToInstance(DrawUpdateDataDto, value);
+  const { shape, stroke } = value as Record<string, unknown>;
+
+  if (stroke !== undefined) {
+    data.stroke = toShapeDto(stroke, 'stroke') as StrokeShapeDto;
+  }
+
+  if (shape !== undefined) {
+    const isReference =
+      updateType === 'delete' &&
+      typeof shape === 'object' &&
+      shape !== null &&
+      !('type' in shape);
+
+    data.shape = (
+      isReference
+        ? plainToInstance(ShapeReferenceDto, shape)
+        : toShapeDto(
+            shape,
+            typeof updateType === 'string' ? updateType : undefined,
+          )
+    ) as ShapeDto | ShapeReferenceDto;
+  }
+
+  return data;
+};
 
 /**
  * DTO for draw_update event
@@ -10,28 +115,43 @@ export class DrawUpdateDto {
   @IsUUID('4', { message: 'Whiteboard ID must be a valid UUID' })
   whiteboardId: string;
 
+  /**
+   * Id the client gave this update, echoed back in the ack
+   * Resending an update with the same id doesn't apply it twice
+   */
+  @IsString({ message: 'Client operation ID must be a string' })
+  @IsNotEmpty({ message: 'Client operation ID must not be empty' })
+  @MaxLength(64, {
+    message: 'Client operation ID must be at most 64 characters',
+  })
+  @IsOptional()
+  clientOpId?: string;
+
   @IsNotEmpty({ message: 'Update type is required' })
-  @IsString({ message: 'Update type must be a string' })
-  updateType: 'stroke' | 'rectangle' | 'circle' | 'arrow' | 'line' | 'text' | 'clear' | 'delete';
+  @IsIn(DRAW_UPDATE_TYPES, {
+    message: `Update type must be one of: ${DRAW_UPDATE_TYPES.join(', ')}`,
+  })
+  updateType: (typeof DRAW_UPDATE_TYPES)[number];
 
   @IsObject({ message: 'Data must be an object' })
+  @ValidateNested()
+  @Transform(
+    ({ value, obj }: { value: unknown; obj: { updateType?: unknown } }) =>
+      toDrawUpdateData(value, obj.updateType),
+  )
   @IsOptional()
-  data?: {
-    // For stroke updates
-    stroke?: {
-      color: string;
-      width: number;
-      points: Array<{ x: number; y: number }>;
-    };
-    // For shape updates (rectangle, circle, arrow, line, text)
-    shape?: {
-      id: string;
-      [key: string]: unknown;
-    };
-    // For delete operations
-    shapeId?: string;
-    // For clear operations
-    clearAll?: boolean;
-  };
-}
+  data?: DrawUpdateDataDto;
 
+  /**
+   * Lamport clock of this update on the sending client
+   * Clients bump it past every clock they have seen before each update;
+   * concurrent writes to the same shape are resolved by (clock, userId)
+   * The server also rejects clocks far ahead of the board clock (see
+   * WhiteboardOperationsService.append)
+   */
+  @IsInt({ message: 'Clock must be an integer' })
+  @Min(0, { message: 'Clock must not be negative' })
+  @Max(Number.MAX_SAFE_INTEGER, { message: 'Clock is too large' })
+  @IsOptional()
+  clock?: number;
+}
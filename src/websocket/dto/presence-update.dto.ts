@@ -0,0 +1,77 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * Pointer position in board coordinates
+ */
+export class PresencePointerDto {
+  @IsNumber({}, { message: 'Pointer x must be a number' })
+  x: number;
+
+  @IsNumber({}, { message: 'Pointer y must be a number' })
+  y: number;
+}
+
+/**
+ * Visible part of the board in board coordinates
+ */
+export class PresenceViewportDto {
+  @IsNumber({}, { message: 'Viewport x must be a number' })
+  x: number;
+
+  @IsNumber({}, { message: 'Viewport y must be a number' })
+  y: number;
+
+  @IsNumber({}, { message: 'Viewport width must be a number' })
+  @Min(0, { message: 'Viewport width must not be negative' })
+  width: number;
+
+  @IsNumber({}, { message: 'Viewport height must be a number' })
+  @Min(0, { message: 'Viewport height must not be negative' })
+  height: number;
+}
+
+/**
+ * DTO for presence_update event
+ * Every field except whiteboardId is optional: fields left out keep their
+ * last value, so clients only need to send what changed
+ */
+export class PresenceUpdateDto {
+  @IsNotEmpty({ message: 'Whiteboard ID is required' })
+  @IsUUID('4', { message: 'Whiteboard ID must be a valid UUID' })
+  whiteboardId: string;
+
+  // null when the pointer left the board
+  @ValidateNested()
+  @Type(() => PresencePointerDto)
+  @IsOptional()
+  pointer?: PresencePointerDto | null;
+
+  @IsString({ message: 'Tool must be a string' })
+  @MaxLength(32, { message: 'Tool must be at most 32 characters' })
+  @IsOptional()
+  tool?: string | null;
+
+  // IDs of the selected shapes
+  @IsArray({ message: 'Selection must be an array of shape IDs' })
+  @ArrayMaxSize(500, { message: 'Selection must have at most 500 shapes' })
+  @IsString({ each: true, message: 'Selection must be an array of shape IDs' })
+  @IsOptional()
+  selection?: string[];
+
+  @ValidateNested()
+  @Type(() => PresenceViewportDto)
+  @IsOptional()
+  viewport?: PresenceViewportDto | null;
+}
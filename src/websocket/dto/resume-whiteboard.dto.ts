@@ -0,0 +1,15 @@
+import { IsInt, IsNotEmpty, IsUUID, Min } from 'class-validator';
+
+/**
+ * DTO for resume_whiteboard event
+ * Sent by a reconnecting client with the last operation sequence it applied
+ */
+export class ResumeWhiteboardDto {
+  @IsNotEmpty({ message: 'Whiteboard ID is required' })
+  @IsUUID('4', { message: 'Whiteboard ID must be a valid UUID' })
+  whiteboardId: string;
+
+  @IsInt({ message: 'Last sequence must be an integer' })
+  @Min(0, { message: 'Last sequence must not be negative' })
+  lastSequence: number;
+}
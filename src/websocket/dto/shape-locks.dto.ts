@@ -0,0 +1,28 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsNotEmpty,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+
+/**
+ * DTO for acquire_shape_locks, renew_shape_locks and release_shape_locks events
+ */
+export class ShapeLocksDto {
+  @IsNotEmpty({ message: 'Whiteboard ID is required' })
+  @IsUUID('4', { message: 'Whiteboard ID must be a valid UUID' })
+  whiteboardId: string;
+
+  @IsArray({ message: 'Shape IDs must be an array' })
+  @ArrayNotEmpty({ message: 'At least one shape ID is required' })
+  @ArrayMaxSize(100, { message: 'At most 100 shapes can be locked at once' })
+  @IsString({ each: true, message: 'Shape IDs must be strings' })
+  @MaxLength(128, {
+    each: true,
+    message: 'Shape IDs must be at most 128 characters',
+  })
+  shapeIds: string[];
+}
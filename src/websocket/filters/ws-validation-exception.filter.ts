@@ -0,0 +1,45 @@
+import { ArgumentsHost, Catch } from '@nestjs/common';
+import { BaseWsExceptionFilter, WsException } from '@nestjs/websockets';
+import { WsValidationError } from '../pipes/ws-validation.pipe';
+
+const isValidationError = (error: unknown): error is WsValidationError =>
+  typeof error === 'object' &&
+  error !== null &&
+  (error as WsValidationError).code === 'VALIDATION_FAILED';
+
+/**
+ * Reports gateway validation failures to the sender
+ * Emits the usual `exception` event and also answers the message's ack, so
+ * clients waiting on an ack (e.g. a draw_update outbox) learn the message
+ * was rejected instead of timing out and retrying it
+ */
+@Catch(WsException)
+export class WsValidationExceptionFilter extends BaseWsExceptionFilter {
+  catch(exception: WsException, host: ArgumentsHost) {
+    super.catch(exception, host);
+
+    const error = exception.getError();
+    // Gateway handlers are called with (client, data, ack, pattern)
+    const ack = host.getArgByIndex<unknown>(2) as
+      | ((response: unknown) => void)
+      | undefined;
+    if (!isValidationError(error) || typeof ack !== 'function') {
+      return;
+    }
+
+    const data: unknown = host.switchToWs().getData();
+    const { whiteboardId, clientOpId } = (
+      typeof data === 'object' && data !== null ? data : {}
+    ) as { whiteboardId?: unknown; clientOpId?: unknown };
+
+    ack({
+      status: 'rejected',
+      whiteboardId: typeof whiteboardId === 'string' ? whiteboardId : null,
+      clientOpId: typeof clientOpId === 'string' ? clientOpId : null,
+      code: error.code,
+      message: error.message,
+      errors: error.errors,
+      retryable: false,
+    });
+  }
+}
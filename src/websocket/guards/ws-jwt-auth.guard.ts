@@ -10,10 +10,18 @@ import { Socket } from 'socket.io';
 import { JwtPayload } from '../../auth/strategies/jwt.strategy';
 import { UsersService } from '../../users/users.service';
 
+// Events a share link connection without an account may send
+const SHARE_LINK_EVENTS = [
+  'join_whiteboard',
+  'resume_whiteboard',
+  'leave_whiteboard',
+];
+
 /**
  * WebSocket JWT Authentication Guard
  * Validates JWT tokens from Socket.IO handshake for authenticated connections
  * Extracts token from handshake cookies or auth headers
+ * Anonymous share link connections (see WhiteboardGateway) pass for SHARE_LINK_EVENTS only
  */
 @Injectable()
 export class WsJwtAuthGuard implements CanActivate {
@@ -37,6 +45,17 @@ export class WsJwtAuthGuard implements CanActivate {
       const token = this.extractTokenFromHandshake(client);
       
       if (!token) {
+        // Share link holders without an account may only open the board;
+        // they stay connected when they try anything else
+        if (client.data.shareLink) {
+          if (SHARE_LINK_EVENTS.includes(context.switchToWs().getPattern())) {
+            return true;
+          }
+          throw new UnauthorizedException(
+            'Sign in to do this on a shared whiteboard',
+          );
+        }
+
         this.logger.warn('WebSocket connection attempt without token');
         client.disconnect();
         throw new UnauthorizedException('No authentication token provided');
@@ -0,0 +1,38 @@
+import { ValidationError, ValidationPipe } from '@nestjs/common';
+import { WsException } from '@nestjs/websockets';
+
+/**
+ * Error payload of a gateway message that failed validation
+ * Emitted as `exception` and, if the client passed one, sent to its ack
+ */
+export interface WsValidationError {
+  status: 'error';
+  code: 'VALIDATION_FAILED';
+  message: string;
+  // One entry per failed constraint, prefixed with the property path
+  errors: string[];
+}
+
+/**
+ * Validation pipe for gateway messages
+ * Applies the same rules as the HTTP pipe, but raises a WsException that
+ * lists every failed constraint; a plain BadRequestException would reach
+ * the client as "Internal server error"
+ */
+export class WsValidationPipe extends ValidationPipe {
+  constructor() {
+    super({ whitelist: true, forbidNonWhitelisted: true });
+  }
+
+  createExceptionFactory() {
+    return (validationErrors: ValidationError[] = []) => {
+      const error: WsValidationError = {
+        status: 'error',
+        code: 'VALIDATION_FAILED',
+        message: 'Validation failed',
+        errors: this.flattenValidationErrors(validationErrors),
+      };
+      return new WsException(error);
+    };
+  }
+}
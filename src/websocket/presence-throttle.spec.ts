@@ -0,0 +1,63 @@
+import { PresenceThrottle } from './presence-throttle';
+
+interface Pointer {
+  x?: number;
+  y?: number;
+  tool?: string;
+}
+
+describe('PresenceThrottle', () => {
+  let flush: jest.Mock;
+  let throttle: PresenceThrottle<Pointer>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    flush = jest.fn();
+    throttle = new PresenceThrottle<Pointer>(50, flush);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should flush the first update right away', () => {
+    throttle.push('a', { x: 1, y: 1 });
+
+    expect(flush).toHaveBeenCalledWith('a', { x: 1, y: 1 });
+  });
+
+  it('should merge updates within the interval into one flush', () => {
+    throttle.push('a', { x: 1, tool: 'pen' });
+    throttle.push('a', { x: 2 });
+    throttle.push('a', { x: 3, tool: undefined });
+
+    expect(flush).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(50);
+
+    expect(flush).toHaveBeenCalledTimes(2);
+    expect(flush).toHaveBeenLastCalledWith('a', { x: 3, tool: 'pen' });
+    expect(throttle.get('a')).toEqual({ x: 3, tool: 'pen' });
+  });
+
+  it('should throttle every key on its own', () => {
+    throttle.push('a', { x: 1 });
+    throttle.push('b', { x: 2 });
+
+    expect(flush).toHaveBeenCalledTimes(2);
+  });
+
+  it('should cancel the pending flushes of dropped keys', () => {
+    throttle.push('socket-1:board-1', { x: 1 });
+    throttle.push('socket-1:board-1', { x: 2 });
+    throttle.push('socket-2:board-1', { x: 3 });
+
+    expect(throttle.drop('socket-1:')).toEqual(['socket-1:board-1']);
+
+    jest.advanceTimersByTime(50);
+
+    expect(flush).toHaveBeenCalledTimes(2);
+    expect(throttle.get('socket-1:board-1')).toBeUndefined();
+    expect(throttle.get('socket-2:board-1')).toEqual({ x: 3 });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Presence Throttle
+ * Coalesces high-frequency presence updates per key (socket + whiteboard)
+ * and flushes the merged state at most once per interval
+ *
+ * The first update after a quiet period is flushed right away; updates that
+ * arrive within the interval are merged and flushed once it has passed, so
+ * the last known state always gets through.
+ */
+
+interface PresenceEntry<T> {
+  state: T;
+  lastFlushedAt: number;
+  timer: NodeJS.Timeout | null;
+}
+
+export class PresenceThrottle<T extends object> {
+  private readonly entries = new Map<string, PresenceEntry<T>>();
+
+  /**
+   * @param intervalMs - Minimum time between two flushes of the same key
+   * @param flush - Called with the merged state of a key
+   */
+  constructor(
+    private readonly intervalMs: number,
+    private readonly flush: (key: string, state: T) => void,
+  ) {}
+
+  /**
+   * Merge an update into the state of a key and schedule its flush
+   * @param key - Key the update belongs to
+   * @param update - Changed fields (undefined fields keep their last value)
+   */
+  push(key: string, update: Partial<T>): void {
+    const changes = Object.fromEntries(
+      Object.entries(update).filter(([, value]) => value !== undefined),
+    ) as Partial<T>;
+
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.entries.set(key, {
+        state: { ...changes } as T,
+        lastFlushedAt: Date.now(),
+        timer: null,
+      });
+      this.flush(key, { ...changes } as T);
+      return;
+    }
+
+    entry.state = { ...entry.state, ...changes };
+    if (entry.timer) {
+      // Already scheduled, the merged state goes out with it
+      return;
+    }
+
+    const wait = entry.lastFlushedAt + this.intervalMs - Date.now();
+    if (wait <= 0) {
+      this.flushEntry(key, entry);
+      return;
+    }
+
+    entry.timer = setTimeout(() => this.flushEntry(key, entry), wait);
+  }
+
+  /**
+   * Get the last known state of a key
+   * @param key - Key to look up
+   * @returns Merged state or undefined if the key has no state
+   */
+  get(key: string): T | undefined {
+    return this.entries.get(key)?.state;
+  }
+
+  /**
+   * Forget the state of every key starting with a prefix
+   * Pending flushes of those keys are cancelled
+   * @param prefix - Key prefix (a full key drops just that key)
+   * @returns Keys that were dropped
+   */
+  drop(prefix: string): string[] {
+    const dropped: string[] = [];
+
+    for (const [key, entry] of this.entries) {
+      if (key.startsWith(prefix)) {
+        if (entry.timer) {
+          clearTimeout(entry.timer);
+        }
+        this.entries.delete(key);
+        dropped.push(key);
+      }
+    }
+
+    return dropped;
+  }
+
+  private flushEntry(key: string, entry: PresenceEntry<T>): void {
+    entry.timer = null;
+    entry.lastFlushedAt = Date.now();
+    this.flush(key, { ...entry.state });
+  }
+}
@@ -4,6 +4,12 @@ import { WhiteboardGateway } from './whiteboard.gateway';
 import { WsJwtAuthGuard } from './guards/ws-jwt-auth.guard';
 import { UsersModule } from '../users/users.module';
 import { WhiteboardsModule } from '../whiteboards/whiteboards.module';
+import { WhiteboardOperationsModule } from '../whiteboard-operations/whiteboard-operations.module';
+import { PresenceModule } from '../presence/presence.module';
+import { PubSubModule } from '../pubsub/pubsub.module';
+import { ShapeLocksModule } from '../shape-locks/shape-locks.module';
+import { WhiteboardHistoryModule } from '../whiteboard-history/whiteboard-history.module';
+import { WhiteboardShareLinksModule } from '../whiteboard-share-links/whiteboard-share-links.module';
 
 /**
  * WebSocket Module
@@ -12,12 +18,24 @@ import { WhiteboardsModule } from '../whiteboards/whiteboards.module';
  * Dependencies:
  * - UsersModule: For user authentication and validation
  * - WhiteboardsModule: For whiteboard access control
+ * - WhiteboardOperationsModule: For persisting draw updates to the operation log
+ * - PresenceModule: For tracking which connections are on which whiteboard
+ * - PubSubModule: For the broker the Socket.IO adapter uses to reach other processes
+ * - ShapeLocksModule: For edit leases on shapes
+ * - WhiteboardHistoryModule: For the per-user undo/redo stacks
+ * - WhiteboardShareLinksModule: For connections opened with a share link
  * - JwtModule: For JWT token validation in WebSocket connections
  */
 @Module({
   imports: [
     UsersModule,
     WhiteboardsModule,
+    WhiteboardOperationsModule,
+    PresenceModule,
+    PubSubModule,
+    ShapeLocksModule,
+    WhiteboardHistoryModule,
+    WhiteboardShareLinksModule,
     JwtModule.register({
       secret: process.env.JWT_SECRET || 'your-secret-key',
       signOptions: { expiresIn: '7d' },
@@ -0,0 +1,733 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Server, Socket } from 'socket.io';
+import { WhiteboardGateway } from './whiteboard.gateway';
+import { DrawUpdateDto } from './dto/draw-update.dto';
+import { BoardReplay } from '../whiteboard-operations/board-state.reducer';
+import { getRevertOperations } from '../whiteboard-operations/board-history';
+import { getPresenceColor } from '../presence/presence-color';
+import { WhiteboardsService } from '../whiteboards/whiteboards.service';
+import { WhiteboardOperationsService } from '../whiteboard-operations/whiteboard-operations.service';
+import { PresenceService } from '../presence/presence.service';
+import { ShapeLocksService } from '../shape-locks/shape-locks.service';
+import { BoardStateService } from '../whiteboard-operations/board-state.service';
+import { WhiteboardHistoryService } from '../whiteboard-history/whiteboard-history.service';
+import { PubSubBroker } from '../pubsub/pubsub-broker';
+import {
+  WHITEBOARD_ACCESS_CHANNEL,
+  WhiteboardAccessEvent,
+} from '../whiteboards/whiteboard-access-events';
+import { WhiteboardShareLinksService } from '../whiteboard-share-links/whiteboard-share-links.service';
+import { UsersService } from '../users/users.service';
+
+const WHITEBOARD_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const ROOM = `whiteboard:${WHITEBOARD_ID}`;
+
+const user = { id: 'user-1', email: 'ada@example.com', fullName: 'Ada' };
+
+const operation = (sequence: number, updateType = 'rectangle') => ({
+  whiteboardId: WHITEBOARD_ID,
+  sequence,
+  updateType,
+  data: { shape: { id: `shape-${sequence}` } },
+  clock: sequence,
+  userId: user.id,
+  createdAt: new Date(0),
+});
+
+/**
+ * Socket.IO client double that records what the gateway sends it
+ */
+const createClient = (data: Record<string, unknown> = { user }) => {
+  const rooms = new Set<string>(['socket-1']);
+  const roomEmit = jest.fn();
+
+  return {
+    id: 'socket-1',
+    data,
+    rooms,
+    handshake: { auth: {}, headers: {}, query: {} },
+    emit: jest.fn(),
+    join: jest.fn((room: string) => rooms.add(room)),
+    leave: jest.fn((room: string) => rooms.delete(room)),
+    to: jest.fn(() => ({ emit: roomEmit })),
+    disconnect: jest.fn(),
+    roomEmit,
+  };
+};
+
+type Client = ReturnType<typeof createClient>;
+
+/**
+ * Client that already joined the whiteboard with a role
+ */
+const createJoinedClient = (role = 'editor') => {
+  const client = createClient({ user, roles: { [WHITEBOARD_ID]: role } });
+  client.rooms.add(ROOM);
+  return client;
+};
+
+const asSocket = (client: Client) => client as unknown as Socket;
+
+/**
+ * Get the payload of the last event of a name a client was sent
+ */
+const lastEmitted = (client: Client, event: string): unknown =>
+  client.emit.mock.calls.filter(([name]) => name === event).pop()?.[1];
+
+describe('WhiteboardGateway', () => {
+  let gateway: WhiteboardGateway;
+  let whiteboardsService: Record<string, jest.Mock>;
+  let operationsService: Record<string, jest.Mock>;
+  let presenceService: Record<string, jest.Mock>;
+  let shapeLocksService: Record<string, jest.Mock>;
+  let boardStateService: Record<string, jest.Mock>;
+  let historyService: Record<string, jest.Mock>;
+  let pubSubBroker: Record<string, jest.Mock>;
+  let localSockets: Client[];
+  let serverTo: jest.Mock;
+  let serverEmit: jest.Mock;
+  let volatileEmit: jest.Mock;
+
+  beforeEach(async () => {
+    whiteboardsService = {
+      findById: jest.fn().mockResolvedValue({ id: WHITEBOARD_ID }),
+      findByIdWithAccess: jest.fn().mockResolvedValue({ id: WHITEBOARD_ID }),
+      getRole: jest.fn().mockResolvedValue('editor'),
+      getCurrentState: jest
+        .fn()
+        .mockResolvedValue({ sequence: 12, document: { shapes: [] } }),
+      getParticipants: jest.fn().mockResolvedValue([]),
+    };
+    operationsService = {
+      findAfterSequence: jest.fn().mockResolvedValue([]),
+      getLastSequence: jest.fn().mockResolvedValue(0),
+      findByClientOpId: jest.fn().mockResolvedValue(null),
+      append: jest.fn().mockResolvedValue(operation(8)),
+    };
+    presenceService = {
+      join: jest.fn().mockResolvedValue(true),
+      leave: jest.fn().mockResolvedValue(null),
+    };
+    shapeLocksService = {
+      findActive: jest.fn().mockResolvedValue([]),
+      findConflicts: jest.fn().mockResolvedValue([]),
+      release: jest.fn().mockResolvedValue([]),
+    };
+    boardStateService = {
+      getShapes: jest
+        .fn()
+        .mockResolvedValue(BoardReplay.fromSnapshot({ shapes: [] })),
+    };
+    historyService = {
+      record: jest.fn().mockResolvedValue(undefined),
+      findUndoable: jest.fn().mockResolvedValue(null),
+      applyStep: jest.fn().mockResolvedValue([operation(9)]),
+    };
+    pubSubBroker = {
+      subscribe: jest.fn().mockResolvedValue(() => Promise.resolve()),
+    };
+    localSockets = [];
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        WhiteboardGateway,
+        { provide: WhiteboardsService, useValue: whiteboardsService },
+        { provide: WhiteboardOperationsService, useValue: operationsService },
+        { provide: PresenceService, useValue: presenceService },
+        { provide: ShapeLocksService, useValue: shapeLocksService },
+        { provide: BoardStateService, useValue: boardStateService },
+        { provide: WhiteboardHistoryService, useValue: historyService },
+        { provide: PubSubBroker, useValue: pubSubBroker },
+        { provide: WhiteboardShareLinksService, useValue: {} },
+        { provide: JwtService, useValue: {} },
+        { provide: UsersService, useValue: {} },
+      ],
+    }).compile();
+    // Rejections are logged as errors; keep the test output readable
+    app.useLogger(false);
+
+    gateway = app.get<WhiteboardGateway>(WhiteboardGateway);
+
+    serverEmit = jest.fn();
+    volatileEmit = jest.fn();
+    serverTo = jest.fn(() => ({
+      emit: serverEmit,
+      except: jest.fn(() => ({ volatile: { emit: volatileEmit } })),
+    }));
+    gateway.server = {
+      to: serverTo,
+      sockets: { adapter: { rooms: new Map([[ROOM, new Set(['socket-1'])]]) } },
+      local: {
+        in: jest.fn(() => ({
+          fetchSockets: jest.fn(() => Promise.resolve(localSockets)),
+        })),
+      },
+    } as unknown as Server;
+    gateway.afterInit();
+  });
+
+  afterEach(async () => {
+    await gateway.onModuleDestroy();
+  });
+
+  describe('join_whiteboard', () => {
+    it('should cache the role the user joined with on the socket', async () => {
+      whiteboardsService.getRole.mockResolvedValue('viewer');
+      const client = createClient();
+
+      await gateway.handleJoinWhiteboard(asSocket(client), {
+        whiteboardId: WHITEBOARD_ID,
+      });
+
+      expect(client.rooms.has(ROOM)).toBe(true);
+      expect(client.data.roles).toEqual({ [WHITEBOARD_ID]: 'viewer' });
+      expect(lastEmitted(client, 'joined_whiteboard')).toMatchObject({
+        success: true,
+        role: 'viewer',
+        state: { sequence: 12 },
+      });
+    });
+  });
+
+  describe('resume_whiteboard', () => {
+    it('should rejoin the room and send the missed operations', async () => {
+      operationsService.findAfterSequence.mockResolvedValue([
+        operation(6),
+        operation(7),
+      ]);
+      const client = createClient();
+
+      await gateway.handleResumeWhiteboard(asSocket(client), {
+        whiteboardId: WHITEBOARD_ID,
+        lastSequence: 5,
+      });
+
+      expect(client.rooms.has(ROOM)).toBe(true);
+      expect(lastEmitted(client, 'resumed_whiteboard')).toMatchObject({
+        success: true,
+        mode: 'operations',
+        role: 'editor',
+        sequence: 7,
+        operations: [{ sequence: 6 }, { sequence: 7 }],
+      });
+    });
+
+    it('should send an empty catch-up to a client that missed nothing', async () => {
+      operationsService.getLastSequence.mockResolvedValue(5);
+      const client = createClient();
+
+      await gateway.handleResumeWhiteboard(asSocket(client), {
+        whiteboardId: WHITEBOARD_ID,
+        lastSequence: 5,
+      });
+
+      expect(lastEmitted(client, 'resumed_whiteboard')).toMatchObject({
+        mode: 'operations',
+        sequence: 5,
+        operations: [],
+      });
+    });
+
+    it('should resync when the log no longer has the first missed operation', async () => {
+      operationsService.findAfterSequence.mockResolvedValue([operation(9)]);
+      const client = createClient();
+
+      await gateway.handleResumeWhiteboard(asSocket(client), {
+        whiteboardId: WHITEBOARD_ID,
+        lastSequence: 5,
+      });
+
+      expect(lastEmitted(client, 'resumed_whiteboard')).toMatchObject({
+        mode: 'resync',
+        state: { sequence: 12, document: { shapes: [] } },
+      });
+    });
+
+    it('should resync a client that is ahead of the server', async () => {
+      operationsService.getLastSequence.mockResolvedValue(3);
+      const client = createClient();
+
+      await gateway.handleResumeWhiteboard(asSocket(client), {
+        whiteboardId: WHITEBOARD_ID,
+        lastSequence: 5,
+      });
+
+      expect(lastEmitted(client, 'resumed_whiteboard')).toMatchObject({
+        mode: 'resync',
+      });
+    });
+
+    it('should resync when the board was restored in the meantime', async () => {
+      operationsService.findAfterSequence.mockResolvedValue([
+        operation(6),
+        operation(7, 'restore'),
+      ]);
+      const client = createClient();
+
+      await gateway.handleResumeWhiteboard(asSocket(client), {
+        whiteboardId: WHITEBOARD_ID,
+        lastSequence: 5,
+      });
+
+      expect(lastEmitted(client, 'resumed_whiteboard')).toMatchObject({
+        mode: 'resync',
+      });
+    });
+
+    it('should reject a client without access and keep it out of the room', async () => {
+      whiteboardsService.findByIdWithAccess.mockRejectedValue(
+        new ForbiddenException('You do not have access to this whiteboard'),
+      );
+      const client = createClient();
+
+      await gateway.handleResumeWhiteboard(asSocket(client), {
+        whiteboardId: WHITEBOARD_ID,
+        lastSequence: 5,
+      });
+
+      expect(client.rooms.has(ROOM)).toBe(false);
+      expect(lastEmitted(client, 'resume_error')).toEqual({
+        success: false,
+        whiteboardId: WHITEBOARD_ID,
+        message: 'You do not have access to this whiteboard',
+      });
+      expect(lastEmitted(client, 'resumed_whiteboard')).toBeUndefined();
+    });
+  });
+
+  describe('draw_update', () => {
+    const update = (payload: Partial<DrawUpdateDto> = {}) =>
+      ({
+        whiteboardId: WHITEBOARD_ID,
+        updateType: 'rectangle',
+        data: { shape: { id: 'shape-8', type: 'rectangle' } },
+        clientOpId: 'op-1',
+        ...payload,
+      }) as DrawUpdateDto;
+
+    it('should ack an appended update with its sequence and broadcast it', async () => {
+      const client = createJoinedClient();
+
+      const ack = await gateway.handleDrawUpdate(asSocket(client), update());
+
+      expect(ack).toEqual({
+        status: 'ok',
+        clientOpId: 'op-1',
+        whiteboardId: WHITEBOARD_ID,
+        sequence: 8,
+        clock: 8,
+        duplicate: false,
+      });
+      expect(operationsService.append).toHaveBeenCalledWith(
+        WHITEBOARD_ID,
+        user.id,
+        'rectangle',
+        { shape: { id: 'shape-8', type: 'rectangle' } },
+        undefined,
+        'op-1',
+      );
+      expect(client.to).toHaveBeenCalledWith(ROOM);
+      expect(client.roomEmit).toHaveBeenCalledWith(
+        'draw_update',
+        expect.objectContaining({ sequence: 8 }),
+      );
+    });
+
+    it('should ack a retried update again without appending it twice', async () => {
+      operationsService.findByClientOpId.mockResolvedValue(operation(4));
+      const client = createJoinedClient();
+
+      const ack = await gateway.handleDrawUpdate(asSocket(client), update());
+
+      expect(ack).toMatchObject({ status: 'ok', sequence: 4, duplicate: true });
+      expect(operationsService.append).not.toHaveBeenCalled();
+      expect(client.roomEmit).not.toHaveBeenCalled();
+    });
+
+    it('should reject an update for a whiteboard the client has not joined', async () => {
+      const client = createClient();
+
+      const ack = await gateway.handleDrawUpdate(asSocket(client), update());
+
+      expect(ack).toMatchObject({
+        status: 'rejected',
+        clientOpId: 'op-1',
+        code: 'NOT_JOINED',
+        retryable: false,
+      });
+      expect(lastEmitted(client, 'draw_update_error')).toMatchObject({
+        success: false,
+        code: 'NOT_JOINED',
+      });
+      expect(operationsService.append).not.toHaveBeenCalled();
+    });
+
+    it('should reject an update from a viewer', async () => {
+      const client = createJoinedClient('viewer');
+
+      const ack = await gateway.handleDrawUpdate(asSocket(client), update());
+
+      expect(ack).toMatchObject({
+        status: 'rejected',
+        code: 'FORBIDDEN',
+        retryable: false,
+      });
+      expect(operationsService.append).not.toHaveBeenCalled();
+      expect(client.roomEmit).not.toHaveBeenCalled();
+    });
+
+    it('should reject changes to shapes another connection holds', async () => {
+      shapeLocksService.findConflicts.mockResolvedValue([
+        { shapeId: 'shape-8' },
+      ]);
+      const client = createJoinedClient();
+
+      const ack = await gateway.handleDrawUpdate(asSocket(client), update());
+
+      expect(ack).toMatchObject({
+        status: 'rejected',
+        code: 'SHAPE_LOCKED',
+        shapeIds: ['shape-8'],
+      });
+      expect(operationsService.append).not.toHaveBeenCalled();
+    });
+
+    it('should reject a clock the log refuses without a retry', async () => {
+      operationsService.append.mockRejectedValue(
+        new BadRequestException('Clock is too far ahead'),
+      );
+      const client = createJoinedClient();
+
+      const ack = await gateway.handleDrawUpdate(
+        asSocket(client),
+        update({ clock: 1_000_000 }),
+      );
+
+      expect(ack).toMatchObject({
+        code: 'CLOCK_OUT_OF_RANGE',
+        retryable: false,
+      });
+    });
+
+    it('should mark unexpected failures as retryable', async () => {
+      operationsService.append.mockRejectedValue(new Error('Connection lost'));
+      const client = createJoinedClient();
+
+      const ack = await gateway.handleDrawUpdate(asSocket(client), update());
+
+      expect(ack).toMatchObject({
+        status: 'rejected',
+        clientOpId: 'op-1',
+        code: 'INTERNAL_ERROR',
+        retryable: true,
+      });
+    });
+  });
+
+  describe('undo', () => {
+    it("should keep a collaborator's later edit to the undone shape", async () => {
+      const shape = { id: 'r', type: 'rectangle', x: 0, color: '#000' };
+      // Ada moved the shape, then another user recoloured it
+      const moved = BoardReplay.fromSnapshot({ shapes: [{ ...shape, x: 50 }] });
+      historyService.findUndoable.mockResolvedValue({
+        id: 'step-1',
+        undoOperations: getRevertOperations(
+          { shapes: [shape] },
+          moved.toDocument(),
+        ),
+      });
+      boardStateService.getShapes.mockResolvedValue(
+        BoardReplay.fromSnapshot({
+          shapes: [{ ...shape, x: 50, color: '#f00' }],
+        }),
+      );
+      const client = createJoinedClient();
+
+      const ack = await gateway.handleUndo(asSocket(client), {
+        whiteboardId: WHITEBOARD_ID,
+      });
+
+      expect(ack).toMatchObject({ status: 'ok', sequences: [9] });
+      expect(historyService.applyStep).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'step-1' }),
+        [
+          {
+            updateType: 'rectangle',
+            data: { shape: { ...shape, color: '#f00' } },
+          },
+        ],
+        expect.any(BoardReplay),
+      );
+      expect(serverEmit).toHaveBeenCalledWith(
+        'draw_update',
+        expect.objectContaining({ sequence: 9 }),
+      );
+    });
+
+    it('should broadcast nothing when the step fails to commit', async () => {
+      historyService.findUndoable.mockResolvedValue({
+        id: 'step-1',
+        undoOperations: [{ updateType: 'delete', data: { shapeId: 'r' } }],
+      });
+      historyService.applyStep.mockRejectedValue(new Error('insert failed'));
+      const client = createJoinedClient();
+
+      const ack = await gateway.handleUndo(asSocket(client), {
+        whiteboardId: WHITEBOARD_ID,
+      });
+
+      expect(ack).toMatchObject({ status: 'rejected', code: 'INTERNAL_ERROR' });
+      expect(serverEmit).not.toHaveBeenCalledWith(
+        'draw_update',
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('presence_update', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should broadcast presence as volatile with the user colour', () => {
+      const client = createJoinedClient('viewer');
+
+      gateway.handlePresenceUpdate(asSocket(client), {
+        whiteboardId: WHITEBOARD_ID,
+        pointer: { x: 10, y: 20 },
+        tool: 'pen',
+      });
+
+      expect(serverTo).toHaveBeenCalledWith(ROOM);
+      expect(volatileEmit).toHaveBeenCalledWith('presence_update', {
+        whiteboardId: WHITEBOARD_ID,
+        socketId: 'socket-1',
+        userId: user.id,
+        userEmail: user.email,
+        color: getPresenceColor(user.id),
+        pointer: { x: 10, y: 20 },
+        tool: 'pen',
+      });
+    });
+
+    it('should coalesce a burst of updates into the latest state', () => {
+      const client = createJoinedClient();
+
+      for (let x = 1; x <= 5; x++) {
+        gateway.handlePresenceUpdate(asSocket(client), {
+          whiteboardId: WHITEBOARD_ID,
+          pointer: { x, y: 0 },
+        });
+      }
+      jest.runOnlyPendingTimers();
+
+      expect(volatileEmit).toHaveBeenCalledTimes(2);
+      expect(volatileEmit).toHaveBeenLastCalledWith(
+        'presence_update',
+        expect.objectContaining({ pointer: { x: 5, y: 0 } }),
+      );
+    });
+
+    it('should ignore presence for a whiteboard the client has not joined', () => {
+      const client = createClient();
+
+      gateway.handlePresenceUpdate(asSocket(client), {
+        whiteboardId: WHITEBOARD_ID,
+        pointer: { x: 10, y: 20 },
+      });
+
+      expect(volatileEmit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('participants', () => {
+    it('should announce a user when their first tab joins', async () => {
+      const client = createClient();
+
+      await gateway.handleJoinWhiteboard(asSocket(client), {
+        whiteboardId: WHITEBOARD_ID,
+      });
+
+      expect(presenceService.join).toHaveBeenCalledWith(
+        WHITEBOARD_ID,
+        'socket-1',
+        user,
+      );
+      expect(client.roomEmit).toHaveBeenCalledWith(
+        'user_joined',
+        expect.objectContaining({ userId: user.id, fullName: 'Ada' }),
+      );
+    });
+
+    it('should not announce a user again from another tab', async () => {
+      presenceService.join.mockResolvedValue(false);
+      const client = createClient();
+
+      await gateway.handleJoinWhiteboard(asSocket(client), {
+        whiteboardId: WHITEBOARD_ID,
+      });
+
+      expect(lastEmitted(client, 'joined_whiteboard')).toMatchObject({
+        success: true,
+      });
+      expect(client.roomEmit).not.toHaveBeenCalled();
+    });
+
+    it('should only say a user left when their last tab leaves', async () => {
+      const client = createJoinedClient();
+      presenceService.leave.mockResolvedValue({
+        whiteboardId: WHITEBOARD_ID,
+        userId: user.id,
+        email: user.email,
+        lastConnection: false,
+      });
+
+      await gateway.handleLeaveWhiteboard(asSocket(client), {
+        whiteboardId: WHITEBOARD_ID,
+      });
+
+      expect(client.rooms.has(ROOM)).toBe(false);
+      expect(client.roomEmit).not.toHaveBeenCalledWith(
+        'user_left',
+        expect.anything(),
+      );
+
+      const lastTab = createJoinedClient();
+      presenceService.leave.mockResolvedValue({
+        whiteboardId: WHITEBOARD_ID,
+        userId: user.id,
+        email: user.email,
+        lastConnection: true,
+      });
+
+      await gateway.handleLeaveWhiteboard(asSocket(lastTab), {
+        whiteboardId: WHITEBOARD_ID,
+      });
+
+      expect(lastTab.roomEmit).toHaveBeenCalledWith('user_left', {
+        userId: user.id,
+        userEmail: user.email,
+        whiteboardId: WHITEBOARD_ID,
+      });
+    });
+
+    it('should send the roster of a whiteboard', async () => {
+      const participants = [
+        { userId: user.id, fullName: 'Ada', connections: 2 },
+      ];
+      whiteboardsService.getParticipants.mockResolvedValue(participants);
+      const client = createClient();
+
+      const response = await gateway.handleGetParticipants(asSocket(client), {
+        whiteboardId: WHITEBOARD_ID,
+      });
+
+      expect(response).toEqual({
+        success: true,
+        whiteboardId: WHITEBOARD_ID,
+        participants,
+      });
+      expect(lastEmitted(client, 'participants')).toEqual(response);
+    });
+
+    it('should not send the roster to a user without access', async () => {
+      whiteboardsService.findByIdWithAccess.mockRejectedValue(
+        new ForbiddenException('You do not have access to this whiteboard'),
+      );
+      const client = createClient();
+
+      const response = await gateway.handleGetParticipants(asSocket(client), {
+        whiteboardId: WHITEBOARD_ID,
+      });
+
+      expect(response).toMatchObject({ success: false });
+      expect(lastEmitted(client, 'participants_error')).toEqual(response);
+      expect(whiteboardsService.getParticipants).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('access events', () => {
+    /**
+     * Deliver an access event the way the broker would, and let it be applied
+     */
+    const publish = async (event: WhiteboardAccessEvent) => {
+      const [, handler] = pubSubBroker.subscribe.mock.calls.find(
+        ([channel]) => channel === WHITEBOARD_ACCESS_CHANNEL,
+      ) as [string, (message: unknown) => void];
+      handler(event);
+      await new Promise((resolve) => setImmediate(resolve));
+    };
+
+    it('should drop the connections of a user whose access was revoked', async () => {
+      const client = createJoinedClient();
+      localSockets = [client];
+
+      await publish({
+        type: 'revoked',
+        whiteboardId: WHITEBOARD_ID,
+        userId: user.id,
+      });
+
+      expect(client.rooms.has(ROOM)).toBe(false);
+      expect(client.data.roles).toEqual({});
+      expect(shapeLocksService.release).toHaveBeenCalledWith(
+        'socket-1',
+        WHITEBOARD_ID,
+      );
+      expect(lastEmitted(client, 'access_revoked')).toEqual({
+        whiteboardId: WHITEBOARD_ID,
+        message: 'Your access to this whiteboard was removed',
+      });
+    });
+
+    it('should leave the connections of other users alone', async () => {
+      const client = createJoinedClient();
+      localSockets = [client];
+
+      await publish({
+        type: 'revoked',
+        whiteboardId: WHITEBOARD_ID,
+        userId: 'user-2',
+      });
+
+      expect(client.rooms.has(ROOM)).toBe(true);
+      expect(client.emit).not.toHaveBeenCalled();
+    });
+
+    it('should give a connection its new role and stop it editing', async () => {
+      const client = createJoinedClient();
+      localSockets = [client];
+
+      await publish({
+        type: 'role_changed',
+        whiteboardId: WHITEBOARD_ID,
+        userId: user.id,
+        role: 'viewer',
+      });
+
+      expect(client.rooms.has(ROOM)).toBe(true);
+      expect(lastEmitted(client, 'role_changed')).toEqual({
+        whiteboardId: WHITEBOARD_ID,
+        role: 'viewer',
+      });
+      expect(shapeLocksService.release).toHaveBeenCalledWith(
+        'socket-1',
+        WHITEBOARD_ID,
+      );
+
+      const ack = await gateway.handleDrawUpdate(asSocket(client), {
+        whiteboardId: WHITEBOARD_ID,
+        updateType: 'rectangle',
+        data: { shape: { id: 'shape-8', type: 'rectangle' } },
+        clientOpId: 'op-1',
+      } as DrawUpdateDto);
+      expect(ack).toMatchObject({ status: 'rejected', code: 'FORBIDDEN' });
+    });
+  });
+});
@@ -4,20 +4,182 @@ import {
   SubscribeMessage,
   OnGatewayConnection,
   OnGatewayDisconnect,
+  OnGatewayInit,
   ConnectedSocket,
   MessageBody,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
-import { Logger, UsePipes, ValidationPipe, UseGuards, Inject, forwardRef } from '@nestjs/common';
+import {
+  Logger,
+  UsePipes,
+  UseFilters,
+  UseGuards,
+  Inject,
+  forwardRef,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  OnModuleDestroy,
+} from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
+import { isUUID } from 'class-validator';
 import { WsJwtAuthGuard } from './guards/ws-jwt-auth.guard';
+import { WsValidationPipe } from './pipes/ws-validation.pipe';
+import { WsValidationExceptionFilter } from './filters/ws-validation-exception.filter';
 import { JoinWhiteboardDto } from './dto/join-whiteboard.dto';
 import { DrawUpdateDto } from './dto/draw-update.dto';
+import { ResumeWhiteboardDto } from './dto/resume-whiteboard.dto';
+import { ShapeLocksDto } from './dto/shape-locks.dto';
+import {
+  PresencePointerDto,
+  PresenceUpdateDto,
+  PresenceViewportDto,
+} from './dto/presence-update.dto';
+import { PresenceThrottle } from './presence-throttle';
+import { getPresenceColor } from '../presence/presence-color';
+import { PresenceService } from '../presence/presence.service';
 import { WhiteboardsService } from '../whiteboards/whiteboards.service';
+import { WhiteboardOperationsService } from '../whiteboard-operations/whiteboard-operations.service';
+import { WhiteboardOperation } from '../whiteboard-operations/entities/whiteboard-operation.entity';
+import {
+  BoardReplay,
+  RESTORE_UPDATE_TYPE,
+  getAffectedShapeIds,
+} from '../whiteboard-operations/board-state.reducer';
+import {
+  BoardStateService,
+  toBoardOperation,
+} from '../whiteboard-operations/board-state.service';
+import {
+  RevertOperation,
+  getRevertOperations,
+  resolveRevertOperations,
+} from '../whiteboard-operations/board-history';
+import { WhiteboardHistoryService } from '../whiteboard-history/whiteboard-history.service';
+import { CollaboratorRole } from '../whiteboard-collaborators/entities/whiteboard-collaborator.entity';
+import {
+  canEdit,
+  highestRole,
+} from '../whiteboard-collaborators/collaborator-roles';
+import { WhiteboardShareLinksService } from '../whiteboard-share-links/whiteboard-share-links.service';
+import { PubSubBroker } from '../pubsub/pubsub-broker';
+import {
+  WHITEBOARD_ACCESS_CHANNEL,
+  WhiteboardAccessEvent,
+} from '../whiteboards/whiteboard-access-events';
+import {
+  WHITEBOARD_VERSION_CHANNEL,
+  WhiteboardVersionEvent,
+} from '../whiteboard-snapshots/whiteboard-version-events';
+import { ShapeLocksService } from '../shape-locks/shape-locks.service';
+import { WhiteboardShapeLock } from '../shape-locks/entities/whiteboard-shape-lock.entity';
+import { Whiteboard } from '../whiteboards/entities/whiteboard.entity';
 import { UsersService } from '../users/users.service';
 import { User } from '../users/entities/user.entity';
 import { JwtPayload } from '../auth/strategies/jwt.strategy';
 
+// Largest gap a reconnecting client can catch up on operation by operation;
+// anything bigger gets a full board resync instead
+const MAX_RESUME_OPERATIONS = 500;
+
+// Minimum time between two presence_update broadcasts of the same socket and board
+const PRESENCE_INTERVAL_MS = 50;
+
+// How often expired shape locks are cleared and announced
+const SHAPE_LOCK_SWEEP_INTERVAL_MS = 5000;
+
+/**
+ * Share link a connection was opened with (from the handshake's shareToken,
+ * or the share link a guest token was issued through)
+ */
+export interface ShareLinkSession {
+  id: string;
+  whiteboardId: string;
+  role: CollaboratorRole;
+}
+
+/**
+ * Last known presence of a socket on a whiteboard
+ */
+export interface PresenceState {
+  userId: string;
+  userEmail: string;
+  color: string;
+  pointer?: PresencePointerDto | null;
+  tool?: string | null;
+  selection?: string[];
+  viewport?: PresenceViewportDto | null;
+}
+
+/**
+ * Ack sent to the sender of a draw_update once it is in the operation log
+ */
+export interface DrawUpdateAck {
+  status: 'ok';
+  clientOpId: string | null;
+  whiteboardId: string;
+  sequence: number;
+  clock: number;
+  // True if an earlier attempt with the same clientOpId was already appended
+  duplicate: boolean;
+}
+
+export type DrawUpdateRejectionCode =
+  | 'NOT_JOINED'
+  | 'WHITEBOARD_NOT_FOUND'
+  | 'FORBIDDEN'
+  | 'SHAPE_LOCKED'
+  | 'CLOCK_OUT_OF_RANGE'
+  | 'VALIDATION_FAILED'
+  | 'INTERNAL_ERROR';
+
+/**
+ * Ack sent to the sender of a draw_update that was not applied
+ */
+export interface DrawUpdateRejection {
+  status: 'rejected';
+  clientOpId: string | null;
+  whiteboardId: string;
+  code: DrawUpdateRejectionCode;
+  message: string;
+  // Whether sending the same update again may succeed
+  retryable: boolean;
+  // For SHAPE_LOCKED: the shapes another connection holds
+  shapeIds?: string[];
+  // For VALIDATION_FAILED: every failed constraint (see WsValidationPipe)
+  errors?: string[];
+}
+
+/**
+ * Ack sent to the sender of an undo or redo once its operations are in the log
+ */
+export interface HistoryAck {
+  status: 'ok';
+  whiteboardId: string;
+  // Sequences of the operations the step appended (broadcast as draw_update)
+  sequences: number[];
+}
+
+export type HistoryRejectionCode =
+  | 'NOT_JOINED'
+  | 'FORBIDDEN'
+  | 'NOTHING_TO_UNDO'
+  | 'NOTHING_TO_REDO'
+  | 'SHAPE_LOCKED'
+  | 'INTERNAL_ERROR';
+
+/**
+ * Ack sent to the sender of an undo or redo that was not applied
+ */
+export interface HistoryRejection {
+  status: 'rejected';
+  whiteboardId: string;
+  code: HistoryRejectionCode;
+  message: string;
+  // For SHAPE_LOCKED: the shapes another connection holds
+  shapeIds?: string[];
+}
+
 /**
  * WebSocket Gateway for Real-Time Whiteboard Collaboration
  * Handles real-time drawing updates and user presence
@@ -25,8 +187,24 @@ import { JwtPayload } from '../auth/strategies/jwt.strategy';
  * Architecture:
  * - Each whiteboard is a Socket.IO room identified by whiteboardId
  * - Users join rooms when they open a whiteboard
- * - Drawing updates are broadcast to all users in the room (except sender)
- * - Real-time logic is separate from database persistence
+ * - Drawing updates are appended to the whiteboard operation log, then
+ *   broadcast to all users in the room (except sender) with their sequence number
+ * - Pointer, tool, selection and viewport go over the separate, volatile
+ *   presence_update channel, throttled per socket and board
+ * - Editors can lease shapes (acquire/renew/release_shape_locks); updates to
+ *   shapes leased by another connection are rejected
+ * - Every update a user makes is pushed onto their undo stack for the board;
+ *   undo/redo append the stored inverse operations like any other update
+ * - Rooms and broadcasts span every API process through the PubSubIoAdapter
+ *   (see main.ts); connections are tracked in the shared PresenceService
+ * - The user's role on a board is loaded on join and cached on the socket;
+ *   only roles with edit rights may change the board. Users whose access is
+ *   revoked over HTTP are dropped from the room (WHITEBOARD_ACCESS_CHANNEL)
+ * - A board restored to an earlier version over HTTP is sent to everyone in
+ *   its room (WHITEBOARD_VERSION_CHANNEL)
+ * - A handshake may carry a share link token; the connection can then join
+ *   that board at the link's role. Connections without an account may only
+ *   join, resume and leave, are read-only and don't appear in presence
  */
 @WebSocketGateway({
   cors: {
@@ -36,26 +214,98 @@ import { JwtPayload } from '../auth/strategies/jwt.strategy';
   namespace: '/whiteboard',
 })
 @UseGuards(WsJwtAuthGuard)
-@UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+@UsePipes(new WsValidationPipe())
+@UseFilters(new WsValidationExceptionFilter())
 export class WhiteboardGateway
-  implements OnGatewayConnection, OnGatewayDisconnect
+  implements
+    OnGatewayInit,
+    OnGatewayConnection,
+    OnGatewayDisconnect,
+    OnModuleDestroy
 {
   @WebSocketServer()
   server: Server;
 
   private readonly logger = new Logger(WhiteboardGateway.name);
 
-  // Map to track which rooms each user is in
-  private userRooms = new Map<string, Set<string>>();
+  // Tail of the task queue of each whiteboard (see runInBoardQueue)
+  private boardQueues = new Map<string, Promise<unknown>>();
+
+  private lockSweepTimer: NodeJS.Timeout | null = null;
+
+  private unsubscribeAccessEvents: (() => Promise<void>) | null = null;
+
+  private unsubscribeVersionEvents: (() => Promise<void>) | null = null;
+
+  // Coalesced presence per `${socketId}:${whiteboardId}`. Created in
+  // afterInit: Nest copies a gateway with forwardRef dependencies onto another
+  // object, so a callback bound in the constructor would miss the server
+  private presenceThrottle: PresenceThrottle<PresenceState>;
 
   constructor(
     private readonly whiteboardsService: WhiteboardsService,
+    private readonly operationsService: WhiteboardOperationsService,
+    private readonly presenceService: PresenceService,
+    private readonly shapeLocksService: ShapeLocksService,
+    private readonly boardStateService: BoardStateService,
+    private readonly historyService: WhiteboardHistoryService,
+    private readonly pubSubBroker: PubSubBroker,
+    private readonly shareLinksService: WhiteboardShareLinksService,
     @Inject(forwardRef(() => JwtService))
     private readonly jwtService: JwtService,
     @Inject(forwardRef(() => UsersService))
     private readonly usersService: UsersService,
   ) {}
 
+  /**
+   * Starts coalescing presence, the periodic sweep of expired shape locks,
+   * and listens for access and version changes made over HTTP
+   */
+  afterInit() {
+    this.presenceThrottle = new PresenceThrottle<PresenceState>(
+      PRESENCE_INTERVAL_MS,
+      (key, state) => this.broadcastPresence(key, state),
+    );
+
+    this.lockSweepTimer = setInterval(() => {
+      void this.sweepExpiredLocks();
+    }, SHAPE_LOCK_SWEEP_INTERVAL_MS);
+
+    void this.pubSubBroker
+      .subscribe(WHITEBOARD_ACCESS_CHANNEL, (message) => {
+        void this.handleAccessEvent(message as WhiteboardAccessEvent);
+      })
+      .then((unsubscribe) => {
+        this.unsubscribeAccessEvents = unsubscribe;
+      })
+      .catch((error: Error) => {
+        this.logger.error(
+          `Failed to subscribe to access events: ${error.message}`,
+        );
+      });
+
+    void this.pubSubBroker
+      .subscribe(WHITEBOARD_VERSION_CHANNEL, (message) => {
+        void this.handleVersionEvent(message as WhiteboardVersionEvent);
+      })
+      .then((unsubscribe) => {
+        this.unsubscribeVersionEvents = unsubscribe;
+      })
+      .catch((error: Error) => {
+        this.logger.error(
+          `Failed to subscribe to version events: ${error.message}`,
+        );
+      });
+  }
+
+  async onModuleDestroy() {
+    if (this.lockSweepTimer) {
+      clearInterval(this.lockSweepTimer);
+    }
+    await this.unsubscribeAccessEvents?.();
+    await this.unsubscribeVersionEvents?.();
+  }
+
   /**
    * Handles new WebSocket connections
    * Manually authenticates user if guard didn't set it (guards may not run for lifecycle hooks)
@@ -70,29 +320,103 @@ export class WhiteboardGateway
         this.logger.debug('User not set by guard, attempting manual authentication...');
         user = await this.authenticateClient(client);
         
-        if (!user) {
-          this.logger.warn('Connection attempt without authenticated user, disconnecting...');
-          client.disconnect();
-          return;
+        if (user) {
+          // Set user in client data for future use
+          client.data.user = user;
+          client.data.userId = user.id;
         }
-        
-        // Set user in client data for future use
-        client.data.user = user;
-        client.data.userId = user.id;
       }
 
-      this.logger.log(`User connected: ${user.email} (${user.id})`);
+      // Share link holders may connect without an account; guests already
+      // got the link their token was issued through
+      const shareLink: ShareLinkSession | null = user?.isGuest
+        ? client.data.shareLink
+        : await this.openShareLinkFromHandshake(client);
 
-      // Initialize user's room set if not exists
-      if (!this.userRooms.has(user.id)) {
-        this.userRooms.set(user.id, new Set());
+      if (!user && !shareLink) {
+        this.logger.warn(
+          'Connection attempt without authenticated user, disconnecting...',
+        );
+        client.disconnect();
+        return;
       }
+
+      this.logger.log(`Connected: ${this.describeClient(client)}`);
+
+      // Resume the whiteboards the client was in before it reconnected
+      await this.resumeFromHandshake(client);
     } catch (error) {
       this.logger.error(`Connection error: ${error.message}`, error.stack);
       client.disconnect();
     }
   }
 
+  /**
+   * Opens the share link named by the handshake's shareToken, if any
+   * The link (with its password, sharePassword) is checked once here and
+   * counts one use; its expiry and revocation are checked again on every join.
+   * Changes are attributed to a user, so connections without an account are
+   * refused links above viewer rather than quietly getting less
+   * @param client - Socket.IO client
+   * @returns Share link session, or null without a usable link
+   */
+  private async openShareLinkFromHandshake(
+    client: Socket,
+  ): Promise<ShareLinkSession | null> {
+    const token: unknown = client.handshake.auth?.shareToken;
+    if (typeof token !== 'string' || token.length === 0) {
+      return null;
+    }
+
+    const password: unknown = client.handshake.auth?.sharePassword;
+
+    try {
+      const shareLink = await this.shareLinksService.resolve(
+        token,
+        typeof password === 'string' ? password : null,
+        client.handshake.address,
+      );
+
+      if (!client.data.user && shareLink.role !== 'viewer') {
+        throw new ForbiddenException(
+          `This share link gives the ${shareLink.role} role; join as a guest or sign in to use it`,
+        );
+      }
+
+      await this.shareLinksService.recordUse(shareLink);
+
+      const session: ShareLinkSession = {
+        id: shareLink.id,
+        whiteboardId: shareLink.whiteboardId,
+        role: shareLink.role,
+      };
+      client.data.shareLink = session;
+      return session;
+    } catch (error) {
+      this.logger.warn(`Rejected share link in handshake: ${error.message}`);
+      client.emit('share_link_error', {
+        success: false,
+        message: error.message || 'Invalid share link',
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Describes a connection for log messages
+   * @param client - Socket.IO client
+   * @returns User email and ID, or the share link of an anonymous connection
+   */
+  private describeClient(client: Socket): string {
+    const user: User | undefined = client.data.user;
+    if (user) {
+      return `user ${user.email} (${user.id})`;
+    }
+
+    const shareLink: ShareLinkSession | undefined = client.data.shareLink;
+    return `anonymous socket ${client.id} (share link ${shareLink?.id})`;
+  }
+
   /**
    * Manually authenticates a Socket.IO client
    * Extracts and validates JWT token from handshake
@@ -133,6 +457,33 @@ export class WhiteboardGateway
         return null;
       }
 
+      // Guest tokens only open the whiteboard of the share link they were issued through
+      if (payload.type === 'guest' || user.isGuest) {
+        if (!user.isGuest || !payload.whiteboardId || !payload.shareLinkId) {
+          this.logger.warn(`Invalid guest token for user: ${payload.sub}`);
+          return null;
+        }
+
+        // Throws if the link expired or was revoked since the guest joined
+        const shareLink = await this.shareLinksService.findUsable(
+          payload.shareLinkId,
+        );
+        const session: ShareLinkSession = {
+          id: shareLink.id,
+          whiteboardId: shareLink.whiteboardId,
+          role: shareLink.role,
+        };
+        client.data.shareLink = session;
+
+        // Expired guests get deleted, so they can't stay connected either
+        if (payload.exp) {
+          client.data.guestExpiryTimer = setTimeout(
+            () => client.disconnect(true),
+            payload.exp * 1000 - Date.now(),
+          );
+        }
+      }
+
       this.logger.debug(`User authenticated: ${user.email}`);
       return user;
     } catch (error) {
@@ -190,227 +541,1502 @@ export class WhiteboardGateway
   }
 
   /**
-   * Handles WebSocket disconnections
-   * Cleans up user from all rooms they were in
-   * @param client - Disconnected Socket.IO client
+   * Runs a task after every task previously queued for the same whiteboard
+   * Operation appends, their broadcasts and join-time state loads all go
+   * through this queue, so they happen in sequence order
+   * @param whiteboardId - Whiteboard ID the task belongs to
+   * @param task - Task to run
+   * @returns Result of the task
    */
-  async handleDisconnect(@ConnectedSocket() client: Socket) {
-    const user: User = client.data.user;
-    
-    // Safety check: if user is not set, just log and return
-    if (!user || !user.id) {
-      this.logger.warn('Disconnection from unauthenticated client');
+  private runInBoardQueue<T>(
+    whiteboardId: string,
+    task: () => Promise<T>,
+  ): Promise<T> {
+    const previous = this.boardQueues.get(whiteboardId) ?? Promise.resolve();
+    const result = previous.then(task);
+
+    // A failed task must not block the tasks queued after it
+    const tail = result.catch(() => undefined);
+    this.boardQueues.set(whiteboardId, tail);
+    void tail.then(() => {
+      if (this.boardQueues.get(whiteboardId) === tail) {
+        this.boardQueues.delete(whiteboardId);
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Resumes every whiteboard listed in the handshake's auth.resume map
+   * Reconnecting clients send `{ resume: { [whiteboardId]: lastSequence } }`
+   * so they get their missed operations without an extra round trip
+   * @param client - Socket.IO client
+   */
+  private async resumeFromHandshake(client: Socket): Promise<void> {
+    const resume: unknown = client.handshake.auth?.resume;
+    if (!resume || typeof resume !== 'object') {
       return;
     }
 
-    this.logger.log(`User disconnected: ${user.email} (${user.id})`);
+    for (const [whiteboardId, lastSequence] of Object.entries(resume)) {
+      // Skip malformed entries instead of failing the whole connection
+      if (
+        !isUUID(whiteboardId, '4') ||
+        !Number.isInteger(lastSequence) ||
+        (lastSequence as number) < 0
+      ) {
+        this.logger.warn(`Ignoring invalid resume entry for ${whiteboardId}`);
+        continue;
+      }
 
-    // Remove user from all rooms and clean up
-    const userRoomSet = this.userRooms.get(user.id);
-    if (userRoomSet) {
-      userRoomSet.forEach((roomId) => {
-        client.leave(roomId);
-        this.logger.debug(`User ${user.email} left room: ${roomId}`);
+      await this.handleResumeWhiteboard(client, {
+        whiteboardId,
+        lastSequence: lastSequence as number,
       });
-      this.userRooms.delete(user.id);
     }
   }
 
   /**
-   * Handles join_whiteboard event
-   * Validates user access and adds them to the whiteboard room
-   * 
-   * @param client - Socket.IO client
-   * @param payload - Contains whiteboardId
+   * Maps a logged operation to the payload of a draw_update event
+   * @param operation - Operation from the whiteboard operation log
+   * @returns draw_update event payload
    */
-  @SubscribeMessage('join_whiteboard')
-  async handleJoinWhiteboard(
-    @ConnectedSocket() client: Socket,
-    @MessageBody() payload: JoinWhiteboardDto,
-  ) {
-    const user: User = client.data.user;
-    const { whiteboardId } = payload;
-
-    try {
-      // Verify user has access to this whiteboard
-      // This ensures only authorized users can join the room
-      await this.whiteboardsService.findByIdWithAccess(whiteboardId, user);
+  private toDrawUpdateEvent(operation: WhiteboardOperation) {
+    return {
+      whiteboardId: operation.whiteboardId,
+      updateType: operation.updateType,
+      data: operation.data,
+      sequence: operation.sequence,
+      clock: operation.clock,
+      userId: operation.userId, // Include sender ID for potential UI features (e.g., showing who drew)
+      timestamp: operation.createdAt.toISOString(),
+    };
+  }
 
-      // Join the Socket.IO room for this whiteboard
-      // Room name format: `whiteboard:${whiteboardId}`
-      const roomName = `whiteboard:${whiteboardId}`;
-      await client.join(roomName);
+  /**
+   * Builds the rejection ack of a draw_update
+   * Also emits it as draw_update_error for clients that don't use acks
+   * @param client - Socket.IO client that sent the update
+   * @param payload - The rejected draw_update payload
+   * @param code - Rejection code
+   * @param message - Human readable reason
+   * @param shapeIds - Shapes locked by another connection (for SHAPE_LOCKED)
+   * @returns Rejection ack
+   */
+  private rejectDrawUpdate(
+    client: Socket,
+    payload: DrawUpdateDto,
+    code: DrawUpdateRejectionCode,
+    message: string,
+    shapeIds?: string[],
+  ): DrawUpdateRejection {
+    const rejection: DrawUpdateRejection = {
+      status: 'rejected',
+      clientOpId: payload.clientOpId ?? null,
+      whiteboardId: payload.whiteboardId,
+      code,
+      message,
+      retryable: code === 'INTERNAL_ERROR',
+      ...(shapeIds ? { shapeIds } : {}),
+    };
 
-      // Track which rooms the user is in
-      if (!this.userRooms.has(user.id)) {
-        this.userRooms.set(user.id, new Set());
-      }
-      this.userRooms.get(user.id)!.add(whiteboardId);
+    client.emit('draw_update_error', {
+      success: false,
+      ...rejection,
+    });
 
-      // Get the room to check how many clients are in it (using safe access)
-      let roomSize = 0;
-      try {
-        const adapter = this.server?.sockets?.adapter;
-        if (adapter?.rooms) {
-          const room = adapter.rooms.get(roomName);
-          roomSize = room ? room.size : 0;
-        } else {
-          // Fallback: use server.in() method
-          const socketsInRoom = await this.server.in(roomName).fetchSockets();
-          roomSize = socketsInRoom.length;
-        }
-      } catch (error) {
-        this.logger.warn(`Could not get room size for ${roomName}: ${error.message}`);
-        // Fallback: assume at least 1 (the current client)
-        roomSize = 1;
-      }
+    return rejection;
+  }
 
-      this.logger.log(
-        `[JOIN] User ${user.email} (${user.id}) joined whiteboard room: ${whiteboardId} (Room now has ${roomSize} client(s))`,
+  /**
+   * Pushes an appended update onto its sender's undo stack
+   * A failure is only logged: the update itself is already applied
+   * @param user - User who sent the update
+   * @param operation - Appended operation
+   * @param before - Shapes the operation writes to (every shape for a
+   *   clear), as they were before it
+   */
+  private async recordHistory(
+    user: User,
+    operation: WhiteboardOperation,
+    before: BoardReplay,
+  ): Promise<void> {
+    try {
+      const after = before.slice();
+      after.apply(toBoardOperation(operation));
+      await this.historyService.record(
+        operation.whiteboardId,
+        user.id,
+        operation.sequence,
+        getRevertOperations(before.toDocument(), after.toDocument()),
       );
-
-      // Notify the client that they successfully joined
-      client.emit('joined_whiteboard', {
-        success: true,
-        whiteboardId,
-        message: 'Successfully joined whiteboard',
-      });
-
-      // Optionally notify other users in the room (for presence features)
-      client.to(roomName).emit('user_joined', {
-        userId: user.id,
-        userEmail: user.email,
-        whiteboardId,
-      });
     } catch (error) {
       this.logger.error(
-        `Failed to join whiteboard ${whiteboardId} for user ${user.email}: ${error.message}`,
+        `Failed to record history of #${operation.sequence} on whiteboard ${operation.whiteboardId}: ${error.message}`,
+        error.stack,
       );
-
-      // Notify client of the error
-      client.emit('join_error', {
-        success: false,
-        whiteboardId,
-        message: error.message || 'Failed to join whiteboard',
-      });
     }
   }
 
   /**
-   * Handles draw_update event
-   * Broadcasts drawing updates to all users in the same whiteboard room (except sender)
-   * 
-   * Note: This only handles real-time broadcasting.
-   * Database persistence should be handled separately via HTTP endpoints.
-   * 
+   * Undoes or redoes the top step of a user's history on a whiteboard
+   * The step's operations are fitted to the current board, so only fields
+   * nobody changed since are taken back, then appended in one go while the
+   * step moves to the other stack with the operations that reverse it again.
+   * Once that is committed they are broadcast to the whole room (sender
+   * included, it didn't make them)
    * @param client - Socket.IO client
-   * @param payload - Contains whiteboardId, updateType, and drawing data
+   * @param whiteboardId - Whiteboard ID
+   * @param direction - 'undo' or 'redo'
+   * @returns Ack with the appended sequences, or the rejection
    */
-  @SubscribeMessage('draw_update')
-  async handleDrawUpdate(
-    @ConnectedSocket() client: Socket,
-    @MessageBody() payload: DrawUpdateDto,
-  ) {
+  private async applyHistoryStep(
+    client: Socket,
+    whiteboardId: string,
+    direction: 'undo' | 'redo',
+  ): Promise<HistoryAck | HistoryRejection> {
     const user: User = client.data.user;
-    const { whiteboardId, updateType, data } = payload;
+    const roomName = `whiteboard:${whiteboardId}`;
+
+    const reject = (
+      code: HistoryRejectionCode,
+      message: string,
+      shapeIds?: string[],
+    ): HistoryRejection => {
+      const rejection: HistoryRejection = {
+        status: 'rejected',
+        whiteboardId,
+        code,
+        message,
+        ...(shapeIds ? { shapeIds } : {}),
+      };
+      client.emit(`${direction}_error`, { success: false, ...rejection });
+      return rejection;
+    };
+
+    if (!client.rooms.has(roomName)) {
+      return reject('NOT_JOINED', 'Join the whiteboard first');
+    }
+    if (!canEdit(this.getCachedRole(client, whiteboardId))) {
+      return reject(
+        'FORBIDDEN',
+        'You do not have permission to edit this whiteboard',
+      );
+    }
 
     try {
-      // Verify user is in the room (they should have joined via join_whiteboard first)
-      const roomName = `whiteboard:${whiteboardId}`;
-      const userRoomSet = this.userRooms.get(user.id);
+      const result = await this.runInBoardQueue(whiteboardId, async () => {
+        const entry =
+          direction === 'undo'
+            ? await this.historyService.findUndoable(whiteboardId, user.id)
+            : await this.historyService.findRedoable(whiteboardId, user.id);
+        if (!entry) {
+          return null;
+        }
 
-      if (!userRoomSet || !userRoomSet.has(whiteboardId)) {
-        this.logger.warn(
-          `User ${user.email} not in room ${whiteboardId}, attempting to join...`,
+        const stored: RevertOperation[] =
+          direction === 'undo'
+            ? entry.undoOperations
+            : (entry.redoOperations ?? []);
+
+        const shapeIds = stored.map((operation) =>
+          getAffectedShapeIds(operation.updateType, operation.data),
         );
-        // User not in room, try to join first
-        await this.handleJoinWhiteboard(client, { whiteboardId });
-      }
+        const touched = shapeIds.includes(null)
+          ? undefined
+          : shapeIds.flatMap((ids) => ids ?? []);
+        if (touched === undefined || touched.length > 0) {
+          const conflicts = await this.shapeLocksService.findConflicts(
+            whiteboardId,
+            touched,
+            client.id,
+          );
+          if (conflicts.length > 0) {
+            return { lockedShapeIds: conflicts.map((lock) => lock.shapeId) };
+          }
+        }
 
-      // Get the room to check how many clients are in it (using safe access)
-      let roomSize = 0;
-      try {
-        const adapter = this.server?.sockets?.adapter;
-        if (adapter?.rooms) {
-          const room = adapter.rooms.get(roomName);
-          roomSize = room ? room.size : 0;
-        } else {
-          // Fallback: use server.in() method
-          const socketsInRoom = await this.server.in(roomName).fetchSockets();
-          roomSize = socketsInRoom.length;
+        const before = await this.boardStateService.getShapes(
+          whiteboardId,
+          touched,
+        );
+        // Fields others changed since the step keep their new values
+        const operations = resolveRevertOperations(stored, before.toDocument());
+        const appended = await this.historyService.applyStep(
+          entry,
+          operations,
+          before,
+        );
+
+        // Only broadcast once the step is committed
+        for (const operation of appended) {
+          this.server
+            .to(roomName)
+            .emit('draw_update', this.toDrawUpdateEvent(operation));
         }
-      } catch (error) {
-        this.logger.warn(`Could not get room size for ${roomName}: ${error.message}`);
-        // Fallback: assume at least 1 (the current client)
-        roomSize = 1;
+
+        return { appended };
+      });
+
+      if (!result) {
+        return direction === 'undo'
+          ? reject('NOTHING_TO_UNDO', 'Nothing to undo')
+          : reject('NOTHING_TO_REDO', 'Nothing to redo');
+      }
+      if ('lockedShapeIds' in result) {
+        return reject(
+          'SHAPE_LOCKED',
+          'Shape is locked by another user',
+          result.lockedShapeIds,
+        );
       }
 
       this.logger.log(
-        `[DRAW_UPDATE] User ${user.email} (${user.id}) broadcasting ${updateType} to room ${roomName} (${roomSize} clients)`,
+        `[${direction.toUpperCase()}] User ${user.email} applied ${result.appended.length} operation(s) to whiteboard ${whiteboardId}`,
       );
 
-      // Broadcast the drawing update to all other users in the room
-      // Using 'to()' excludes the sender from receiving their own update
-      client.to(roomName).emit('draw_update', {
+      return {
+        status: 'ok',
         whiteboardId,
-        updateType,
-        data,
-        userId: user.id, // Include sender ID for potential UI features (e.g., showing who drew)
-        timestamp: new Date().toISOString(),
-      });
-
-      this.logger.log(
-        `[DRAW_UPDATE] Successfully broadcasted ${updateType} update from ${user.email} to ${roomSize - 1} other user(s) in room ${whiteboardId}`,
-      );
+        sequences: result.appended.map((operation) => operation.sequence),
+      };
     } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
       this.logger.error(
-        `[DRAW_UPDATE] Failed to broadcast draw update for whiteboard ${whiteboardId} by user ${user.email}: ${error.message}`,
-        error.stack,
+        `[${direction.toUpperCase()}] Failed for whiteboard ${whiteboardId} by user ${user.email}: ${failure.message}`,
+        failure.stack,
+      );
+      return reject(
+        'INTERNAL_ERROR',
+        failure.message || `Failed to ${direction}`,
       );
+    }
+  }
 
-      // Notify client of the error
-      client.emit('draw_update_error', {
-        success: false,
+  /**
+   * Broadcasts the coalesced presence of a socket to its whiteboard room
+   * Sent as volatile: a dropped update is superseded by the next one anyway
+   * @param key - Presence key (`${socketId}:${whiteboardId}`)
+   * @param state - Merged presence state
+   */
+  private broadcastPresence(key: string, state: PresenceState): void {
+    const [socketId, whiteboardId] = key.split(':');
+
+    this.server
+      .to(`whiteboard:${whiteboardId}`)
+      .except(socketId)
+      .volatile.emit('presence_update', {
         whiteboardId,
-        message: error.message || 'Failed to broadcast drawing update',
+        socketId,
+        ...state,
       });
-    }
   }
 
   /**
-   * Handles leave_whiteboard event (optional)
-   * Allows users to explicitly leave a whiteboard room
-   * 
+   * Drops the presence of a client and tells its rooms to remove it
    * @param client - Socket.IO client
-   * @param payload - Contains whiteboardId
+   * @param whiteboardId - Whiteboard to drop presence for (all if omitted)
    */
-  @SubscribeMessage('leave_whiteboard')
-  async handleLeaveWhiteboard(
-    @ConnectedSocket() client: Socket,
-    @MessageBody() payload: JoinWhiteboardDto,
-  ) {
+  private removePresence(client: Socket, whiteboardId?: string): void {
     const user: User = client.data.user;
-    const { whiteboardId } = payload;
-
-    const roomName = `whiteboard:${whiteboardId}`;
-    await client.leave(roomName);
+    const keys = this.presenceThrottle.drop(
+      whiteboardId ? `${client.id}:${whiteboardId}` : `${client.id}:`,
+    );
 
-    // Remove from tracking
-    const userRoomSet = this.userRooms.get(user.id);
-    if (userRoomSet) {
-      userRoomSet.delete(whiteboardId);
+    for (const key of keys) {
+      const boardId = key.split(':')[1];
+      this.server.to(`whiteboard:${boardId}`).emit('presence_removed', {
+        whiteboardId: boardId,
+        socketId: client.id,
+        userId: user.id,
+      });
     }
+  }
 
-    this.logger.log(
-      `User ${user.email} left whiteboard room: ${whiteboardId}`,
-    );
-
-    // Notify other users in the room
-    client.to(roomName).emit('user_left', {
-      userId: user.id,
+  /**
+   * Maps a shape lock to its event payload
+   * @param lock - Shape lock
+   * @returns Lock as sent to clients
+   */
+  private toShapeLockEvent(lock: WhiteboardShapeLock) {
+    return {
+      shapeId: lock.shapeId,
+      userId: lock.userId,
+      socketId: lock.socketId,
+      color: getPresenceColor(lock.userId),
+      expiresAt: lock.expiresAt.toISOString(),
+    };
+  }
+
+  /**
+   * Tells the rooms of some released locks that their shapes are free again
+   * @param locks - Released locks (may span several whiteboards)
+   * @param reason - Why they were released
+   */
+  private broadcastLocksReleased(
+    locks: WhiteboardShapeLock[],
+    reason: 'released' | 'expired' | 'disconnected',
+  ): void {
+    const shapeIdsByBoard = new Map<string, string[]>();
+    for (const lock of locks) {
+      const shapeIds = shapeIdsByBoard.get(lock.whiteboardId) ?? [];
+      shapeIds.push(lock.shapeId);
+      shapeIdsByBoard.set(lock.whiteboardId, shapeIds);
+    }
+
+    for (const [whiteboardId, shapeIds] of shapeIdsByBoard) {
+      this.server
+        .to(`whiteboard:${whiteboardId}`)
+        .emit('shape_locks_released', {
+          whiteboardId,
+          shapeIds,
+          reason,
+        });
+    }
+  }
+
+  /**
+   * Clears expired shape locks and announces them
+   * Runs every SHAPE_LOCK_SWEEP_INTERVAL_MS on every API process; each lock
+   * is announced by exactly one of them
+   */
+  private async sweepExpiredLocks(): Promise<void> {
+    try {
+      const expired = await this.shapeLocksService.releaseExpired();
+      this.broadcastLocksReleased(expired, 'expired');
+    } catch (error) {
+      this.logger.error(
+        `Failed to sweep expired shape locks: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Adds a client to a whiteboard room after checking access
+   * Joining the room and the onJoined step (sending the board content) run as
+   * one task of the board queue, so the client receives nothing from the room
+   * before that content
+   * @param client - Socket.IO client
+   * @param whiteboardId - Whiteboard ID
+   * @param onJoined - Loads and sends the board content to the client
+   * @returns Result of onJoined
+   * @throws NotFoundException if whiteboard not found
+   * @throws ForbiddenException if user doesn't have access
+   */
+  private async enterWhiteboardRoom<T>(
+    client: Socket,
+    whiteboardId: string,
+    onJoined: (whiteboard: Whiteboard) => Promise<T>,
+  ): Promise<T> {
+    const user: User | undefined = client.data.user;
+    const shareLink: ShareLinkSession | undefined = client.data.shareLink;
+
+    let whiteboard: Whiteboard;
+    let role: CollaboratorRole | null;
+    if (shareLink?.whiteboardId === whiteboardId) {
+      // Throws if the link expired or was revoked since the handshake
+      const link = await this.shareLinksService.findUsable(shareLink.id);
+
+      const found = await this.whiteboardsService.findById(whiteboardId);
+      if (!found) {
+        throw new NotFoundException('Whiteboard not found');
+      }
+      whiteboard = found;
+
+      // Anonymous holders only get in with viewer links (see
+      // openShareLinkFromHandshake); guests are capped by the board's guest role
+      if (!user) {
+        role = 'viewer';
+      } else if (user.isGuest) {
+        role = this.whiteboardsService.getGuestRole(whiteboard, link);
+      } else {
+        role = highestRole(
+          await this.whiteboardsService.getRole(whiteboard, user),
+          shareLink.role,
+        );
+      }
+    } else if (user && !user.isGuest) {
+      // Verify user has access to this whiteboard
+      // This ensures only authorized users can join the room
+      whiteboard = await this.whiteboardsService.findByIdWithAccess(
+        whiteboardId,
+        user,
+      );
+      role = await this.whiteboardsService.getRole(whiteboard, user);
+    } else {
+      throw new ForbiddenException(
+        'Your share link does not give access to this whiteboard',
+      );
+    }
+
+    if (!role) {
+      throw new ForbiddenException(
+        'You do not have permission to access this whiteboard',
+      );
+    }
+
+    // Join the Socket.IO room for this whiteboard
+    // Room name format: `whiteboard:${whiteboardId}`
+    const roomName = `whiteboard:${whiteboardId}`;
+    const result = await this.runInBoardQueue(whiteboardId, async () => {
+      // Cached for the permission checks of every later message
+      client.data.roles = { ...client.data.roles, [whiteboardId]: role };
+      await client.join(roomName);
+
+      try {
+        return await onJoined(whiteboard);
+      } catch (error) {
+        // Don't leave the client in a room it never got the content of
+        await client.leave(roomName);
+        delete client.data.roles[whiteboardId];
+        throw error;
+      }
+    });
+
+    // Anonymous connections have no presence
+    if (!user) {
+      return result;
+    }
+
+    // Track the connection; the room only hears about the user's first one
+    const firstConnection = await this.presenceService.join(
+      whiteboardId,
+      client.id,
+      user,
+    );
+
+    if (firstConnection) {
+      client.to(roomName).emit('user_joined', {
+        userId: user.id,
+        userEmail: user.email,
+        fullName: user.fullName ?? null,
+        color: getPresenceColor(user.id),
+        whiteboardId,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Takes a connection out of a whiteboard room
+   * Drops its presence, cached role and shape locks; the room hears
+   * user_left only if it was the user's last connection to the board
+   * @param client - Socket.IO client
+   * @param whiteboardId - Whiteboard ID
+   */
+  private async exitWhiteboardRoom(
+    client: Socket,
+    whiteboardId: string,
+  ): Promise<void> {
+    const user: User | undefined = client.data.user;
+    const roomName = `whiteboard:${whiteboardId}`;
+
+    this.removePresence(client, whiteboardId);
+    await client.leave(roomName);
+    if (client.data.roles) {
+      delete client.data.roles[whiteboardId];
+    }
+
+    const locks = await this.shapeLocksService.release(client.id, whiteboardId);
+    this.broadcastLocksReleased(locks, 'released');
+
+    if (!user) {
+      return;
+    }
+
+    // Remove from tracking
+    const departure = await this.presenceService.leave(whiteboardId, client.id);
+
+    // Notify other users in the room, unless the user is still there in another tab
+    if (departure?.lastConnection) {
+      client.to(roomName).emit('user_left', {
+        userId: user.id,
+        userEmail: user.email,
+        whiteboardId,
+      });
+    }
+  }
+
+  /**
+   * Applies an access change published by WhiteboardsService
+   * Every process drops its own connections of a user whose access was
+   * revoked from the whiteboard room, and tells them with access_revoked;
+   * on a role change they stay in the room with the new role. A revoked
+   * share link drops every connection that was opened with it
+   * @param event - Access event
+   */
+  private async handleAccessEvent(event: WhiteboardAccessEvent): Promise<void> {
+    const { whiteboardId } = event;
+
+    try {
+      // Local sockets come back as the Socket instances themselves
+      const sockets = (await this.server.local
+        .in(`whiteboard:${whiteboardId}`)
+        .fetchSockets()) as unknown as Socket[];
+
+      if (event.type === 'share_link_revoked') {
+        await this.evictShareLinkHolders(sockets, event.shareLinkId);
+        return;
+      }
+
+      if (event.type === 'guest_access_changed') {
+        await this.applyGuestAccessChange(sockets, whiteboardId);
+        return;
+      }
+
+      const { userId } = event;
+      for (const socket of sockets) {
+        if ((socket.data.user as User | undefined)?.id !== userId) {
+          continue;
+        }
+
+        if (event.type === 'role_changed') {
+          await this.applyRoleChange(socket, whiteboardId, event.role);
+          continue;
+        }
+
+        if (event.type === 'access_changed') {
+          await this.recheckAccess(socket, whiteboardId);
+          continue;
+        }
+
+        await this.exitWhiteboardRoom(socket, whiteboardId);
+        socket.emit('access_revoked', {
+          whiteboardId,
+          message: 'Your access to this whiteboard was removed',
+        });
+        this.logger.log(
+          `[ACCESS] Removed socket ${socket.id} of user ${userId} from whiteboard ${whiteboardId}`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to apply ${event.type} access event for whiteboard ${whiteboardId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Applies a version timeline change made over HTTP to this process's sockets
+   * After a restore every connection in the room gets the restored board
+   * state (board_restored) and should replace its own copy with it; after a
+   * patch it gets the patch's operations as draw_update events
+   * @param event - Version event
+   */
+  private async handleVersionEvent(
+    event: WhiteboardVersionEvent,
+  ): Promise<void> {
+    const { whiteboardId } = event;
+
+    try {
+      if (event.type === 'patched') {
+        const operations = await this.operationsService.findAfterSequence(
+          whiteboardId,
+          event.fromSequence - 1,
+          event.toSequence - event.fromSequence + 1,
+        );
+
+        const room = this.server.local.to(`whiteboard:${whiteboardId}`);
+        for (const operation of operations) {
+          room.emit('draw_update', this.toDrawUpdateEvent(operation));
+        }
+
+        this.logger.log(
+          `[VERSION] Whiteboard ${whiteboardId} patched with operations ${event.fromSequence} to ${event.toSequence}`,
+        );
+        return;
+      }
+
+      const state = await this.boardStateService.getCurrentState(whiteboardId);
+
+      this.server.local
+        .to(`whiteboard:${whiteboardId}`)
+        .emit('board_restored', {
+          whiteboardId,
+          version: event.version,
+          restoredFromVersion: event.restoredFromVersion,
+          restoredBy: event.userId,
+          state: {
+            sequence: state.sequence,
+            document: state.document,
+          },
+        });
+
+      this.logger.log(
+        `[VERSION] Whiteboard ${whiteboardId} restored to version ${event.restoredFromVersion} as version ${event.version}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to apply ${event.type} version event for whiteboard ${whiteboardId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Drops the connections opened with a revoked share link from its whiteboard
+   * Signed-in users with their own access can join again without the link
+   * @param sockets - Local sockets in the whiteboard room
+   * @param shareLinkId - Revoked share link ID
+   */
+  private async evictShareLinkHolders(
+    sockets: Socket[],
+    shareLinkId: string,
+  ): Promise<void> {
+    for (const socket of sockets) {
+      const shareLink: ShareLinkSession | undefined = socket.data.shareLink;
+      if (shareLink?.id !== shareLinkId) {
+        continue;
+      }
+
+      delete socket.data.shareLink;
+      await this.exitWhiteboardRoom(socket, shareLink.whiteboardId);
+      socket.emit('access_revoked', {
+        whiteboardId: shareLink.whiteboardId,
+        message: 'The share link you opened this whiteboard with was revoked',
+      });
+      this.logger.log(
+        `[ACCESS] Removed ${this.describeClient(socket)} from whiteboard ${shareLink.whiteboardId}: share link revoked`,
+      );
+    }
+  }
+
+  /**
+   * Gives the guest connections on a whiteboard the role the board now allows
+   * Guests leave the room when the board no longer allows guests, or when
+   * the share link they joined through stopped working
+   * @param sockets - Local sockets in the whiteboard room
+   * @param whiteboardId - Whiteboard ID
+   */
+  private async applyGuestAccessChange(
+    sockets: Socket[],
+    whiteboardId: string,
+  ): Promise<void> {
+    const guests = sockets.filter(
+      (socket) => (socket.data.user as User | undefined)?.isGuest,
+    );
+    if (guests.length === 0) {
+      return;
+    }
+
+    const whiteboard = await this.whiteboardsService.findById(whiteboardId);
+
+    for (const socket of guests) {
+      const shareLink: ShareLinkSession | undefined = socket.data.shareLink;
+
+      let role: CollaboratorRole | null = null;
+      if (whiteboard && shareLink) {
+        try {
+          const link = await this.shareLinksService.findUsable(shareLink.id);
+          role = this.whiteboardsService.getGuestRole(whiteboard, link);
+        } catch {
+          role = null;
+        }
+      }
+
+      if (role) {
+        await this.applyRoleChange(socket, whiteboardId, role);
+        continue;
+      }
+
+      await this.exitWhiteboardRoom(socket, whiteboardId);
+      socket.emit('access_revoked', {
+        whiteboardId,
+        message: 'Guests are no longer allowed on this whiteboard',
+      });
+      this.logger.log(
+        `[ACCESS] Removed guest ${this.describeClient(socket)} from whiteboard ${whiteboardId}`,
+      );
+    }
+  }
+
+  /**
+   * Works out a connection's role on a whiteboard again after something its
+   * access depends on changed (e.g. its user's workspace membership)
+   * The connection gets the new role, or leaves the room without access;
+   * a share link it was opened with still counts
+   * @param client - Socket.IO client in the whiteboard room
+   * @param whiteboardId - Whiteboard ID
+   */
+  private async recheckAccess(
+    client: Socket,
+    whiteboardId: string,
+  ): Promise<void> {
+    const user: User = client.data.user;
+    const shareLink: ShareLinkSession | undefined = client.data.shareLink;
+
+    const whiteboard = await this.whiteboardsService.findById(whiteboardId);
+    const role = whiteboard
+      ? highestRole(
+          await this.whiteboardsService.getRole(whiteboard, user),
+          shareLink?.whiteboardId === whiteboardId ? shareLink.role : null,
+        )
+      : null;
+
+    if (role) {
+      if (role !== this.getCachedRole(client, whiteboardId)) {
+        await this.applyRoleChange(client, whiteboardId, role);
+      }
+      return;
+    }
+
+    await this.exitWhiteboardRoom(client, whiteboardId);
+    client.emit('access_revoked', {
+      whiteboardId,
+      message: 'Your access to this whiteboard was removed',
+    });
+    this.logger.log(
+      `[ACCESS] Removed socket ${client.id} of user ${user.id} from whiteboard ${whiteboardId}`,
+    );
+  }
+
+  /**
+   * Gives a connection its new role on a whiteboard and tells it with role_changed
+   * A connection that can no longer edit gives up its shape locks
+   * @param client - Socket.IO client in the whiteboard room
+   * @param whiteboardId - Whiteboard ID
+   * @param role - New role
+   */
+  private async applyRoleChange(
+    client: Socket,
+    whiteboardId: string,
+    role: CollaboratorRole,
+  ): Promise<void> {
+    client.data.roles = { ...client.data.roles, [whiteboardId]: role };
+
+    if (!canEdit(role)) {
+      const locks = await this.shapeLocksService.release(
+        client.id,
+        whiteboardId,
+      );
+      this.broadcastLocksReleased(locks, 'released');
+    }
+
+    client.emit('role_changed', { whiteboardId, role });
+    this.logger.log(
+      `[ACCESS] Socket ${client.id} now has role ${role} on whiteboard ${whiteboardId}`,
+    );
+  }
+
+  /**
+   * Gets the role cached on a socket when it joined a whiteboard
+   * @param client - Socket.IO client
+   * @param whiteboardId - Whiteboard ID
+   * @returns Role, or null if the socket hasn't joined the whiteboard
+   */
+  private getCachedRole(
+    client: Socket,
+    whiteboardId: string,
+  ): CollaboratorRole | null {
+    const roles = client.data.roles as
+      | Record<string, CollaboratorRole>
+      | undefined;
+    return roles?.[whiteboardId] ?? null;
+  }
+
+  /**
+   * Handles WebSocket disconnections
+   * Removes the connection from every whiteboard it was on; user_left is
+   * only sent for boards where it was the user's last connection
+   * @param client - Disconnected Socket.IO client
+   */
+  async handleDisconnect(@ConnectedSocket() client: Socket) {
+    const user: User = client.data.user;
+    clearTimeout(client.data.guestExpiryTimer as NodeJS.Timeout | undefined);
+
+    // Anonymous share link connections hold no presence or locks
+    if (!user || !user.id) {
+      this.logger.log(`Disconnected: ${this.describeClient(client)}`);
+      return;
+    }
+
+    this.logger.log(`User disconnected: ${user.email} (${user.id})`);
+
+    this.removePresence(client);
+
+    // Free the shapes this connection was editing
+    try {
+      const locks = await this.shapeLocksService.release(client.id);
+      this.broadcastLocksReleased(locks, 'disconnected');
+    } catch (error) {
+      this.logger.error(
+        `Failed to release shape locks of ${client.id}: ${error.message}`,
+      );
+    }
+
+    // Socket.IO already took the socket out of its rooms
+    for (const departure of await this.presenceService.leaveAll(client.id)) {
+      this.logger.debug(
+        `User ${user.email} left room: ${departure.whiteboardId}`,
+      );
+
+      if (departure.lastConnection) {
+        this.server
+          .to(`whiteboard:${departure.whiteboardId}`)
+          .emit('user_left', {
+            userId: user.id,
+            userEmail: user.email,
+            whiteboardId: departure.whiteboardId,
+          });
+      }
+    }
+  }
+
+  /**
+   * Handles join_whiteboard event
+   * Validates user access and adds them to the whiteboard room
+   *
+   * The joined_whiteboard ack carries the current board state and the
+   * operation sequence it reflects. Joining and loading the state run as one
+   * step of the board queue: updates queued before are part of the state,
+   * updates queued after reach this client only after the ack. Clients should
+   * still ignore draw_update events whose sequence is not greater than the
+   * state's sequence.
+   * 
+   * @param client - Socket.IO client
+   * @param payload - Contains whiteboardId
+   */
+  @SubscribeMessage('join_whiteboard')
+  async handleJoinWhiteboard(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: JoinWhiteboardDto,
+  ) {
+    const { whiteboardId } = payload;
+
+    try {
+      const roomName = `whiteboard:${whiteboardId}`;
+      const state = await this.enterWhiteboardRoom(
+        client,
+        whiteboardId,
+        async (whiteboard) => {
+          const currentState =
+            await this.whiteboardsService.getCurrentState(whiteboard);
+          const locks = await this.shapeLocksService.findActive(whiteboardId);
+
+          // Notify the client that they successfully joined, with the board content
+          client.emit('joined_whiteboard', {
+            success: true,
+            whiteboardId,
+            message: 'Successfully joined whiteboard',
+            role: this.getCachedRole(client, whiteboardId),
+            state: {
+              sequence: currentState.sequence,
+              document: currentState.document,
+            },
+            locks: locks.map((lock) => this.toShapeLockEvent(lock)),
+          });
+
+          return currentState;
+        },
+      );
+
+      // Get the room to check how many clients are in it (using safe access)
+      let roomSize = 0;
+      try {
+        const adapter = this.server?.sockets?.adapter;
+        if (adapter?.rooms) {
+          const room = adapter.rooms.get(roomName);
+          roomSize = room ? room.size : 0;
+        } else {
+          // Fallback: use server.in() method
+          const socketsInRoom = await this.server.in(roomName).fetchSockets();
+          roomSize = socketsInRoom.length;
+        }
+      } catch (error) {
+        this.logger.warn(`Could not get room size for ${roomName}: ${error.message}`);
+        // Fallback: assume at least 1 (the current client)
+        roomSize = 1;
+      }
+
+      this.logger.log(
+        `[JOIN] ${this.describeClient(client)} joined whiteboard room: ${whiteboardId} at sequence ${state.sequence} (Room now has ${roomSize} client(s))`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to join whiteboard ${whiteboardId} for ${this.describeClient(client)}: ${error.message}`,
+      );
+
+      // Notify client of the error
+      client.emit('join_error', {
+        success: false,
+        whiteboardId,
+        message: error.message || 'Failed to join whiteboard',
+      });
+    }
+  }
+
+  /**
+   * Handles resume_whiteboard event
+   * Re-joins a whiteboard room after a reconnect and catches the client up
+   * from the last operation sequence it applied
+   * 
+   * The resumed_whiteboard reply has one of two modes:
+   * - operations: the missed operations, in sequence order
+   * - resync: the full board state, when the gap is larger than
+   *   MAX_RESUME_OPERATIONS, the log can no longer cover it, or the board
+   *   was restored to an earlier version in the meantime
+   * 
+   * @param client - Socket.IO client
+   * @param payload - Contains whiteboardId and lastSequence
+   */
+  @SubscribeMessage('resume_whiteboard')
+  async handleResumeWhiteboard(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: ResumeWhiteboardDto,
+  ) {
+    const { whiteboardId, lastSequence } = payload;
+
+    try {
+      const mode = await this.enterWhiteboardRoom(
+        client,
+        whiteboardId,
+        async (whiteboard) => {
+          // Fetch one extra operation to detect a gap that is too big
+          const operations = await this.operationsService.findAfterSequence(
+            whiteboardId,
+            lastSequence,
+            MAX_RESUME_OPERATIONS + 1,
+          );
+
+          const lastAvailable =
+            operations.length > 0
+              ? operations[operations.length - 1].sequence
+              : await this.operationsService.getLastSequence(whiteboardId);
+
+          const canCatchUp =
+            operations.length <= MAX_RESUME_OPERATIONS &&
+            lastSequence <= lastAvailable &&
+            (operations.length === 0 ||
+              operations[0].sequence === lastSequence + 1) &&
+            !operations.some(
+              (operation) => operation.updateType === RESTORE_UPDATE_TYPE,
+            );
+
+          if (canCatchUp) {
+            client.emit('resumed_whiteboard', {
+              success: true,
+              whiteboardId,
+              mode: 'operations',
+              role: this.getCachedRole(client, whiteboardId),
+              sequence: lastAvailable,
+              operations: operations.map((operation) =>
+                this.toDrawUpdateEvent(operation),
+              ),
+            });
+            return `operations (${operations.length})`;
+          }
+
+          // Gap too big, or the client is ahead of the server: start over
+          const state =
+            await this.whiteboardsService.getCurrentState(whiteboard);
+          client.emit('resumed_whiteboard', {
+            success: true,
+            whiteboardId,
+            mode: 'resync',
+            role: this.getCachedRole(client, whiteboardId),
+            state: {
+              sequence: state.sequence,
+              document: state.document,
+            },
+          });
+          return 'resync';
+        },
+      );
+
+      this.logger.log(
+        `[RESUME] ${this.describeClient(client)} resumed whiteboard ${whiteboardId} from sequence ${lastSequence} via ${mode}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to resume whiteboard ${whiteboardId} for ${this.describeClient(client)}: ${error.message}`,
+      );
+
+      client.emit('resume_error', {
+        success: false,
+        whiteboardId,
+        message: error.message || 'Failed to resume whiteboard',
+      });
+    }
+  }
+
+  /**
+   * Handles draw_update event
+   * Persists the update to the whiteboard operation log, then broadcasts it
+   * to all users in the same whiteboard room (except sender)
+   *
+   * The broadcast carries the server-assigned sequence number, so the board
+   * can be rebuilt from the latest snapshot plus the operations after it.
+   *
+   * The sender gets an ack with that sequence number, or a rejection with a
+   * code. Updates carrying a clientOpId are applied at most once: resending
+   * one that was already appended acks it again without a new broadcast.
+   *
+   * @param client - Socket.IO client
+   * @param payload - Contains whiteboardId, updateType, drawing data and clientOpId
+   * @returns Ack or rejection for the sender
+   */
+  @SubscribeMessage('draw_update')
+  async handleDrawUpdate(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: DrawUpdateDto,
+  ): Promise<DrawUpdateAck | DrawUpdateRejection> {
+    const user: User = client.data.user;
+    const { whiteboardId, updateType, clock, clientOpId } = payload;
+    // Checked against the shape schema by the validation pipe; stored as sent
+    const data = payload.data as Record<string, unknown> | undefined;
+
+    try {
+      // Verify user is in the room (they must have joined via join_whiteboard first)
+      const roomName = `whiteboard:${whiteboardId}`;
+
+      if (!client.rooms.has(roomName)) {
+        return this.rejectDrawUpdate(
+          client,
+          payload,
+          'NOT_JOINED',
+          'Join the whiteboard before sending updates',
+        );
+      }
+
+      if (!canEdit(this.getCachedRole(client, whiteboardId))) {
+        return this.rejectDrawUpdate(
+          client,
+          payload,
+          'FORBIDDEN',
+          'You do not have permission to edit this whiteboard',
+        );
+      }
+
+      // Get the room to check how many clients are in it (using safe access)
+      let roomSize = 0;
+      try {
+        const adapter = this.server?.sockets?.adapter;
+        if (adapter?.rooms) {
+          const room = adapter.rooms.get(roomName);
+          roomSize = room ? room.size : 0;
+        } else {
+          // Fallback: use server.in() method
+          const socketsInRoom = await this.server.in(roomName).fetchSockets();
+          roomSize = socketsInRoom.length;
+        }
+      } catch (error) {
+        this.logger.warn(`Could not get room size for ${roomName}: ${error.message}`);
+        // Fallback: assume at least 1 (the current client)
+        roomSize = 1;
+      }
+
+      // Append and broadcast in the board queue so broadcasts leave in sequence order
+      const result = await this.runInBoardQueue(whiteboardId, async () => {
+        // A retry of an update that is already in the log is only acked again
+        if (clientOpId) {
+          const existing = await this.operationsService.findByClientOpId(
+            whiteboardId,
+            user.id,
+            clientOpId,
+          );
+          if (existing) {
+            return { operation: existing, duplicate: true };
+          }
+        }
+
+        // Shapes leased by another connection can't be changed (a clear touches all of them)
+        const shapeIds = getAffectedShapeIds(updateType, data);
+        if (shapeIds === null || shapeIds.length > 0) {
+          const conflicts = await this.shapeLocksService.findConflicts(
+            whiteboardId,
+            shapeIds ?? undefined,
+            client.id,
+          );
+          if (conflicts.length > 0) {
+            return { lockedShapeIds: conflicts.map((lock) => lock.shapeId) };
+          }
+        }
+
+        // Shapes the update writes to as they are now, to work out how to undo it
+        const before = await this.boardStateService.getShapes(
+          whiteboardId,
+          shapeIds ?? undefined,
+        );
+
+        // Persist before broadcasting so every update other clients see is recoverable
+        const operation = await this.operationsService.append(
+          whiteboardId,
+          user.id,
+          updateType,
+          data,
+          clock,
+          clientOpId,
+        );
+
+        this.logger.log(
+          `[DRAW_UPDATE] User ${user.email} (${user.id}) broadcasting ${updateType} #${operation.sequence} to room ${roomName} (${roomSize} clients)`,
+        );
+
+        // Broadcast the drawing update to all other users in the room
+        // Using 'to()' excludes the sender from receiving their own update
+        client
+          .to(roomName)
+          .emit('draw_update', this.toDrawUpdateEvent(operation));
+
+        await this.recordHistory(user, operation, before);
+
+        return { operation, duplicate: false };
+      });
+
+      if ('lockedShapeIds' in result) {
+        return this.rejectDrawUpdate(
+          client,
+          payload,
+          'SHAPE_LOCKED',
+          'Shape is locked by another user',
+          result.lockedShapeIds,
+        );
+      }
+
+      const { operation, duplicate } = result;
+
+      if (duplicate) {
+        this.logger.log(
+          `[DRAW_UPDATE] Acked retried ${updateType} update ${clientOpId} from ${user.email} as #${operation.sequence}`,
+        );
+      } else {
+        this.logger.log(
+          `[DRAW_UPDATE] Successfully broadcasted ${updateType} update from ${user.email} to ${roomSize - 1} other user(s) in room ${whiteboardId}`,
+        );
+      }
+
+      return {
+        status: 'ok',
+        clientOpId: clientOpId ?? null,
+        whiteboardId,
+        sequence: operation.sequence,
+        clock: operation.clock,
+        duplicate,
+      };
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
+      this.logger.error(
+        `[DRAW_UPDATE] Failed to broadcast draw update for whiteboard ${whiteboardId} by user ${user.email}: ${failure.message}`,
+        failure.stack,
+      );
+
+      // Notify client of the error (the log only rejects bad clocks as a bad request)
+      const code: DrawUpdateRejectionCode =
+        failure instanceof NotFoundException
+          ? 'WHITEBOARD_NOT_FOUND'
+          : failure instanceof ForbiddenException
+            ? 'FORBIDDEN'
+            : failure instanceof BadRequestException
+              ? 'CLOCK_OUT_OF_RANGE'
+              : 'INTERNAL_ERROR';
+
+      return this.rejectDrawUpdate(
+        client,
+        payload,
+        code,
+        failure.message || 'Failed to broadcast drawing update',
+      );
+    }
+  }
+
+  /**
+   * Handles undo event
+   * Reverts the user's latest update on the whiteboard that isn't undone yet;
+   * collaborators' updates are never touched
+   *
+   * @param client - Socket.IO client
+   * @param payload - Contains whiteboardId
+   * @returns Ack with the sequences of the appended operations, or a rejection
+   */
+  @SubscribeMessage('undo')
+  async handleUndo(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: JoinWhiteboardDto,
+  ): Promise<HistoryAck | HistoryRejection> {
+    return await this.applyHistoryStep(client, payload.whiteboardId, 'undo');
+  }
+
+  /**
+   * Handles redo event
+   * Applies the user's last undone update on the whiteboard again; the redo
+   * stack is dropped as soon as the user makes a new update
+   *
+   * @param client - Socket.IO client
+   * @param payload - Contains whiteboardId
+   * @returns Ack with the sequences of the appended operations, or a rejection
+   */
+  @SubscribeMessage('redo')
+  async handleRedo(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: JoinWhiteboardDto,
+  ): Promise<HistoryAck | HistoryRejection> {
+    return await this.applyHistoryStep(client, payload.whiteboardId, 'redo');
+  }
+
+  /**
+   * Handles presence_update event
+   * Merges the client's pointer, tool, selection and viewport into its
+   * presence on the board; the merged state is broadcast to the room at most
+   * every PRESENCE_INTERVAL_MS, as a volatile presence_update
+   *
+   * Presence is not persisted or acked, and updates for boards the client
+   * hasn't joined are dropped.
+   *
+   * @param client - Socket.IO client
+   * @param payload - Contains whiteboardId and the changed presence fields
+   */
+  @SubscribeMessage('presence_update')
+  handlePresenceUpdate(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: PresenceUpdateDto,
+  ) {
+    const user: User = client.data.user;
+    const { whiteboardId, pointer, tool, selection, viewport } = payload;
+
+    if (!client.rooms.has(`whiteboard:${whiteboardId}`)) {
+      return;
+    }
+
+    this.presenceThrottle.push(`${client.id}:${whiteboardId}`, {
+      userId: user.id,
       userEmail: user.email,
-      whiteboardId,
+      color: getPresenceColor(user.id),
+      pointer,
+      tool,
+      selection,
+      viewport,
     });
+  }
+
+  /**
+   * Handles get_participants event
+   * Sends the live roster of a whiteboard: one entry per user, with their
+   * full name, presence colour, join time and number of open connections
+   *
+   * @param client - Socket.IO client
+   * @param payload - Contains whiteboardId
+   * @returns The participants payload, also as ack
+   */
+  @SubscribeMessage('get_participants')
+  async handleGetParticipants(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: JoinWhiteboardDto,
+  ) {
+    const user: User = client.data.user;
+    const { whiteboardId } = payload;
+
+    try {
+      const whiteboard = await this.whiteboardsService.findByIdWithAccess(
+        whiteboardId,
+        user,
+      );
+      const response = {
+        success: true,
+        whiteboardId,
+        participants: await this.whiteboardsService.getParticipants(whiteboard),
+      };
+
+      client.emit('participants', response);
+      return response;
+    } catch (error) {
+      this.logger.error(
+        `Failed to get participants of whiteboard ${whiteboardId} for user ${user.email}: ${error.message}`,
+      );
+
+      const response = {
+        success: false,
+        whiteboardId,
+        message: error.message || 'Failed to get participants',
+      };
+
+      client.emit('participants_error', response);
+      return response;
+    }
+  }
+
+  /**
+   * Handles acquire_shape_locks event
+   * Leases shapes to the client for SHAPE_LOCK_TTL_SECONDS, all or nothing.
+   * While the lease lasts, draw_update changes to those shapes from other
+   * connections are rejected. Leases end on release_shape_locks, on leaving
+   * the board, on disconnect, or when they aren't renewed in time.
+   *
+   * @param client - Socket.IO client
+   * @param payload - Contains whiteboardId and shapeIds
+   * @returns Acquired locks, or the locks that prevented it (also as ack)
+   */
+  @SubscribeMessage('acquire_shape_locks')
+  async handleAcquireShapeLocks(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: ShapeLocksDto,
+  ) {
+    const user: User = client.data.user;
+    const { whiteboardId, shapeIds } = payload;
+    const roomName = `whiteboard:${whiteboardId}`;
+
+    try {
+      if (!client.rooms.has(roomName)) {
+        throw new ForbiddenException(
+          'Join the whiteboard before locking shapes',
+        );
+      }
+      if (!canEdit(this.getCachedRole(client, whiteboardId))) {
+        throw new ForbiddenException(
+          'You do not have permission to edit this whiteboard',
+        );
+      }
+
+      const { acquired, conflicts } = await this.shapeLocksService.acquire(
+        whiteboardId,
+        shapeIds,
+        user,
+        client.id,
+      );
+
+      if (acquired.length > 0) {
+        client.to(roomName).emit('shape_locks_acquired', {
+          whiteboardId,
+          locks: acquired.map((lock) => this.toShapeLockEvent(lock)),
+        });
+      }
+
+      const response = {
+        success: acquired.length > 0,
+        whiteboardId,
+        locks: acquired.map((lock) => this.toShapeLockEvent(lock)),
+        conflicts: conflicts.map((lock) => this.toShapeLockEvent(lock)),
+      };
+      client.emit('shape_locks_result', response);
+      return response;
+    } catch (error) {
+      return this.rejectShapeLocks(
+        client,
+        whiteboardId,
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+  }
+
+  /**
+   * Handles renew_shape_locks event
+   * Extends the client's leases; shapes whose lease already ran out are
+   * listed as lost and must be acquired again
+   *
+   * @param client - Socket.IO client
+   * @param payload - Contains whiteboardId and shapeIds
+   * @returns Renewed locks and the IDs of the lost ones (also as ack)
+   */
+  @SubscribeMessage('renew_shape_locks')
+  async handleRenewShapeLocks(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: ShapeLocksDto,
+  ) {
+    const { whiteboardId, shapeIds } = payload;
+
+    try {
+      const renewed = await this.shapeLocksService.renew(
+        whiteboardId,
+        shapeIds,
+        client.id,
+      );
+      const renewedIds = new Set(renewed.map((lock) => lock.shapeId));
+
+      const response = {
+        success: true,
+        whiteboardId,
+        locks: renewed.map((lock) => this.toShapeLockEvent(lock)),
+        lost: shapeIds.filter((shapeId) => !renewedIds.has(shapeId)),
+      };
+      client.emit('shape_locks_renewed', response);
+      return response;
+    } catch (error) {
+      return this.rejectShapeLocks(
+        client,
+        whiteboardId,
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+  }
+
+  /**
+   * Handles release_shape_locks event
+   * Frees shapes the client holds and tells the room
+   *
+   * @param client - Socket.IO client
+   * @param payload - Contains whiteboardId and shapeIds
+   * @returns IDs of the released shapes (also as ack)
+   */
+  @SubscribeMessage('release_shape_locks')
+  async handleReleaseShapeLocks(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: ShapeLocksDto,
+  ) {
+    const { whiteboardId, shapeIds } = payload;
+
+    try {
+      const released = await this.shapeLocksService.release(
+        client.id,
+        whiteboardId,
+        shapeIds,
+      );
+      this.broadcastLocksReleased(released, 'released');
+
+      return {
+        success: true,
+        whiteboardId,
+        shapeIds: released.map((lock) => lock.shapeId),
+      };
+    } catch (error) {
+      return this.rejectShapeLocks(
+        client,
+        whiteboardId,
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+  }
+
+  /**
+   * Reports a failed shape lock request as shape_locks_error
+   * @param client - Socket.IO client
+   * @param whiteboardId - Whiteboard ID
+   * @param error - What went wrong
+   * @returns The error payload, also as ack
+   */
+  private rejectShapeLocks(client: Socket, whiteboardId: string, error: Error) {
+    const user: User = client.data.user;
+    this.logger.error(
+      `Shape lock request on whiteboard ${whiteboardId} by user ${user.email} failed: ${error.message}`,
+    );
+
+    const response = {
+      success: false,
+      whiteboardId,
+      message: error.message || 'Failed to update shape locks',
+    };
+    client.emit('shape_locks_error', response);
+    return response;
+  }
+
+  /**
+   * Handles leave_whiteboard event (optional)
+   * Allows users to explicitly leave a whiteboard room
+   * 
+   * @param client - Socket.IO client
+   * @param payload - Contains whiteboardId
+   */
+  @SubscribeMessage('leave_whiteboard')
+  async handleLeaveWhiteboard(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: JoinWhiteboardDto,
+  ) {
+    const { whiteboardId } = payload;
+
+    await this.exitWhiteboardRoom(client, whiteboardId);
+
+    this.logger.log(
+      `${this.describeClient(client)} left whiteboard room: ${whiteboardId}`,
+    );
 
     client.emit('left_whiteboard', {
       success: true,
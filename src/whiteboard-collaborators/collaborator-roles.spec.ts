@@ -0,0 +1,22 @@
+import { canEdit, highestRole, lowestRole } from './collaborator-roles';
+
+describe('collaborator roles', () => {
+  it('should only let owners and editors change board content', () => {
+    expect(canEdit('owner')).toBe(true);
+    expect(canEdit('editor')).toBe(true);
+    expect(canEdit('commenter')).toBe(false);
+    expect(canEdit('viewer')).toBe(false);
+    expect(canEdit(null)).toBe(false);
+  });
+
+  it('should pick the most privileged of several grants', () => {
+    expect(highestRole('viewer', 'editor', 'commenter')).toBe('editor');
+    expect(highestRole(null, 'viewer', undefined)).toBe('viewer');
+    expect(highestRole(null, undefined)).toBeNull();
+  });
+
+  it('should pick the least privileged of several limits', () => {
+    expect(lowestRole('editor', 'commenter', 'owner')).toBe('commenter');
+    expect(lowestRole('viewer')).toBe('viewer');
+  });
+});
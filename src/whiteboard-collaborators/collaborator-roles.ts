@@ -0,0 +1,66 @@
+import { CollaboratorRole } from './entities/whiteboard-collaborator.entity';
+
+/**
+ * Collaborator Roles
+ * What each role may do on a whiteboard. The whiteboard owner's role is
+ * 'owner', whether or not they also have a collaborator row.
+ */
+
+// Roles the owner can give a collaborator
+export const ASSIGNABLE_ROLES: readonly CollaboratorRole[] = [
+  'viewer',
+  'commenter',
+  'editor',
+];
+
+// Every role, from least to most privileged
+export const ROLE_ORDER: readonly CollaboratorRole[] = [
+  'viewer',
+  'commenter',
+  'editor',
+  'owner',
+];
+
+// Roles that may change board content (draw, undo/redo, lock shapes, save snapshots)
+export const EDITING_ROLES: readonly CollaboratorRole[] = ['owner', 'editor'];
+
+/**
+ * Check whether a role may change board content
+ * @param role - Effective role of a user on a whiteboard (null without access)
+ * @returns true if the role has edit rights
+ */
+export const canEdit = (role: CollaboratorRole | null | undefined): boolean =>
+  !!role && EDITING_ROLES.includes(role);
+
+/**
+ * Pick the least privileged of several roles
+ * @param role - First role
+ * @param roles - Other roles that also limit the user
+ * @returns Lowest role
+ */
+export const lowestRole = (
+  role: CollaboratorRole,
+  ...roles: CollaboratorRole[]
+): CollaboratorRole =>
+  roles.reduce(
+    (lowest, other) =>
+      ROLE_ORDER.indexOf(other) < ROLE_ORDER.indexOf(lowest) ? other : lowest,
+    role,
+  );
+
+/**
+ * Pick the most privileged of several roles
+ * @param roles - Roles a user gets from different grants (null for none)
+ * @returns Highest role, or null if no grant gives one
+ */
+export const highestRole = (
+  ...roles: Array<CollaboratorRole | null | undefined>
+): CollaboratorRole | null =>
+  roles.reduce<CollaboratorRole | null>(
+    (highest, role) =>
+      role &&
+      (!highest || ROLE_ORDER.indexOf(role) > ROLE_ORDER.indexOf(highest))
+        ? role
+        : highest,
+    null,
+  );
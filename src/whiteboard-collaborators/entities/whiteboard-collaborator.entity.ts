@@ -10,7 +10,9 @@ import {
 import { Whiteboard } from '../../whiteboards/entities/whiteboard.entity';
 import { User } from '../../users/entities/user.entity';
 
-export type CollaboratorRole = 'editor' | 'owner';
+// viewer: read only; commenter: read only (comments not yet supported);
+// editor: may change the board; owner: may also manage it
+export type CollaboratorRole = 'viewer' | 'commenter' | 'editor' | 'owner';
 
 @Entity({ name: 'whiteboard_collaborators' })
 export class WhiteboardCollaborator {
@@ -36,7 +38,7 @@ export class WhiteboardCollaborator {
 
   @Column({
     type: 'enum',
-    enum: ['editor', 'owner'],
+    enum: ['viewer', 'commenter', 'editor', 'owner'],
     default: 'editor',
   })
   role: CollaboratorRole;
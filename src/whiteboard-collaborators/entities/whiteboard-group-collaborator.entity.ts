@@ -0,0 +1,49 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Whiteboard } from '../../whiteboards/entities/whiteboard.entity';
+import { UserGroup } from '../../user-groups/entities/user-group.entity';
+import type { CollaboratorRole } from './whiteboard-collaborator.entity';
+
+/**
+ * A user group added to a whiteboard as a collaborator
+ * Every member of the group gets the role; a user in several groups, or
+ * also invited directly, gets the highest role of all their grants
+ */
+@Entity({ name: 'whiteboard_group_collaborators' })
+@Index('IDX_whiteboard_group_collaborators_group', ['groupId'])
+export class WhiteboardGroupCollaborator {
+  @PrimaryColumn({ name: 'whiteboard_id', type: 'uuid' })
+  whiteboardId: string;
+
+  @ManyToOne(() => Whiteboard, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'whiteboard_id' })
+  whiteboard: Whiteboard;
+
+  @PrimaryColumn({ name: 'group_id', type: 'uuid' })
+  groupId: string;
+
+  @ManyToOne(() => UserGroup, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'group_id' })
+  group: UserGroup;
+
+  @Column({
+    type: 'enum',
+    enum: ['viewer', 'commenter', 'editor'],
+    default: 'editor',
+  })
+  role: CollaboratorRole;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp with time zone' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamp with time zone' })
+  updatedAt: Date;
+}
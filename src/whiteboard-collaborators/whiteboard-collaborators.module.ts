@@ -2,9 +2,15 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { WhiteboardCollaboratorsService } from './whiteboard-collaborators.service';
 import { WhiteboardCollaborator } from './entities/whiteboard-collaborator.entity';
+import { WhiteboardGroupCollaborator } from './entities/whiteboard-group-collaborator.entity';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([WhiteboardCollaborator])],
+  imports: [
+    TypeOrmModule.forFeature([
+      WhiteboardCollaborator,
+      WhiteboardGroupCollaborator,
+    ]),
+  ],
   providers: [WhiteboardCollaboratorsService],
   exports: [WhiteboardCollaboratorsService],
 })
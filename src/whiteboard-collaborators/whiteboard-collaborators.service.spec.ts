@@ -0,0 +1,106 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { WhiteboardCollaboratorsService } from './whiteboard-collaborators.service';
+import { WhiteboardCollaborator } from './entities/whiteboard-collaborator.entity';
+import { WhiteboardGroupCollaborator } from './entities/whiteboard-group-collaborator.entity';
+import { Whiteboard } from '../whiteboards/entities/whiteboard.entity';
+import { User } from '../users/entities/user.entity';
+
+const whiteboard = { id: 'board-1' } as Whiteboard;
+const user = { id: 'user-1', email: 'ada@example.com' } as User;
+
+describe('WhiteboardCollaboratorsService', () => {
+  let service: WhiteboardCollaboratorsService;
+  let collaboratorRepository: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    collaboratorRepository = {
+      findOne: jest.fn().mockResolvedValue(null),
+      create: jest.fn((collaborator: Partial<WhiteboardCollaborator>) => ({
+        ...collaborator,
+      })),
+      save: jest.fn((collaborator: WhiteboardCollaborator) =>
+        Promise.resolve(collaborator),
+      ),
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        WhiteboardCollaboratorsService,
+        {
+          provide: getRepositoryToken(WhiteboardCollaborator),
+          useValue: collaboratorRepository,
+        },
+        {
+          provide: getRepositoryToken(WhiteboardGroupCollaborator),
+          useValue: {},
+        },
+      ],
+    }).compile();
+
+    service = app.get<WhiteboardCollaboratorsService>(
+      WhiteboardCollaboratorsService,
+    );
+  });
+
+  describe('addCollaborator', () => {
+    it('should add a collaborator with the role given', async () => {
+      const collaborator = await service.addCollaborator(
+        whiteboard,
+        user,
+        'viewer',
+      );
+
+      expect(collaborator).toMatchObject({
+        whiteboardId: 'board-1',
+        userId: 'user-1',
+        role: 'viewer',
+      });
+      expect(collaboratorRepository.save).toHaveBeenCalled();
+    });
+
+    it('should make a collaborator an editor by default', async () => {
+      const collaborator = await service.addCollaborator(whiteboard, user);
+
+      expect(collaborator.role).toBe('editor');
+    });
+
+    it('should not add the same user twice', async () => {
+      collaboratorRepository.findOne.mockResolvedValue({ role: 'editor' });
+
+      await expect(
+        service.addCollaborator(whiteboard, user, 'viewer'),
+      ).rejects.toBeInstanceOf(ConflictException);
+      expect(collaboratorRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateRole', () => {
+    it('should save the new role', async () => {
+      collaboratorRepository.findOne.mockResolvedValue({
+        whiteboardId: 'board-1',
+        userId: 'user-1',
+        role: 'editor',
+      });
+
+      const collaborator = await service.updateRole(
+        'board-1',
+        'user-1',
+        'commenter',
+      );
+
+      expect(collaborator.role).toBe('commenter');
+      expect(collaboratorRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ role: 'commenter' }),
+      );
+    });
+
+    it('should reject a user who is not a collaborator', async () => {
+      await expect(
+        service.updateRole('board-1', 'user-2', 'viewer'),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(collaboratorRepository.save).not.toHaveBeenCalled();
+    });
+  });
+});
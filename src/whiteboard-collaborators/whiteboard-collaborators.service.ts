@@ -5,12 +5,18 @@ import { WhiteboardCollaborator } from './entities/whiteboard-collaborator.entit
 import { Whiteboard } from '../whiteboards/entities/whiteboard.entity';
 import { User } from '../users/entities/user.entity';
 import { CollaboratorRole } from './entities/whiteboard-collaborator.entity';
+import { WhiteboardGroupCollaborator } from './entities/whiteboard-group-collaborator.entity';
+import { UserGroup } from '../user-groups/entities/user-group.entity';
+import { UserGroupMember } from '../user-groups/entities/user-group-member.entity';
+import { highestRole } from './collaborator-roles';
 
 @Injectable()
 export class WhiteboardCollaboratorsService {
   constructor(
     @InjectRepository(WhiteboardCollaborator)
     private readonly collaboratorRepository: Repository<WhiteboardCollaborator>,
+    @InjectRepository(WhiteboardGroupCollaborator)
+    private readonly groupCollaboratorRepository: Repository<WhiteboardGroupCollaborator>,
   ) {}
 
   /**
@@ -150,6 +156,35 @@ export class WhiteboardCollaboratorsService {
     await this.collaboratorRepository.remove(collaborator);
   }
 
+  /**
+   * Change the role of a collaborator
+   * @param whiteboardId - Whiteboard ID
+   * @param userId - User ID of the collaborator
+   * @param role - New role
+   * @returns Updated collaborator entity with user relation
+   * @throws NotFoundException if collaborator not found
+   */
+  async updateRole(
+    whiteboardId: string,
+    userId: string,
+    role: CollaboratorRole,
+  ): Promise<WhiteboardCollaborator> {
+    const collaborator = await this.collaboratorRepository.findOne({
+      where: {
+        whiteboardId,
+        userId,
+      },
+      relations: ['user'],
+    });
+
+    if (!collaborator) {
+      throw new NotFoundException('Collaborator not found on this whiteboard');
+    }
+
+    collaborator.role = role;
+    return await this.collaboratorRepository.save(collaborator);
+  }
+
   /**
    * Find all whiteboards where a user is a collaborator
    * @param userId - User ID
@@ -162,5 +197,146 @@ export class WhiteboardCollaboratorsService {
       order: { createdAt: 'DESC' }, // Most recent first
     });
   }
-}
 
+  /**
+   * Add a user group to a whiteboard as a collaborator
+   * @param whiteboard - Whiteboard entity
+   * @param group - User group to add
+   * @param role - Role every member of the group gets (default: 'editor')
+   * @returns Created group collaborator entity with group relation
+   * @throws ConflictException if the group is already a collaborator
+   */
+  async addGroupCollaborator(
+    whiteboard: Whiteboard,
+    group: UserGroup,
+    role: CollaboratorRole = 'editor',
+  ): Promise<WhiteboardGroupCollaborator> {
+    const existing = await this.groupCollaboratorRepository.findOne({
+      where: { whiteboardId: whiteboard.id, groupId: group.id },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        'This group is already a collaborator on this whiteboard',
+      );
+    }
+
+    const groupCollaborator = await this.groupCollaboratorRepository.save(
+      this.groupCollaboratorRepository.create({
+        whiteboardId: whiteboard.id,
+        groupId: group.id,
+        role,
+      }),
+    );
+    groupCollaborator.group = group;
+
+    return groupCollaborator;
+  }
+
+  /**
+   * Find the user groups added to a whiteboard
+   * @param whiteboardId - Whiteboard ID
+   * @returns Array of group collaborator entities with group relation
+   */
+  async findGroupsByWhiteboardId(
+    whiteboardId: string,
+  ): Promise<WhiteboardGroupCollaborator[]> {
+    return await this.groupCollaboratorRepository.find({
+      where: { whiteboardId },
+      relations: ['group'],
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Change the role of a user group on a whiteboard
+   * @param whiteboardId - Whiteboard ID
+   * @param groupId - User group ID
+   * @param role - New role
+   * @returns Updated group collaborator entity with group relation
+   * @throws NotFoundException if the group is not a collaborator
+   */
+  async updateGroupRole(
+    whiteboardId: string,
+    groupId: string,
+    role: CollaboratorRole,
+  ): Promise<WhiteboardGroupCollaborator> {
+    const groupCollaborator = await this.groupCollaboratorRepository.findOne({
+      where: { whiteboardId, groupId },
+      relations: ['group'],
+    });
+
+    if (!groupCollaborator) {
+      throw new NotFoundException('Group not found on this whiteboard');
+    }
+
+    groupCollaborator.role = role;
+    return await this.groupCollaboratorRepository.save(groupCollaborator);
+  }
+
+  /**
+   * Remove a user group from a whiteboard
+   * @param whiteboardId - Whiteboard ID
+   * @param groupId - User group ID
+   * @throws NotFoundException if the group is not a collaborator
+   */
+  async removeGroupCollaborator(
+    whiteboardId: string,
+    groupId: string,
+  ): Promise<void> {
+    const groupCollaborator = await this.groupCollaboratorRepository.findOne({
+      where: { whiteboardId, groupId },
+    });
+
+    if (!groupCollaborator) {
+      throw new NotFoundException('Group not found on this whiteboard');
+    }
+
+    await this.groupCollaboratorRepository.remove(groupCollaborator);
+  }
+
+  /**
+   * Get the highest role a user has on a whiteboard through their groups
+   * @param whiteboardId - Whiteboard ID
+   * @param userId - User ID
+   * @returns Highest group role, or null if none of the user's groups was added
+   */
+  async findGroupRole(
+    whiteboardId: string,
+    userId: string,
+  ): Promise<CollaboratorRole | null> {
+    const grants = await this.groupCollaboratorRepository
+      .createQueryBuilder('groupGrant')
+      .innerJoin(
+        UserGroupMember,
+        'member',
+        'member.groupId = groupGrant.groupId AND member.userId = :userId',
+        { userId },
+      )
+      .where('groupGrant.whiteboardId = :whiteboardId', { whiteboardId })
+      .getMany();
+
+    return highestRole(...grants.map((grant) => grant.role));
+  }
+
+  /**
+   * Find the whiteboards a user can open through their groups
+   * @param userId - User ID
+   * @returns Array of whiteboard IDs
+   */
+  async findWhiteboardIdsByGroupMember(userId: string): Promise<string[]> {
+    const grants = await this.groupCollaboratorRepository
+      .createQueryBuilder('groupGrant')
+      .innerJoin(
+        UserGroupMember,
+        'member',
+        'member.groupId = groupGrant.groupId AND member.userId = :userId',
+        { userId },
+      )
+      .select('groupGrant.whiteboardId', 'whiteboardId')
+      .distinct(true)
+      .getRawMany<{ whiteboardId: string }>();
+
+    return grants.map((grant) => grant.whiteboardId);
+  }
+}
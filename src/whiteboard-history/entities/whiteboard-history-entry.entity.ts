@@ -0,0 +1,62 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Whiteboard } from '../../whiteboards/entities/whiteboard.entity';
+import { User } from '../../users/entities/user.entity';
+import { RevertOperation } from '../../whiteboard-operations/board-history';
+
+/**
+ * One step of a user's undo/redo history on a whiteboard
+ * Holds the operations that take the board back before the step (undo) and,
+ * once undone, the operations that apply it again (redo)
+ */
+@Entity({ name: 'whiteboard_history' })
+@Index('IDX_whiteboard_history_user_sequence', [
+  'whiteboardId',
+  'userId',
+  'sequence',
+])
+export class WhiteboardHistoryEntry {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'whiteboard_id', type: 'uuid' })
+  whiteboardId: string;
+
+  @ManyToOne(() => Whiteboard, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'whiteboard_id' })
+  whiteboard: Whiteboard;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  // Sequence of the operation that created the step; orders the stack
+  @Column({ type: 'integer' })
+  sequence: number;
+
+  @Column({ name: 'undo_operations', type: 'jsonb' })
+  undoOperations: RevertOperation[];
+
+  @Column({ name: 'redo_operations', type: 'jsonb', nullable: true })
+  redoOperations: RevertOperation[] | null;
+
+  @Column({ type: 'boolean', default: false })
+  undone: boolean;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp with time zone' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamp with time zone' })
+  updatedAt: Date;
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WhiteboardHistoryService } from './whiteboard-history.service';
+import { WhiteboardHistoryEntry } from './entities/whiteboard-history-entry.entity';
+import { WhiteboardOperationsModule } from '../whiteboard-operations/whiteboard-operations.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([WhiteboardHistoryEntry]),
+    WhiteboardOperationsModule,
+  ],
+  providers: [WhiteboardHistoryService],
+  exports: [WhiteboardHistoryService],
+})
+export class WhiteboardHistoryModule {}
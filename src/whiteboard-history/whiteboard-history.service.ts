@@ -0,0 +1,161 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, In, Repository } from 'typeorm';
+import { WhiteboardHistoryEntry } from './entities/whiteboard-history-entry.entity';
+import {
+  getRevertOperations,
+  RevertOperation,
+} from '../whiteboard-operations/board-history';
+import { BoardReplay } from '../whiteboard-operations/board-state.reducer';
+import { toBoardOperation } from '../whiteboard-operations/board-state.service';
+import { WhiteboardOperation } from '../whiteboard-operations/entities/whiteboard-operation.entity';
+import {
+  NewOperation,
+  WhiteboardOperationsService,
+} from '../whiteboard-operations/whiteboard-operations.service';
+
+// Steps kept per user and whiteboard; older ones can no longer be undone
+export const MAX_HISTORY_DEPTH = 100;
+
+/**
+ * Whiteboard History Service
+ * Keeps a server-side undo/redo stack per user and whiteboard
+ *
+ * Steps that are not undone form the undo stack, undone steps the redo stack
+ * (newest on top, by sequence). Recording a new step drops the redo stack,
+ * like undo in any editor.
+ */
+@Injectable()
+export class WhiteboardHistoryService {
+  constructor(
+    @InjectRepository(WhiteboardHistoryEntry)
+    private readonly historyRepository: Repository<WhiteboardHistoryEntry>,
+    private readonly operationsService: WhiteboardOperationsService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Push a step onto a user's undo stack
+   * @param whiteboardId - Whiteboard ID
+   * @param userId - ID of the user who made the change
+   * @param sequence - Sequence of the operation that made the change
+   * @param undoOperations - Operations that revert the change
+   * @returns Saved history entry, or null if the change had no effect
+   */
+  async record(
+    whiteboardId: string,
+    userId: string,
+    sequence: number,
+    undoOperations: RevertOperation[],
+  ): Promise<WhiteboardHistoryEntry | null> {
+    // An update that lost to a newer write changed nothing, so there's nothing to undo
+    if (undoOperations.length === 0) {
+      return null;
+    }
+
+    await this.historyRepository.delete({ whiteboardId, userId, undone: true });
+
+    const entry = await this.historyRepository.save(
+      this.historyRepository.create({
+        whiteboardId,
+        userId,
+        sequence,
+        undoOperations,
+        redoOperations: null,
+        undone: false,
+      }),
+    );
+
+    const expired = await this.historyRepository.find({
+      where: { whiteboardId, userId },
+      select: ['id'],
+      order: { sequence: 'DESC' },
+      skip: MAX_HISTORY_DEPTH,
+    });
+    if (expired.length > 0) {
+      await this.historyRepository.delete({
+        id: In(expired.map((step) => step.id)),
+      });
+    }
+
+    return entry;
+  }
+
+  /**
+   * Get the step a user's next undo reverts
+   * @param whiteboardId - Whiteboard ID
+   * @param userId - User ID
+   * @returns Latest step that is not undone, or null if there is none
+   */
+  async findUndoable(
+    whiteboardId: string,
+    userId: string,
+  ): Promise<WhiteboardHistoryEntry | null> {
+    return await this.historyRepository.findOne({
+      where: { whiteboardId, userId, undone: false },
+      order: { sequence: 'DESC' },
+    });
+  }
+
+  /**
+   * Get the step a user's next redo applies again
+   * @param whiteboardId - Whiteboard ID
+   * @param userId - User ID
+   * @returns Earliest undone step (the last one undone), or null if there is none
+   */
+  async findRedoable(
+    whiteboardId: string,
+    userId: string,
+  ): Promise<WhiteboardHistoryEntry | null> {
+    return await this.historyRepository.findOne({
+      where: { whiteboardId, userId, undone: true },
+      order: { sequence: 'ASC' },
+    });
+  }
+
+  /**
+   * Undo or redo a step
+   * The step's operations are appended and the step is moved to the other
+   * stack, with the operations that reverse it again, in one transaction, so
+   * a failure leaves both the operation log and the history as they were
+   * @param entry - Step to undo (if not undone) or redo (if undone)
+   * @param operations - Operations of the step, fitted to the current board
+   * @param before - Current state of the shapes the step touches
+   * @returns Appended operations
+   */
+  async applyStep(
+    entry: WhiteboardHistoryEntry,
+    operations: NewOperation[],
+    before: BoardReplay,
+  ): Promise<WhiteboardOperation[]> {
+    return await this.dataSource.transaction(async (manager) => {
+      const appended = await this.operationsService.appendMany(
+        entry.whiteboardId,
+        entry.userId,
+        operations,
+        manager,
+      );
+
+      const after = before.slice();
+      for (const operation of appended) {
+        after.apply(toBoardOperation(operation));
+      }
+      const reverse = getRevertOperations(
+        before.toDocument(),
+        after.toDocument(),
+      );
+
+      if (entry.undone) {
+        entry.undone = false;
+        entry.undoOperations = reverse;
+        entry.redoOperations = null;
+      } else {
+        entry.undone = true;
+        entry.redoOperations = reverse;
+      }
+      await manager.save(entry);
+
+      return appended;
+    });
+  }
+}
@@ -0,0 +1,68 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Whiteboard } from '../../whiteboards/entities/whiteboard.entity';
+import { User } from '../../users/entities/user.entity';
+import type { CollaboratorRole } from '../../whiteboard-collaborators/entities/whiteboard-collaborator.entity';
+
+/**
+ * Invitation to a whiteboard for an email that has no account yet
+ * Turned into a collaborator row when someone registers with that email
+ */
+@Entity({ name: 'whiteboard_invitations' })
+@Index('IDX_whiteboard_invitations_board_email', ['whiteboardId', 'email'], {
+  unique: true,
+})
+@Index('IDX_whiteboard_invitations_email', ['email'])
+export class WhiteboardInvitation {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'whiteboard_id', type: 'uuid' })
+  whiteboardId: string;
+
+  @ManyToOne(() => Whiteboard, (whiteboard) => whiteboard.invitations, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'whiteboard_id' })
+  whiteboard: Whiteboard;
+
+  // Stored lowercased and trimmed, like user emails
+  @Column({ type: 'varchar', length: 255 })
+  email: string;
+
+  @Column({
+    type: 'enum',
+    enum: ['viewer', 'commenter', 'editor'],
+    default: 'editor',
+  })
+  role: CollaboratorRole;
+
+  @Column({ name: 'invited_by_id', type: 'uuid' })
+  invitedById: string;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'invited_by_id' })
+  invitedBy: User;
+
+  @Column({ name: 'expires_at', type: 'timestamp with time zone' })
+  expiresAt: Date;
+
+  // When the invitation was last issued or resent
+  @Column({ name: 'last_sent_at', type: 'timestamp with time zone' })
+  lastSentAt: Date;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp with time zone' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamp with time zone' })
+  updatedAt: Date;
+}
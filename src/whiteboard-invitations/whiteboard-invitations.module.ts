@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WhiteboardInvitationsService } from './whiteboard-invitations.service';
+import { WhiteboardInvitation } from './entities/whiteboard-invitation.entity';
+import { WhiteboardCollaboratorsModule } from '../whiteboard-collaborators/whiteboard-collaborators.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([WhiteboardInvitation]),
+    WhiteboardCollaboratorsModule,
+  ],
+  providers: [WhiteboardInvitationsService],
+  exports: [WhiteboardInvitationsService],
+})
+export class WhiteboardInvitationsModule {}
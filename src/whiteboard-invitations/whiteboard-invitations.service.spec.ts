@@ -0,0 +1,196 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  INVITATION_TTL_MS,
+  WhiteboardInvitationsService,
+} from './whiteboard-invitations.service';
+import { WhiteboardInvitation } from './entities/whiteboard-invitation.entity';
+import { WhiteboardCollaboratorsService } from '../whiteboard-collaborators/whiteboard-collaborators.service';
+import { Whiteboard } from '../whiteboards/entities/whiteboard.entity';
+import { User } from '../users/entities/user.entity';
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+const whiteboard = { id: 'board-1' } as Whiteboard;
+const owner = { id: 'owner-1', email: 'owner@example.com' } as User;
+const newcomer = { id: 'user-2', email: 'Grace@Example.com' } as User;
+
+describe('WhiteboardInvitationsService', () => {
+  let service: WhiteboardInvitationsService;
+  let invitationRepository: Record<string, jest.Mock>;
+  let collaboratorsService: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: NOW });
+
+    invitationRepository = {
+      findOne: jest.fn().mockResolvedValue(null),
+      find: jest.fn().mockResolvedValue([]),
+      create: jest.fn((invitation: Partial<WhiteboardInvitation>) => ({
+        ...invitation,
+      })),
+      save: jest.fn((invitation: WhiteboardInvitation) =>
+        Promise.resolve(invitation),
+      ),
+      remove: jest.fn().mockResolvedValue(undefined),
+    };
+    collaboratorsService = {
+      addCollaborators: jest.fn(
+        (board: Whiteboard, users: User[], role: string) =>
+          Promise.resolve(
+            users.map((user) => ({
+              whiteboardId: board.id,
+              userId: user.id,
+              role,
+            })),
+          ),
+      ),
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        WhiteboardInvitationsService,
+        {
+          provide: getRepositoryToken(WhiteboardInvitation),
+          useValue: invitationRepository,
+        },
+        {
+          provide: WhiteboardCollaboratorsService,
+          useValue: collaboratorsService,
+        },
+      ],
+    }).compile();
+
+    service = app.get<WhiteboardInvitationsService>(
+      WhiteboardInvitationsService,
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('invite', () => {
+    it('should create an invitation for the normalised email', async () => {
+      const invitation = await service.invite(
+        whiteboard,
+        '  Grace@Example.com ',
+        'viewer',
+        owner,
+      );
+
+      expect(invitation).toMatchObject({
+        whiteboardId: 'board-1',
+        email: 'grace@example.com',
+        role: 'viewer',
+        invitedById: 'owner-1',
+        lastSentAt: NOW,
+        expiresAt: new Date(NOW.getTime() + INVITATION_TTL_MS),
+      });
+    });
+
+    it('should update the pending invitation when the email is invited again', async () => {
+      const existing = {
+        id: 'invitation-1',
+        whiteboardId: 'board-1',
+        email: 'grace@example.com',
+        role: 'viewer',
+      };
+      invitationRepository.findOne.mockResolvedValue(existing);
+
+      const invitation = await service.invite(
+        whiteboard,
+        'grace@example.com',
+        'editor',
+        owner,
+      );
+
+      expect(invitation).toBe(existing);
+      expect(invitation.role).toBe('editor');
+      expect(invitationRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resend', () => {
+    it('should restart the expiry of an invitation', async () => {
+      invitationRepository.findOne.mockResolvedValue({
+        id: 'invitation-1',
+        expiresAt: new Date(0),
+      });
+
+      const invitation = await service.resend('board-1', 'invitation-1');
+
+      expect(invitation.lastSentAt).toEqual(NOW);
+      expect(invitation.expiresAt).toEqual(
+        new Date(NOW.getTime() + INVITATION_TTL_MS),
+      );
+    });
+
+    it('should reject an invitation from another whiteboard', async () => {
+      await expect(
+        service.resend('board-1', 'invitation-1'),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(invitationRepository.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'invitation-1', whiteboardId: 'board-1' },
+        }),
+      );
+      expect(invitationRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revoke', () => {
+    it('should remove the invitation', async () => {
+      const invitation = { id: 'invitation-1' };
+      invitationRepository.findOne.mockResolvedValue(invitation);
+
+      await service.revoke('board-1', 'invitation-1');
+
+      expect(invitationRepository.remove).toHaveBeenCalledWith(invitation);
+    });
+
+    it('should reject an unknown invitation', async () => {
+      await expect(
+        service.revoke('board-1', 'invitation-1'),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(invitationRepository.remove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acceptPendingInvitations', () => {
+    it('should make the user a collaborator on every board they were invited to', async () => {
+      const invitations = [
+        {
+          whiteboard,
+          role: 'commenter',
+          expiresAt: new Date(NOW.getTime() + 1000),
+        },
+      ];
+      invitationRepository.find.mockResolvedValue(invitations);
+
+      const collaborators = await service.acceptPendingInvitations(newcomer);
+
+      expect(invitationRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { email: 'grace@example.com' } }),
+      );
+      expect(collaborators).toEqual([
+        { whiteboardId: 'board-1', userId: 'user-2', role: 'commenter' },
+      ]);
+      expect(invitationRepository.remove).toHaveBeenCalledWith(invitations);
+    });
+
+    it('should drop expired invitations without granting access', async () => {
+      const invitations = [
+        { whiteboard, role: 'editor', expiresAt: new Date(NOW.getTime() - 1) },
+      ];
+      invitationRepository.find.mockResolvedValue(invitations);
+
+      const collaborators = await service.acceptPendingInvitations(newcomer);
+
+      expect(collaborators).toEqual([]);
+      expect(collaboratorsService.addCollaborators).not.toHaveBeenCalled();
+      expect(invitationRepository.remove).toHaveBeenCalledWith(invitations);
+    });
+  });
+});
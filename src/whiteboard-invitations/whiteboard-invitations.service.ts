@@ -0,0 +1,161 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { WhiteboardInvitation } from './entities/whiteboard-invitation.entity';
+import { Whiteboard } from '../whiteboards/entities/whiteboard.entity';
+import { User } from '../users/entities/user.entity';
+import {
+  CollaboratorRole,
+  WhiteboardCollaborator,
+} from '../whiteboard-collaborators/entities/whiteboard-collaborator.entity';
+import { WhiteboardCollaboratorsService } from '../whiteboard-collaborators/whiteboard-collaborators.service';
+
+// How long an invitation stays valid after it was issued or resent
+export const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Whiteboard Invitations Service
+ * Keeps pending invitations for emails that have no account yet
+ *
+ * An invitation is keyed by whiteboard and email; inviting the same email
+ * again updates it. When someone registers with the email, every invitation
+ * that hasn't expired becomes a collaborator row.
+ */
+@Injectable()
+export class WhiteboardInvitationsService {
+  constructor(
+    @InjectRepository(WhiteboardInvitation)
+    private readonly invitationRepository: Repository<WhiteboardInvitation>,
+    private readonly collaboratorsService: WhiteboardCollaboratorsService,
+  ) {}
+
+  /**
+   * Invite an email to a whiteboard, or refresh its pending invitation
+   * @param whiteboard - Whiteboard entity
+   * @param email - Email to invite (normalised here)
+   * @param role - Role the invitee gets on the whiteboard
+   * @param inviter - User sending the invitation
+   * @returns Saved invitation entity
+   */
+  async invite(
+    whiteboard: Whiteboard,
+    email: string,
+    role: CollaboratorRole,
+    inviter: User,
+  ): Promise<WhiteboardInvitation> {
+    const normalizedEmail = email.toLowerCase().trim();
+    const now = new Date();
+
+    const invitation =
+      (await this.invitationRepository.findOne({
+        where: { whiteboardId: whiteboard.id, email: normalizedEmail },
+      })) ??
+      this.invitationRepository.create({
+        whiteboardId: whiteboard.id,
+        email: normalizedEmail,
+      });
+
+    invitation.role = role;
+    invitation.invitedById = inviter.id;
+    invitation.lastSentAt = now;
+    invitation.expiresAt = new Date(now.getTime() + INVITATION_TTL_MS);
+
+    return await this.invitationRepository.save(invitation);
+  }
+
+  /**
+   * Find the invitations of a whiteboard, expired ones included
+   * @param whiteboardId - Whiteboard ID
+   * @returns Array of invitation entities with inviter relation, newest first
+   */
+  async findByWhiteboardId(
+    whiteboardId: string,
+  ): Promise<WhiteboardInvitation[]> {
+    return await this.invitationRepository.find({
+      where: { whiteboardId },
+      relations: ['invitedBy'],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Issue an invitation again, restarting its expiry
+   * @param whiteboardId - Whiteboard ID
+   * @param invitationId - Invitation ID
+   * @returns Updated invitation entity with inviter relation
+   * @throws NotFoundException if invitation not found on this whiteboard
+   */
+  async resend(
+    whiteboardId: string,
+    invitationId: string,
+  ): Promise<WhiteboardInvitation> {
+    const invitation = await this.invitationRepository.findOne({
+      where: { id: invitationId, whiteboardId },
+      relations: ['invitedBy'],
+    });
+
+    if (!invitation) {
+      throw new NotFoundException('Invitation not found on this whiteboard');
+    }
+
+    const now = new Date();
+    invitation.lastSentAt = now;
+    invitation.expiresAt = new Date(now.getTime() + INVITATION_TTL_MS);
+
+    return await this.invitationRepository.save(invitation);
+  }
+
+  /**
+   * Revoke an invitation
+   * @param whiteboardId - Whiteboard ID
+   * @param invitationId - Invitation ID
+   * @throws NotFoundException if invitation not found on this whiteboard
+   */
+  async revoke(whiteboardId: string, invitationId: string): Promise<void> {
+    const invitation = await this.invitationRepository.findOne({
+      where: { id: invitationId, whiteboardId },
+    });
+
+    if (!invitation) {
+      throw new NotFoundException('Invitation not found on this whiteboard');
+    }
+
+    await this.invitationRepository.remove(invitation);
+  }
+
+  /**
+   * Turn the pending invitations for a user's email into collaborator rows
+   * Expired invitations are dropped without granting access
+   * @param user - Newly registered user
+   * @returns Created collaborator entities
+   */
+  async acceptPendingInvitations(
+    user: User,
+  ): Promise<WhiteboardCollaborator[]> {
+    const invitations = await this.invitationRepository.find({
+      where: { email: user.email.toLowerCase().trim() },
+      relations: ['whiteboard'],
+    });
+
+    const now = Date.now();
+    const collaborators: WhiteboardCollaborator[] = [];
+
+    for (const invitation of invitations) {
+      if (invitation.expiresAt.getTime() > now) {
+        collaborators.push(
+          ...(await this.collaboratorsService.addCollaborators(
+            invitation.whiteboard,
+            [user],
+            invitation.role,
+          )),
+        );
+      }
+    }
+
+    if (invitations.length > 0) {
+      await this.invitationRepository.remove(invitations);
+    }
+
+    return collaborators;
+  }
+}
@@ -0,0 +1,229 @@
+import { getRevertOperations, resolveRevertOperations } from './board-history';
+import { BoardOperation, replayOperations } from './board-state.reducer';
+
+describe('board history', () => {
+  describe('getRevertOperations', () => {
+    const revert = (
+      snapshot: Record<string, unknown>,
+      operation: Omit<BoardOperation, 'sequence'>,
+    ) => {
+      const before = replayOperations(snapshot, []);
+      const after = replayOperations(before, [{ sequence: 1, ...operation }]);
+      const operations = getRevertOperations(before, after);
+      const reverted = replayOperations(
+        after,
+        operations.map((revertOperation, index) => ({
+          sequence: index + 2,
+          clock: index + 2,
+          ...revertOperation,
+        })),
+      );
+
+      return { before, operations, reverted };
+    };
+
+    it('should delete a created shape', () => {
+      const { operations, reverted } = revert(
+        { shapes: [{ id: 'a', type: 'rectangle' }] },
+        { updateType: 'circle', data: { shape: { id: 'c' } }, clock: 1 },
+      );
+
+      expect(operations).toEqual([
+        { updateType: 'delete', data: { shapeId: 'c' } },
+      ]);
+      expect(reverted.shapes).toEqual([{ id: 'a', type: 'rectangle' }]);
+    });
+
+    it('should restore the earlier content of an updated shape', () => {
+      const { operations, reverted } = revert(
+        { shapes: [{ id: 't', type: 'text', text: 'hello' }] },
+        {
+          updateType: 'text',
+          data: { shape: { id: 't', text: 'bye' } },
+          clock: 1,
+        },
+      );
+
+      expect(operations).toEqual([
+        {
+          updateType: 'text',
+          data: { shape: { id: 't', type: 'text', text: 'hello' } },
+          fields: [{ name: 'text', value: 'bye' }],
+        },
+      ]);
+      expect(reverted.shapes).toEqual([
+        { id: 't', type: 'text', text: 'hello' },
+      ]);
+    });
+
+    it('should restore a deleted shape in its place', () => {
+      const before = replayOperations(null, [
+        { sequence: 1, updateType: 'line', data: { shape: { id: 'a' } } },
+        { sequence: 2, updateType: 'stroke', data: { stroke: { id: 'b' } } },
+        { sequence: 3, updateType: 'arrow', data: { shape: { id: 'c' } } },
+      ]);
+      const after = replayOperations(before, [
+        { sequence: 4, updateType: 'delete', data: { shapeId: 'b' } },
+      ]);
+
+      const operations = getRevertOperations(before, after);
+      const reverted = replayOperations(after, [
+        { sequence: 5, ...operations[0] },
+      ]);
+
+      expect(operations).toEqual([
+        {
+          updateType: 'stroke',
+          data: { shape: { id: 'b', type: 'stroke' } },
+        },
+      ]);
+      expect(reverted.shapes).toEqual(before.shapes);
+    });
+
+    it('should restore the whole canvas after a clear', () => {
+      const { before, operations, reverted } = revert(
+        {
+          shapes: [
+            { id: 'a', type: 'line' },
+            { id: 'b', type: 'sticky' },
+          ],
+        },
+        { updateType: 'clear', data: { clearAll: true }, clock: 1 },
+      );
+
+      expect(operations.map((operation) => operation.updateType)).toEqual([
+        'line',
+        'rectangle',
+      ]);
+      expect(reverted.shapes).toEqual(before.shapes);
+    });
+
+    it('should put back a shape that was saved without a type', () => {
+      const { before, operations, reverted } = revert(
+        { shapes: [{ id: 'u', x: 0 }] },
+        { updateType: 'circle', data: { shape: { id: 'u', x: 5 } }, clock: 1 },
+      );
+
+      expect(operations).toEqual([
+        {
+          updateType: 'rectangle',
+          data: { shape: { id: 'u', x: 0 }, untyped: true },
+          fields: [
+            { name: 'x', value: 5 },
+            { name: 'type', value: 'circle' },
+          ],
+        },
+      ]);
+      expect(reverted.shapes).toEqual(before.shapes);
+    });
+
+    it('should return nothing when no shape changed', () => {
+      const { operations } = revert(
+        { shapes: [{ id: 'a', type: 'rectangle' }] },
+        { updateType: 'explode', data: { shape: { id: 'x' } }, clock: 1 },
+      );
+
+      expect(operations).toEqual([]);
+    });
+  });
+
+  describe('resolveRevertOperations', () => {
+    const shape = { id: 'r', type: 'rectangle', x: 0, color: '#000' };
+
+    // Alice moves the shape, then Bob edits it before Alice undoes her move
+    const undoAfterEdit = (edit: Record<string, unknown>) => {
+      const before = replayOperations({ shapes: [shape] }, []);
+      const moved = replayOperations(before, [
+        {
+          sequence: 1,
+          updateType: 'rectangle',
+          data: { shape: { ...shape, x: 50 } },
+          clock: 1,
+          actor: 'alice',
+        },
+      ]);
+      const undo = getRevertOperations(before, moved);
+
+      const edited = replayOperations(moved, [
+        {
+          sequence: 2,
+          updateType: 'rectangle',
+          data: { shape: { ...shape, x: 50, ...edit } },
+          clock: 2,
+          actor: 'bob',
+        },
+      ]);
+      const operations = resolveRevertOperations(undo, edited);
+      const undone = replayOperations(
+        edited,
+        operations.map((operation, index) => ({
+          sequence: index + 3,
+          clock: index + 3,
+          actor: 'alice',
+          ...operation,
+        })),
+      );
+
+      return { operations, undone };
+    };
+
+    it("should keep another user's later edit to other fields", () => {
+      const { undone } = undoAfterEdit({ color: '#f00' });
+
+      expect(undone.shapes).toEqual([{ ...shape, color: '#f00' }]);
+    });
+
+    it("should keep another user's later value of the same field", () => {
+      const { operations, undone } = undoAfterEdit({ x: 80 });
+
+      expect(operations).toEqual([]);
+      expect(undone.shapes).toEqual([{ ...shape, x: 80 }]);
+    });
+
+    it('should restore fields the step removed and drop ones it added', () => {
+      const target = { shapes: [{ id: 't', type: 'text', text: 'a' }] };
+      const current = {
+        shapes: [{ id: 't', type: 'text', fontSize: 12, color: '#fff' }],
+      };
+      const undo = getRevertOperations(target, {
+        shapes: [{ id: 't', type: 'text', fontSize: 12 }],
+      });
+
+      expect(resolveRevertOperations(undo, current)).toEqual([
+        {
+          updateType: 'text',
+          data: { shape: { id: 't', type: 'text', text: 'a', color: '#fff' } },
+        },
+      ]);
+    });
+
+    it('should take the stamped type back off a shape saved without one', () => {
+      const undo = getRevertOperations(
+        { shapes: [{ id: 'u', x: 0 }] },
+        { shapes: [{ id: 'u', type: 'circle', x: 5 }] },
+      );
+      const current = { shapes: [{ id: 'u', type: 'circle', x: 5, y: 9 }] };
+
+      const operations = resolveRevertOperations(undo, current);
+
+      expect(operations).toEqual([
+        {
+          updateType: 'rectangle',
+          data: { shape: { id: 'u', x: 0, y: 9 }, untyped: true },
+        },
+      ]);
+      expect(
+        replayOperations(current, [{ sequence: 1, ...operations[0] }]).shapes,
+      ).toEqual([{ id: 'u', x: 0, y: 9 }]);
+    });
+
+    it('should not bring back a shape deleted since', () => {
+      const undo = getRevertOperations(
+        { shapes: [shape] },
+        { shapes: [{ ...shape, x: 50 }] },
+      );
+
+      expect(resolveRevertOperations(undo, { shapes: [] })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { isDeepStrictEqual } from 'util';
+import {
+  BoardDocument,
+  BoardShape,
+  SHAPE_UPDATE_TYPES,
+} from './board-state.reducer';
+
+/**
+ * Board History
+ * Pure helpers that work out how to take a board back to an earlier document,
+ * used to build the undo and redo steps of an update
+ */
+
+/**
+ * Field of a shape that a step changed
+ */
+export interface RevertedField {
+  name: string;
+  // Value the step left the field at (missing if the step removed it)
+  value?: unknown;
+}
+
+/**
+ * Operation that still has to be appended to the operation log
+ * Upserts of a shape that exists on both sides also list the fields they
+ * take back, so they can be applied on top of later edits (see
+ * resolveRevertOperations)
+ */
+export interface RevertOperation {
+  updateType: string;
+  data: Record<string, unknown>;
+  fields?: RevertedField[];
+}
+
+/**
+ * Build the upsert that writes a shape back as it is
+ * Shapes of an unknown type go out as rectangles and keep their own type
+ * field; shapes without one are marked untyped, so the reducer doesn't stamp
+ * the update type onto them
+ */
+const toUpsert = (
+  shape: BoardShape,
+): Pick<RevertOperation, 'updateType' | 'data'> => {
+  if (shape.type === undefined) {
+    return { updateType: 'rectangle', data: { shape, untyped: true } };
+  }
+  const updateType =
+    shape.type === 'stroke' ||
+    (SHAPE_UPDATE_TYPES as readonly string[]).includes(shape.type)
+      ? shape.type
+      : 'rectangle';
+  return { updateType, data: { shape } };
+};
+
+/**
+ * List the fields that differ between two versions of a shape
+ * @param target - Shape as it should be again
+ * @param current - Shape as the step left it
+ * @returns Changed fields with their values in `current`
+ */
+const getChangedFields = (
+  target: BoardShape,
+  current: BoardShape,
+): RevertedField[] =>
+  Array.from(new Set([...Object.keys(target), ...Object.keys(current)]))
+    .filter((name) => !isDeepStrictEqual(target[name], current[name]))
+    .map((name) =>
+      name in current ? { name, value: current[name] } : { name },
+    );
+
+/**
+ * Work out the operations that turn one board document back into another
+ * Shapes only present in `current` are deleted; shapes that were removed or
+ * changed are upserted with their earlier content, in their earlier z-order
+ * @param target - Document to go back to
+ * @param current - Document the operations are applied to
+ * @returns Operations to append (empty if both documents have the same shapes)
+ */
+export const getRevertOperations = (
+  target: BoardDocument,
+  current: BoardDocument,
+): RevertOperation[] => {
+  const targetShapes = new Map(target.shapes.map((shape) => [shape.id, shape]));
+  const currentShapes = new Map(
+    current.shapes.map((shape) => [shape.id, shape]),
+  );
+  const operations: RevertOperation[] = [];
+
+  for (const shape of current.shapes) {
+    if (!targetShapes.has(shape.id)) {
+      operations.push({ updateType: 'delete', data: { shapeId: shape.id } });
+    }
+  }
+
+  for (const shape of target.shapes) {
+    const currentShape = currentShapes.get(shape.id);
+    if (!currentShape) {
+      operations.push(toUpsert(shape));
+    } else if (!isDeepStrictEqual(currentShape, shape)) {
+      operations.push({
+        ...toUpsert(shape),
+        fields: getChangedFields(shape, currentShape),
+      });
+    }
+  }
+
+  return operations;
+};
+
+/**
+ * Fit stored revert operations to the board as it is now
+ * Other users may have edited the shapes since the step. An upsert of a
+ * changed shape only takes back the fields that still hold the value the
+ * step left them at, on top of the shape's current content, so later edits
+ * by others survive the undo; it is dropped if none do or the shape is gone.
+ * Other operations are kept as they are
+ * @param operations - Stored operations of the step
+ * @param current - Current document (at least the shapes the step touches)
+ * @returns Operations to append
+ */
+export const resolveRevertOperations = (
+  operations: RevertOperation[],
+  current: BoardDocument,
+): RevertOperation[] => {
+  const currentShapes = new Map(
+    current.shapes.map((shape) => [shape.id, shape]),
+  );
+  const resolved: RevertOperation[] = [];
+
+  for (const { updateType, data, fields } of operations) {
+    if (!fields) {
+      resolved.push({ updateType, data });
+      continue;
+    }
+
+    const target = data.shape as BoardShape;
+    const shape = currentShapes.get(target.id);
+    if (!shape) {
+      continue;
+    }
+
+    const reverted: BoardShape = { ...shape };
+    const names = fields
+      .filter((field) => isDeepStrictEqual(shape[field.name], field.value))
+      .map((field) => field.name);
+
+    for (const name of names) {
+      if (name in target) {
+        reverted[name] = target[name];
+      } else {
+        delete reverted[name];
+      }
+    }
+
+    if (names.length > 0) {
+      resolved.push(toUpsert(reverted));
+    }
+  }
+
+  return resolved;
+};
@@ -0,0 +1,383 @@
+import {
+  BoardOperation,
+  BoardReplay,
+  RESTORE_UPDATE_TYPE,
+  applyOperation,
+  getAffectedShapeIds,
+  getHighestClock,
+  replayOperations,
+} from './board-state.reducer';
+
+describe('board state reducer', () => {
+  describe('replayOperations', () => {
+    it('should start from the snapshot shapes', () => {
+      const document = replayOperations(
+        { shapes: [{ id: 'a', type: 'rectangle' }], background: '#fff' },
+        [],
+      );
+
+      expect(document).toMatchObject({
+        shapes: [{ id: 'a', type: 'rectangle' }],
+        background: '#fff',
+      });
+    });
+
+    it('should collapse duplicate shape ids from the snapshot', () => {
+      const document = replayOperations(
+        {
+          shapes: [
+            { id: 'a', x: 1 },
+            { id: 'a', x: 2 },
+          ],
+        },
+        [],
+      );
+
+      expect(document.shapes).toEqual([{ id: 'a', x: 2 }]);
+    });
+
+    it('should upsert shapes in place and keep their order', () => {
+      const document = replayOperations(
+        { shapes: [{ id: 'a', x: 1 }, { id: 'b' }] },
+        [
+          {
+            sequence: 1,
+            updateType: 'rectangle',
+            data: { shape: { id: 'a', x: 5 } },
+          },
+          { sequence: 2, updateType: 'circle', data: { shape: { id: 'c' } } },
+        ],
+      );
+
+      expect(document.shapes).toEqual([
+        { id: 'a', type: 'rectangle', x: 5 },
+        { id: 'b' },
+        { id: 'c', type: 'circle' },
+      ]);
+    });
+
+    it('should key strokes without an id by their sequence', () => {
+      const document = replayOperations(null, [
+        {
+          sequence: 7,
+          updateType: 'stroke',
+          data: { stroke: { color: '#000', width: 2, points: [] } },
+        },
+      ]);
+
+      expect(document.shapes).toEqual([
+        { id: 'stroke-7', type: 'stroke', color: '#000', width: 2, points: [] },
+      ]);
+    });
+
+    it('should remove deleted shapes so they do not reappear', () => {
+      const document = replayOperations(
+        { shapes: [{ id: 'a' }, { id: 'b' }] },
+        [
+          { sequence: 1, updateType: 'delete', data: { shapeId: 'a' } },
+          { sequence: 2, updateType: 'delete', data: { shape: { id: 'b' } } },
+        ],
+      );
+
+      expect(document.shapes).toEqual([]);
+    });
+
+    it('should drop every shape on clear', () => {
+      const document = replayOperations({ shapes: [{ id: 'a' }] }, [
+        { sequence: 1, updateType: 'clear', data: { clearAll: true } },
+        { sequence: 2, updateType: 'text', data: { shape: { id: 't' } } },
+      ]);
+
+      expect(document.shapes).toEqual([{ id: 't', type: 'text' }]);
+    });
+
+    it('should ignore unknown update types', () => {
+      const document = replayOperations({ shapes: [{ id: 'a' }] }, [
+        { sequence: 1, updateType: 'explode', data: { shape: { id: 'x' } } },
+      ]);
+
+      expect(document.shapes).toEqual([{ id: 'a' }]);
+    });
+
+    it('should leave the document unchanged on a restore marker', () => {
+      const document = replayOperations({ shapes: [{ id: 'a' }] }, [
+        { sequence: 1, updateType: RESTORE_UPDATE_TYPE, data: { version: 3 } },
+      ]);
+
+      expect(document.shapes).toEqual([{ id: 'a' }]);
+    });
+  });
+
+  describe('concurrent edits', () => {
+    const permutations = <T,>(items: T[]): T[][] =>
+      items.length <= 1
+        ? [items]
+        : items.flatMap((item, index) =>
+            permutations([
+              ...items.slice(0, index),
+              ...items.slice(index + 1),
+            ]).map((rest) => [item, ...rest]),
+          );
+
+    const expectConvergence = (operations: BoardOperation[]) => {
+      const results = permutations(operations).map((order) =>
+        replayOperations({ shapes: [{ id: 'a', x: 0 }] }, order),
+      );
+
+      for (const result of results) {
+        expect(result).toEqual(results[0]);
+      }
+      return results[0];
+    };
+
+    it('should let the highest clock win regardless of arrival order', () => {
+      const document = expectConvergence([
+        {
+          sequence: 1,
+          updateType: 'rectangle',
+          data: { shape: { id: 'a', x: 1 } },
+          clock: 5,
+          actor: 'alice',
+        },
+        {
+          sequence: 2,
+          updateType: 'rectangle',
+          data: { shape: { id: 'a', x: 2 } },
+          clock: 4,
+          actor: 'bob',
+        },
+      ]);
+
+      expect(document.shapes).toEqual([{ id: 'a', type: 'rectangle', x: 1 }]);
+    });
+
+    it('should break clock ties by actor', () => {
+      const document = expectConvergence([
+        {
+          sequence: 1,
+          updateType: 'circle',
+          data: { shape: { id: 'a', r: 1 } },
+          clock: 3,
+          actor: 'bob',
+        },
+        {
+          sequence: 2,
+          updateType: 'circle',
+          data: { shape: { id: 'a', r: 2 } },
+          clock: 3,
+          actor: 'alice',
+        },
+      ]);
+
+      expect(document.shapes).toEqual([{ id: 'a', type: 'circle', r: 1 }]);
+    });
+
+    it('should converge on deletes, clears and creates', () => {
+      const document = expectConvergence([
+        {
+          sequence: 1,
+          updateType: 'text',
+          data: { shape: { id: 'b' } },
+          clock: 2,
+          actor: 'alice',
+        },
+        {
+          sequence: 2,
+          updateType: 'delete',
+          data: { shapeId: 'b' },
+          clock: 3,
+          actor: 'bob',
+        },
+        {
+          sequence: 3,
+          updateType: 'clear',
+          data: { clearAll: true },
+          clock: 4,
+          actor: 'bob',
+        },
+        {
+          sequence: 4,
+          updateType: 'line',
+          data: { shape: { id: 'c' } },
+          clock: 6,
+          actor: 'alice',
+        },
+        {
+          sequence: 5,
+          updateType: 'arrow',
+          data: { shape: { id: 'd' } },
+          clock: 5,
+          actor: 'carol',
+        },
+      ]);
+
+      expect(document.shapes).toEqual([
+        { id: 'd', type: 'arrow' },
+        { id: 'c', type: 'line' },
+      ]);
+    });
+
+    it('should keep tombstones across snapshots', () => {
+      const deleted = replayOperations({ shapes: [{ id: 'a' }] }, [
+        {
+          sequence: 1,
+          updateType: 'delete',
+          data: { shapeId: 'a' },
+          clock: 5,
+          actor: 'bob',
+        },
+      ]);
+
+      const document = replayOperations(deleted, [
+        {
+          sequence: 2,
+          updateType: 'rectangle',
+          data: { shape: { id: 'a' } },
+          clock: 4,
+          actor: 'alice',
+        },
+      ]);
+
+      expect(document.shapes).toEqual([]);
+      expect(document.crdt?.clock).toBe(5);
+    });
+  });
+
+  describe('applyOperation', () => {
+    it('should not modify the input document', () => {
+      const document = { shapes: [{ id: 'a' }] };
+
+      applyOperation(document, {
+        sequence: 1,
+        updateType: 'delete',
+        data: { shapeId: 'a' },
+      });
+
+      expect(document.shapes).toEqual([{ id: 'a' }]);
+    });
+  });
+
+  describe('BoardReplay', () => {
+    const snapshot = {
+      shapes: [
+        { id: 'a', type: 'rectangle', x: 0 },
+        { id: 'b', type: 'circle', x: 0 },
+      ],
+    };
+
+    it('should build the same document as a full replay', () => {
+      const operations: BoardOperation[] = [
+        { sequence: 1, updateType: 'rectangle', data: { shape: { id: 'a' } } },
+        { sequence: 2, updateType: 'delete', data: { shapeId: 'b' } },
+        { sequence: 3, updateType: 'stroke', data: { stroke: { points: [] } } },
+      ];
+
+      const replay = BoardReplay.fromSnapshot(snapshot);
+      operations.forEach((operation) => replay.apply(operation));
+
+      expect(replay.toDocument()).toEqual(
+        replayOperations(snapshot, operations),
+      );
+    });
+
+    it('should apply an operation to a slice like to the whole board', () => {
+      const replay = BoardReplay.fromSnapshot(snapshot);
+      replay.apply({
+        sequence: 1,
+        updateType: 'delete',
+        data: { shapeId: 'a' },
+        clock: 5,
+      });
+
+      // The tombstone of a comes along, so the older write still loses
+      const slice = replay.slice(['a']);
+      slice.apply({
+        sequence: 2,
+        updateType: 'rectangle',
+        data: { shape: { id: 'a', x: 1 } },
+        clock: 3,
+      });
+
+      expect(slice.toDocument().shapes).toEqual([]);
+    });
+
+    it('should not change the replay it was sliced from', () => {
+      const replay = BoardReplay.fromSnapshot(snapshot);
+      const slice = replay.slice(['a']);
+
+      slice.apply({
+        sequence: 1,
+        updateType: 'delete',
+        data: { shapeId: 'a' },
+      });
+
+      expect(slice.toDocument().shapes).toEqual([]);
+      expect(replay.toDocument().shapes).toEqual(snapshot.shapes);
+    });
+  });
+
+  describe('getAffectedShapeIds', () => {
+    it('should return the shape an upsert or delete writes to', () => {
+      expect(getAffectedShapeIds('text', { shape: { id: 't' } })).toEqual([
+        't',
+      ]);
+      expect(getAffectedShapeIds('stroke', { stroke: { id: 's' } })).toEqual([
+        's',
+      ]);
+      expect(getAffectedShapeIds('delete', { shapeId: 'a' })).toEqual(['a']);
+    });
+
+    it('should return no shapes for new strokes without an id', () => {
+      expect(getAffectedShapeIds('stroke', { stroke: { points: [] } })).toEqual(
+        [],
+      );
+    });
+
+    it('should return null for a clear', () => {
+      expect(getAffectedShapeIds('clear', { clearAll: true })).toBeNull();
+    });
+  });
+
+  describe('getHighestClock', () => {
+    it('should find the highest clock of the document, clear and registers', () => {
+      expect(
+        getHighestClock({
+          shapes: [{ id: 'a' }],
+          crdt: {
+            clock: 3,
+            cleared: { clock: 7, actor: 'bob' },
+            registers: {
+              a: {
+                createdAt: { clock: 8, actor: 'alice' },
+                updatedAt: { clock: 9, actor: 'alice' },
+              },
+              b: {
+                createdAt: null,
+                updatedAt: { clock: 12, actor: 'bob' },
+                deleted: true,
+              },
+            },
+          },
+        }),
+      ).toBe(12);
+    });
+
+    it('should ignore metadata a replay would not use', () => {
+      expect(
+        getHighestClock({
+          shapes: [],
+          crdt: {
+            clock: 2,
+            cleared: { clock: '1e12', actor: 'bob' },
+            registers: {
+              gone: {
+                createdAt: { clock: 50, actor: 'alice' },
+                updatedAt: { clock: 50, actor: 'alice' },
+              },
+            },
+          },
+        }),
+      ).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,494 @@
+/**
+ * Board State Reducer
+ * Pure functions that turn a snapshot plus a list of draw_update operations
+ * into one canonical board document
+ *
+ * The document is a CRDT: every shape is a last-writer-wins register stamped
+ * with a Lamport clock and the id of the actor who wrote it. Applying the same
+ * operations in any order gives the same document, so clients that apply
+ * their own updates optimistically still converge with the server.
+ * BoardReplay keeps that state in memory and applies operations to it in
+ * place, for callers that follow a board one operation at a time.
+ *
+ * Rules per updateType:
+ * - stroke: upserts data.shape, or data.stroke as a stroke shape
+ *   (strokes without an id are keyed by their operation sequence)
+ * - rectangle, circle, arrow, line, text: upserts data.shape by id
+ * - delete: removes the shape identified by data.shapeId (or data.shape.id)
+ * - clear: removes every shape written before the clear
+ * - restore: marks where an earlier version was restored; the restored
+ *   version becomes the snapshot the replay starts from, so it changes nothing
+ * A write only wins if its stamp is newer than the shape's current stamp
+ * (and than the last clear). Unknown update types are ignored so old
+ * clients can't corrupt the document.
+ */
+
+export const SHAPE_UPDATE_TYPES = [
+  'rectangle',
+  'circle',
+  'arrow',
+  'line',
+  'text',
+] as const;
+
+// Operation the server appends when a board is restored to an earlier version
+// (clients can't send it as a draw_update)
+export const RESTORE_UPDATE_TYPE = 'restore';
+
+export interface BoardShape {
+  id: string;
+  type?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Lamport timestamp; ties on clock are broken by actor id
+ */
+export interface LamportStamp {
+  clock: number;
+  actor: string;
+}
+
+/**
+ * Register state of a single shape
+ * createdAt (the oldest upsert seen) decides z-order, updatedAt decides which
+ * write wins. createdAt is null for tombstones of shapes never seen created.
+ */
+export interface ShapeRegister {
+  createdAt: LamportStamp | null;
+  updatedAt: LamportStamp;
+  deleted?: boolean;
+}
+
+export interface BoardCrdtState {
+  // Highest clock seen, clients continue counting from here
+  clock: number;
+  registers: Record<string, ShapeRegister>;
+  cleared: LamportStamp | null;
+}
+
+export interface BoardDocument {
+  shapes: BoardShape[];
+  crdt?: BoardCrdtState;
+  [key: string]: unknown;
+}
+
+export interface BoardOperation {
+  sequence: number;
+  updateType: string;
+  data?: Record<string, unknown> | null;
+  // Lamport clock of the operation (defaults to its sequence)
+  clock?: number | null;
+  // Id of the user who sent it (defaults to an empty string)
+  actor?: string | null;
+}
+
+// Stamp of shapes that come from a snapshot without register metadata
+const ORIGIN_STAMP: LamportStamp = { clock: 0, actor: '' };
+
+/**
+ * Compare two stamps
+ * @returns Negative if a is older than b, positive if newer, 0 if equal
+ */
+export const compareStamps = (a: LamportStamp, b: LamportStamp): number => {
+  if (a.clock !== b.clock) {
+    return a.clock - b.clock;
+  }
+  return a.actor < b.actor ? -1 : a.actor > b.actor ? 1 : 0;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isShape = (value: unknown): value is BoardShape =>
+  isRecord(value) && typeof value.id === 'string' && value.id.length > 0;
+
+const isStamp = (value: unknown): value is LamportStamp =>
+  isRecord(value) &&
+  typeof value.clock === 'number' &&
+  typeof value.actor === 'string';
+
+const isRegister = (value: unknown): value is ShapeRegister =>
+  isRecord(value) &&
+  (value.createdAt === null || isStamp(value.createdAt)) &&
+  isStamp(value.updatedAt);
+
+/**
+ * Mutable working copy of a board used while replaying
+ */
+interface ReplayState {
+  shapes: Map<string, BoardShape>;
+  registers: Map<string, ShapeRegister>;
+  cleared: LamportStamp | null;
+  clock: number;
+}
+
+/**
+ * Read a snapshot payload into a replay state
+ * Shapes without register metadata get the origin stamp, so any later write
+ * wins over them. Later entries with the same id replace earlier ones, which
+ * also collapses duplicates left behind by older clients.
+ */
+const toReplayState = (
+  data: Record<string, unknown> | null | undefined,
+): ReplayState => {
+  const crdt = isRecord(data?.crdt) ? data.crdt : {};
+  const storedRegisters = isRecord(crdt.registers) ? crdt.registers : {};
+
+  const state: ReplayState = {
+    shapes: new Map(),
+    registers: new Map(),
+    cleared: isStamp(crdt.cleared) ? crdt.cleared : null,
+    clock: typeof crdt.clock === 'number' ? crdt.clock : 0,
+  };
+
+  // Tombstones must survive so late writes to deleted shapes still lose
+  for (const [id, register] of Object.entries(storedRegisters)) {
+    if (isRegister(register) && register.deleted) {
+      state.registers.set(id, { ...register });
+    }
+  }
+
+  const source = data?.shapes;
+  const list: unknown[] = Array.isArray(source) ? source : [source];
+
+  for (const shape of list) {
+    if (isShape(shape)) {
+      const register = storedRegisters[shape.id];
+      state.shapes.set(shape.id, shape);
+      state.registers.set(
+        shape.id,
+        isRegister(register) && register.createdAt
+          ? { ...register, deleted: false }
+          : { createdAt: ORIGIN_STAMP, updatedAt: ORIGIN_STAMP },
+      );
+    }
+  }
+
+  return state;
+};
+
+/**
+ * Resolve the id of the shape a delete operation targets
+ */
+const getDeletedShapeId = (
+  data: Record<string, unknown> | null | undefined,
+): string | null => {
+  if (typeof data?.shapeId === 'string') {
+    return data.shapeId;
+  }
+  if (isShape(data?.shape)) {
+    return data.shape.id;
+  }
+  return null;
+};
+
+/**
+ * Resolve the shape an upsert operation writes, if any
+ */
+const getUpsertedShape = (operation: BoardOperation): BoardShape | null => {
+  const { updateType, data, sequence } = operation;
+
+  if (isShape(data?.shape)) {
+    // Undo puts shapes that were saved without a type back without one
+    return data.untyped === true
+      ? { ...data.shape }
+      : { type: updateType, ...data.shape };
+  }
+
+  // Freehand strokes may be sent without a shape wrapper
+  if (updateType === 'stroke' && isRecord(data?.stroke)) {
+    const stroke = data.stroke;
+    const id =
+      typeof stroke.id === 'string' && stroke.id.length > 0
+        ? stroke.id
+        : `stroke-${sequence}`;
+    return { ...stroke, id, type: 'stroke' };
+  }
+
+  return null;
+};
+
+/**
+ * Resolve the IDs of the existing shapes an update writes to
+ * Used to check shape locks before an update is accepted
+ * @param updateType - draw_update type
+ * @param data - draw_update payload
+ * @returns Shape IDs, or null for a clear (it touches every shape)
+ */
+export const getAffectedShapeIds = (
+  updateType: string,
+  data: Record<string, unknown> | null | undefined,
+): string[] | null => {
+  if (updateType === 'clear') {
+    return null;
+  }
+
+  if (updateType === 'delete') {
+    const shapeId = getDeletedShapeId(data);
+    return shapeId ? [shapeId] : [];
+  }
+
+  if (isShape(data?.shape)) {
+    return [data.shape.id];
+  }
+
+  // Strokes sent without an id always create a new shape
+  if (isShape(data?.stroke)) {
+    return [data.stroke.id];
+  }
+
+  return [];
+};
+
+/**
+ * Pick the older of a register's creation stamp and a new upsert stamp
+ */
+const earliestCreation = (
+  createdAt: LamportStamp | null | undefined,
+  stamp: LamportStamp,
+): LamportStamp =>
+  createdAt && compareStamps(createdAt, stamp) < 0 ? createdAt : stamp;
+
+/**
+ * Write a shape or a tombstone if the stamp wins over the shape's register
+ */
+const writeRegister = (
+  state: ReplayState,
+  shapeId: string,
+  stamp: LamportStamp,
+  shape: BoardShape | null,
+): void => {
+  // Writes older than the last clear were wiped by it
+  if (state.cleared && compareStamps(stamp, state.cleared) <= 0) {
+    return;
+  }
+
+  const register = state.registers.get(shapeId);
+
+  if (register && compareStamps(stamp, register.updatedAt) <= 0) {
+    // An equal or newer write already won; still keep the earliest creation
+    if (shape) {
+      register.createdAt = earliestCreation(register.createdAt, stamp);
+    }
+    return;
+  }
+
+  if (!shape) {
+    state.shapes.delete(shapeId);
+    state.registers.set(shapeId, {
+      createdAt: register?.createdAt ?? null,
+      updatedAt: stamp,
+      deleted: true,
+    });
+    return;
+  }
+
+  state.shapes.set(shapeId, shape);
+  state.registers.set(shapeId, {
+    createdAt: earliestCreation(register?.createdAt, stamp),
+    updatedAt: stamp,
+    deleted: false,
+  });
+};
+
+/**
+ * Apply a single operation to a replay state in place
+ */
+const applyToReplayState = (
+  state: ReplayState,
+  operation: BoardOperation,
+): void => {
+  const { updateType, data } = operation;
+  const stamp: LamportStamp = {
+    clock: operation.clock ?? operation.sequence,
+    actor: operation.actor ?? '',
+  };
+  state.clock = Math.max(state.clock, stamp.clock);
+
+  if (updateType === 'clear') {
+    if (state.cleared && compareStamps(stamp, state.cleared) <= 0) {
+      return;
+    }
+    state.cleared = stamp;
+
+    // Shapes written concurrently after the clear survive it
+    for (const [id, register] of state.registers) {
+      if (compareStamps(register.updatedAt, stamp) < 0) {
+        state.shapes.delete(id);
+        state.registers.delete(id);
+      }
+    }
+    return;
+  }
+
+  if (updateType === 'delete') {
+    const shapeId = getDeletedShapeId(data);
+    if (shapeId) {
+      writeRegister(state, shapeId, stamp, null);
+    }
+    return;
+  }
+
+  if (
+    updateType === 'stroke' ||
+    (SHAPE_UPDATE_TYPES as readonly string[]).includes(updateType)
+  ) {
+    const shape = getUpsertedShape(operation);
+    if (shape) {
+      writeRegister(state, shape.id, stamp, shape);
+    }
+  }
+};
+
+/**
+ * Turn a replay state back into a board document
+ * Shapes are ordered by creation stamp (stable for equal stamps), so the
+ * z-order doesn't depend on the order operations arrived in
+ */
+const toBoardDocument = (
+  snapshotData: Record<string, unknown> | null | undefined,
+  state: ReplayState,
+): BoardDocument => {
+  const shapes = Array.from(state.shapes.values()).sort((a, b) =>
+    compareStamps(
+      state.registers.get(a.id)!.createdAt!,
+      state.registers.get(b.id)!.createdAt!,
+    ),
+  );
+
+  return {
+    ...(snapshotData ?? {}),
+    shapes,
+    crdt: {
+      clock: state.clock,
+      // Copies, so a replay that goes on can't change documents it returned
+      registers: Object.fromEntries(
+        Array.from(state.registers, ([id, register]) => [id, { ...register }]),
+      ),
+      cleared: state.cleared,
+    },
+  };
+};
+
+/**
+ * Build the canonical board document from a snapshot and the operations after it
+ * @param snapshotData - Data of the snapshot the replay starts from (may be empty)
+ * @param operations - Operations to replay (any order gives the same result)
+ * @returns Board document with de-duplicated shapes and CRDT metadata
+ */
+export const replayOperations = (
+  snapshotData: Record<string, unknown> | null | undefined,
+  operations: BoardOperation[],
+): BoardDocument => {
+  const state = toReplayState(snapshotData);
+
+  for (const operation of operations) {
+    applyToReplayState(state, operation);
+  }
+
+  return toBoardDocument(snapshotData, state);
+};
+
+/**
+ * Find the highest Lamport clock a snapshot's CRDT metadata names
+ * Counts only the metadata a replay would use, so a snapshot can be checked
+ * against the board clock before it is saved
+ * @param snapshotData - Snapshot data (may be empty)
+ * @returns Highest clock of the document, its last clear and its registers
+ */
+export const getHighestClock = (
+  snapshotData: Record<string, unknown> | null | undefined,
+): number => {
+  const state = toReplayState(snapshotData);
+  let clock = Math.max(state.clock, state.cleared?.clock ?? 0);
+
+  for (const register of state.registers.values()) {
+    clock = Math.max(
+      clock,
+      register.createdAt?.clock ?? 0,
+      register.updatedAt.clock,
+    );
+  }
+
+  return clock;
+};
+
+/**
+ * Board state that is kept up to date one operation at a time
+ * Applying an operation only touches the shapes it writes to; building the
+ * document touches the whole board
+ */
+export class BoardReplay {
+  private constructor(
+    private readonly snapshotData: Record<string, unknown> | null | undefined,
+    private readonly state: ReplayState,
+  ) {}
+
+  /**
+   * Start a replay from a snapshot
+   * @param snapshotData - Data of the snapshot the replay starts from (may be empty)
+   */
+  static fromSnapshot(
+    snapshotData: Record<string, unknown> | null | undefined,
+  ): BoardReplay {
+    return new BoardReplay(snapshotData, toReplayState(snapshotData));
+  }
+
+  /**
+   * Apply an operation in place
+   * @param operation - Operation to apply
+   */
+  apply(operation: BoardOperation): void {
+    applyToReplayState(this.state, operation);
+  }
+
+  /**
+   * Copy the replay, or only some of its shapes
+   * A copy limited to the shapes an operation writes to applies that
+   * operation the same way the whole board does
+   * @param shapeIds - Shapes to copy (with their registers), or every shape
+   * @returns Independent replay
+   */
+  slice(shapeIds?: string[]): BoardReplay {
+    const ids = shapeIds ?? Array.from(this.state.registers.keys());
+    const state: ReplayState = {
+      shapes: new Map(),
+      registers: new Map(),
+      cleared: this.state.cleared,
+      clock: this.state.clock,
+    };
+
+    for (const id of ids) {
+      const shape = this.state.shapes.get(id);
+      const register = this.state.registers.get(id);
+      if (shape) {
+        state.shapes.set(id, shape);
+      }
+      if (register) {
+        state.registers.set(id, { ...register });
+      }
+    }
+
+    return new BoardReplay(this.snapshotData, state);
+  }
+
+  /**
+   * Build the board document of the replay
+   * @returns Board document with CRDT metadata
+   */
+  toDocument(): BoardDocument {
+    return toBoardDocument(this.snapshotData, this.state);
+  }
+}
+
+/**
+ * Apply a single operation to a board document
+ * @param document - Current board document
+ * @param operation - Operation to apply
+ * @returns New board document (the input is not modified)
+ */
+export const applyOperation = (
+  document: BoardDocument,
+  operation: BoardOperation,
+): BoardDocument => replayOperations(document, [operation]);
@@ -0,0 +1,167 @@
+import { Inject, Injectable, forwardRef } from '@nestjs/common';
+import { WhiteboardOperationsService } from './whiteboard-operations.service';
+import { WhiteboardOperation } from './entities/whiteboard-operation.entity';
+import { WhiteboardSnapshotsService } from '../whiteboard-snapshots/whiteboard-snapshots.service';
+import {
+  BoardDocument,
+  BoardOperation,
+  BoardReplay,
+} from './board-state.reducer';
+
+// Boards whose materialised state is kept in memory; the least recently used go first
+const MAX_CACHED_BOARDS = 100;
+
+/**
+ * Materialised state of a whiteboard at a given operation sequence
+ */
+export interface BoardState {
+  whiteboardId: string;
+  sequence: number;
+  snapshotId: string | null;
+  document: BoardDocument;
+}
+
+interface CachedBoardState {
+  sequence: number;
+  snapshotId: string | null;
+  // updatedAt of the snapshot the state was built on; with snapshotId it
+  // catches both a new head version and an autosave that rewrote the head
+  snapshotUpdatedAt: number | null;
+  // Replay at `sequence`, moved on in place as operations come in
+  replay: BoardReplay;
+  // Document of the replay at `sequence`, built when first asked for
+  document: BoardDocument | null;
+}
+
+/**
+ * Map a logged operation to the input of the board state reducer
+ * @param operation - Operation from the whiteboard operation log
+ * @returns Reducer operation stamped with its clock and sender
+ */
+export const toBoardOperation = (
+  operation: WhiteboardOperation,
+): BoardOperation => ({
+  sequence: operation.sequence,
+  updateType: operation.updateType,
+  data: operation.data,
+  clock: operation.clock,
+  actor: operation.userId,
+});
+
+@Injectable()
+export class BoardStateService {
+  private readonly cache = new Map<string, CachedBoardState>();
+
+  constructor(
+    private readonly operationsService: WhiteboardOperationsService,
+    @Inject(forwardRef(() => WhiteboardSnapshotsService))
+    private readonly snapshotsService: WhiteboardSnapshotsService,
+  ) {}
+
+  /**
+   * Build the current board document for a whiteboard
+   * Starts from the latest snapshot and replays every operation appended after it
+   *
+   * The last states built are cached, so while the latest snapshot stays the
+   * same only the operations appended since are replayed
+   * @param whiteboardId - Whiteboard ID
+   * @returns Board state and the operation sequence it reflects
+   */
+  async getCurrentState(whiteboardId: string): Promise<BoardState> {
+    const entry = await this.catchUp(whiteboardId);
+
+    entry.document ??= entry.replay.toDocument();
+    return {
+      whiteboardId,
+      sequence: entry.sequence,
+      snapshotId: entry.snapshotId,
+      document: entry.document,
+    };
+  }
+
+  /**
+   * Get a copy of the current state of some shapes of a whiteboard
+   * Unlike getCurrentState this never builds the whole document, so it costs
+   * the operations appended since the last call plus the shapes asked for
+   * @param whiteboardId - Whiteboard ID
+   * @param shapeIds - Shapes to copy, or every shape
+   * @returns Replay of those shapes, which the caller may apply operations to
+   */
+  async getShapes(
+    whiteboardId: string,
+    shapeIds?: string[],
+  ): Promise<BoardReplay> {
+    const entry = await this.catchUp(whiteboardId);
+    return entry.replay.slice(shapeIds);
+  }
+
+  /**
+   * Bring the cached state of a whiteboard up to its latest operation
+   * @param whiteboardId - Whiteboard ID
+   * @returns Cached state, current as of this call
+   */
+  private async catchUp(whiteboardId: string): Promise<CachedBoardState> {
+    const latest =
+      await this.snapshotsService.findLatestMetadataByWhiteboardId(
+        whiteboardId,
+      );
+    let entry = this.cache.get(whiteboardId);
+
+    if (
+      !entry ||
+      entry.snapshotId !== (latest?.id ?? null) ||
+      entry.snapshotUpdatedAt !== (latest?.updatedAt.getTime() ?? null)
+    ) {
+      const snapshot =
+        await this.snapshotsService.findLatestByWhiteboardId(whiteboardId);
+      entry = {
+        sequence: snapshot?.sequence ?? 0,
+        snapshotId: snapshot?.id ?? null,
+        snapshotUpdatedAt: snapshot?.updatedAt.getTime() ?? null,
+        replay: BoardReplay.fromSnapshot(snapshot?.data),
+        document: null,
+      };
+    }
+
+    const operations = await this.operationsService.findAfterSequence(
+      whiteboardId,
+      entry.sequence,
+    );
+
+    // A concurrent caller may have moved the entry on while this one waited
+    for (const operation of operations) {
+      if (operation.sequence > entry.sequence) {
+        entry.replay.apply(toBoardOperation(operation));
+        entry.sequence = operation.sequence;
+        entry.document = null;
+      }
+    }
+
+    this.remember(whiteboardId, entry);
+    return entry;
+  }
+
+  /**
+   * Cache a board state, evicting the least recently used one if needed
+   */
+  private remember(whiteboardId: string, entry: CachedBoardState): void {
+    // A slower concurrent caller must not replace a newer state
+    const cached = this.cache.get(whiteboardId);
+    if (
+      cached &&
+      cached !== entry &&
+      cached.snapshotId === entry.snapshotId &&
+      cached.sequence > entry.sequence
+    ) {
+      return;
+    }
+
+    this.cache.delete(whiteboardId);
+    this.cache.set(whiteboardId, entry);
+
+    if (this.cache.size > MAX_CACHED_BOARDS) {
+      const oldest = this.cache.keys().next().value as string;
+      this.cache.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Whiteboard } from '../../whiteboards/entities/whiteboard.entity';
+import { User } from '../../users/entities/user.entity';
+import { bigintNumberTransformer } from '../../database/transformers/bigint-number.transformer';
+
+/**
+ * A single draw_update applied to a whiteboard
+ * Rows are append-only: the board state is the latest snapshot
+ * plus every operation with a greater sequence number
+ */
+@Entity({ name: 'whiteboard_operations' })
+@Index('IDX_whiteboard_operations_sequence', ['whiteboardId', 'sequence'], {
+  unique: true,
+})
+@Index(
+  'IDX_whiteboard_operations_client_op_id',
+  ['whiteboardId', 'userId', 'clientOpId'],
+  { unique: true, where: '"client_op_id" IS NOT NULL' },
+)
+export class WhiteboardOperation {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'whiteboard_id', type: 'uuid' })
+  whiteboardId: string;
+
+  @ManyToOne(() => Whiteboard, (whiteboard) => whiteboard.operations, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'whiteboard_id' })
+  whiteboard: Whiteboard;
+
+  // Server-assigned, monotonic per whiteboard (1, 2, 3, ...)
+  @Column({ type: 'integer' })
+  sequence: number;
+
+  @Column({ name: 'user_id', type: 'uuid', nullable: true })
+  userId: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'user_id' })
+  user: User | null;
+
+  @Column({ name: 'update_type', type: 'varchar', length: 32 })
+  updateType: string;
+
+  @Column({ type: 'jsonb', nullable: true })
+  data: Record<string, unknown> | null;
+
+  // Lamport clock of the update; with userId it decides which concurrent write wins
+  @Column({ type: 'bigint', transformer: bigintNumberTransformer })
+  clock: number;
+
+  // Id the sending client gave the update, used to make retries idempotent
+  @Column({ name: 'client_op_id', type: 'varchar', length: 64, nullable: true })
+  clientOpId: string | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp with time zone' })
+  createdAt: Date;
+}
@@ -0,0 +1,16 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WhiteboardOperationsService } from './whiteboard-operations.service';
+import { BoardStateService } from './board-state.service';
+import { WhiteboardOperation } from './entities/whiteboard-operation.entity';
+import { WhiteboardSnapshotsModule } from '../whiteboard-snapshots/whiteboard-snapshots.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([WhiteboardOperation]),
+    forwardRef(() => WhiteboardSnapshotsModule),
+  ],
+  providers: [WhiteboardOperationsService, BoardStateService],
+  exports: [WhiteboardOperationsService, BoardStateService],
+})
+export class WhiteboardOperationsModule {}
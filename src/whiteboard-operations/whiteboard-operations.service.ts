@@ -0,0 +1,223 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectDataSource, InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, MoreThan, Repository } from 'typeorm';
+import { WhiteboardOperation } from './entities/whiteboard-operation.entity';
+import { Whiteboard } from '../whiteboards/entities/whiteboard.entity';
+
+// How far a client's clock may run ahead of the board clock; a client only
+// gets ahead by the updates it made offline, so a bigger jump is a bad clock
+// that would win every later write
+export const MAX_CLOCK_DRIFT = 10_000;
+
+/**
+ * An operation to append, without the fields the server assigns
+ */
+export interface NewOperation {
+  updateType: string;
+  data: Record<string, unknown>;
+}
+
+@Injectable()
+export class WhiteboardOperationsService {
+  constructor(
+    @InjectRepository(WhiteboardOperation)
+    private readonly operationRepository: Repository<WhiteboardOperation>,
+    @InjectDataSource()
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Append an operation to a whiteboard's operation log
+   * The sequence number is taken from the whiteboard row inside the same
+   * transaction, so concurrent appends always get distinct, gap-free numbers
+   *
+   * The operation keeps the Lamport clock the client stamped it with; updates
+   * sent without one get the next board clock, so they win over everything
+   * already in the log. A clock more than MAX_CLOCK_DRIFT ahead of the board
+   * clock is rejected
+   * @param whiteboardId - Whiteboard ID
+   * @param userId - ID of the user who sent the update
+   * @param updateType - draw_update type (stroke, rectangle, delete, ...)
+   * @param data - draw_update payload
+   * @param clock - Optional Lamport clock stamped by the client
+   * @param clientOpId - Optional id the client gave the update (unique per user and board)
+   * @returns Saved operation entity with its sequence number and clock
+   * @throws NotFoundException if whiteboard not found
+   * @throws BadRequestException if the clock is too far ahead of the board
+   */
+  async append(
+    whiteboardId: string,
+    userId: string,
+    updateType: string,
+    data?: Record<string, unknown>,
+    clock?: number,
+    clientOpId?: string,
+  ): Promise<WhiteboardOperation> {
+    return await this.dataSource.transaction(async (manager) => {
+      // Row-level lock on the whiteboard serialises concurrent appends
+      const result = await manager
+        .createQueryBuilder()
+        .update(Whiteboard)
+        .set({
+          lastOperationSequence: () => '"last_operation_sequence" + 1',
+          lamportClock: () => 'GREATEST("lamport_clock" + 1, :clock)',
+        })
+        .where('id = :whiteboardId', { whiteboardId })
+        .andWhere(':clock <= "lamport_clock" + :maxDrift', {
+          maxDrift: MAX_CLOCK_DRIFT,
+        })
+        .setParameter('clock', clock ?? 0)
+        .returning(['last_operation_sequence', 'lamport_clock'])
+        .execute();
+
+      const rows = result.raw as Array<{
+        last_operation_sequence: number;
+        lamport_clock: string;
+      }>;
+      if (rows.length === 0) {
+        if (await manager.exists(Whiteboard, { where: { id: whiteboardId } })) {
+          throw new BadRequestException(
+            `Clock is more than ${MAX_CLOCK_DRIFT} ahead of the whiteboard clock`,
+          );
+        }
+        throw new NotFoundException('Whiteboard not found');
+      }
+
+      const operation = manager.create(WhiteboardOperation, {
+        whiteboardId,
+        userId,
+        sequence: rows[0].last_operation_sequence,
+        updateType,
+        data: data ?? null,
+        clock: clock ?? Number(rows[0].lamport_clock),
+        clientOpId: clientOpId ?? null,
+      });
+
+      return await manager.save(operation);
+    });
+  }
+
+  /**
+   * Append several operations to a whiteboard's operation log at once
+   * They get consecutive sequence numbers and board clocks, so each one wins
+   * over everything already in the log and over the ones before it
+   * @param whiteboardId - Whiteboard ID
+   * @param userId - ID of the user who sent the operations
+   * @param operations - Operations to append, in order
+   * @param manager - Entity manager of the caller's transaction (a new
+   *   transaction is used without it)
+   * @returns Saved operation entities in sequence order
+   * @throws NotFoundException if whiteboard not found
+   */
+  async appendMany(
+    whiteboardId: string,
+    userId: string,
+    operations: NewOperation[],
+    manager?: EntityManager,
+  ): Promise<WhiteboardOperation[]> {
+    if (!manager) {
+      return await this.dataSource.transaction(
+        async (transaction) =>
+          await this.appendMany(whiteboardId, userId, operations, transaction),
+      );
+    }
+
+    if (operations.length === 0) {
+      return [];
+    }
+
+    // Row-level lock on the whiteboard serialises concurrent appends
+    const result = await manager
+      .createQueryBuilder()
+      .update(Whiteboard)
+      .set({
+        lastOperationSequence: () => '"last_operation_sequence" + :count',
+        lamportClock: () => '"lamport_clock" + :count',
+      })
+      .where('id = :whiteboardId', { whiteboardId })
+      .setParameter('count', operations.length)
+      .returning(['last_operation_sequence', 'lamport_clock'])
+      .execute();
+
+    const rows = result.raw as Array<{
+      last_operation_sequence: number;
+      lamport_clock: string;
+    }>;
+    if (rows.length === 0) {
+      throw new NotFoundException('Whiteboard not found');
+    }
+
+    const firstSequence =
+      rows[0].last_operation_sequence - operations.length + 1;
+    const firstClock = Number(rows[0].lamport_clock) - operations.length + 1;
+
+    return await manager.save(
+      operations.map((operation, i) =>
+        manager.create(WhiteboardOperation, {
+          whiteboardId,
+          userId,
+          sequence: firstSequence + i,
+          updateType: operation.updateType,
+          data: operation.data,
+          clock: firstClock + i,
+          clientOpId: null,
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Find an operation by the id its sending client gave it
+   * Used to recognise retried updates that were already appended
+   * @param whiteboardId - Whiteboard ID
+   * @param userId - ID of the user who sent the update
+   * @param clientOpId - Client operation ID
+   * @returns Operation entity or null if not found
+   */
+  async findByClientOpId(
+    whiteboardId: string,
+    userId: string,
+    clientOpId: string,
+  ): Promise<WhiteboardOperation | null> {
+    return await this.operationRepository.findOne({
+      where: { whiteboardId, userId, clientOpId },
+    });
+  }
+
+  /**
+   * Get operations appended after a given sequence number, oldest first
+   * @param whiteboardId - Whiteboard ID
+   * @param afterSequence - Exclusive lower bound (0 returns the whole log)
+   * @param limit - Optional maximum number of operations to return
+   * @returns Array of operation entities ordered by sequence
+   */
+  async findAfterSequence(
+    whiteboardId: string,
+    afterSequence: number,
+    limit?: number,
+  ): Promise<WhiteboardOperation[]> {
+    return await this.operationRepository.find({
+      where: { whiteboardId, sequence: MoreThan(afterSequence) },
+      order: { sequence: 'ASC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Get the sequence number of the last operation appended to a whiteboard
+   * @param whiteboardId - Whiteboard ID
+   * @returns Last sequence number (0 if nothing has been appended yet)
+   */
+  async getLastSequence(whiteboardId: string): Promise<number> {
+    const whiteboard = await this.dataSource.getRepository(Whiteboard).findOne({
+      where: { id: whiteboardId },
+      select: ['id', 'lastOperationSequence'],
+    });
+
+    return whiteboard?.lastOperationSequence ?? 0;
+  }
+}
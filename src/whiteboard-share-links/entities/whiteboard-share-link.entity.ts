@@ -0,0 +1,75 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Whiteboard } from '../../whiteboards/entities/whiteboard.entity';
+import { User } from '../../users/entities/user.entity';
+import type { CollaboratorRole } from '../../whiteboard-collaborators/entities/whiteboard-collaborator.entity';
+
+/**
+ * Link that opens a whiteboard at a given role for whoever holds it
+ * The link itself is a signed token naming this row; deleting the row
+ * revokes every copy of the link
+ */
+@Entity({ name: 'whiteboard_share_links' })
+@Index('IDX_whiteboard_share_links_whiteboard', ['whiteboardId'])
+export class WhiteboardShareLink {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'whiteboard_id', type: 'uuid' })
+  whiteboardId: string;
+
+  @ManyToOne(() => Whiteboard, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'whiteboard_id' })
+  whiteboard: Whiteboard;
+
+  @Column({
+    type: 'enum',
+    enum: ['viewer', 'commenter', 'editor'],
+    default: 'viewer',
+  })
+  role: CollaboratorRole;
+
+  // bcrypt hash; null when the link needs no password
+  @Column({ name: 'password_hash', type: 'varchar', nullable: true })
+  passwordHash: string | null;
+
+  // null when the link never expires
+  @Column({
+    name: 'expires_at',
+    type: 'timestamp with time zone',
+    nullable: true,
+  })
+  expiresAt: Date | null;
+
+  // Times the link was used to open the board
+  @Column({ name: 'use_count', type: 'integer', default: 0 })
+  useCount: number;
+
+  @Column({
+    name: 'last_used_at',
+    type: 'timestamp with time zone',
+    nullable: true,
+  })
+  lastUsedAt: Date | null;
+
+  @Column({ name: 'created_by_id', type: 'uuid' })
+  createdById: string;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'created_by_id' })
+  createdBy: User;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp with time zone' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamp with time zone' })
+  updatedAt: Date;
+}
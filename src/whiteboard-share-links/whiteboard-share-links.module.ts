@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WhiteboardShareLinksService } from './whiteboard-share-links.service';
+import { WhiteboardShareLink } from './entities/whiteboard-share-link.entity';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([WhiteboardShareLink]),
+    // Share link tokens are signed apart from login tokens
+    JwtModule.register({
+      secret:
+        process.env.SHARE_LINK_SECRET ||
+        process.env.JWT_SECRET ||
+        'your-secret-key',
+    }),
+  ],
+  providers: [WhiteboardShareLinksService],
+  exports: [WhiteboardShareLinksService],
+})
+export class WhiteboardShareLinksModule {}
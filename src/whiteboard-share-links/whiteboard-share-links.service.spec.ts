@@ -0,0 +1,84 @@
+import { HttpException, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import bcrypt from 'bcrypt';
+import {
+  MAX_SHARE_LINK_PASSWORD_ATTEMPTS,
+  WhiteboardShareLinksService,
+} from './whiteboard-share-links.service';
+import { WhiteboardShareLink } from './entities/whiteboard-share-link.entity';
+
+const shareLink = {
+  id: 'link-1',
+  whiteboardId: 'board-1',
+  role: 'viewer',
+  expiresAt: null,
+  passwordHash: bcrypt.hashSync('secret', 4),
+} as WhiteboardShareLink;
+
+describe('WhiteboardShareLinksService', () => {
+  let service: WhiteboardShareLinksService;
+
+  beforeEach(async () => {
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        WhiteboardShareLinksService,
+        {
+          provide: getRepositoryToken(WhiteboardShareLink),
+          useValue: { findOne: jest.fn().mockResolvedValue(shareLink) },
+        },
+        {
+          provide: JwtService,
+          useValue: {
+            verifyAsync: jest.fn().mockResolvedValue({
+              sub: shareLink.id,
+              whiteboardId: shareLink.whiteboardId,
+              type: 'share_link',
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = app.get<WhiteboardShareLinksService>(WhiteboardShareLinksService);
+  });
+
+  describe('resolve', () => {
+    const guessWrong = async (clientIp: string) => {
+      for (let i = 0; i < MAX_SHARE_LINK_PASSWORD_ATTEMPTS; i++) {
+        await expect(
+          service.resolve('token', 'guess', clientIp),
+        ).rejects.toBeInstanceOf(UnauthorizedException);
+      }
+    };
+
+    it('should refuse a client after too many wrong passwords', async () => {
+      await guessWrong('10.0.0.1');
+
+      await expect(
+        service.resolve('token', 'secret', '10.0.0.1'),
+      ).rejects.toBeInstanceOf(HttpException);
+    });
+
+    it('should keep checking passwords from other clients', async () => {
+      await guessWrong('10.0.0.1');
+
+      await expect(
+        service.resolve('token', 'secret', '10.0.0.2'),
+      ).resolves.toBe(shareLink);
+    });
+
+    it('should not count a missing password as a wrong one', async () => {
+      for (let i = 0; i < MAX_SHARE_LINK_PASSWORD_ATTEMPTS; i++) {
+        await expect(
+          service.resolve('token', undefined, '10.0.0.1'),
+        ).rejects.toBeInstanceOf(UnauthorizedException);
+      }
+
+      await expect(
+        service.resolve('token', 'secret', '10.0.0.1'),
+      ).resolves.toBe(shareLink);
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import {
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import bcrypt from 'bcrypt';
+import { WhiteboardShareLink } from './entities/whiteboard-share-link.entity';
+import { Whiteboard } from '../whiteboards/entities/whiteboard.entity';
+import { User } from '../users/entities/user.entity';
+import { CollaboratorRole } from '../whiteboard-collaborators/entities/whiteboard-collaborator.entity';
+import { FixedWindowLimiter } from '../common/rate-limit/fixed-window-limiter';
+
+// Wrong passwords a client may try on a link before its password checks
+// are refused for the rest of the window
+export const MAX_SHARE_LINK_PASSWORD_ATTEMPTS = 5;
+export const SHARE_LINK_PASSWORD_LOCKOUT_MINUTES = 15;
+
+/**
+ * Payload of a share link token
+ * The type claim keeps login tokens and share link tokens apart
+ */
+interface ShareLinkTokenPayload {
+  sub: string;
+  whiteboardId: string;
+  type: 'share_link';
+}
+
+/**
+ * Options of a new share link
+ */
+export interface CreateShareLinkOptions {
+  role: CollaboratorRole;
+  expiresAt?: Date | null;
+  password?: string | null;
+}
+
+/**
+ * Whiteboard Share Links Service
+ * Issues and checks links that open a whiteboard at a given role
+ *
+ * A link token is signed, so forged tokens are rejected before any lookup,
+ * and names its database row, so expiry, password and revocation are always
+ * checked against the current row. Wrong passwords are counted per client
+ * IP address and link, so guessing from one client doesn't lock the link
+ * for everyone else.
+ */
+@Injectable()
+export class WhiteboardShareLinksService {
+  private readonly passwordLimiter = new FixedWindowLimiter(
+    MAX_SHARE_LINK_PASSWORD_ATTEMPTS,
+    SHARE_LINK_PASSWORD_LOCKOUT_MINUTES * 60 * 1000,
+  );
+
+  constructor(
+    @InjectRepository(WhiteboardShareLink)
+    private readonly shareLinkRepository: Repository<WhiteboardShareLink>,
+    private readonly jwtService: JwtService,
+  ) {}
+
+  /**
+   * Create a share link for a whiteboard
+   * @param whiteboard - Whiteboard entity
+   * @param creator - User creating the link
+   * @param options - Role, optional expiry and optional password
+   * @returns Saved share link entity
+   */
+  async create(
+    whiteboard: Whiteboard,
+    creator: User,
+    options: CreateShareLinkOptions,
+  ): Promise<WhiteboardShareLink> {
+    // Hash password with salt rounds
+    const passwordHash = options.password
+      ? await bcrypt.hash(options.password, 10)
+      : null;
+
+    const shareLink = this.shareLinkRepository.create({
+      whiteboardId: whiteboard.id,
+      role: options.role,
+      passwordHash,
+      expiresAt: options.expiresAt ?? null,
+      createdById: creator.id,
+    });
+
+    return await this.shareLinkRepository.save(shareLink);
+  }
+
+  /**
+   * Get the token of a share link
+   * Tokens carry no timestamp, so a link always has the same token
+   * @param shareLink - Share link entity
+   * @returns Signed token
+   */
+  signToken(shareLink: WhiteboardShareLink): string {
+    const payload: ShareLinkTokenPayload = {
+      sub: shareLink.id,
+      whiteboardId: shareLink.whiteboardId,
+      type: 'share_link',
+    };
+
+    return this.jwtService.sign(payload, { noTimestamp: true });
+  }
+
+  /**
+   * Find the share links of a whiteboard, expired ones included
+   * @param whiteboardId - Whiteboard ID
+   * @returns Array of share link entities, newest first
+   */
+  async findByWhiteboardId(
+    whiteboardId: string,
+  ): Promise<WhiteboardShareLink[]> {
+    return await this.shareLinkRepository.find({
+      where: { whiteboardId },
+      relations: ['createdBy'],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Revoke a share link
+   * @param whiteboardId - Whiteboard ID
+   * @param shareLinkId - Share link ID
+   * @throws NotFoundException if share link not found on this whiteboard
+   */
+  async revoke(whiteboardId: string, shareLinkId: string): Promise<void> {
+    const shareLink = await this.shareLinkRepository.findOne({
+      where: { id: shareLinkId, whiteboardId },
+    });
+
+    if (!shareLink) {
+      throw new NotFoundException('Share link not found on this whiteboard');
+    }
+
+    await this.shareLinkRepository.remove(shareLink);
+  }
+
+  /**
+   * Check a share link token and its password
+   * @param token - Share link token
+   * @param password - Password, for links that have one
+   * @param clientIp - IP address of the client, wrong passwords are counted by
+   * @returns Share link entity
+   * @throws NotFoundException if the token is invalid or the link was revoked
+   * @throws ForbiddenException if the link expired
+   * @throws UnauthorizedException if the password is missing or wrong
+   * @throws HttpException (429) if the client tried too many wrong passwords
+   */
+  async resolve(
+    token: string,
+    password: string | null | undefined,
+    clientIp: string,
+  ): Promise<WhiteboardShareLink> {
+    let payload: ShareLinkTokenPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<ShareLinkTokenPayload>(token);
+    } catch {
+      throw new NotFoundException('Share link not found');
+    }
+
+    if (payload.type !== 'share_link') {
+      throw new NotFoundException('Share link not found');
+    }
+
+    const shareLink = await this.findUsable(payload.sub);
+
+    if (shareLink.passwordHash) {
+      await this.checkPassword(shareLink, password, clientIp);
+    }
+
+    return shareLink;
+  }
+
+  /**
+   * Check the password of a share link and count wrong ones
+   * A client that tried MAX_SHARE_LINK_PASSWORD_ATTEMPTS wrong passwords on
+   * the link within SHARE_LINK_PASSWORD_LOCKOUT_MINUTES is refused until that
+   * window has passed. A missing password is not counted
+   * @param shareLink - Share link entity with a password
+   * @param password - Password to check
+   * @param clientIp - IP address of the client
+   * @throws UnauthorizedException if the password is missing or wrong
+   * @throws HttpException (429) if the client tried too many wrong passwords
+   */
+  private async checkPassword(
+    shareLink: WhiteboardShareLink,
+    password: string | null | undefined,
+    clientIp: string,
+  ): Promise<void> {
+    if (!password) {
+      throw new UnauthorizedException(
+        'A valid password is required for this share link',
+      );
+    }
+
+    const key = `${clientIp}:${shareLink.id}`;
+    if (this.passwordLimiter.retryAfter(key) > 0) {
+      throw new HttpException(
+        'Too many wrong passwords for this share link, try again later',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    if (await bcrypt.compare(password, shareLink.passwordHash as string)) {
+      return;
+    }
+
+    this.passwordLimiter.hit(key);
+    throw new UnauthorizedException(
+      'A valid password is required for this share link',
+    );
+  }
+
+  /**
+   * Find a share link that can still be used
+   * @param shareLinkId - Share link ID
+   * @returns Share link entity
+   * @throws NotFoundException if the link doesn't exist (or was revoked)
+   * @throws ForbiddenException if the link expired
+   */
+  async findUsable(shareLinkId: string): Promise<WhiteboardShareLink> {
+    const shareLink = await this.shareLinkRepository.findOne({
+      where: { id: shareLinkId },
+    });
+
+    if (!shareLink) {
+      throw new NotFoundException('Share link not found');
+    }
+
+    if (shareLink.expiresAt && shareLink.expiresAt.getTime() <= Date.now()) {
+      throw new ForbiddenException('This share link has expired');
+    }
+
+    return shareLink;
+  }
+
+  /**
+   * Count one use of a share link
+   * @param shareLink - Share link entity
+   */
+  async recordUse(shareLink: WhiteboardShareLink): Promise<void> {
+    await this.shareLinkRepository
+      .createQueryBuilder()
+      .update(WhiteboardShareLink)
+      .set({
+        useCount: () => '"use_count" + 1',
+        lastUsedAt: () => 'now()',
+      })
+      .where('id = :id', { id: shareLink.id })
+      .execute();
+  }
+}
@@ -0,0 +1,22 @@
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+/**
+ * DTO for naming the current board state as a checkpoint
+ */
+export class CreateCheckpointDto {
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(255, { message: 'Name must not exceed 255 characters' })
+  name: string;
+
+  // Checkpoints are pinned (kept by retention) unless this is false
+  @IsBoolean({ message: 'Pinned must be a boolean' })
+  @IsOptional()
+  pinned?: boolean;
+}
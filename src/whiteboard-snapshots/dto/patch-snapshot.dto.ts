@@ -0,0 +1,51 @@
+import { Transform } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ShapeDto, toShapeDto } from '../../common/shapes/shape.dto';
+import {
+  MAX_SHAPE_ID_LENGTH,
+  MAX_SNAPSHOT_SHAPES,
+} from '../../common/shapes/shape-limits';
+
+/**
+ * DTO for patching a whiteboard shape by shape
+ * The patch applies to the If-Match version plus the operations up to
+ * baseSequence; every shape needs an id
+ */
+export class PatchSnapshotDto {
+  // Last operation sequence the client's copy of the board includes
+  @IsInt({ message: 'baseSequence must be an integer' })
+  @Min(0, { message: 'baseSequence must not be negative' })
+  baseSequence: number;
+
+  @IsArray({ message: 'upsert must be an array' })
+  @ArrayMaxSize(MAX_SNAPSHOT_SHAPES, {
+    message: `A patch can upsert at most ${MAX_SNAPSHOT_SHAPES} shapes`,
+  })
+  @ValidateNested({ each: true })
+  @Transform(({ value }: { value: unknown }) =>
+    Array.isArray(value) ? value.map((shape) => toShapeDto(shape)) : value,
+  )
+  @IsOptional()
+  upsert?: ShapeDto[];
+
+  @IsArray({ message: 'delete must be an array' })
+  @ArrayMaxSize(MAX_SNAPSHOT_SHAPES, {
+    message: `A patch can delete at most ${MAX_SNAPSHOT_SHAPES} shapes`,
+  })
+  @IsString({ each: true, message: 'Shape IDs must be strings' })
+  @MaxLength(MAX_SHAPE_ID_LENGTH, {
+    each: true,
+    message: `Shape IDs must be at most ${MAX_SHAPE_ID_LENGTH} characters`,
+  })
+  @IsOptional()
+  delete?: string[];
+}
@@ -0,0 +1,9 @@
+import { IsBoolean } from 'class-validator';
+
+/**
+ * DTO for pinning or unpinning a version
+ */
+export class PinVersionDto {
+  @IsBoolean({ message: 'Pinned must be a boolean' })
+  pinned: boolean;
+}
@@ -1,4 +1,87 @@
-import { IsObject, IsNotEmpty } from 'class-validator';
+import { plainToInstance, Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsObject,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { ShapeDto, toShapeDto } from '../../common/shapes/shape.dto';
+import {
+  MAX_SNAPSHOT_SHAPES,
+  SUPPORTED_SHAPE_SCHEMA_VERSIONS,
+} from '../../common/shapes/shape-limits';
+import { IsColor } from '../../common/shapes/shape-validators';
+
+/**
+ * Lamport timestamp in CRDT metadata (see board-state.reducer)
+ */
+export class LamportStampDto {
+  @IsInt({ message: 'clock must be an integer' })
+  @Min(0, { message: 'clock must not be negative' })
+  clock: number;
+
+  @IsString({ message: 'actor must be a string' })
+  actor: string;
+}
+
+/**
+ * CRDT metadata of a board document returned by the API
+ * The service also checks every clock in it against the board clock
+ */
+export class SnapshotCrdtDto {
+  @IsInt({ message: 'crdt.clock must be an integer' })
+  @Min(0, { message: 'crdt.clock must not be negative' })
+  clock: number;
+
+  @IsObject({ message: 'crdt.registers must be an object' })
+  registers: Record<string, unknown>;
+
+  @ValidateIf((crdt: SnapshotCrdtDto) => crdt.cleared !== null)
+  @ValidateNested()
+  @Type(() => LamportStampDto)
+  @IsOptional()
+  cleared?: LamportStampDto | null;
+}
+
+/**
+ * Board content of a snapshot
+ * Every shape is validated against the schema of its type (see common/shapes)
+ */
+export class SnapshotDataDto {
+  @IsIn(SUPPORTED_SHAPE_SCHEMA_VERSIONS, {
+    message: `Version must be one of: ${SUPPORTED_SHAPE_SCHEMA_VERSIONS.join(', ')}`,
+  })
+  @IsOptional()
+  version?: number;
+
+  @IsArray({ message: 'Shapes must be an array' })
+  @ArrayMaxSize(MAX_SNAPSHOT_SHAPES, {
+    message: `A snapshot can have at most ${MAX_SNAPSHOT_SHAPES} shapes`,
+  })
+  @ValidateNested({ each: true })
+  @Transform(({ value }: { value: unknown }) =>
+    Array.isArray(value) ? value.map((shape) => toShapeDto(shape)) : value,
+  )
+  shapes: ShapeDto[];
+
+  @IsColor()
+  @IsOptional()
+  background?: string;
+
+  @IsObject({ message: 'crdt must be an object' })
+  @ValidateNested()
+  @Type(() => SnapshotCrdtDto)
+  @IsOptional()
+  crdt?: SnapshotCrdtDto;
+}
 
 /**
  * DTO for saving whiteboard snapshot data
@@ -7,6 +90,23 @@ import { IsObject, IsNotEmpty } from 'class-validator';
 export class SaveSnapshotDto {
   @IsObject({ message: 'Data must be an object' })
   @IsNotEmpty({ message: 'Data cannot be empty' })
-  data: Record<string, unknown>;
-}
+  @ValidateNested()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+      ? plainToInstance(SnapshotDataDto, value)
+      : value,
+  )
+  data: SnapshotDataDto;
 
+  // Last operation sequence the data includes; later operations are replayed
+  // on top of it. Without it the data is taken to include every operation
+  @IsInt({ message: 'baseSequence must be an integer' })
+  @Min(0, { message: 'baseSequence must not be negative' })
+  @IsOptional()
+  baseSequence?: number;
+
+  // Merge with changes saved since the If-Match version instead of failing with 409
+  @IsBoolean({ message: 'merge must be a boolean' })
+  @IsOptional()
+  merge?: boolean;
+}
@@ -0,0 +1,33 @@
+import { IsInt, IsOptional, Min } from 'class-validator';
+
+/**
+ * DTO for a whiteboard's own retention settings
+ * Fields left out follow the global policy; maxVersions may be null for
+ * no limit
+ */
+export class UpdateRetentionPolicyDto {
+  @IsInt({ message: 'keepAllHours must be an integer' })
+  @Min(0, { message: 'keepAllHours must not be negative' })
+  @IsOptional()
+  keepAllHours?: number;
+
+  @IsInt({ message: 'hourlyDays must be an integer' })
+  @Min(0, { message: 'hourlyDays must not be negative' })
+  @IsOptional()
+  hourlyDays?: number;
+
+  @IsInt({ message: 'dailyDays must be an integer' })
+  @Min(0, { message: 'dailyDays must not be negative' })
+  @IsOptional()
+  dailyDays?: number;
+
+  @IsInt({ message: 'weeklyWeeks must be an integer' })
+  @Min(0, { message: 'weeklyWeeks must not be negative' })
+  @IsOptional()
+  weeklyWeeks?: number;
+
+  @IsInt({ message: 'maxVersions must be an integer' })
+  @Min(1, { message: 'maxVersions must be at least 1' })
+  @IsOptional()
+  maxVersions?: number | null;
+}
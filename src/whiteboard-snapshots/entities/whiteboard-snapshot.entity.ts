@@ -2,14 +2,31 @@ import {
   Column,
   CreateDateColumn,
   Entity,
+  Index,
   JoinColumn,
   ManyToOne,
   PrimaryGeneratedColumn,
   UpdateDateColumn,
 } from 'typeorm';
 import { Whiteboard } from '../../whiteboards/entities/whiteboard.entity';
+import { User } from '../../users/entities/user.entity';
 
+// autosave: saved by a client; checkpoint: named by a user;
+// restore: copy of an earlier version that became the head again
+export type SnapshotKind = 'autosave' | 'checkpoint' | 'restore';
+
+/**
+ * One version in a whiteboard's timeline
+ * The version with the highest number is the head the board state is built on
+ */
 @Entity({ name: 'whiteboard_snapshots' })
+@Index(
+  'IDX_whiteboard_snapshots_whiteboard_version',
+  ['whiteboard', 'version'],
+  {
+    unique: true,
+  },
+)
 export class WhiteboardSnapshot {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -21,13 +38,50 @@ export class WhiteboardSnapshot {
   @JoinColumn({ name: 'whiteboard_id' })
   whiteboard: Whiteboard;
 
+  // Per-board version number, counting up from 1
+  @Column({ type: 'integer' })
+  version: number;
+
+  // Counts the updates of an open autosave; part of the version's ETag
+  @Column({ type: 'integer', default: 1 })
+  revision: number;
+
+  @Column({
+    type: 'enum',
+    enum: ['autosave', 'checkpoint', 'restore'],
+    default: 'autosave',
+  })
+  kind: SnapshotKind;
+
+  // Name of a checkpoint
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  name: string | null;
+
+  @Column({ name: 'created_by_id', type: 'uuid', nullable: true })
+  createdById: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'created_by_id' })
+  createdBy: User | null;
+
+  // Pinned versions are never deleted by the retention job
+  @Column({ type: 'boolean', default: false })
+  pinned: boolean;
+
+  // Version a restore copied its data from
+  @Column({ name: 'restored_from_version', type: 'integer', nullable: true })
+  restoredFromVersion: number | null;
+
   @Column({ type: 'jsonb' })
   data: Record<string, unknown>;
 
+  // Last operation sequence already reflected in this snapshot's data
+  @Column({ type: 'integer', default: 0 })
+  sequence: number;
+
   @CreateDateColumn({ name: 'created_at', type: 'timestamp with time zone' })
   createdAt: Date;
 
   @UpdateDateColumn({ name: 'updated_at', type: 'timestamp with time zone' })
   updatedAt: Date;
 }
-
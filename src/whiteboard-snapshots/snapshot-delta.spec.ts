@@ -0,0 +1,56 @@
+import { replayOperations } from '../whiteboard-operations/board-state.reducer';
+import {
+  findDeltaConflicts,
+  getDeltaShapeIds,
+  toDeltaOperations,
+} from './snapshot-delta';
+
+describe('snapshot deltas', () => {
+  it('should apply upserts and deletes by shape id', () => {
+    const snapshot = {
+      shapes: [
+        { id: 'a', type: 'rectangle', x: 0 },
+        { id: 'b', type: 'circle', x: 0 },
+      ],
+    };
+
+    const operations = toDeltaOperations({
+      upsert: [
+        { id: 'a', type: 'rectangle', x: 10 },
+        { id: 'c', type: 'stroke', points: [] },
+      ],
+      delete: ['b'],
+    });
+
+    const document = replayOperations(
+      snapshot,
+      operations.map((operation, i) => ({ ...operation, sequence: i + 1 })),
+    );
+
+    expect(document.shapes).toEqual([
+      { id: 'a', type: 'rectangle', x: 10 },
+      { id: 'c', type: 'stroke', points: [] },
+    ]);
+  });
+
+  it('should report the shapes written since the base', () => {
+    const shapeIds = getDeltaShapeIds({
+      upsert: [{ id: 'a', type: 'rectangle' }],
+      delete: ['b', 'c'],
+    });
+
+    expect(
+      findDeltaConflicts(shapeIds, [
+        { updateType: 'delete', data: { shapeId: 'c' } },
+        { updateType: 'text', data: { shape: { id: 'd', type: 'text' } } },
+        { updateType: 'rectangle', data: { shape: { id: 'a' } } },
+      ]),
+    ).toEqual(['a', 'c']);
+  });
+
+  it('should conflict on every shape after a clear', () => {
+    expect(
+      findDeltaConflicts(['a', 'b'], [{ updateType: 'clear', data: {} }]),
+    ).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Snapshot Deltas
+ * Pure helpers for shape-level edits sent instead of a whole snapshot
+ *
+ * A delta upserts shapes by id and deletes shapes by id. It is stored as
+ * ordinary operations in the board's operation log (one per shape), so its
+ * cost scales with the edit rather than with the board, and the board state
+ * picks it up like any draw_update.
+ */
+import type { NewOperation } from '../whiteboard-operations/whiteboard-operations.service';
+import {
+  BoardOperation,
+  BoardShape,
+  getAffectedShapeIds,
+} from '../whiteboard-operations/board-state.reducer';
+
+export interface SnapshotDelta {
+  // Shapes to add or replace, matched by id
+  upsert: BoardShape[];
+  // IDs of the shapes to remove
+  delete: string[];
+}
+
+/**
+ * List the shape IDs a delta writes to
+ */
+export const getDeltaShapeIds = (delta: SnapshotDelta): string[] => [
+  ...delta.upsert.map((shape) => shape.id),
+  ...delta.delete,
+];
+
+/**
+ * Turn a delta into the operations that apply it
+ * Upserts come first, in the order given, then the deletes
+ * @param delta - Shape-level delta
+ * @returns Operations to append to the log
+ */
+export const toDeltaOperations = (delta: SnapshotDelta): NewOperation[] => [
+  ...delta.upsert.map((shape) => ({
+    updateType: shape.type ?? 'stroke',
+    data: { shape },
+  })),
+  ...delta.delete.map((shapeId) => ({
+    updateType: 'delete',
+    data: { shapeId },
+  })),
+];
+
+/**
+ * Find the shapes of a delta that operations appended since its base wrote to
+ * @param shapeIds - Shape IDs the delta writes to
+ * @param operations - Operations appended after the delta's base
+ * @returns IDs of the conflicting shapes, in the delta's order (all of them
+ *   after a clear)
+ */
+export const findDeltaConflicts = (
+  shapeIds: string[],
+  operations: Pick<BoardOperation, 'updateType' | 'data'>[],
+): string[] => {
+  const touched = new Set<string>();
+
+  for (const operation of operations) {
+    const affected = getAffectedShapeIds(operation.updateType, operation.data);
+    if (affected === null) {
+      return [...shapeIds];
+    }
+    affected.forEach((id) => touched.add(id));
+  }
+
+  return shapeIds.filter((id) => touched.has(id));
+};
@@ -0,0 +1,151 @@
+import {
+  diffShapeProperties,
+  diffSnapshots,
+  getDiffActors,
+  isSameValue,
+} from './snapshot-diff';
+import { replayOperations } from '../whiteboard-operations/board-state.reducer';
+
+describe('snapshot diff', () => {
+  describe('diffSnapshots', () => {
+    it('should find added, removed and modified shapes by id', () => {
+      const diff = diffSnapshots(
+        {
+          shapes: [
+            { id: 'a', type: 'rectangle', x: 1 },
+            { id: 'b', type: 'circle' },
+          ],
+        },
+        {
+          shapes: [
+            { id: 'a', type: 'rectangle', x: 5 },
+            { id: 'c', type: 'text' },
+          ],
+        },
+      );
+
+      expect(diff.added).toEqual([
+        { shape: { id: 'c', type: 'text' }, changedBy: null },
+      ]);
+      expect(diff.removed).toEqual([
+        { shape: { id: 'b', type: 'circle' }, changedBy: null },
+      ]);
+      expect(diff.modified).toEqual([
+        {
+          shapeId: 'a',
+          type: 'rectangle',
+          changes: [{ property: 'x', from: 1, to: 5 }],
+          changedBy: null,
+        },
+      ]);
+    });
+
+    it('should ignore shapes that only moved in the list', () => {
+      const diff = diffSnapshots(
+        { shapes: [{ id: 'a' }, { id: 'b' }] },
+        { shapes: [{ id: 'b' }, { id: 'a' }] },
+      );
+
+      expect(diff).toEqual({ added: [], removed: [], modified: [] });
+    });
+
+    it('should compare empty payloads', () => {
+      expect(diffSnapshots(null, { shapes: [{ id: 'a' }] }).added).toEqual([
+        { shape: { id: 'a' }, changedBy: null },
+      ]);
+      expect(
+        diffSnapshots({ shapes: [{ id: 'a' }] }, undefined).removed,
+      ).toEqual([{ shape: { id: 'a' }, changedBy: null }]);
+    });
+
+    it('should attribute changes to the writers of the newer payload', () => {
+      const from = replayOperations(null, [
+        {
+          sequence: 1,
+          updateType: 'rectangle',
+          data: { shape: { id: 'a', x: 1 } },
+          actor: 'alice',
+        },
+        {
+          sequence: 2,
+          updateType: 'circle',
+          data: { shape: { id: 'b' } },
+          actor: 'alice',
+        },
+      ]);
+      const to = replayOperations(from, [
+        {
+          sequence: 3,
+          updateType: 'rectangle',
+          data: { shape: { id: 'a', x: 2 } },
+          actor: 'bob',
+        },
+        {
+          sequence: 4,
+          updateType: 'delete',
+          data: { shapeId: 'b' },
+          actor: 'carol',
+        },
+        {
+          sequence: 5,
+          updateType: 'text',
+          data: { shape: { id: 'c' } },
+          actor: 'dave',
+        },
+      ]);
+
+      const diff = diffSnapshots(from, to);
+
+      expect(diff.modified[0].changedBy).toBe('bob');
+      expect(diff.removed[0].changedBy).toBe('carol');
+      expect(diff.added[0].changedBy).toBe('dave');
+      expect(getDiffActors(diff).sort()).toEqual(['bob', 'carol', 'dave']);
+    });
+
+    it('should attribute shapes removed by a clear to whoever cleared', () => {
+      const from = replayOperations(null, [
+        {
+          sequence: 1,
+          updateType: 'rectangle',
+          data: { shape: { id: 'a' } },
+          actor: 'alice',
+        },
+      ]);
+      const to = replayOperations(from, [
+        { sequence: 2, updateType: 'clear', actor: 'bob' },
+      ]);
+
+      expect(diffSnapshots(from, to).removed).toEqual([
+        { shape: { id: 'a', type: 'rectangle' }, changedBy: 'bob' },
+      ]);
+    });
+  });
+
+  describe('diffShapeProperties', () => {
+    it('should report added and removed properties as undefined on the other side', () => {
+      expect(
+        diffShapeProperties({ id: 'a', fill: '#fff' }, { id: 'a', text: 'hi' }),
+      ).toEqual([
+        { property: 'fill', from: '#fff', to: undefined },
+        { property: 'text', from: undefined, to: 'hi' },
+      ]);
+    });
+
+    it('should compare nested values structurally', () => {
+      expect(
+        diffShapeProperties(
+          { id: 'a', points: [{ x: 1, y: 2 }] },
+          { id: 'a', points: [{ y: 2, x: 1 }] },
+        ),
+      ).toEqual([]);
+    });
+  });
+
+  describe('isSameValue', () => {
+    it('should tell arrays and objects apart', () => {
+      expect(isSameValue([], {})).toBe(false);
+      expect(isSameValue([1, 2], [1, 2])).toBe(true);
+      expect(isSameValue({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Snapshot Diff
+ * Pure functions that compare two snapshot payloads shape by shape
+ *
+ * Both payloads are read the way the board state reducer reads them, so
+ * duplicate shape ids collapse and CRDT metadata is understood. Changes are
+ * attributed to the actor of the shape's register in the newer payload (the
+ * user whose write is visible there); shapes removed by a clear are
+ * attributed to whoever cleared the board. Payloads without CRDT metadata
+ * (e.g. saved by older clients) give no attribution.
+ */
+import {
+  BoardDocument,
+  BoardShape,
+  LamportStamp,
+  compareStamps,
+  replayOperations,
+} from '../whiteboard-operations/board-state.reducer';
+
+/**
+ * One property of a shape that differs between the two payloads
+ * A property missing on one side is undefined there
+ */
+export interface ShapePropertyChange {
+  property: string;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * A shape only present in the newer payload
+ */
+export interface AddedShape {
+  shape: BoardShape;
+  changedBy: string | null;
+}
+
+/**
+ * A shape only present in the older payload
+ */
+export interface RemovedShape {
+  shape: BoardShape;
+  changedBy: string | null;
+}
+
+/**
+ * A shape present in both payloads with different properties
+ */
+export interface ModifiedShape {
+  shapeId: string;
+  type?: string;
+  changes: ShapePropertyChange[];
+  changedBy: string | null;
+}
+
+export interface SnapshotDiff {
+  added: AddedShape[];
+  removed: RemovedShape[];
+  modified: ModifiedShape[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Structural equality of JSON values (key order doesn't matter)
+ */
+export const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) {
+    return true;
+  }
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length && a.every((item, i) => isSameValue(item, b[i]))
+    );
+  }
+
+  if (isRecord(a) && isRecord(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && isSameValue(a[key], b[key]))
+    );
+  }
+
+  return false;
+};
+
+/**
+ * List the properties that differ between two versions of a shape
+ * @param from - Shape in the older payload
+ * @param to - Shape in the newer payload
+ * @returns Changed properties in the order they first appear
+ */
+export const diffShapeProperties = (
+  from: BoardShape,
+  to: BoardShape,
+): ShapePropertyChange[] => {
+  const properties = new Set([...Object.keys(from), ...Object.keys(to)]);
+  const changes: ShapePropertyChange[] = [];
+
+  for (const property of properties) {
+    if (!isSameValue(from[property], to[property])) {
+      changes.push({ property, from: from[property], to: to[property] });
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * User id of a stamp, or null for stamps without an actor
+ */
+const toActor = (stamp: LamportStamp | null | undefined): string | null =>
+  stamp?.actor ? stamp.actor : null;
+
+/**
+ * Work out who removed a shape that the newer payload no longer has
+ * A tombstone names the user who deleted it; otherwise a clear newer than
+ * the older payload's one names the user who cleared the board
+ */
+const getRemovedBy = (
+  shapeId: string,
+  from: BoardDocument,
+  to: BoardDocument,
+): string | null => {
+  const register = to.crdt?.registers[shapeId];
+  if (register?.deleted) {
+    return toActor(register.updatedAt);
+  }
+
+  const cleared = to.crdt?.cleared;
+  const previouslyCleared = from.crdt?.cleared;
+  if (
+    cleared &&
+    (!previouslyCleared || compareStamps(cleared, previouslyCleared) > 0)
+  ) {
+    return toActor(cleared);
+  }
+
+  return null;
+};
+
+/**
+ * Compare two snapshot payloads by shape id
+ * @param fromData - Data of the older snapshot (may be empty)
+ * @param toData - Data of the newer snapshot (may be empty)
+ * @returns Added and modified shapes in the newer payload's order, removed
+ *   shapes in the older payload's order
+ */
+export const diffSnapshots = (
+  fromData: Record<string, unknown> | null | undefined,
+  toData: Record<string, unknown> | null | undefined,
+): SnapshotDiff => {
+  const from = replayOperations(fromData, []);
+  const to = replayOperations(toData, []);
+
+  const fromShapes = new Map(from.shapes.map((shape) => [shape.id, shape]));
+  const toShapes = new Map(to.shapes.map((shape) => [shape.id, shape]));
+
+  const diff: SnapshotDiff = { added: [], removed: [], modified: [] };
+
+  for (const shape of to.shapes) {
+    const changedBy = toActor(to.crdt?.registers[shape.id]?.updatedAt);
+    const previous = fromShapes.get(shape.id);
+
+    if (!previous) {
+      diff.added.push({ shape, changedBy });
+      continue;
+    }
+
+    const changes = diffShapeProperties(previous, shape);
+    if (changes.length > 0) {
+      diff.modified.push({
+        shapeId: shape.id,
+        type: shape.type ?? previous.type,
+        changes,
+        changedBy,
+      });
+    }
+  }
+
+  for (const shape of from.shapes) {
+    if (!toShapes.has(shape.id)) {
+      diff.removed.push({
+        shape,
+        changedBy: getRemovedBy(shape.id, from, to),
+      });
+    }
+  }
+
+  return diff;
+};
+
+/**
+ * Collect the ids of every user a diff attributes a change to
+ * @param diff - Snapshot diff
+ * @returns Distinct user ids
+ */
+export const getDiffActors = (diff: SnapshotDiff): string[] => {
+  const actors = new Set<string>();
+
+  for (const entry of [...diff.added, ...diff.removed, ...diff.modified]) {
+    if (entry.changedBy) {
+      actors.add(entry.changedBy);
+    }
+  }
+
+  return [...actors];
+};
@@ -0,0 +1,17 @@
+import { formatSnapshotETag, parseIfMatch } from './snapshot-etag';
+
+describe('snapshot ETags', () => {
+  it('should read back the ETag of a version', () => {
+    const etag = formatSnapshotETag({ version: 12, revision: 3 });
+
+    expect(etag).toBe('"12.3"');
+    expect(parseIfMatch(etag)).toEqual({ version: 12, revision: 3 });
+    expect(parseIfMatch(` W/${etag} `)).toEqual({ version: 12, revision: 3 });
+  });
+
+  it('should accept * and reject other values', () => {
+    expect(parseIfMatch('*')).toBe('*');
+    expect(parseIfMatch('12.3')).toBeNull();
+    expect(parseIfMatch('"12.3", "12.4"')).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Snapshot ETags
+ * A version's ETag names its number and revision, e.g. "12.3": the head
+ * autosave keeps its number while it is updated, so the revision tells its
+ * contents apart
+ */
+
+export interface SnapshotRevision {
+  version: number;
+  revision: number;
+}
+
+const ETAG_PATTERN = /^(?:W\/)?"(\d+)\.(\d+)"$/;
+
+/**
+ * Format the ETag of a version
+ */
+export const formatSnapshotETag = ({
+  version,
+  revision,
+}: SnapshotRevision): string => `"${version}.${revision}"`;
+
+/**
+ * Read the version an If-Match header names
+ * Only one ETag is accepted, since a save is merged against one base
+ * @param header - If-Match header value
+ * @returns Named revision, '*' for any version, or null if the header is
+ *   malformed
+ */
+export const parseIfMatch = (header: string): SnapshotRevision | '*' | null => {
+  const value = header.trim();
+  if (value === '*') {
+    return '*';
+  }
+
+  const match = ETAG_PATTERN.exec(value);
+  return match
+    ? { version: Number(match[1]), revision: Number(match[2]) }
+    : null;
+};
+
+/**
+ * Check whether two revisions name the same contents
+ */
+export const isSameRevision = (
+  a: SnapshotRevision,
+  b: SnapshotRevision,
+): boolean => a.version === b.version && a.revision === b.revision;
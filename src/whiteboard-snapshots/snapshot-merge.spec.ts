@@ -0,0 +1,147 @@
+import { mergeSnapshots } from './snapshot-merge';
+import { replayOperations } from '../whiteboard-operations/board-state.reducer';
+
+describe('snapshot merge', () => {
+  const base = {
+    shapes: [
+      { id: 'a', type: 'rectangle', x: 1 },
+      { id: 'b', type: 'circle', x: 1 },
+    ],
+  };
+
+  it('should merge edits to different shapes', () => {
+    const result = mergeSnapshots(
+      base,
+      {
+        shapes: [
+          { id: 'a', type: 'rectangle', x: 5 },
+          { id: 'b', type: 'circle', x: 1 },
+          { id: 'c', type: 'text' },
+        ],
+      },
+      { shapes: [{ id: 'a', type: 'rectangle', x: 1 }] },
+    );
+
+    expect(result).toEqual({
+      data: {
+        shapes: [
+          { id: 'a', type: 'rectangle', x: 5 },
+          { id: 'c', type: 'text' },
+        ],
+      },
+      conflicts: [],
+    });
+  });
+
+  it('should keep a shape changed the same way on both sides once', () => {
+    const edited = {
+      shapes: [
+        { id: 'a', type: 'rectangle', x: 9 },
+        { id: 'b', type: 'circle', x: 1 },
+      ],
+    };
+
+    expect(mergeSnapshots(base, edited, edited).data).toEqual(edited);
+  });
+
+  it('should report shapes changed differently on both sides', () => {
+    // b moved on one side and deleted on the other
+    expect(
+      mergeSnapshots(
+        base,
+        { shapes: [base.shapes[0], { id: 'b', type: 'circle', x: 2 }] },
+        { shapes: [base.shapes[0]] },
+      ),
+    ).toEqual({ data: null, conflicts: ['b'] });
+  });
+
+  it('should merge other fields such as the background', () => {
+    expect(
+      mergeSnapshots(
+        { ...base, background: '#ffffff' },
+        { ...base, background: '#000000' },
+        { ...base, background: '#ffffff', version: 1 },
+      ).data,
+    ).toEqual({ ...base, background: '#000000', version: 1 });
+
+    expect(
+      mergeSnapshots(
+        { ...base, background: '#ffffff' },
+        { ...base, background: '#000000' },
+        { ...base, background: '#ff0000' },
+      ).conflicts,
+    ).toEqual(['background']);
+  });
+
+  it('should take CRDT metadata from the side each shape came from', () => {
+    const baseDocument = replayOperations(null, [
+      {
+        sequence: 1,
+        updateType: 'rectangle',
+        data: { shape: { id: 'a' } },
+        actor: 'alice',
+      },
+      {
+        sequence: 2,
+        updateType: 'circle',
+        data: { shape: { id: 'b' } },
+        actor: 'alice',
+      },
+    ]);
+    const ours = replayOperations(baseDocument, [
+      {
+        sequence: 3,
+        updateType: 'rectangle',
+        data: { shape: { id: 'a', x: 4 } },
+        actor: 'bob',
+      },
+    ]);
+    const theirs = replayOperations(baseDocument, [
+      {
+        sequence: 4,
+        updateType: 'delete',
+        data: { shapeId: 'b' },
+        actor: 'carol',
+      },
+    ]);
+
+    const { data } = mergeSnapshots(baseDocument, ours, theirs);
+    const merged = replayOperations(data, []);
+
+    expect(merged.shapes).toEqual([{ id: 'a', type: 'rectangle', x: 4 }]);
+    expect(merged.crdt?.registers.a.updatedAt.actor).toBe('bob');
+    expect(merged.crdt?.registers.b).toMatchObject({
+      deleted: true,
+      updatedAt: { actor: 'carol' },
+    });
+    expect(merged.crdt?.clock).toBe(4);
+  });
+
+  it('should merge a save with draw updates it had not seen', () => {
+    const current = replayOperations(base, [
+      {
+        sequence: 1,
+        updateType: 'circle',
+        data: { shape: { id: 'b', type: 'circle', x: 7 } },
+        actor: 'bob',
+      },
+    ]);
+
+    const result = mergeSnapshots(
+      replayOperations(base, []),
+      {
+        shapes: [
+          { id: 'a', type: 'rectangle', x: 5 },
+          { id: 'b', type: 'circle', x: 1 },
+        ],
+      },
+      current,
+    );
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.data?.shapes).toEqual([
+      { id: 'a', type: 'rectangle', x: 5 },
+      { id: 'b', type: 'circle', x: 7 },
+    ]);
+  });
+});
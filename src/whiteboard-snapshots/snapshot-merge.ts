@@ -0,0 +1,157 @@
+/**
+ * Snapshot Merge
+ * Pure three-way merge of snapshot payloads by shape id
+ *
+ * A save based on a version that is no longer the head is merged with the
+ * head using the version it was based on: a shape (or another top-level
+ * field such as background) changed on one side only takes that side's
+ * value, a shape changed the same way on both sides is kept once. A shape
+ * changed differently on both sides is a conflict and nothing is merged.
+ *
+ * Payloads are read the way the board state reducer reads them, so
+ * duplicate shape ids collapse. CRDT metadata of each shape comes from the
+ * side its value was taken from.
+ */
+import {
+  BoardDocument,
+  BoardShape,
+  ShapeRegister,
+  compareStamps,
+  replayOperations,
+} from '../whiteboard-operations/board-state.reducer';
+import { isSameValue } from './snapshot-diff';
+
+export interface SnapshotMergeResult {
+  // Merged payload; null when there are conflicts
+  data: Record<string, unknown> | null;
+  // Ids of the shapes and names of the fields changed differently on both sides
+  conflicts: string[];
+}
+
+// Top-level fields merged shape by shape (shapes) or rebuilt (crdt)
+const DOCUMENT_FIELDS = ['shapes', 'crdt'];
+
+type Side = 'ours' | 'theirs';
+
+/**
+ * Decide which side's value of one shape or field wins
+ * @returns The winning side, or null if both sides changed it differently
+ */
+const pickSide = (
+  base: unknown,
+  ours: unknown,
+  theirs: unknown,
+): Side | null => {
+  if (isSameValue(ours, theirs) || isSameValue(theirs, base)) {
+    return 'ours';
+  }
+  if (isSameValue(ours, base)) {
+    return 'theirs';
+  }
+  return null;
+};
+
+/**
+ * Merge a save with the head it didn't see
+ * @param baseData - Data of the version the save was based on
+ * @param oursData - Data being saved
+ * @param theirsData - Data of the current head
+ * @returns Merged payload, or the conflicts that prevent merging
+ */
+export const mergeSnapshots = (
+  baseData: Record<string, unknown> | null | undefined,
+  oursData: Record<string, unknown> | null | undefined,
+  theirsData: Record<string, unknown> | null | undefined,
+): SnapshotMergeResult => {
+  const base = replayOperations(baseData, []);
+  const ours = replayOperations(oursData, []);
+  const theirs = replayOperations(theirsData, []);
+
+  const baseShapes = new Map(base.shapes.map((shape) => [shape.id, shape]));
+  const oursShapes = new Map(ours.shapes.map((shape) => [shape.id, shape]));
+  const theirsShapes = new Map(theirs.shapes.map((shape) => [shape.id, shape]));
+  const documents: Record<Side, BoardDocument> = { ours, theirs };
+  const conflicts: string[] = [];
+
+  // Theirs' order first, then shapes only ours has, in ours' order
+  const shapeIds = new Set([
+    ...theirs.shapes.map((shape) => shape.id),
+    ...ours.shapes.map((shape) => shape.id),
+    ...base.shapes.map((shape) => shape.id),
+  ]);
+  const shapes: BoardShape[] = [];
+  const registers: Record<string, ShapeRegister> = {};
+
+  for (const id of shapeIds) {
+    const side = pickSide(
+      baseShapes.get(id),
+      oursShapes.get(id),
+      theirsShapes.get(id),
+    );
+    if (!side) {
+      conflicts.push(id);
+      continue;
+    }
+
+    const shape = (side === 'ours' ? oursShapes : theirsShapes).get(id);
+    if (shape) {
+      shapes.push(shape);
+    }
+
+    // Keeps tombstones of shapes the winning side deleted
+    const register = documents[side].crdt?.registers[id];
+    if (register) {
+      registers[id] = register;
+    }
+  }
+
+  const fields: Record<string, unknown> = {};
+  const fieldNames = new Set(
+    [baseData, oursData, theirsData].flatMap((data) => Object.keys(data ?? {})),
+  );
+
+  for (const name of fieldNames) {
+    if (DOCUMENT_FIELDS.includes(name)) {
+      continue;
+    }
+
+    const side = pickSide(
+      baseData?.[name],
+      oursData?.[name],
+      theirsData?.[name],
+    );
+    if (!side) {
+      conflicts.push(name);
+      continue;
+    }
+
+    const value = (side === 'ours' ? oursData : theirsData)?.[name];
+    if (value !== undefined) {
+      fields[name] = value;
+    }
+  }
+
+  if (conflicts.length > 0) {
+    return { data: null, conflicts };
+  }
+
+  const data: Record<string, unknown> = { ...fields, shapes };
+
+  // Payloads saved without CRDT metadata stay without it
+  if (oursData?.crdt !== undefined || theirsData?.crdt !== undefined) {
+    const oursCleared = ours.crdt?.cleared ?? null;
+    const theirsCleared = theirs.crdt?.cleared ?? null;
+
+    data.crdt = {
+      clock: Math.max(ours.crdt?.clock ?? 0, theirs.crdt?.clock ?? 0),
+      registers,
+      cleared:
+        oursCleared &&
+        (!theirsCleared || compareStamps(oursCleared, theirsCleared) > 0)
+          ? oursCleared
+          : theirsCleared,
+    };
+  }
+
+  return { data, conflicts };
+};
@@ -0,0 +1,287 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThanOrEqual, Repository } from 'typeorm';
+import { WhiteboardSnapshot } from './entities/whiteboard-snapshot.entity';
+import { Whiteboard } from '../whiteboards/entities/whiteboard.entity';
+import { WhiteboardOperation } from '../whiteboard-operations/entities/whiteboard-operation.entity';
+import {
+  RetentionCandidate,
+  RetentionDeletion,
+  RetentionPolicy,
+  RetentionPolicyOverride,
+  mergeRetentionPolicy,
+  planCompaction,
+  planRetention,
+} from './snapshot-retention';
+import { snapshotRetentionConfig } from '../config/snapshot-retention.config';
+
+/**
+ * What retention does (or would do) to one whiteboard's versions
+ */
+export interface RetentionReport {
+  whiteboardId: string;
+  policy: RetentionPolicy;
+  versionCount: number;
+  deletions: RetentionDeletion[];
+  // Operations up to this sequence are (or would be) deleted from the log
+  compactThrough: number | null;
+  // Whether the deletions were only planned
+  dryRun: boolean;
+}
+
+/**
+ * Snapshot Retention Service
+ * Thins the version timeline of every whiteboard on a schedule, and compacts
+ * its operation log down to what the remaining versions replay
+ *
+ * Boards follow the global policy from the environment unless the owner set
+ * their own (see snapshot-retention for the rules). Every API process runs
+ * the job; deleting the same versions or operations twice is harmless.
+ */
+@Injectable()
+export class SnapshotRetentionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SnapshotRetentionService.name);
+  private readonly config = snapshotRetentionConfig();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    @InjectRepository(WhiteboardSnapshot)
+    private readonly snapshotRepository: Repository<WhiteboardSnapshot>,
+  ) {}
+
+  onModuleInit(): void {
+    if (this.config.intervalMs > 0) {
+      this.timer = setInterval(() => {
+        void this.runRetention();
+      }, this.config.intervalMs);
+    }
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Get the retention policy a whiteboard follows
+   * @param whiteboard - Whiteboard entity
+   * @returns Global policy with the board's own settings applied
+   */
+  getPolicy(whiteboard: Pick<Whiteboard, 'retentionPolicy'>): RetentionPolicy {
+    return mergeRetentionPolicy(this.config.policy, whiteboard.retentionPolicy);
+  }
+
+  /**
+   * Replace a whiteboard's own retention settings
+   * @param whiteboard - Whiteboard entity
+   * @param override - Settings that replace the global ones, or null to
+   *   follow the global policy again
+   * @returns Policy the board follows from now on
+   */
+  async updatePolicy(
+    whiteboard: Whiteboard,
+    override: RetentionPolicyOverride | null,
+  ): Promise<RetentionPolicy> {
+    await this.snapshotRepository.manager.update(Whiteboard, whiteboard.id, {
+      retentionPolicy: override,
+    });
+    whiteboard.retentionPolicy = override;
+
+    return this.getPolicy(whiteboard);
+  }
+
+  /**
+   * Work out which versions of a whiteboard retention would delete now
+   * @param whiteboard - Whiteboard entity
+   * @returns Dry-run report
+   */
+  async previewWhiteboard(whiteboard: Whiteboard): Promise<RetentionReport> {
+    return await this.applyWhiteboard(
+      whiteboard.id,
+      this.getPolicy(whiteboard),
+      whiteboard.compactedSequence,
+      true,
+    );
+  }
+
+  /**
+   * Run retention over every whiteboard with a version
+   * Boards are handled one at a time; a failure on one board is logged and
+   * the others still run. Skipped while the previous run is still going
+   * @returns Reports of the boards that had versions to delete
+   */
+  async runRetention(): Promise<RetentionReport[]> {
+    if (this.running) {
+      return [];
+    }
+    this.running = true;
+
+    const reports: RetentionReport[] = [];
+    try {
+      const boards = await this.snapshotRepository
+        .createQueryBuilder('snapshot')
+        .innerJoin('snapshot.whiteboard', 'whiteboard')
+        .select('whiteboard.id', 'id')
+        .addSelect('whiteboard.retention_policy', 'retentionPolicy')
+        .addSelect('whiteboard.compacted_sequence', 'compactedSequence')
+        .groupBy('whiteboard.id')
+        .getRawMany<
+          Pick<Whiteboard, 'id' | 'retentionPolicy' | 'compactedSequence'>
+        >();
+
+      for (const board of boards) {
+        try {
+          const report = await this.applyWhiteboard(
+            board.id,
+            this.getPolicy(board),
+            board.compactedSequence,
+            this.config.dryRun,
+          );
+          if (report.deletions.length > 0 || report.compactThrough !== null) {
+            reports.push(report);
+            this.logReport(report);
+          }
+        } catch (error) {
+          this.logger.error(
+            `Retention failed for whiteboard ${board.id}: ${error.message}`,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Retention run failed: ${error.message}`);
+    } finally {
+      this.running = false;
+    }
+
+    return reports;
+  }
+
+  /**
+   * Plan retention for one whiteboard and, unless it is a dry run, delete
+   * the planned versions and compact the operation log
+   * @param whiteboardId - Whiteboard ID
+   * @param policy - Effective retention policy
+   * @param compactedSequence - Sequence the log is already compacted up to
+   * @param dryRun - Only plan the deletions
+   * @returns Report of the deletions
+   */
+  private async applyWhiteboard(
+    whiteboardId: string,
+    policy: RetentionPolicy,
+    compactedSequence: number,
+    dryRun: boolean,
+  ): Promise<RetentionReport> {
+    const versions = await this.snapshotRepository.find({
+      where: { whiteboard: { id: whiteboardId } },
+      select: ['id', 'version', 'pinned', 'sequence', 'updatedAt'],
+    });
+
+    const candidates: RetentionCandidate[] = versions.map((snapshot) => ({
+      id: snapshot.id,
+      version: snapshot.version,
+      savedAt: snapshot.updatedAt,
+      pinned: snapshot.pinned,
+      sequence: snapshot.sequence,
+    }));
+    const deletions = planRetention(candidates, policy, new Date());
+
+    if (dryRun) {
+      const through = planCompaction(candidates, deletions);
+      return {
+        whiteboardId,
+        policy,
+        versionCount: versions.length,
+        deletions,
+        compactThrough:
+          through !== null && through > compactedSequence ? through : null,
+        dryRun,
+      };
+    }
+
+    if (deletions.length > 0) {
+      // A version pinned since it was planned is left alone
+      await this.snapshotRepository.delete({
+        id: In(deletions.map(({ candidate }) => candidate.id)),
+        pinned: false,
+      });
+    }
+
+    return {
+      whiteboardId,
+      policy,
+      versionCount: versions.length,
+      deletions,
+      compactThrough: await this.compactOperations(whiteboardId),
+      dryRun,
+    };
+  }
+
+  /**
+   * Delete the operations no remaining version of a whiteboard replays
+   * Runs under the whiteboard row lock, so no version based on an older
+   * sequence can be saved meanwhile; saves and patches based on a sequence
+   * below the compacted one are rejected from then on
+   * @param whiteboardId - Whiteboard ID
+   * @returns Sequence the log was compacted up to, or null if nothing was deleted
+   */
+  private async compactOperations(
+    whiteboardId: string,
+  ): Promise<number | null> {
+    return await this.snapshotRepository.manager.transaction(
+      async (manager) => {
+        const locked = await manager
+          .createQueryBuilder(Whiteboard, 'whiteboard')
+          .setLock('pessimistic_write')
+          .where('whiteboard.id = :whiteboardId', { whiteboardId })
+          .getOne();
+
+        if (!locked) {
+          return null;
+        }
+
+        const versions = await manager.find(WhiteboardSnapshot, {
+          where: { whiteboard: { id: whiteboardId } },
+          select: ['id', 'sequence'],
+        });
+
+        const through = planCompaction(versions, []);
+        if (through === null || through <= locked.compactedSequence) {
+          return null;
+        }
+
+        await manager.delete(WhiteboardOperation, {
+          whiteboardId,
+          sequence: LessThanOrEqual(through),
+        });
+        await manager.update(Whiteboard, whiteboardId, {
+          compactedSequence: through,
+        });
+
+        return through;
+      },
+    );
+  }
+
+  /**
+   * Log the versions a run deleted (or would delete in a dry run)
+   */
+  private logReport(report: RetentionReport): void {
+    const versions = report.deletions
+      .map(({ candidate, reason }) => `${candidate.version} (${reason})`)
+      .join(', ');
+
+    this.logger.log(
+      `${report.dryRun ? 'Would delete' : 'Deleted'} ${report.deletions.length} of ${report.versionCount} versions of whiteboard ${report.whiteboardId}: ${versions || 'none'}` +
+        (report.compactThrough !== null
+          ? `; operations up to ${report.compactThrough}`
+          : ''),
+    );
+  }
+}
@@ -0,0 +1,158 @@
+import {
+  DEFAULT_RETENTION_POLICY,
+  RetentionCandidate,
+  RetentionPolicy,
+  mergeRetentionPolicy,
+  planCompaction,
+  planRetention,
+} from './snapshot-retention';
+
+const NOW = new Date('2026-03-18T12:00:00.000Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+const policy: RetentionPolicy = {
+  keepAllHours: 2,
+  hourlyDays: 1,
+  dailyDays: 7,
+  weeklyWeeks: 4,
+  maxVersions: null,
+};
+
+/**
+ * Build versions numbered in order of age, the last one being the newest
+ */
+const versionsAged = (...ageHours: number[]): RetentionCandidate[] =>
+  [...ageHours]
+    .sort((a, b) => b - a)
+    .map((age, i) => ({
+      id: `v${i + 1}`,
+      version: i + 1,
+      savedAt: new Date(NOW.getTime() - age * HOUR_MS),
+      pinned: false,
+      sequence: (i + 1) * 10,
+    }));
+
+const deletedVersions = (
+  versions: RetentionCandidate[],
+  retentionPolicy = policy,
+): number[] =>
+  planRetention(versions, retentionPolicy, NOW).map(
+    ({ candidate }) => candidate.version,
+  );
+
+describe('snapshot retention', () => {
+  describe('planRetention', () => {
+    it('should keep every recent version', () => {
+      expect(deletedVersions(versionsAged(1.5, 1, 0.5, 0))).toEqual([]);
+    });
+
+    it('should keep the newest version of each hour in the hourly window', () => {
+      // 08:20, 09:10 and 09:50; the last two share an hour
+      const versions = versionsAged(3 + 40 / 60, 2 + 50 / 60, 2 + 10 / 60, 0);
+
+      expect(planRetention(versions, policy, NOW)).toEqual([
+        { candidate: versions[1], reason: 'hourly' },
+      ]);
+    });
+
+    it('should thin older versions to one per day and one per week', () => {
+      // Three days ago at 11:00 and 12:00; twenty days ago at 11:00 and 12:00
+      const plan = planRetention(
+        versionsAged(24 * 20, 24 * 20 + 1, 24 * 3, 24 * 3 + 1, 0),
+        policy,
+        NOW,
+      );
+
+      expect(
+        plan.map(({ candidate, reason }) => [candidate.version, reason]),
+      ).toEqual([
+        [3, 'daily'],
+        [1, 'weekly'],
+      ]);
+    });
+
+    it('should delete versions older than the weekly window', () => {
+      expect(planRetention(versionsAged(24 * 7 * 5, 0), policy, NOW)).toEqual([
+        {
+          candidate: expect.objectContaining({ version: 1 }),
+          reason: 'expired',
+        },
+      ]);
+    });
+
+    it('should never delete pinned versions or the head', () => {
+      const versions = versionsAged(24 * 7 * 6, 24 * 7 * 5, 0);
+      versions[0].pinned = true;
+
+      // The head is the only version and is older than every window
+      expect(deletedVersions(versionsAged(24 * 7 * 10))).toEqual([]);
+      expect(deletedVersions(versions)).toEqual([2]);
+    });
+
+    it('should delete the oldest unpinned versions over the limit', () => {
+      const versions = versionsAged(1.5, 1.2, 1, 0.5, 0);
+      versions[0].pinned = true;
+
+      expect(
+        planRetention(versions, { ...policy, maxVersions: 2 }, NOW).map(
+          ({ candidate, reason }) => [candidate.version, reason],
+        ),
+      ).toEqual([
+        [3, 'max_versions'],
+        [2, 'max_versions'],
+      ]);
+    });
+
+    it('should keep the head even with a limit of one', () => {
+      expect(
+        deletedVersions(versionsAged(1, 0.5, 0), { ...policy, maxVersions: 1 }),
+      ).toEqual([2, 1]);
+    });
+  });
+
+  describe('planCompaction', () => {
+    it('should compact up to the oldest kept version', () => {
+      const versions = versionsAged(24 * 7 * 6, 24 * 7 * 5, 1, 0);
+
+      expect(
+        planCompaction(versions, planRetention(versions, policy, NOW)),
+      ).toBe(30);
+    });
+
+    it('should follow the lowest sequence, not the oldest number', () => {
+      const versions = versionsAged(1, 0.5, 0);
+      versions[2].sequence = 5;
+
+      expect(planCompaction(versions, [])).toBe(5);
+    });
+
+    it('should keep the log while a version is based on none of it', () => {
+      const versions = versionsAged(1, 0);
+      versions[0].sequence = 0;
+
+      expect(planCompaction(versions, [])).toBeNull();
+    });
+  });
+
+  describe('mergeRetentionPolicy', () => {
+    it('should apply the fields a board sets', () => {
+      expect(
+        mergeRetentionPolicy(DEFAULT_RETENTION_POLICY, {
+          dailyDays: 90,
+          maxVersions: null,
+          keepAllHours: undefined,
+        }),
+      ).toEqual({
+        ...DEFAULT_RETENTION_POLICY,
+        dailyDays: 90,
+        maxVersions: null,
+      });
+    });
+
+    it('should return the base policy without an override', () => {
+      expect(mergeRetentionPolicy(DEFAULT_RETENTION_POLICY, null)).toEqual(
+        DEFAULT_RETENTION_POLICY,
+      );
+    });
+  });
+});
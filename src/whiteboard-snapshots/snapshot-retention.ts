@@ -0,0 +1,203 @@
+/**
+ * Snapshot Retention
+ * Pure functions that decide which versions of a whiteboard to delete, and
+ * how much of its operation log the remaining versions still need
+ *
+ * Versions are thinned the further back they go: every version younger than
+ * keepAllHours is kept; then the newest version of each hour, of each day and
+ * of each week (UTC, weeks start on Monday) is kept, until the end of the
+ * hourly, daily and weekly windows. Older versions are deleted. If more than
+ * maxVersions versions are left, the oldest ones go too.
+ *
+ * The head version (the one the board state is built on) and pinned versions
+ * are never deleted; pinned versions don't count towards maxVersions.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+export interface RetentionPolicy {
+  // Keep every version younger than this
+  keepAllHours: number;
+  // Then keep one version per hour up to this age
+  hourlyDays: number;
+  // Then one version per day up to this age
+  dailyDays: number;
+  // Then one version per week up to this age; older versions are deleted
+  weeklyWeeks: number;
+  // Most unpinned versions to keep, or null for no limit
+  maxVersions: number | null;
+}
+
+// Fields a board sets to depart from the global policy
+export type RetentionPolicyOverride = Partial<RetentionPolicy>;
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  keepAllHours: 24,
+  hourlyDays: 7,
+  dailyDays: 30,
+  weeklyWeeks: 52,
+  maxVersions: 200,
+};
+
+/**
+ * What the planner needs to know about a version
+ */
+export interface RetentionCandidate {
+  id: string;
+  version: number;
+  // When the version's content was last written
+  savedAt: Date;
+  pinned: boolean;
+  // Last operation sequence the version's data includes
+  sequence: number;
+}
+
+// hourly/daily/weekly: a newer version of the same hour, day or week is kept;
+// expired: older than every window; max_versions: over the version limit
+export type RetentionReason =
+  | 'hourly'
+  | 'daily'
+  | 'weekly'
+  | 'expired'
+  | 'max_versions';
+
+export interface RetentionDeletion {
+  candidate: RetentionCandidate;
+  reason: RetentionReason;
+}
+
+/**
+ * Apply a board's override on top of a policy
+ * @param policy - Base policy (usually the global one)
+ * @param override - Fields the board changes (undefined ones are ignored)
+ * @returns Effective policy
+ */
+export const mergeRetentionPolicy = (
+  policy: RetentionPolicy,
+  override?: RetentionPolicyOverride | null,
+): RetentionPolicy => {
+  const merged = { ...policy };
+
+  for (const [key, value] of Object.entries(override ?? {})) {
+    if (value !== undefined && key in policy) {
+      (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  return merged;
+};
+
+/**
+ * Get the hour, day or week bucket a version falls into
+ * Weeks start on Monday (the Unix epoch was a Thursday)
+ */
+const getBucket = (
+  reason: 'hourly' | 'daily' | 'weekly',
+  savedAt: Date,
+): string => {
+  const time = savedAt.getTime();
+
+  if (reason === 'hourly') {
+    return `h${Math.floor(time / HOUR_MS)}`;
+  }
+  if (reason === 'daily') {
+    return `d${Math.floor(time / DAY_MS)}`;
+  }
+  return `w${Math.floor((time / DAY_MS + 3) / 7)}`;
+};
+
+/**
+ * Decide which versions of a whiteboard to delete
+ * @param versions - Every version of the board (any order)
+ * @param policy - Effective retention policy
+ * @param now - Current time
+ * @returns Versions to delete with the reason, newest first
+ */
+export const planRetention = (
+  versions: RetentionCandidate[],
+  policy: RetentionPolicy,
+  now: Date,
+): RetentionDeletion[] => {
+  const newestFirst = [...versions].sort((a, b) => b.version - a.version);
+  const head = newestFirst[0];
+
+  const keepAllUntil = policy.keepAllHours * HOUR_MS;
+  const hourlyUntil = Math.max(keepAllUntil, policy.hourlyDays * DAY_MS);
+  const dailyUntil = Math.max(hourlyUntil, policy.dailyDays * DAY_MS);
+  const weeklyUntil = Math.max(dailyUntil, policy.weeklyWeeks * WEEK_MS);
+
+  const deletions: RetentionDeletion[] = [];
+  const kept: RetentionCandidate[] = [];
+  const filledBuckets = new Set<string>();
+
+  for (const candidate of newestFirst) {
+    const age = now.getTime() - candidate.savedAt.getTime();
+
+    if (age >= weeklyUntil) {
+      if (candidate === head || candidate.pinned) {
+        kept.push(candidate);
+      } else {
+        deletions.push({ candidate, reason: 'expired' });
+      }
+      continue;
+    }
+
+    if (age < keepAllUntil) {
+      kept.push(candidate);
+      continue;
+    }
+
+    const reason =
+      age < hourlyUntil ? 'hourly' : age < dailyUntil ? 'daily' : 'weekly';
+    const bucket = getBucket(reason, candidate.savedAt);
+
+    // The newest version of a bucket keeps it; pinned versions fill it too
+    if (!filledBuckets.has(bucket) || candidate === head || candidate.pinned) {
+      filledBuckets.add(bucket);
+      kept.push(candidate);
+    } else {
+      deletions.push({ candidate, reason });
+    }
+  }
+
+  if (policy.maxVersions !== null) {
+    const countable = kept.filter((candidate) => !candidate.pinned);
+    let excess = countable.length - Math.max(policy.maxVersions, 1);
+
+    // kept is newest first, so the oldest unpinned versions go first
+    for (let i = countable.length - 1; i >= 0 && excess > 0; i--) {
+      if (countable[i] !== head) {
+        deletions.push({ candidate: countable[i], reason: 'max_versions' });
+        excess--;
+      }
+    }
+  }
+
+  return deletions.sort((a, b) => b.candidate.version - a.candidate.version);
+};
+
+/**
+ * Work out up to which sequence a whiteboard's operation log can be compacted
+ * A version is replayed with the operations after its own sequence, so the
+ * operations up to the lowest sequence of the kept versions are no longer
+ * needed by any of them
+ * @param versions - Every version of the board
+ * @param deletions - Versions retention deletes
+ * @returns Highest operation sequence to delete, or null if there is none
+ */
+export const planCompaction = (
+  versions: Pick<RetentionCandidate, 'id' | 'sequence'>[],
+  deletions: RetentionDeletion[],
+): number | null => {
+  const deleted = new Set(deletions.map(({ candidate }) => candidate.id));
+  const kept = versions.filter((candidate) => !deleted.has(candidate.id));
+
+  if (kept.length === 0) {
+    return null;
+  }
+
+  const through = Math.min(...kept.map((candidate) => candidate.sequence));
+  return through > 0 ? through : null;
+};
@@ -0,0 +1,102 @@
+import { HttpStatus } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import type { Response } from 'express';
+import { WhiteboardSnapshotsController } from './whiteboard-snapshots.controller';
+import { WhiteboardSnapshotsService } from './whiteboard-snapshots.service';
+import { SnapshotRetentionService } from './snapshot-retention.service';
+import { SaveSnapshotDto } from './dto/save-snapshot.dto';
+import { WhiteboardsService } from '../whiteboards/whiteboards.service';
+import { User } from '../users/entities/user.entity';
+
+const WHITEBOARD_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+const user = { id: 'user-1', email: 'ada@example.com' } as User;
+
+const snapshot = {
+  id: 'snapshot-1',
+  version: 3,
+  revision: 1,
+  data: { shapes: [] },
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+};
+
+describe('WhiteboardSnapshotsController', () => {
+  let controller: WhiteboardSnapshotsController;
+  let snapshotsService: Record<string, jest.Mock>;
+  let whiteboardsService: Record<string, jest.Mock>;
+  let res: { status: jest.Mock; setHeader: jest.Mock };
+
+  beforeEach(async () => {
+    snapshotsService = {
+      saveOrUpdateSnapshotForWhiteboard: jest
+        .fn()
+        .mockResolvedValue({ status: 'saved', snapshot }),
+    };
+    whiteboardsService = {
+      findByIdWithAccess: jest.fn().mockResolvedValue({ id: WHITEBOARD_ID }),
+      getRole: jest.fn().mockResolvedValue('editor'),
+    };
+    res = { status: jest.fn(), setHeader: jest.fn() };
+
+    const app: TestingModule = await Test.createTestingModule({
+      controllers: [WhiteboardSnapshotsController],
+      providers: [
+        { provide: WhiteboardSnapshotsService, useValue: snapshotsService },
+        { provide: SnapshotRetentionService, useValue: {} },
+        { provide: WhiteboardsService, useValue: whiteboardsService },
+      ],
+    }).compile();
+
+    controller = app.get<WhiteboardSnapshotsController>(
+      WhiteboardSnapshotsController,
+    );
+  });
+
+  describe('saveSnapshot', () => {
+    const save = () =>
+      controller.saveSnapshot(
+        WHITEBOARD_ID,
+        { data: { shapes: [] }, baseSequence: 0 } as SaveSnapshotDto,
+        undefined,
+        user,
+        res as unknown as Response,
+      );
+
+    it('should let an editor save', async () => {
+      const result = await save();
+
+      expect(result).toMatchObject({
+        success: true,
+        statusCode: HttpStatus.OK,
+      });
+      expect(res.setHeader).toHaveBeenCalledWith('ETag', expect.any(String));
+      expect(
+        snapshotsService.saveOrUpdateSnapshotForWhiteboard,
+      ).toHaveBeenCalledWith({ id: WHITEBOARD_ID }, { shapes: [] }, 0, user, {
+        base: null,
+        merge: false,
+      });
+    });
+
+    it.each(['viewer', 'commenter'])(
+      'should not let a %s save',
+      async (role) => {
+        whiteboardsService.getRole.mockResolvedValue(role);
+
+        const result = await save();
+
+        expect(res.status).toHaveBeenCalledWith(HttpStatus.FORBIDDEN);
+        expect(result).toMatchObject({
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            'Your role on this whiteboard does not allow saving snapshots',
+        });
+        expect(
+          snapshotsService.saveOrUpdateSnapshotForWhiteboard,
+        ).not.toHaveBeenCalled();
+      },
+    );
+  });
+});
@@ -1,32 +1,55 @@
 import {
   Controller,
   Post,
+  Get,
+  Put,
+  Patch,
   Body,
   Param,
+  Headers,
   HttpStatus,
   HttpCode,
   ValidationPipe,
   ParseUUIDPipe,
+  ParseIntPipe,
   UseGuards,
   NotFoundException,
   ForbiddenException,
+  BadRequestException,
   Res,
   Inject,
   forwardRef,
+  UseFilters,
 } from '@nestjs/common';
 import type { Response } from 'express';
 import { WhiteboardSnapshotsService } from './whiteboard-snapshots.service';
 import { SaveSnapshotDto } from './dto/save-snapshot.dto';
+import { PatchSnapshotDto } from './dto/patch-snapshot.dto';
+import { CreateCheckpointDto } from './dto/create-checkpoint.dto';
+import { PinVersionDto } from './dto/pin-version.dto';
+import { UpdateRetentionPolicyDto } from './dto/update-retention-policy.dto';
+import { WhiteboardSnapshot } from './entities/whiteboard-snapshot.entity';
+import { VersionDiff } from './whiteboard-snapshots.service';
+import {
+  RetentionReport,
+  SnapshotRetentionService,
+} from './snapshot-retention.service';
+import { RetentionPolicyOverride } from './snapshot-retention';
+import { formatSnapshotETag, parseIfMatch } from './snapshot-etag';
+import { Whiteboard } from '../whiteboards/entities/whiteboard.entity';
 import { WhiteboardsService } from '../whiteboards/whiteboards.service';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { User } from '../users/entities/user.entity';
+import { ValidationExceptionFilter } from '../common/filters/validation-exception.filter';
+import { canEdit } from '../whiteboard-collaborators/collaborator-roles';
 
 @Controller('whiteboards/:whiteboardId/snapshots')
 @UseGuards(JwtAuthGuard)
 export class WhiteboardSnapshotsController {
   constructor(
     private readonly snapshotsService: WhiteboardSnapshotsService,
+    private readonly retentionService: SnapshotRetentionService,
     @Inject(forwardRef(() => WhiteboardsService))
     private readonly whiteboardsService: WhiteboardsService,
   ) {}
@@ -34,29 +57,47 @@ export class WhiteboardSnapshotsController {
   /**
    * Save or update snapshot for a whiteboard (owner and collaborators)
    * Allows both owner and collaborators to add shapes and update snapshots
-   * If whiteboard has no snapshots, create a new one
-   * If whiteboard has snapshots, update the latest one
+   * Starts a new autosave version, or updates the head one while it is the
+   * user's own autosave from the last few minutes
    * 
    * Access Control:
    * - Owner can always save/update snapshots
-   * - Collaborators can save/update snapshots if they are shared on the whiteboard
+   * - Editors can save/update snapshots
+   * - Viewers and commenters get 403
    * 
    * To add shapes: Include them in the data.shapes array
    * To update shapes: Modify shape properties in the data.shapes array
    * To remove shapes: Exclude them from the data.shapes array
    * 
-   * Requires authentication and access permission (owner or collaborator)
+   * Every shape must match the schema of its type (see common/shapes);
+   * invalid payloads are rejected with 400 and the list of failed constraints
+   *
+   * baseSequence is the last operation sequence the data includes; draw
+   * updates appended after it are replayed on top of the saved data. Saves
+   * without it are taken to include every draw update so far
+   *
+   * Concurrency:
+   * - Send the ETag of the version the data is based on as If-Match
+   * - If the head has changed since, or draw updates were appended after
+   *   baseSequence, the save is rejected with 409, the current head and the
+   *   board's last sequence, unless merge is true and the edits don't overlap
+   * - Without If-Match the save overwrites whatever the head is
+   *
+   * Requires authentication and edit permission (owner or editor)
    * @param whiteboardId - Whiteboard ID (must be a valid UUID)
    * @param saveSnapshotDto - Snapshot data containing shapes and drawings
+   * @param ifMatch - ETag of the version the data is based on (optional)
    * @param user - Current authenticated user (from JWT token)
    * @param res - Express response object for setting status codes
-   * @returns Saved or updated snapshot information
+   * @returns Saved or updated snapshot information, with its ETag
    */
   @Post()
   @HttpCode(HttpStatus.OK)
+  @UseFilters(ValidationExceptionFilter)
   async saveSnapshot(
     @Param('whiteboardId', ParseUUIDPipe) whiteboardId: string,
     @Body(ValidationPipe) saveSnapshotDto: SaveSnapshotDto,
+    @Headers('if-match') ifMatch: string | undefined,
     @CurrentUser() user: User,
     @Res({ passthrough: true }) res: Response,
   ) {
@@ -69,18 +110,73 @@ export class WhiteboardSnapshotsController {
         user,
       );
 
-      // Save or update snapshot (both owner and collaborators can do this)
-      const snapshot = await this.snapshotsService.saveOrUpdateSnapshotForWhiteboard(
-        whiteboard,
-        saveSnapshotDto.data,
-      );
+      // Read-only collaborators can open the board but not change it
+      const role = await this.whiteboardsService.getRole(whiteboard, user);
+      if (!canEdit(role)) {
+        throw new ForbiddenException(
+          'Your role on this whiteboard does not allow saving snapshots',
+        );
+      }
+
+      // Without If-Match (or with *) the save goes over whatever the head is
+      const base = ifMatch ? parseIfMatch(ifMatch) : '*';
+      if (!base) {
+        throw new BadRequestException(
+          'If-Match must be the ETag of a version, e.g. "12.3"',
+        );
+      }
+
+      // Save or update snapshot (owner and editors can do this)
+      // Shapes were checked against the shape schema by the validation pipe
+      const result =
+        await this.snapshotsService.saveOrUpdateSnapshotForWhiteboard(
+          whiteboard,
+          { ...saveSnapshotDto.data },
+          saveSnapshotDto.baseSequence,
+          user,
+          {
+            base: base === '*' ? null : base,
+            merge: saveSnapshotDto.merge ?? false,
+          },
+        );
+
+      if (result.status === 'conflict') {
+        const { current, sequence, conflicts } = result;
+        res.status(HttpStatus.CONFLICT);
+        return {
+          success: false,
+          statusCode: HttpStatus.CONFLICT,
+          message:
+            conflicts.length > 0
+              ? 'The whiteboard was changed since your version and the changes overlap'
+              : 'The whiteboard was changed since your version',
+          data: {
+            current: current
+              ? { ...this.toVersionResponse(current), data: current.data }
+              : null,
+            sequence,
+            conflicts,
+          },
+        };
+      }
+
+      const { snapshot } = result;
+      const etag = formatSnapshotETag(snapshot);
+      res.setHeader('ETag', etag);
 
       return {
         success: true,
         statusCode: HttpStatus.OK,
-        message: 'Snapshot saved successfully',
+        message:
+          result.status === 'merged'
+            ? 'Snapshot merged and saved successfully'
+            : 'Snapshot saved successfully',
         data: {
           id: snapshot.id,
+          version: snapshot.version,
+          revision: snapshot.revision,
+          etag,
+          merged: result.status === 'merged',
           data: snapshot.data,
           createdAt: snapshot.createdAt,
           updatedAt: snapshot.updatedAt,
@@ -88,6 +184,16 @@ export class WhiteboardSnapshotsController {
       };
     } catch (error) {
       // Handle different error types and set appropriate HTTP status codes
+      if (error instanceof BadRequestException) {
+        res.status(HttpStatus.BAD_REQUEST);
+        return {
+          success: false,
+          statusCode: HttpStatus.BAD_REQUEST,
+          message: error.message || 'Invalid If-Match header',
+          data: null,
+        };
+      }
+
       if (error instanceof NotFoundException) {
         res.status(HttpStatus.NOT_FOUND);
         return {
@@ -119,5 +225,883 @@ export class WhiteboardSnapshotsController {
       };
     }
   }
-}
 
+  /**
+   * Patch a whiteboard shape by shape (owner and collaborators)
+   * Sends only the shapes that changed instead of the whole board: upsert
+   * adds or replaces shapes by id, delete removes them. The patch is
+   * appended to the operation log, so connections in the room get it as
+   * draw_update events and the next autosave or checkpoint includes it
+   * Other board fields (such as background) still need a full save
+   * Patches are not part of the undo history, so undo doesn't revert them
+   *
+   * Concurrency:
+   * - If-Match must be the ETag of the head the client loaded (or *)
+   * - baseSequence is the last operation sequence the client has applied
+   * - If the head was replaced since, the patch is rejected with 409
+   * - If operations since baseSequence wrote to any of the patched shapes,
+   *   the patch is rejected with 409, the conflicting shape ids and their
+   *   current values; nothing of it is applied
+   * - Shapes another user has locked are rejected with 423
+   *
+   * Requires authentication and edit permission (owner or editor)
+   * @param whiteboardId - Whiteboard ID (must be a valid UUID)
+   * @param patchSnapshotDto - Shapes to upsert and delete, and the base sequence
+   * @param ifMatch - ETag of the head the patch was made against
+   * @param user - Current authenticated user (from JWT token)
+   * @param res - Express response object for setting status codes
+   * @returns Sequence of the board after the patch, with the head's ETag
+   */
+  @Patch()
+  @UseFilters(ValidationExceptionFilter)
+  async patchSnapshot(
+    @Param('whiteboardId', ParseUUIDPipe) whiteboardId: string,
+    @Body(ValidationPipe) patchSnapshotDto: PatchSnapshotDto,
+    @Headers('if-match') ifMatch: string | undefined,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const whiteboard = await this.whiteboardsService.findByIdWithAccess(
+        whiteboardId,
+        user,
+      );
+
+      // Read-only collaborators can open the board but not change it
+      const role = await this.whiteboardsService.getRole(whiteboard, user);
+      if (!canEdit(role)) {
+        throw new ForbiddenException(
+          'Your role on this whiteboard does not allow saving snapshots',
+        );
+      }
+
+      // A patch is only meaningful against a known copy of the board
+      if (!ifMatch) {
+        res.status(HttpStatus.PRECONDITION_REQUIRED);
+        return {
+          success: false,
+          statusCode: HttpStatus.PRECONDITION_REQUIRED,
+          message: 'If-Match is required to patch a whiteboard',
+          data: null,
+        };
+      }
+
+      const base = parseIfMatch(ifMatch);
+      if (!base) {
+        throw new BadRequestException(
+          'If-Match must be the ETag of a version, e.g. "12.3"',
+        );
+      }
+
+      const upsert = patchSnapshotDto.upsert ?? [];
+      const deleted = patchSnapshotDto.delete ?? [];
+      if (upsert.length === 0 && deleted.length === 0) {
+        throw new BadRequestException(
+          'A patch must upsert or delete at least one shape',
+        );
+      }
+
+      // Strokes may omit their id in a full save, but a patch matches by id
+      if (upsert.some((shape) => shape.id === undefined)) {
+        throw new BadRequestException('Every upserted shape needs an ID');
+      }
+
+      const shapeIds = [...upsert.map((shape) => shape.id), ...deleted];
+      if (new Set(shapeIds).size !== shapeIds.length) {
+        throw new BadRequestException(
+          'A patch can write to each shape only once',
+        );
+      }
+
+      // Shapes were checked against the shape schema by the validation pipe
+      const result = await this.snapshotsService.patchSnapshot(
+        whiteboard,
+        { upsert: upsert.map((shape) => ({ ...shape })), delete: deleted },
+        user,
+        {
+          revision: base === '*' ? null : base,
+          sequence: patchSnapshotDto.baseSequence,
+        },
+      );
+
+      if (result.status === 'conflict') {
+        const { head, sequence, conflicts, shapes } = result;
+        res.status(HttpStatus.CONFLICT);
+        return {
+          success: false,
+          statusCode: HttpStatus.CONFLICT,
+          message:
+            conflicts.length > 0
+              ? 'Some of the patched shapes were changed since your version'
+              : 'The whiteboard was saved since your version',
+          data: {
+            etag: head ? formatSnapshotETag(head) : null,
+            sequence,
+            conflicts,
+            shapes,
+          },
+        };
+      }
+
+      if (result.status === 'locked') {
+        res.status(HttpStatus.LOCKED);
+        return {
+          success: false,
+          statusCode: HttpStatus.LOCKED,
+          message: 'Some of the patched shapes are locked by another user',
+          data: {
+            locks: result.locks.map((lock) => ({
+              shapeId: lock.shapeId,
+              userId: lock.userId,
+              expiresAt: lock.expiresAt,
+            })),
+          },
+        };
+      }
+
+      const { head, operations } = result;
+      const etag = head ? formatSnapshotETag(head) : null;
+      if (etag) {
+        res.setHeader('ETag', etag);
+      }
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Snapshot patched successfully',
+        data: {
+          etag,
+          sequence: operations[operations.length - 1].sequence,
+          operations: operations.length,
+        },
+      };
+    } catch (error) {
+      // Handle different error types and set appropriate HTTP status codes
+      if (error instanceof BadRequestException) {
+        res.status(HttpStatus.BAD_REQUEST);
+        return {
+          success: false,
+          statusCode: HttpStatus.BAD_REQUEST,
+          message: error.message || 'Invalid patch',
+          data: null,
+        };
+      }
+
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to save snapshots for this whiteboard',
+          data: null,
+        };
+      }
+
+      // Handle other errors (database errors, etc.)
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to patch snapshot',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * List the versions of a whiteboard, newest first, without their data
+   * Requires authentication and access to the whiteboard
+   * @param whiteboardId - Whiteboard ID (must be a valid UUID)
+   * @param user - Current authenticated user (from JWT token)
+   * @param res - Express response object for setting status codes
+   * @returns Version timeline
+   */
+  @Get('versions')
+  async listVersions(
+    @Param('whiteboardId', ParseUUIDPipe) whiteboardId: string,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      await this.whiteboardsService.findByIdWithAccess(whiteboardId, user);
+
+      const versions = await this.snapshotsService.findVersions(whiteboardId);
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Versions retrieved successfully',
+        data: versions.map((version) => this.toVersionResponse(version)),
+      };
+    } catch (error) {
+      // Handle different error types and set appropriate HTTP status codes
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to access this whiteboard',
+          data: null,
+        };
+      }
+
+      // Handle other errors (database errors, etc.)
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to retrieve versions',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Get one version of a whiteboard with its data
+   * Requires authentication and access to the whiteboard
+   * @param whiteboardId - Whiteboard ID (must be a valid UUID)
+   * @param version - Version number
+   * @param user - Current authenticated user (from JWT token)
+   * @param res - Express response object for setting status codes
+   * @returns Version information and board data
+   */
+  @Get('versions/:version')
+  async getVersion(
+    @Param('whiteboardId', ParseUUIDPipe) whiteboardId: string,
+    @Param('version', ParseIntPipe) version: number,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      await this.whiteboardsService.findByIdWithAccess(whiteboardId, user);
+
+      const snapshot = await this.snapshotsService.findVersion(
+        whiteboardId,
+        version,
+      );
+      res.setHeader('ETag', formatSnapshotETag(snapshot));
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Version retrieved successfully',
+        data: {
+          ...this.toVersionResponse(snapshot),
+          data: snapshot.data,
+        },
+      };
+    } catch (error) {
+      // Handle different error types and set appropriate HTTP status codes
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard or version not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to access this whiteboard',
+          data: null,
+        };
+      }
+
+      // Handle other errors (database errors, etc.)
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to retrieve version',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Compare two versions of a whiteboard shape by shape
+   * Lists the shapes added, removed and modified (with each changed property)
+   * from the older version to the newer one, and who changed them where the
+   * versions record it
+   * Requires authentication and access to the whiteboard
+   * @param whiteboardId - Whiteboard ID (must be a valid UUID)
+   * @param version - Number of one version
+   * @param otherVersion - Number of the other version
+   * @param user - Current authenticated user (from JWT token)
+   * @param res - Express response object for setting status codes
+   * @returns Both versions and the shapes that differ
+   */
+  @Get('versions/:version/diff/:otherVersion')
+  async diffVersions(
+    @Param('whiteboardId', ParseUUIDPipe) whiteboardId: string,
+    @Param('version', ParseIntPipe) version: number,
+    @Param('otherVersion', ParseIntPipe) otherVersion: number,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      await this.whiteboardsService.findByIdWithAccess(whiteboardId, user);
+
+      const versionDiff = await this.snapshotsService.diffVersions(
+        whiteboardId,
+        version,
+        otherVersion,
+      );
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Versions compared successfully',
+        data: this.toDiffResponse(versionDiff),
+      };
+    } catch (error) {
+      // Handle different error types and set appropriate HTTP status codes
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard or version not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to access this whiteboard',
+          data: null,
+        };
+      }
+
+      // Handle other errors (database errors, etc.)
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to compare versions',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Save the current board state as a named checkpoint (owner and editors)
+   * Checkpoints are never replaced by autosaves, and are pinned (kept by
+   * retention) unless pinned is false
+   * Requires authentication and edit permission (owner or editor)
+   * @param whiteboardId - Whiteboard ID (must be a valid UUID)
+   * @param createCheckpointDto - Checkpoint name
+   * @param user - Current authenticated user (from JWT token)
+   * @param res - Express response object for setting status codes
+   * @returns Created version information
+   */
+  @Post('checkpoints')
+  @HttpCode(HttpStatus.CREATED)
+  async createCheckpoint(
+    @Param('whiteboardId', ParseUUIDPipe) whiteboardId: string,
+    @Body(ValidationPipe) createCheckpointDto: CreateCheckpointDto,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const whiteboard = await this.whiteboardsService.findByIdWithAccess(
+        whiteboardId,
+        user,
+      );
+
+      // Read-only collaborators can open the board but not change it
+      const role = await this.whiteboardsService.getRole(whiteboard, user);
+      if (!canEdit(role)) {
+        throw new ForbiddenException(
+          'Your role on this whiteboard does not allow creating checkpoints',
+        );
+      }
+
+      const snapshot = await this.snapshotsService.createCheckpoint(
+        whiteboard,
+        createCheckpointDto.name,
+        user,
+        createCheckpointDto.pinned ?? true,
+      );
+
+      return {
+        success: true,
+        statusCode: HttpStatus.CREATED,
+        message: 'Checkpoint created successfully',
+        data: this.toVersionResponse(snapshot),
+      };
+    } catch (error) {
+      // Handle different error types and set appropriate HTTP status codes
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to create checkpoints on this whiteboard',
+          data: null,
+        };
+      }
+
+      // Handle other errors (database errors, etc.)
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to create checkpoint',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Restore a whiteboard to an earlier version (owner and editors)
+   * The version's data becomes a new head version; everyone in the room
+   * gets the restored board (board_restored)
+   * Requires authentication and edit permission (owner or editor)
+   * @param whiteboardId - Whiteboard ID (must be a valid UUID)
+   * @param version - Number of the version to restore
+   * @param user - Current authenticated user (from JWT token)
+   * @param res - Express response object for setting status codes
+   * @returns The new head version
+   */
+  @Post('versions/:version/restore')
+  @HttpCode(HttpStatus.OK)
+  async restoreVersion(
+    @Param('whiteboardId', ParseUUIDPipe) whiteboardId: string,
+    @Param('version', ParseIntPipe) version: number,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const whiteboard = await this.whiteboardsService.findByIdWithAccess(
+        whiteboardId,
+        user,
+      );
+
+      // Read-only collaborators can open the board but not change it
+      const role = await this.whiteboardsService.getRole(whiteboard, user);
+      if (!canEdit(role)) {
+        throw new ForbiddenException(
+          'Your role on this whiteboard does not allow restoring versions',
+        );
+      }
+
+      const snapshot = await this.snapshotsService.restoreVersion(
+        whiteboard,
+        version,
+        user,
+      );
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: `Whiteboard restored to version ${version}`,
+        data: this.toVersionResponse(snapshot),
+      };
+    } catch (error) {
+      // Handle different error types and set appropriate HTTP status codes
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard or version not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to restore versions of this whiteboard',
+          data: null,
+        };
+      }
+
+      // Handle other errors (database errors, etc.)
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to restore version',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Pin or unpin a version (owner and editors)
+   * Pinned versions are never deleted by the retention job
+   * Requires authentication and edit permission (owner or editor)
+   * @param whiteboardId - Whiteboard ID (must be a valid UUID)
+   * @param version - Version number
+   * @param pinVersionDto - New pinned state
+   * @param user - Current authenticated user (from JWT token)
+   * @param res - Express response object for setting status codes
+   * @returns Updated version information
+   */
+  @Patch('versions/:version')
+  async pinVersion(
+    @Param('whiteboardId', ParseUUIDPipe) whiteboardId: string,
+    @Param('version', ParseIntPipe) version: number,
+    @Body(ValidationPipe) pinVersionDto: PinVersionDto,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const whiteboard = await this.whiteboardsService.findByIdWithAccess(
+        whiteboardId,
+        user,
+      );
+
+      // Read-only collaborators can open the board but not change it
+      const role = await this.whiteboardsService.getRole(whiteboard, user);
+      if (!canEdit(role)) {
+        throw new ForbiddenException(
+          'Your role on this whiteboard does not allow pinning versions',
+        );
+      }
+
+      const snapshot = await this.snapshotsService.setPinned(
+        whiteboardId,
+        version,
+        pinVersionDto.pinned,
+      );
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: pinVersionDto.pinned
+          ? 'Version pinned successfully'
+          : 'Version unpinned successfully',
+        data: this.toVersionResponse(snapshot),
+      };
+    } catch (error) {
+      // Handle different error types and set appropriate HTTP status codes
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard or version not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to pin versions of this whiteboard',
+          data: null,
+        };
+      }
+
+      // Handle other errors (database errors, etc.)
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to update version',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Get the retention policy of a whiteboard and what it would delete now
+   * The policy is the global one with the board's own settings (override)
+   * applied; nothing is deleted by this route
+   * Requires authentication and access to the whiteboard
+   * @param whiteboardId - Whiteboard ID (must be a valid UUID)
+   * @param user - Current authenticated user (from JWT token)
+   * @param res - Express response object for setting status codes
+   * @returns Effective policy, the board's settings and a dry-run report
+   */
+  @Get('retention')
+  async getRetention(
+    @Param('whiteboardId', ParseUUIDPipe) whiteboardId: string,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const whiteboard = await this.whiteboardsService.findByIdWithAccess(
+        whiteboardId,
+        user,
+      );
+
+      const report = await this.retentionService.previewWhiteboard(whiteboard);
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Retention policy retrieved successfully',
+        data: this.toRetentionResponse(whiteboard, report),
+      };
+    } catch (error) {
+      // Handle different error types and set appropriate HTTP status codes
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to access this whiteboard',
+          data: null,
+        };
+      }
+
+      // Handle other errors (database errors, etc.)
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to retrieve retention policy',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Replace the retention settings of a whiteboard (owner only)
+   * Fields left out follow the global policy; an empty body drops the
+   * board's own settings. The response previews what the new policy would
+   * delete on the next run
+   * Requires authentication and ownership
+   * @param whiteboardId - Whiteboard ID (must be a valid UUID)
+   * @param updateRetentionPolicyDto - Board's own retention settings
+   * @param user - Current authenticated user (from JWT token)
+   * @param res - Express response object for setting status codes
+   * @returns Effective policy, the board's settings and a dry-run report
+   */
+  @Put('retention')
+  async updateRetention(
+    @Param('whiteboardId', ParseUUIDPipe) whiteboardId: string,
+    @Body(ValidationPipe) updateRetentionPolicyDto: UpdateRetentionPolicyDto,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const whiteboard = await this.whiteboardsService.findByIdWithAccess(
+        whiteboardId,
+        user,
+      );
+
+      const role = await this.whiteboardsService.getRole(whiteboard, user);
+      if (role !== 'owner') {
+        throw new ForbiddenException(
+          'Only the owner can change the retention policy',
+        );
+      }
+
+      // Only the known settings are stored; fields left out are dropped
+      const { keepAllHours, hourlyDays, dailyDays, weeklyWeeks, maxVersions } =
+        updateRetentionPolicyDto;
+      const override: RetentionPolicyOverride = {
+        keepAllHours,
+        hourlyDays,
+        dailyDays,
+        weeklyWeeks,
+        maxVersions,
+      };
+      const hasSettings = Object.values(override).some(
+        (value) => value !== undefined,
+      );
+
+      await this.retentionService.updatePolicy(
+        whiteboard,
+        hasSettings ? override : null,
+      );
+      const report = await this.retentionService.previewWhiteboard(whiteboard);
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Retention policy updated successfully',
+        data: this.toRetentionResponse(whiteboard, report),
+      };
+    } catch (error) {
+      // Handle different error types and set appropriate HTTP status codes
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message || 'Only the owner can change the retention policy',
+          data: null,
+        };
+      }
+
+      // Handle other errors (database errors, etc.)
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to update retention policy',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Map a version diff to its API representation
+   * changedBy names the user, or is null when the versions don't record who
+   * made the change
+   */
+  private toDiffResponse({ from, to, diff, actors }: VersionDiff) {
+    const toActor = (actorId: string | null) => {
+      const actor = actorId ? actors.get(actorId) : undefined;
+      return actor ? { id: actor.id, fullName: actor.fullName } : null;
+    };
+
+    return {
+      from: this.toVersionResponse(from),
+      to: this.toVersionResponse(to),
+      added: diff.added.map(({ shape, changedBy }) => ({
+        shape,
+        changedBy: toActor(changedBy),
+      })),
+      removed: diff.removed.map(({ shape, changedBy }) => ({
+        shape,
+        changedBy: toActor(changedBy),
+      })),
+      modified: diff.modified.map(({ changedBy, ...modified }) => ({
+        ...modified,
+        changedBy: toActor(changedBy),
+      })),
+    };
+  }
+
+  /**
+   * Map a retention report to its API representation
+   * pendingDeletions lists the versions the next run would delete, newest
+   * first; pendingCompaction the sequence it would compact the log up to
+   */
+  private toRetentionResponse(whiteboard: Whiteboard, report: RetentionReport) {
+    return {
+      policy: report.policy,
+      override: whiteboard.retentionPolicy,
+      versionCount: report.versionCount,
+      pendingDeletions: report.deletions.map(({ candidate, reason }) => ({
+        id: candidate.id,
+        version: candidate.version,
+        savedAt: candidate.savedAt,
+        reason,
+      })),
+      compactedSequence: whiteboard.compactedSequence,
+      pendingCompaction: report.compactThrough,
+    };
+  }
+
+  /**
+   * Map a version to its API representation, without its data
+   */
+  private toVersionResponse(snapshot: WhiteboardSnapshot) {
+    return {
+      id: snapshot.id,
+      version: snapshot.version,
+      revision: snapshot.revision,
+      etag: formatSnapshotETag(snapshot),
+      kind: snapshot.kind,
+      name: snapshot.name,
+      pinned: snapshot.pinned,
+      createdBy: snapshot.createdBy
+        ? {
+            id: snapshot.createdBy.id,
+            email: snapshot.createdBy.email,
+            fullName: snapshot.createdBy.fullName,
+          }
+        : null,
+      restoredFromVersion: snapshot.restoredFromVersion,
+      sequence: snapshot.sequence,
+      createdAt: snapshot.createdAt,
+      updatedAt: snapshot.updatedAt,
+    };
+  }
+}
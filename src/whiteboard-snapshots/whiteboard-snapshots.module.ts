@@ -1,18 +1,27 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { WhiteboardSnapshotsService } from './whiteboard-snapshots.service';
+import { SnapshotRetentionService } from './snapshot-retention.service';
 import { WhiteboardSnapshotsController } from './whiteboard-snapshots.controller';
 import { WhiteboardSnapshot } from './entities/whiteboard-snapshot.entity';
 import { WhiteboardsModule } from '../whiteboards/whiteboards.module';
+import { WhiteboardOperationsModule } from '../whiteboard-operations/whiteboard-operations.module';
+import { PubSubModule } from '../pubsub/pubsub.module';
+import { UsersModule } from '../users/users.module';
+import { ShapeLocksModule } from '../shape-locks/shape-locks.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([WhiteboardSnapshot]),
     forwardRef(() => WhiteboardsModule),
+    forwardRef(() => WhiteboardOperationsModule),
+    PubSubModule,
+    UsersModule,
+    ShapeLocksModule,
   ],
   controllers: [WhiteboardSnapshotsController],
-  providers: [WhiteboardSnapshotsService],
-  exports: [WhiteboardSnapshotsService],
+  providers: [WhiteboardSnapshotsService, SnapshotRetentionService],
+  exports: [WhiteboardSnapshotsService, SnapshotRetentionService],
 })
 export class WhiteboardSnapshotsModule {}
 
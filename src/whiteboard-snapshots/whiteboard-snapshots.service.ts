@@ -1,139 +1,899 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  forwardRef,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { WhiteboardSnapshot } from './entities/whiteboard-snapshot.entity';
+import {
+  Between,
+  EntityManager,
+  FindOptionsSelect,
+  MoreThan,
+  Repository,
+} from 'typeorm';
+import { isUUID } from 'class-validator';
+import {
+  SnapshotKind,
+  WhiteboardSnapshot,
+} from './entities/whiteboard-snapshot.entity';
 import { Whiteboard } from '../whiteboards/entities/whiteboard.entity';
+import { User } from '../users/entities/user.entity';
+import { UsersService } from '../users/users.service';
+import {
+  MAX_CLOCK_DRIFT,
+  WhiteboardOperationsService,
+} from '../whiteboard-operations/whiteboard-operations.service';
+import { WhiteboardOperation } from '../whiteboard-operations/entities/whiteboard-operation.entity';
+import {
+  BoardStateService,
+  toBoardOperation,
+} from '../whiteboard-operations/board-state.service';
+import {
+  BoardDocument,
+  BoardShape,
+  RESTORE_UPDATE_TYPE,
+  getHighestClock,
+  replayOperations,
+} from '../whiteboard-operations/board-state.reducer';
+import { ShapeLocksService } from '../shape-locks/shape-locks.service';
+import { WhiteboardShapeLock } from '../shape-locks/entities/whiteboard-shape-lock.entity';
+import { PubSubBroker } from '../pubsub/pubsub-broker';
+import {
+  WHITEBOARD_VERSION_CHANNEL,
+  WhiteboardVersionEvent,
+} from './whiteboard-version-events';
+import { SnapshotDiff, diffSnapshots, getDiffActors } from './snapshot-diff';
+import { mergeSnapshots } from './snapshot-merge';
+import { SnapshotRevision, isSameRevision } from './snapshot-etag';
+import {
+  SnapshotDelta,
+  findDeltaConflicts,
+  getDeltaShapeIds,
+  toDeltaOperations,
+} from './snapshot-delta';
 
+// An autosave replaces the head autosave of the same user while the head is
+// younger than this; after that it starts a new version
+export const AUTOSAVE_VERSION_INTERVAL_MS = 5 * 60 * 1000;
+
+// Columns of a version without its data, for listings
+const VERSION_METADATA_COLUMNS: FindOptionsSelect<WhiteboardSnapshot> = {
+  id: true,
+  version: true,
+  revision: true,
+  kind: true,
+  name: true,
+  createdById: true,
+  createdBy: { id: true, email: true, fullName: true },
+  pinned: true,
+  restoredFromVersion: true,
+  sequence: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+/**
+ * Fields of a new version besides its data
+ */
+export interface NewVersionOptions {
+  kind?: SnapshotKind;
+  name?: string | null;
+  createdBy?: User | null;
+  pinned?: boolean;
+  restoredFromVersion?: number | null;
+}
+
+/**
+ * Conditions of an autosave
+ */
+export interface SaveSnapshotOptions {
+  // Version the data is based on (from If-Match); the save is unconditional without it
+  base?: SnapshotRevision | null;
+  // Merge with a head saved since the base instead of rejecting the save
+  merge?: boolean;
+}
+
+/**
+ * Outcome of an autosave
+ * A save whose base is no longer the head is a conflict unless it could be
+ * merged; current is the head it would have overwritten
+ */
+export type SnapshotSaveResult =
+  | { status: 'saved' | 'merged'; snapshot: WhiteboardSnapshot }
+  | {
+      status: 'conflict';
+      current: WhiteboardSnapshot | null;
+      // Last operation sequence of the board
+      sequence: number;
+      conflicts: string[];
+    };
+
+/**
+ * Copy of the board a patch was made against
+ */
+export interface PatchBase {
+  // Head version the copy was loaded from (from If-Match); any head without it
+  revision: SnapshotRevision | null;
+  // Last operation sequence the copy includes
+  sequence: number;
+}
+
+/**
+ * Outcome of a patch
+ * A patch is a conflict if the head was replaced since its base, or if
+ * operations since its base wrote to its shapes (conflicts lists them, and
+ * shapes holds their current values); locked if another connection holds a
+ * lock on one of its shapes
+ */
+export type SnapshotPatchResult =
+  | {
+      status: 'patched';
+      head: WhiteboardSnapshot | null;
+      operations: WhiteboardOperation[];
+    }
+  | {
+      status: 'conflict';
+      head: WhiteboardSnapshot | null;
+      sequence: number;
+      conflicts: string[];
+      shapes: BoardShape[];
+    }
+  | { status: 'locked'; locks: WhiteboardShapeLock[] };
+
+/**
+ * Differences between two versions of a board, with the users they are
+ * attributed to
+ */
+export interface VersionDiff {
+  from: WhiteboardSnapshot;
+  to: WhiteboardSnapshot;
+  diff: SnapshotDiff;
+  actors: Map<string, User>;
+}
+
+/**
+ * Whiteboard Snapshots Service
+ * Keeps the version timeline of every whiteboard
+ *
+ * Versions are numbered per board and never change once sealed: the head
+ * autosave stays open for AUTOSAVE_VERSION_INTERVAL_MS so frequent autosaves
+ * don't flood the timeline, checkpoints and restores are sealed right away.
+ * The board state is built on the newest version (see BoardStateService).
+ */
 @Injectable()
 export class WhiteboardSnapshotsService {
+  private readonly logger = new Logger(WhiteboardSnapshotsService.name);
+
   constructor(
     @InjectRepository(WhiteboardSnapshot)
     private readonly snapshotRepository: Repository<WhiteboardSnapshot>,
+    @Inject(forwardRef(() => WhiteboardOperationsService))
+    private readonly operationsService: WhiteboardOperationsService,
+    @Inject(forwardRef(() => BoardStateService))
+    private readonly boardStateService: BoardStateService,
+    private readonly pubSubBroker: PubSubBroker,
+    private readonly usersService: UsersService,
+    private readonly shapeLocksService: ShapeLocksService,
   ) {}
 
   /**
-   * Create a new snapshot for a whiteboard
+   * Add a new version to a whiteboard's timeline
    * @param whiteboard - Whiteboard entity
    * @param data - Snapshot data (shapes, drawings, etc.)
+   * @param options - Kind, name and author of the version (an unnamed autosave by default)
    * @returns Created snapshot entity
    */
   async createSnapshot(
     whiteboard: Whiteboard,
     data: Record<string, unknown>,
+    options: NewVersionOptions = {},
   ): Promise<WhiteboardSnapshot> {
-    const snapshot = this.snapshotRepository.create({
+    return await this.appendVersion(
       whiteboard,
       data,
+      whiteboard.lastOperationSequence ?? 0,
+      options,
+    );
+  }
+
+  /**
+   * Get the ID, sequence and update time of the latest snapshot, without its data
+   * Cheap check of whether a cached board state is still based on it
+   * @param whiteboardId - Whiteboard ID
+   * @returns Latest snapshot entity (data not loaded) or null
+   */
+  async findLatestMetadataByWhiteboardId(
+    whiteboardId: string,
+  ): Promise<WhiteboardSnapshot | null> {
+    return await this.snapshotRepository.findOne({
+      where: { whiteboard: { id: whiteboardId } },
+      select: [
+        'id',
+        'version',
+        'revision',
+        'sequence',
+        'createdAt',
+        'updatedAt',
+      ],
+      order: { version: 'DESC' },
     });
+  }
 
-    return await this.snapshotRepository.save(snapshot);
+  /**
+   * Get all snapshots for a whiteboard
+   * @param whiteboardId - Whiteboard ID
+   * @returns Array of snapshot entities
+   */
+  async findByWhiteboardId(
+    whiteboardId: string,
+  ): Promise<WhiteboardSnapshot[]> {
+    return await this.snapshotRepository.find({
+      where: { whiteboard: { id: whiteboardId } },
+      order: { version: 'ASC' },
+    });
   }
 
   /**
-   * Update an existing snapshot
-   * @param snapshotId - Snapshot ID
-   * @param whiteboardId - Whiteboard ID to verify ownership
-   * @param data - Updated snapshot data
-   * @returns Updated snapshot entity
+   * Get latest snapshot for a whiteboard
+   * @param whiteboardId - Whiteboard ID
+   * @returns Latest snapshot entity or null
    */
-  async updateSnapshot(
-    snapshotId: string,
+  async findLatestByWhiteboardId(
     whiteboardId: string,
-    data: Record<string, unknown>,
+  ): Promise<WhiteboardSnapshot | null> {
+    return await this.snapshotRepository.findOne({
+      where: { whiteboard: { id: whiteboardId } },
+      order: { version: 'DESC' },
+    });
+  }
+
+  /**
+   * List the versions of a whiteboard without their data, newest first
+   * @param whiteboardId - Whiteboard ID
+   * @returns Array of snapshot entities (data not loaded) with createdBy relation
+   */
+  async findVersions(whiteboardId: string): Promise<WhiteboardSnapshot[]> {
+    return await this.snapshotRepository.find({
+      where: { whiteboard: { id: whiteboardId } },
+      select: VERSION_METADATA_COLUMNS,
+      relations: ['createdBy'],
+      order: { version: 'DESC' },
+    });
+  }
+
+  /**
+   * Get one version of a whiteboard with its data
+   * @param whiteboardId - Whiteboard ID
+   * @param version - Version number
+   * @returns Snapshot entity with createdBy relation
+   * @throws NotFoundException if the board has no such version
+   */
+  async findVersion(
+    whiteboardId: string,
+    version: number,
   ): Promise<WhiteboardSnapshot> {
     const snapshot = await this.snapshotRepository.findOne({
-      where: { 
-        id: snapshotId,
-        whiteboard: { id: whiteboardId },
-      },
-      relations: ['whiteboard'],
+      where: { whiteboard: { id: whiteboardId }, version },
+      relations: ['createdBy'],
     });
 
     if (!snapshot) {
-      throw new NotFoundException(
-        'Snapshot not found or does not belong to this whiteboard',
-      );
+      throw new NotFoundException(`Version ${version} not found`);
     }
 
-    snapshot.data = data;
-    return await this.snapshotRepository.save(snapshot);
+    return snapshot;
+  }
+
+  /**
+   * Compare two versions of a whiteboard shape by shape
+   * The versions may be given in either order; the diff always goes from
+   * the older to the newer one
+   * @param whiteboardId - Whiteboard ID
+   * @param version - Number of one version
+   * @param otherVersion - Number of the other version
+   * @returns Both versions, their diff and the users it names
+   * @throws NotFoundException if the board lacks either version
+   */
+  async diffVersions(
+    whiteboardId: string,
+    version: number,
+    otherVersion: number,
+  ): Promise<VersionDiff> {
+    const [from, to] = await Promise.all([
+      this.findVersion(whiteboardId, Math.min(version, otherVersion)),
+      this.findVersion(whiteboardId, Math.max(version, otherVersion)),
+    ]);
+
+    const diff = diffSnapshots(from.data, to.data);
+
+    // Actors come from CRDT metadata, which clients can also send; ids that
+    // aren't users (any more) are left unresolved
+    const users = await this.usersService.findByIds(
+      getDiffActors(diff).filter((actor) => isUUID(actor)),
+    );
+
+    return {
+      from,
+      to,
+      diff,
+      actors: new Map(users.map((user) => [user.id, user])),
+    };
   }
 
   /**
-   * Save or update snapshot for a whiteboard
-   * If snapshotId is provided and not empty, update existing snapshot
-   * Otherwise, create a new snapshot
+   * Save the current board state as a named checkpoint
+   * The state includes the operations appended since the last save
    * @param whiteboard - Whiteboard entity
-   * @param data - Snapshot data
-   * @param snapshotId - Optional snapshot ID to update
-   * @returns Saved snapshot entity
+   * @param name - Checkpoint name
+   * @param user - User naming the checkpoint
+   * @param pinned - Keep the checkpoint out of retention (default: true)
+   * @returns Created snapshot entity
    */
-  async saveOrUpdateSnapshot(
+  async createCheckpoint(
     whiteboard: Whiteboard,
-    data: Record<string, unknown>,
-    snapshotId?: string,
+    name: string,
+    user: User,
+    pinned = true,
   ): Promise<WhiteboardSnapshot> {
-    // Only update if snapshotId is provided and not empty
-    if (snapshotId && snapshotId.trim().length > 0) {
-      // Update existing snapshot - verify it belongs to this whiteboard
-      return await this.updateSnapshot(snapshotId.trim(), whiteboard.id, data);
-    }
+    const state = await this.boardStateService.getCurrentState(whiteboard.id);
 
-    // Create new snapshot
-    return await this.createSnapshot(whiteboard, data);
+    return await this.appendVersion(
+      whiteboard,
+      { ...state.document },
+      state.sequence,
+      { kind: 'checkpoint', name: name.trim(), createdBy: user, pinned },
+    );
   }
 
   /**
-   * Get all snapshots for a whiteboard
+   * Pin or unpin a version
+   * Pinned versions are never deleted by the retention job
    * @param whiteboardId - Whiteboard ID
-   * @returns Array of snapshot entities
+   * @param version - Version number
+   * @param pinned - New pinned state
+   * @returns Updated snapshot entity (data not loaded) with createdBy relation
+   * @throws NotFoundException if the board has no such version
    */
-  async findByWhiteboardId(
+  async setPinned(
     whiteboardId: string,
-  ): Promise<WhiteboardSnapshot[]> {
-    return await this.snapshotRepository.find({
-      where: { whiteboard: { id: whiteboardId } },
-      order: { createdAt: 'ASC' },
+    version: number,
+    pinned: boolean,
+  ): Promise<WhiteboardSnapshot> {
+    const snapshot = await this.snapshotRepository.findOne({
+      where: { whiteboard: { id: whiteboardId }, version },
+      select: VERSION_METADATA_COLUMNS,
+      relations: ['createdBy'],
     });
+
+    if (!snapshot) {
+      throw new NotFoundException(`Version ${version} not found`);
+    }
+
+    if (snapshot.pinned !== pinned) {
+      await this.snapshotRepository.update(snapshot.id, { pinned });
+      snapshot.pinned = pinned;
+    }
+
+    return snapshot;
   }
 
   /**
-   * Get latest snapshot for a whiteboard
-   * @param whiteboardId - Whiteboard ID
-   * @returns Latest snapshot entity or null
+   * Restore a whiteboard to an earlier version
+   * The version's data becomes a new head version, so nothing in the
+   * timeline is lost. A restore marker is appended to the operation log
+   * with it, in one transaction: operations before it are superseded,
+   * clients resuming from before it get a full resync and saves based on
+   * them are rejected. Connections in the room get the restored state right
+   * away
+   * @param whiteboard - Whiteboard entity
+   * @param version - Number of the version to restore
+   * @param user - User restoring the board
+   * @returns Created snapshot entity (the new head)
+   * @throws NotFoundException if the board has no such version
    */
-  async findLatestByWhiteboardId(
-    whiteboardId: string,
-  ): Promise<WhiteboardSnapshot | null> {
-    return await this.snapshotRepository.findOne({
-      where: { whiteboard: { id: whiteboardId } },
-      order: { createdAt: 'DESC' },
+  async restoreVersion(
+    whiteboard: Whiteboard,
+    version: number,
+    user: User,
+  ): Promise<WhiteboardSnapshot> {
+    const target = await this.findVersion(whiteboard.id, version);
+
+    const restored = await this.snapshotRepository.manager.transaction(
+      async (manager) => {
+        // Row-level lock on the whiteboard: saves wait for the restore, so
+        // they see its marker
+        const locked = await manager
+          .createQueryBuilder(Whiteboard, 'whiteboard')
+          .setLock('pessimistic_write')
+          .where('whiteboard.id = :whiteboardId', {
+            whiteboardId: whiteboard.id,
+          })
+          .getOne();
+
+        if (!locked) {
+          throw new NotFoundException('Whiteboard not found');
+        }
+
+        const [marker] = await this.operationsService.appendMany(
+          whiteboard.id,
+          user.id,
+          [
+            {
+              updateType: RESTORE_UPDATE_TYPE,
+              data: { version: target.version },
+            },
+          ],
+          manager,
+        );
+
+        return await this.insertVersion(
+          manager,
+          whiteboard,
+          target.data,
+          marker.sequence,
+          {
+            kind: 'restore',
+            createdBy: user,
+            restoredFromVersion: target.version,
+          },
+        );
+      },
+    );
+
+    await this.publishVersionEvent({
+      type: 'restored',
+      whiteboardId: whiteboard.id,
+      userId: user.id,
+      version: restored.version,
+      restoredFromVersion: target.version,
     });
+
+    return restored;
   }
 
   /**
-   * Save or update snapshot for a whiteboard
-   * If whiteboard has no snapshots, create a new one
-   * If whiteboard has snapshots, update the latest one (data and updated_at)
+   * Autosave a whiteboard
+   * Replaces the head version while it is an autosave by the same user that
+   * is younger than AUTOSAVE_VERSION_INTERVAL_MS; otherwise starts a new version
+   * A save with a base is rejected if the head has changed since or
+   * operations were appended after its base sequence, or merged by shape id
+   * with the current board (the head plus those operations) if asked to.
+   * The merge needs the base's data, so it only works while the base version
+   * still holds it (an autosave updated since, or a version deleted by
+   * retention, can't be merged with)
+   * Other saves are stamped with the operation sequence the client's data
+   * includes, so operations appended after it (e.g. draw updates the client
+   * hadn't received yet) are replayed on top of it rather than lost.
+   * Saves based on a sequence before the last restore are a conflict either
+   * way: the client has to load the restored board first
    * @param whiteboard - Whiteboard entity
    * @param data - Snapshot data (shapes, drawings, etc.)
-   * @returns Saved or updated snapshot entity
+   * @param baseSequence - Last operation sequence the data includes (the
+   *   board's last sequence if not given, as clients from before the
+   *   operation log don't send it)
+   * @param user - User saving the board
+   * @param options - Version the data is based on and whether to merge
+   * @returns Saved, updated or merged snapshot entity, or the conflict
+   * @throws NotFoundException if whiteboard not found
+   * @throws BadRequestException if the base sequence is ahead of the board,
+   *   or a clock in the data's CRDT metadata is too far ahead of the board clock
    */
   async saveOrUpdateSnapshotForWhiteboard(
     whiteboard: Whiteboard,
     data: Record<string, unknown>,
+    baseSequence: number | undefined,
+    user: User,
+    options: SaveSnapshotOptions = {},
+  ): Promise<SnapshotSaveResult> {
+    return await this.snapshotRepository.manager.transaction(
+      async (manager) => {
+        // Row-level lock on the whiteboard: the head can't change between
+        // the check below and the write
+        const locked = await manager
+          .createQueryBuilder(Whiteboard, 'whiteboard')
+          .setLock('pessimistic_write')
+          .where('whiteboard.id = :whiteboardId', {
+            whiteboardId: whiteboard.id,
+          })
+          .getOne();
+
+        if (!locked) {
+          throw new NotFoundException('Whiteboard not found');
+        }
+
+        const lastSequence = locked.lastOperationSequence ?? 0;
+        baseSequence ??= lastSequence;
+        if (baseSequence > lastSequence) {
+          throw new BadRequestException(
+            `baseSequence is ahead of the whiteboard (last sequence ${lastSequence})`,
+          );
+        }
+
+        // Clients continue counting from the clocks in the saved metadata,
+        // so they are held to the same bound as draw updates and the board
+        // clock catches up with them
+        const clock = getHighestClock(data);
+        if (clock > locked.lamportClock + MAX_CLOCK_DRIFT) {
+          throw new BadRequestException(
+            `Clock is more than ${MAX_CLOCK_DRIFT} ahead of the whiteboard clock`,
+          );
+        }
+        if (clock > locked.lamportClock) {
+          await manager.update(Whiteboard, whiteboard.id, {
+            lamportClock: clock,
+          });
+        }
+
+        const head = await manager.findOne(WhiteboardSnapshot, {
+          where: { whiteboard: { id: whiteboard.id } },
+          order: { version: 'DESC' },
+        });
+
+        // Data from before the last restore would bring back what the
+        // restore replaced
+        const restore = await manager.findOne(WhiteboardOperation, {
+          where: {
+            whiteboardId: whiteboard.id,
+            updateType: RESTORE_UPDATE_TYPE,
+          },
+          select: ['id', 'sequence'],
+          order: { sequence: 'DESC' },
+        });
+
+        // The operations after a compacted base are gone, so they could
+        // neither be replayed on top of the save nor merged with it
+        if (
+          baseSequence < locked.compactedSequence ||
+          (restore && baseSequence < restore.sequence)
+        ) {
+          return {
+            status: 'conflict',
+            current: head,
+            sequence: lastSequence,
+            conflicts: [],
+          };
+        }
+
+        let status: 'saved' | 'merged' = 'saved';
+        let sequence = baseSequence;
+        // The client's copy is current if it is the head with every
+        // operation appended since
+        if (
+          options.base &&
+          !(
+            head &&
+            isSameRevision(options.base, head) &&
+            baseSequence === lastSequence
+          )
+        ) {
+          const base =
+            head && options.merge
+              ? await manager.findOne(WhiteboardSnapshot, {
+                  where: {
+                    whiteboard: { id: whiteboard.id },
+                    version: options.base.version,
+                  },
+                })
+              : null;
+
+          if (!head || !base || !isSameRevision(options.base, base)) {
+            return {
+              status: 'conflict',
+              current: head,
+              sequence: lastSequence,
+              conflicts: [],
+            };
+          }
+
+          // Both sides as documents: the client's base and the current
+          // board, each with the operations it includes
+          const baseDocument = await this.replayRange(
+            manager,
+            whiteboard.id,
+            base.data,
+            base.sequence,
+            baseSequence,
+          );
+          const currentDocument = await this.replayRange(
+            manager,
+            whiteboard.id,
+            head.data,
+            head.sequence,
+            lastSequence,
+          );
+
+          const merged = mergeSnapshots(baseDocument, data, currentDocument);
+          if (!merged.data) {
+            return {
+              status: 'conflict',
+              current: head,
+              sequence: lastSequence,
+              conflicts: merged.conflicts,
+            };
+          }
+
+          data = merged.data;
+          status = 'merged';
+          sequence = lastSequence;
+        }
+
+        if (
+          head &&
+          head.kind === 'autosave' &&
+          head.createdById === user.id &&
+          Date.now() - head.createdAt.getTime() < AUTOSAVE_VERSION_INTERVAL_MS
+        ) {
+          head.data = data;
+          head.sequence = sequence;
+          head.revision += 1;
+          return { status, snapshot: await manager.save(head) };
+        }
+
+        const snapshot = await this.insertVersion(
+          manager,
+          whiteboard,
+          data,
+          sequence,
+          { createdBy: user },
+        );
+        return { status, snapshot };
+      },
+    );
+  }
+
+  /**
+   * Patch a whiteboard shape by shape
+   * The patch is appended to the operation log instead of rewriting the
+   * head version, so it costs as much as the edit. It applies to the head
+   * plus the operations up to its base sequence: it is rejected if the head
+   * was replaced since, or if later operations wrote to any of its shapes,
+   * or if another user holds a lock on one of them.
+   * Connections in the room get the patch as draw_update events. A patch
+   * isn't a step of the user's undo history, so it can't be undone from the
+   * board (restore an earlier version instead)
+   * @param whiteboard - Whiteboard entity
+   * @param delta - Shapes to upsert and delete
+   * @param user - User patching the board
+   * @param base - Copy of the board the patch was made against
+   * @returns Appended operations with the head, or the conflict
+   * @throws NotFoundException if whiteboard not found
+   * @throws BadRequestException if the base sequence is ahead of the board
+   */
+  async patchSnapshot(
+    whiteboard: Whiteboard,
+    delta: SnapshotDelta,
+    user: User,
+    base: PatchBase,
+  ): Promise<SnapshotPatchResult> {
+    const shapeIds = getDeltaShapeIds(delta);
+
+    const result = await this.snapshotRepository.manager.transaction(
+      async (manager): Promise<SnapshotPatchResult> => {
+        // Row-level lock on the whiteboard: nothing can be appended or saved
+        // between the checks below and the append
+        const locked = await manager
+          .createQueryBuilder(Whiteboard, 'whiteboard')
+          .setLock('pessimistic_write')
+          .where('whiteboard.id = :whiteboardId', {
+            whiteboardId: whiteboard.id,
+          })
+          .getOne();
+
+        if (!locked) {
+          throw new NotFoundException('Whiteboard not found');
+        }
+
+        const lastSequence = locked.lastOperationSequence ?? 0;
+        if (base.sequence > lastSequence) {
+          throw new BadRequestException(
+            `baseSequence is ahead of the whiteboard (last sequence ${lastSequence})`,
+          );
+        }
+
+        const head = await manager.findOne(WhiteboardSnapshot, {
+          where: { whiteboard: { id: whiteboard.id } },
+          select: ['id', 'version', 'revision', 'sequence', 'updatedAt'],
+          order: { version: 'DESC' },
+        });
+
+        // Operations after a compacted base are gone and can't be checked
+        if (
+          base.sequence < locked.compactedSequence ||
+          (base.revision && !(head && isSameRevision(base.revision, head)))
+        ) {
+          return {
+            status: 'conflict',
+            head,
+            sequence: lastSequence,
+            conflicts: [],
+            shapes: [],
+          };
+        }
+
+        const operations = await manager.find(WhiteboardOperation, {
+          where: {
+            whiteboardId: whiteboard.id,
+            sequence: MoreThan(base.sequence),
+          },
+          select: ['id', 'updateType', 'data'],
+        });
+
+        const conflicts = findDeltaConflicts(shapeIds, operations);
+        if (conflicts.length > 0) {
+          return {
+            status: 'conflict',
+            head,
+            sequence: lastSequence,
+            conflicts,
+            shapes: [],
+          };
+        }
+
+        const locks = await this.shapeLocksService.findHeldByOthers(
+          whiteboard.id,
+          shapeIds,
+          user.id,
+        );
+        if (locks.length > 0) {
+          return { status: 'locked', locks };
+        }
+
+        return {
+          status: 'patched',
+          head,
+          operations: await this.operationsService.appendMany(
+            whiteboard.id,
+            user.id,
+            toDeltaOperations(delta),
+            manager,
+          ),
+        };
+      },
+    );
+
+    if (result.status === 'conflict' && result.conflicts.length > 0) {
+      // Current values of the conflicting shapes, so the client can rebase
+      const state = await this.boardStateService.getCurrentState(whiteboard.id);
+      const conflicts = new Set(result.conflicts);
+      result.shapes = state.document.shapes.filter((shape) =>
+        conflicts.has(shape.id),
+      );
+    }
+
+    if (result.status === 'patched') {
+      const { operations } = result;
+      await this.publishVersionEvent({
+        type: 'patched',
+        whiteboardId: whiteboard.id,
+        userId: user.id,
+        fromSequence: operations[0].sequence,
+        toSequence: operations[operations.length - 1].sequence,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Replay the operations in a sequence range on top of snapshot data
+   * @param manager - Entity manager of the transaction
+   * @param whiteboardId - Whiteboard ID
+   * @param data - Snapshot data the range starts from
+   * @param afterSequence - Exclusive lower bound (the snapshot's sequence)
+   * @param toSequence - Inclusive upper bound
+   * @returns Board document at toSequence
+   */
+  private async replayRange(
+    manager: EntityManager,
+    whiteboardId: string,
+    data: Record<string, unknown>,
+    afterSequence: number,
+    toSequence: number,
+  ): Promise<BoardDocument> {
+    const operations =
+      toSequence > afterSequence
+        ? await manager.find(WhiteboardOperation, {
+            where: {
+              whiteboardId,
+              sequence: Between(afterSequence + 1, toSequence),
+            },
+            order: { sequence: 'ASC' },
+          })
+        : [];
+
+    return replayOperations(data, operations.map(toBoardOperation));
+  }
+
+  /**
+   * Append a version in its own transaction
+   * @param whiteboard - Whiteboard entity
+   * @param data - Snapshot data
+   * @param sequence - Last operation sequence reflected in the data
+   * @param options - Kind, name and author of the version
+   * @returns Created snapshot entity
+   * @throws NotFoundException if whiteboard not found
+   */
+  private async appendVersion(
+    whiteboard: Whiteboard,
+    data: Record<string, unknown>,
+    sequence: number,
+    options: NewVersionOptions,
   ): Promise<WhiteboardSnapshot> {
-    // Check if whiteboard has any snapshots by getting the latest one
-    const latestSnapshot = await this.findLatestByWhiteboardId(whiteboard.id);
-
-    if (!latestSnapshot) {
-      // No snapshots exist, create a new one
-      return await this.createSnapshot(whiteboard, data);
-    } else {
-      // Snapshots exist, update the latest one
-      latestSnapshot.data = data;
-      return await this.snapshotRepository.save(latestSnapshot);
+    return await this.snapshotRepository.manager.transaction(
+      async (manager) =>
+        await this.insertVersion(manager, whiteboard, data, sequence, options),
+    );
+  }
+
+  /**
+   * Insert a version, numbered from the whiteboard row inside the caller's
+   * transaction so concurrent saves get distinct numbers
+   * @param manager - Entity manager of the transaction
+   * @param whiteboard - Whiteboard entity
+   * @param data - Snapshot data
+   * @param sequence - Last operation sequence reflected in the data
+   * @param options - Kind, name and author of the version
+   * @returns Created snapshot entity
+   * @throws NotFoundException if whiteboard not found
+   */
+  private async insertVersion(
+    manager: EntityManager,
+    whiteboard: Whiteboard,
+    data: Record<string, unknown>,
+    sequence: number,
+    options: NewVersionOptions,
+  ): Promise<WhiteboardSnapshot> {
+    // Row-level lock on the whiteboard serialises concurrent saves
+    const result = await manager
+      .createQueryBuilder()
+      .update(Whiteboard)
+      .set({
+        lastSnapshotVersion: () => '"last_snapshot_version" + 1',
+      })
+      .where('id = :whiteboardId', { whiteboardId: whiteboard.id })
+      .returning(['last_snapshot_version'])
+      .execute();
+
+    const rows = result.raw as Array<{ last_snapshot_version: number }>;
+    if (rows.length === 0) {
+      throw new NotFoundException('Whiteboard not found');
+    }
+
+    const snapshot = manager.create(WhiteboardSnapshot, {
+      whiteboard,
+      version: rows[0].last_snapshot_version,
+      kind: options.kind ?? 'autosave',
+      name: options.name ?? null,
+      createdById: options.createdBy?.id ?? null,
+      pinned: options.pinned ?? false,
+      restoredFromVersion: options.restoredFromVersion ?? null,
+      data,
+      sequence,
+    });
+
+    const saved = await manager.save(snapshot);
+    saved.createdBy = options.createdBy ?? null;
+    return saved;
+  }
+
+  /**
+   * Tell the gateway of every API process about a timeline change or a patch
+   * The change itself is already saved, so a failed publish is not rethrown
+   * (open connections then pick it up when they next resume)
+   * @param event - Version event
+   */
+  private async publishVersionEvent(
+    event: WhiteboardVersionEvent,
+  ): Promise<void> {
+    try {
+      await this.pubSubBroker.publish(WHITEBOARD_VERSION_CHANNEL, event);
+    } catch (error) {
+      this.logger.error(
+        `Failed to publish ${event.type} version event for whiteboard ${event.whiteboardId}: ${error.message}`,
+      );
     }
   }
 }
-
@@ -0,0 +1,32 @@
+// Channel on which version timeline changes and snapshot patches reach the
+// gateway of every API process
+export const WHITEBOARD_VERSION_CHANNEL = 'whiteboard:versions';
+
+/**
+ * A user restored the board to an earlier version
+ * Every connection in the room gets the restored board state
+ */
+export interface WhiteboardVersionRestoredEvent {
+  type: 'restored';
+  whiteboardId: string;
+  userId: string;
+  version: number;
+  restoredFromVersion: number;
+}
+
+/**
+ * A user patched the board over HTTP
+ * The patch was appended to the operation log as operations fromSequence to
+ * toSequence, which every connection in the room gets as draw_update events
+ */
+export interface WhiteboardSnapshotPatchedEvent {
+  type: 'patched';
+  whiteboardId: string;
+  userId: string;
+  fromSequence: number;
+  toSequence: number;
+}
+
+export type WhiteboardVersionEvent =
+  | WhiteboardVersionRestoredEvent
+  | WhiteboardSnapshotPatchedEvent;
@@ -1,4 +1,6 @@
-import { IsEmail, IsNotEmpty } from 'class-validator';
+import { IsEmail, IsIn, IsNotEmpty, IsOptional } from 'class-validator';
+import { ASSIGNABLE_ROLES } from '../../whiteboard-collaborators/collaborator-roles';
+import type { CollaboratorRole } from '../../whiteboard-collaborators/entities/whiteboard-collaborator.entity';
 
 /**
  * DTO for adding a collaborator to a whiteboard
@@ -7,5 +9,10 @@ export class AddCollaboratorDto {
   @IsEmail({}, { message: 'Please provide a valid email address' })
   @IsNotEmpty({ message: 'Email is required' })
   email: string;
-}
 
+  @IsOptional()
+  @IsIn(ASSIGNABLE_ROLES, {
+    message: `Role must be one of: ${ASSIGNABLE_ROLES.join(', ')}`,
+  })
+  role?: CollaboratorRole;
+}
@@ -0,0 +1,18 @@
+import { IsIn, IsNotEmpty, IsOptional, IsUUID } from 'class-validator';
+import { ASSIGNABLE_ROLES } from '../../whiteboard-collaborators/collaborator-roles';
+import type { CollaboratorRole } from '../../whiteboard-collaborators/entities/whiteboard-collaborator.entity';
+
+/**
+ * DTO for adding a user group to a whiteboard as a collaborator
+ */
+export class AddGroupCollaboratorDto {
+  @IsNotEmpty({ message: 'Group ID is required' })
+  @IsUUID('4', { message: 'Group ID must be a valid UUID' })
+  groupId: string;
+
+  @IsOptional()
+  @IsIn(ASSIGNABLE_ROLES, {
+    message: `Role must be one of: ${ASSIGNABLE_ROLES.join(', ')}`,
+  })
+  role?: CollaboratorRole;
+}
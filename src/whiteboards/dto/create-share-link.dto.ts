@@ -0,0 +1,31 @@
+import {
+  IsIn,
+  IsISO8601,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ASSIGNABLE_ROLES } from '../../whiteboard-collaborators/collaborator-roles';
+import type { CollaboratorRole } from '../../whiteboard-collaborators/entities/whiteboard-collaborator.entity';
+
+/**
+ * DTO for creating a share link
+ */
+export class CreateShareLinkDto {
+  @IsOptional()
+  @IsIn(ASSIGNABLE_ROLES, {
+    message: `Role must be one of: ${ASSIGNABLE_ROLES.join(', ')}`,
+  })
+  role?: CollaboratorRole;
+
+  @IsOptional()
+  @IsISO8601({}, { message: 'Expiry must be an ISO 8601 date' })
+  expiresAt?: string;
+
+  @IsOptional()
+  @IsString({ message: 'Password must be a string' })
+  @MinLength(6, { message: 'Password must be at least 6 characters long' })
+  @MaxLength(72, { message: 'Password must not exceed 72 characters' })
+  password?: string;
+}
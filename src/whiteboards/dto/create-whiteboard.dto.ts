@@ -5,6 +5,7 @@ import {
   IsEnum,
   IsArray,
   IsEmail,
+  IsUUID,
   ValidateIf,
   ArrayMinSize,
 } from 'class-validator';
@@ -29,6 +30,10 @@ export class CreateWhiteboardDto {
   @IsNotEmpty({ message: 'Board access type is required' })
   boardAccess: BoardAccessType;
 
+  @IsUUID('4', { message: 'Workspace ID must be a valid UUID' })
+  @IsOptional()
+  workspaceId?: string;
+
   @IsArray({ message: 'Invited emails must be an array' })
   @IsEmail({}, { each: true, message: 'Each invited email must be a valid email address' })
   @ArrayMinSize(1, {
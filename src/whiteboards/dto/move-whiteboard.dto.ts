@@ -0,0 +1,11 @@
+import { IsUUID, ValidateIf } from 'class-validator';
+
+/**
+ * DTO for moving a whiteboard into a workspace
+ * workspaceId null makes it a personal board of its owner again
+ */
+export class MoveWhiteboardDto {
+  @ValidateIf((dto: MoveWhiteboardDto) => dto.workspaceId !== null)
+  @IsUUID('4', { message: 'Workspace ID must be a valid UUID' })
+  workspaceId: string | null;
+}
@@ -0,0 +1,10 @@
+import { IsOptional, IsString } from 'class-validator';
+
+/**
+ * DTO for opening a whiteboard through a share link
+ */
+export class OpenShareLinkDto {
+  @IsOptional()
+  @IsString({ message: 'Password must be a string' })
+  password?: string;
+}
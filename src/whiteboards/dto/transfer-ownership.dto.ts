@@ -0,0 +1,10 @@
+import { IsNotEmpty, IsUUID } from 'class-validator';
+
+/**
+ * DTO for nominating a collaborator as the new owner of a whiteboard
+ */
+export class TransferOwnershipDto {
+  @IsNotEmpty({ message: 'User ID is required' })
+  @IsUUID('4', { message: 'User ID must be a valid UUID' })
+  userId: string;
+}
@@ -0,0 +1,14 @@
+import { IsIn, IsNotEmpty } from 'class-validator';
+import { ASSIGNABLE_ROLES } from '../../whiteboard-collaborators/collaborator-roles';
+import type { CollaboratorRole } from '../../whiteboard-collaborators/entities/whiteboard-collaborator.entity';
+
+/**
+ * DTO for changing the role of a collaborator
+ */
+export class UpdateCollaboratorRoleDto {
+  @IsNotEmpty({ message: 'Role is required' })
+  @IsIn(ASSIGNABLE_ROLES, {
+    message: `Role must be one of: ${ASSIGNABLE_ROLES.join(', ')}`,
+  })
+  role: CollaboratorRole;
+}
@@ -0,0 +1,15 @@
+import { IsIn, ValidateIf } from 'class-validator';
+import { ASSIGNABLE_ROLES } from '../../whiteboard-collaborators/collaborator-roles';
+import type { CollaboratorRole } from '../../whiteboard-collaborators/entities/whiteboard-collaborator.entity';
+
+/**
+ * DTO for changing guest access to a whiteboard
+ * guestRole null keeps guests out of the board
+ */
+export class UpdateGuestAccessDto {
+  @ValidateIf((dto: UpdateGuestAccessDto) => dto.guestRole !== null)
+  @IsIn(ASSIGNABLE_ROLES, {
+    message: `Guest role must be null or one of: ${ASSIGNABLE_ROLES.join(', ')}`,
+  })
+  guestRole: CollaboratorRole | null;
+}
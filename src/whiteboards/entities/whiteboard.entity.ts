@@ -2,6 +2,7 @@ import {
   Column,
   CreateDateColumn,
   Entity,
+  Index,
   JoinColumn,
   ManyToOne,
   OneToMany,
@@ -11,8 +12,16 @@ import {
 import { User } from '../../users/entities/user.entity';
 import { WhiteboardCollaborator } from '../../whiteboard-collaborators/entities/whiteboard-collaborator.entity';
 import { WhiteboardSnapshot } from '../../whiteboard-snapshots/entities/whiteboard-snapshot.entity';
+import { WhiteboardOperation } from '../../whiteboard-operations/entities/whiteboard-operation.entity';
+import { WhiteboardInvitation } from '../../whiteboard-invitations/entities/whiteboard-invitation.entity';
+import { Workspace } from '../../workspaces/entities/workspace.entity';
+import type { CollaboratorRole } from '../../whiteboard-collaborators/entities/whiteboard-collaborator.entity';
+import type { RetentionPolicyOverride } from '../../whiteboard-snapshots/snapshot-retention';
+import { bigintNumberTransformer } from '../../database/transformers/bigint-number.transformer';
 
 @Entity({ name: 'whiteboards' })
+@Index('IDX_whiteboards_pending_owner', ['pendingOwnerId'])
+@Index('IDX_whiteboards_workspace', ['workspaceId'])
 export class Whiteboard {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -30,9 +39,69 @@ export class Whiteboard {
   @JoinColumn({ name: 'owner_id' })
   owner: User;
 
+  // Workspace whose members share the board; null for a personal board
+  @Column({ name: 'workspace_id', type: 'uuid', nullable: true })
+  workspaceId: string | null;
+
+  @ManyToOne(() => Workspace, (workspace) => workspace.whiteboards, {
+    nullable: true,
+    onDelete: 'RESTRICT',
+  })
+  @JoinColumn({ name: 'workspace_id' })
+  workspace: Workspace | null;
+
+  // Collaborator the owner nominated to take over the board, until they accept or decline
+  @Column({ name: 'pending_owner_id', type: 'uuid', nullable: true })
+  pendingOwnerId: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'pending_owner_id' })
+  pendingOwner: User | null;
+
+  @Column({
+    name: 'ownership_transfer_requested_at',
+    type: 'timestamp with time zone',
+    nullable: true,
+  })
+  ownershipTransferRequestedAt: Date | null;
+
   @Column({ name: 'is_public', type: 'boolean', default: false })
   isPublic: boolean;
 
+  // Highest role a guest can have on the board; null when guests may not join
+  @Column({
+    name: 'guest_role',
+    type: 'enum',
+    enum: ['viewer', 'commenter', 'editor'],
+    nullable: true,
+    default: 'viewer',
+  })
+  guestRole: CollaboratorRole | null;
+
+  @Column({ name: 'last_operation_sequence', type: 'integer', default: 0 })
+  lastOperationSequence: number;
+
+  // Highest Lamport clock seen in the operation log
+  @Column({
+    name: 'lamport_clock',
+    type: 'bigint',
+    default: 0,
+    transformer: bigintNumberTransformer,
+  })
+  lamportClock: number;
+
+  // Operations up to this sequence were deleted by compaction (see SnapshotRetentionService)
+  @Column({ name: 'compacted_sequence', type: 'integer', default: 0 })
+  compactedSequence: number;
+
+  // Number of the newest version in the snapshot timeline
+  @Column({ name: 'last_snapshot_version', type: 'integer', default: 0 })
+  lastSnapshotVersion: number;
+
+  // Retention settings that replace the global ones for this board's versions
+  @Column({ name: 'retention_policy', type: 'jsonb', nullable: true })
+  retentionPolicy: RetentionPolicyOverride | null;
+
   @CreateDateColumn({ name: 'created_at', type: 'timestamp with time zone' })
   createdAt: Date;
 
@@ -47,5 +116,11 @@ export class Whiteboard {
 
   @OneToMany(() => WhiteboardSnapshot, (snapshot) => snapshot.whiteboard)
   snapshots: WhiteboardSnapshot[];
+
+  @OneToMany(() => WhiteboardOperation, (operation) => operation.whiteboard)
+  operations: WhiteboardOperation[];
+
+  @OneToMany(() => WhiteboardInvitation, (invitation) => invitation.whiteboard)
+  invitations: WhiteboardInvitation[];
 }
 
@@ -0,0 +1,65 @@
+import type { CollaboratorRole } from '../whiteboard-collaborators/entities/whiteboard-collaborator.entity';
+
+// Channel on which access changes reach the gateway of every API process
+export const WHITEBOARD_ACCESS_CHANNEL = 'whiteboard:access';
+
+/**
+ * A user lost access to a whiteboard (removed as collaborator, or left it)
+ * Their open connections are taken out of the whiteboard room
+ */
+export interface WhiteboardAccessRevokedEvent {
+  type: 'revoked';
+  whiteboardId: string;
+  userId: string;
+}
+
+/**
+ * The owner changed a collaborator's role
+ * Open connections pick up the new role; ones that can no longer edit give up their shape locks
+ */
+export interface WhiteboardRoleChangedEvent {
+  type: 'role_changed';
+  whiteboardId: string;
+  userId: string;
+  role: CollaboratorRole;
+}
+
+/**
+ * The owner revoked a share link
+ * Connections that opened the board through it are taken out of the room
+ */
+export interface WhiteboardShareLinkRevokedEvent {
+  type: 'share_link_revoked';
+  whiteboardId: string;
+  shareLinkId: string;
+}
+
+/**
+ * The owner changed which role guests can have on the board
+ * Guest connections pick up their new role, or leave the room if guests
+ * are no longer allowed (guestRole null)
+ */
+export interface WhiteboardGuestAccessChangedEvent {
+  type: 'guest_access_changed';
+  whiteboardId: string;
+  guestRole: CollaboratorRole | null;
+}
+
+/**
+ * Something a user's access to the board depends on changed (their
+ * workspace membership, or the workspace the board is in)
+ * Their open connections re-check their role; ones left without access
+ * leave the room
+ */
+export interface WhiteboardAccessChangedEvent {
+  type: 'access_changed';
+  whiteboardId: string;
+  userId: string;
+}
+
+export type WhiteboardAccessEvent =
+  | WhiteboardAccessRevokedEvent
+  | WhiteboardRoleChangedEvent
+  | WhiteboardShareLinkRevokedEvent
+  | WhiteboardGuestAccessChangedEvent
+  | WhiteboardAccessChangedEvent;
@@ -15,6 +15,9 @@ import {
   ForbiddenException,
   BadRequestException,
   ConflictException,
+  UnauthorizedException,
+  HttpException,
+  Ip,
   Res,
 } from '@nestjs/common';
 import type { Response } from 'express';
@@ -22,10 +25,20 @@ import { WhiteboardsService } from './whiteboards.service';
 import { CreateWhiteboardDto } from './dto/create-whiteboard.dto';
 import { AddCollaboratorDto } from './dto/add-collaborator.dto';
 import { RemoveCollaboratorDto } from './dto/remove-collaborator.dto';
+import { UpdateCollaboratorRoleDto } from './dto/update-collaborator-role.dto';
+import { AddGroupCollaboratorDto } from './dto/add-group-collaborator.dto';
+import { CreateShareLinkDto } from './dto/create-share-link.dto';
+import { OpenShareLinkDto } from './dto/open-share-link.dto';
+import { UpdateGuestAccessDto } from './dto/update-guest-access.dto';
+import { TransferOwnershipDto } from './dto/transfer-ownership.dto';
+import { MoveWhiteboardDto } from './dto/move-whiteboard.dto';
 import { RenameWhiteboardDto } from './dto/rename-whiteboard.dto';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
-import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { JwtAuthGuard, Public } from '../auth/guards/jwt-auth.guard';
 import { User } from '../users/entities/user.entity';
+import { WhiteboardInvitation } from '../whiteboard-invitations/entities/whiteboard-invitation.entity';
+import { ShareLinkWithToken } from './whiteboards.service';
+import { formatSnapshotETag } from '../whiteboard-snapshots/snapshot-etag';
 
 @Controller('whiteboards')
 @UseGuards(JwtAuthGuard)
@@ -57,20 +70,29 @@ export class WhiteboardsController {
         title: whiteboard.title,
         description: whiteboard.description,
         isPublic: whiteboard.isPublic,
+        workspaceId: whiteboard.workspaceId,
         owner: {
           id: whiteboard.owner.id,
           email: whiteboard.owner.email,
           fullName: whiteboard.owner.fullName,
         },
-        collaborators: whiteboard.collaborators?.map((collab) => ({
-          userId: collab.userId,
-          user: {
-            id: collab.user.id,
-            email: collab.user.email,
-            fullName: collab.user.fullName,
-          },
-          role: collab.role,
-        })) || [],
+        collaborators:
+          whiteboard.collaborators?.map((collab) => ({
+            userId: collab.userId,
+            user: {
+              id: collab.user.id,
+              email: collab.user.email,
+              fullName: collab.user.fullName,
+            },
+            role: collab.role,
+          })) || [],
+        invitations:
+          whiteboard.invitations?.map((invitation) => ({
+            id: invitation.id,
+            email: invitation.email,
+            role: invitation.role,
+            expiresAt: invitation.expiresAt,
+          })) || [],
         createdAt: whiteboard.createdAt,
         updatedAt: whiteboard.updatedAt,
       },
@@ -146,14 +168,149 @@ export class WhiteboardsController {
     }
   }
 
+  /**
+   * Get the whiteboards the current user was nominated to take over
+   * Requires authentication
+   * @param user - Current authenticated user (from JWT token)
+   * @returns List of pending ownership transfers to the user
+   */
+  @Get('ownership-transfers')
+  async getPendingOwnershipTransfers(@CurrentUser() user: User) {
+    try {
+      const whiteboards =
+        await this.whiteboardsService.findPendingOwnershipTransfers(user.id);
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Ownership transfers retrieved successfully',
+        data: whiteboards.map((whiteboard) => ({
+          id: whiteboard.id,
+          title: whiteboard.title,
+          description: whiteboard.description,
+          ownerName: whiteboard.owner.fullName,
+          requestedAt: whiteboard.ownershipTransferRequestedAt,
+        })),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to retrieve ownership transfers',
+        error: error.message,
+        data: [],
+      };
+    }
+  }
+
+  /**
+   * Open a whiteboard through a share link
+   * Public: link holders don't need an account
+   * @param token - Share link token
+   * @param openShareLinkDto - Password, for links that have one
+   * @param ip - Client IP address
+   * @param res - Express response object for setting status codes
+   * @returns Whiteboard information, the link's role and the current board state
+   */
+  @Public()
+  @Post('shared/:token')
+  @HttpCode(HttpStatus.OK)
+  async openShareLink(
+    @Param('token') token: string,
+    @Body(ValidationPipe) openShareLinkDto: OpenShareLinkDto,
+    @Ip() ip: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const { whiteboard, shareLink, state } =
+        await this.whiteboardsService.openShareLink(
+          token,
+          openShareLinkDto.password,
+          ip,
+        );
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Whiteboard retrieved successfully',
+        data: {
+          id: whiteboard.id,
+          title: whiteboard.title,
+          description: whiteboard.description,
+          ownerName: whiteboard.owner.fullName,
+          role: shareLink.role,
+          state: {
+            sequence: state.sequence,
+            document: state.document,
+          },
+        },
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Share link not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message: error.message || 'This share link can no longer be used',
+          data: null,
+        };
+      }
+
+      if (error instanceof UnauthorizedException) {
+        res.status(HttpStatus.UNAUTHORIZED);
+        return {
+          success: false,
+          statusCode: HttpStatus.UNAUTHORIZED,
+          message:
+            error.message || 'A valid password is required for this share link',
+          data: null,
+        };
+      }
+
+      if (
+        error instanceof HttpException &&
+        (error.getStatus() as HttpStatus) === HttpStatus.TOO_MANY_REQUESTS
+      ) {
+        res.status(HttpStatus.TOO_MANY_REQUESTS);
+        return {
+          success: false,
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: error.message || 'Too many wrong passwords, try again later',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to open share link',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
   /**
    * Add a collaborator to a whiteboard (owner only)
+   * Emails without an account get a pending invitation instead
    * Requires authentication and ownership
    * @param id - Whiteboard ID
-   * @param addCollaboratorDto - Email of the user to add as collaborator
+   * @param addCollaboratorDto - Email of the user to add as collaborator, and optionally their role
    * @param user - Current authenticated user (must be the owner)
    * @param res - Express response object for setting status codes
-   * @returns Added collaborator information
+   * @returns Added collaborator information, or the pending invitation
    */
   @Post(':id/collaborators')
   @HttpCode(HttpStatus.CREATED)
@@ -168,8 +325,26 @@ export class WhiteboardsController {
         id,
         addCollaboratorDto.email,
         user,
+        addCollaboratorDto.role,
       );
 
+      // The email has no account yet, so it was invited instead
+      if (collaborator instanceof WhiteboardInvitation) {
+        return {
+          success: true,
+          statusCode: HttpStatus.CREATED,
+          message: 'Invitation sent successfully',
+          data: {
+            invitationId: collaborator.id,
+            email: collaborator.email,
+            role: collaborator.role,
+            status: 'pending',
+            expiresAt: collaborator.expiresAt,
+            createdAt: collaborator.createdAt,
+          },
+        };
+      }
+
       return {
         success: true,
         statusCode: HttpStatus.CREATED,
@@ -312,29 +487,46 @@ export class WhiteboardsController {
   }
 
   /**
-   * Leave a whiteboard (remove current user as collaborator)
-   * User must be a collaborator (not owner) to leave
-   * Requires authentication
+   * List the invitations of a whiteboard (owner only)
+   * Expired invitations are listed too, so they can be resent
+   * Requires authentication and ownership
    * @param id - Whiteboard ID
-   * @param user - Current authenticated user (must be a collaborator, not owner)
+   * @param user - Current authenticated user (must be the owner)
    * @param res - Express response object for setting status codes
-   * @returns Success message
+   * @returns Array of invitations
    */
-  @Delete(':id/leave')
+  @Get(':id/invitations')
   @HttpCode(HttpStatus.OK)
-  async leaveWhiteboard(
+  async listInvitations(
     @Param('id', ParseUUIDPipe) id: string,
     @CurrentUser() user: User,
     @Res({ passthrough: true }) res: Response,
   ) {
     try {
-      await this.whiteboardsService.leaveWhiteboard(id, user);
+      const invitations = await this.whiteboardsService.listInvitations(
+        id,
+        user,
+      );
+      const now = Date.now();
 
       return {
         success: true,
         statusCode: HttpStatus.OK,
-        message: 'You have successfully left the whiteboard',
-        data: null,
+        message: 'Invitations retrieved successfully',
+        data: invitations.map((invitation) => ({
+          id: invitation.id,
+          email: invitation.email,
+          role: invitation.role,
+          status: invitation.expiresAt.getTime() > now ? 'pending' : 'expired',
+          invitedBy: {
+            id: invitation.invitedBy.id,
+            email: invitation.invitedBy.email,
+            fullName: invitation.invitedBy.fullName,
+          },
+          expiresAt: invitation.expiresAt,
+          lastSentAt: invitation.lastSentAt,
+          createdAt: invitation.createdAt,
+        })),
       };
     } catch (error) {
       // Handle different error types
@@ -353,17 +545,9 @@ export class WhiteboardsController {
         return {
           success: false,
           statusCode: HttpStatus.FORBIDDEN,
-          message: error.message || 'You cannot leave this whiteboard',
-          data: null,
-        };
-      }
-
-      if (error instanceof BadRequestException) {
-        res.status(HttpStatus.BAD_REQUEST);
-        return {
-          success: false,
-          statusCode: HttpStatus.BAD_REQUEST,
-          message: error.message || 'Invalid request',
+          message:
+            error.message ||
+            'You do not have permission to see the invitations of this whiteboard',
           data: null,
         };
       }
@@ -372,7 +556,7 @@ export class WhiteboardsController {
       return {
         success: false,
         statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
-        message: 'Failed to leave whiteboard',
+        message: 'Failed to retrieve invitations',
         error: error.message,
         data: null,
       };
@@ -380,58 +564,40 @@ export class WhiteboardsController {
   }
 
   /**
-   * Duplicate a whiteboard (owner only)
-   * Duplicates the whiteboard with title, description, all snapshots, and all collaborators
+   * Resend an invitation, restarting its expiry (owner only)
    * Requires authentication and ownership
-   * @param id - Whiteboard ID to duplicate
+   * @param id - Whiteboard ID
+   * @param invitationId - Invitation ID
    * @param user - Current authenticated user (must be the owner)
    * @param res - Express response object for setting status codes
-   * @returns Duplicated whiteboard information
+   * @returns Updated invitation information
    */
-  @Post(':id/duplicate')
-  @HttpCode(HttpStatus.CREATED)
-  async duplicateWhiteboard(
+  @Post(':id/invitations/:invitationId/resend')
+  @HttpCode(HttpStatus.OK)
+  async resendInvitation(
     @Param('id', ParseUUIDPipe) id: string,
+    @Param('invitationId', ParseUUIDPipe) invitationId: string,
     @CurrentUser() user: User,
     @Res({ passthrough: true }) res: Response,
   ) {
     try {
-      const duplicatedWhiteboard = await this.whiteboardsService.duplicate(
+      const invitation = await this.whiteboardsService.resendInvitation(
         id,
+        invitationId,
         user,
       );
 
       return {
         success: true,
-        statusCode: HttpStatus.CREATED,
-        message: 'Whiteboard duplicated successfully',
+        statusCode: HttpStatus.OK,
+        message: 'Invitation resent successfully',
         data: {
-          id: duplicatedWhiteboard.id,
-          title: duplicatedWhiteboard.title,
-          description: duplicatedWhiteboard.description,
-          isPublic: duplicatedWhiteboard.isPublic,
-          owner: {
-            id: duplicatedWhiteboard.owner.id,
-            email: duplicatedWhiteboard.owner.email,
-            fullName: duplicatedWhiteboard.owner.fullName,
-          },
-          collaborators: duplicatedWhiteboard.collaborators?.map((collab) => ({
-            userId: collab.userId,
-            user: {
-              id: collab.user.id,
-              email: collab.user.email,
-              fullName: collab.user.fullName,
-            },
-            role: collab.role,
-          })) || [],
-          snapshots: duplicatedWhiteboard.snapshots?.map((snapshot) => ({
-            id: snapshot.id,
-            data: snapshot.data,
-            createdAt: snapshot.createdAt,
-            updatedAt: snapshot.updatedAt,
-          })) || [],
-          createdAt: duplicatedWhiteboard.createdAt,
-          updatedAt: duplicatedWhiteboard.updatedAt,
+          id: invitation.id,
+          email: invitation.email,
+          role: invitation.role,
+          status: 'pending',
+          expiresAt: invitation.expiresAt,
+          lastSentAt: invitation.lastSentAt,
         },
       };
     } catch (error) {
@@ -441,7 +607,7 @@ export class WhiteboardsController {
         return {
           success: false,
           statusCode: HttpStatus.NOT_FOUND,
-          message: error.message || 'Whiteboard not found',
+          message: error.message || 'Whiteboard or invitation not found',
           data: null,
         };
       }
@@ -451,7 +617,9 @@ export class WhiteboardsController {
         return {
           success: false,
           statusCode: HttpStatus.FORBIDDEN,
-          message: error.message || 'You do not have permission to duplicate this whiteboard',
+          message:
+            error.message ||
+            'You do not have permission to resend invitations to this whiteboard',
           data: null,
         };
       }
@@ -460,7 +628,7 @@ export class WhiteboardsController {
       return {
         success: false,
         statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
-        message: 'Failed to duplicate whiteboard',
+        message: 'Failed to resend invitation',
         error: error.message,
         data: null,
       };
@@ -468,28 +636,29 @@ export class WhiteboardsController {
   }
 
   /**
-   * Delete a whiteboard (owner only)
-   * This will automatically delete all snapshots and collaborators due to CASCADE constraints
+   * Revoke an invitation (owner only)
    * Requires authentication and ownership
    * @param id - Whiteboard ID
+   * @param invitationId - Invitation ID
    * @param user - Current authenticated user (must be the owner)
    * @param res - Express response object for setting status codes
    * @returns Success message
    */
-  @Delete(':id')
+  @Delete(':id/invitations/:invitationId')
   @HttpCode(HttpStatus.OK)
-  async deleteWhiteboard(
+  async revokeInvitation(
     @Param('id', ParseUUIDPipe) id: string,
+    @Param('invitationId', ParseUUIDPipe) invitationId: string,
     @CurrentUser() user: User,
     @Res({ passthrough: true }) res: Response,
   ) {
     try {
-      await this.whiteboardsService.delete(id, user);
+      await this.whiteboardsService.revokeInvitation(id, invitationId, user);
 
       return {
         success: true,
         statusCode: HttpStatus.OK,
-        message: 'Whiteboard deleted successfully',
+        message: 'Invitation revoked successfully',
         data: null,
       };
     } catch (error) {
@@ -499,7 +668,7 @@ export class WhiteboardsController {
         return {
           success: false,
           statusCode: HttpStatus.NOT_FOUND,
-          message: error.message || 'Whiteboard not found',
+          message: error.message || 'Whiteboard or invitation not found',
           data: null,
         };
       }
@@ -509,7 +678,9 @@ export class WhiteboardsController {
         return {
           success: false,
           statusCode: HttpStatus.FORBIDDEN,
-          message: error.message || 'You do not have permission to delete this whiteboard',
+          message:
+            error.message ||
+            'You do not have permission to revoke invitations to this whiteboard',
           data: null,
         };
       }
@@ -518,7 +689,7 @@ export class WhiteboardsController {
       return {
         success: false,
         statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
-        message: 'Failed to delete whiteboard',
+        message: 'Failed to revoke invitation',
         error: error.message,
         data: null,
       };
@@ -526,47 +697,1409 @@ export class WhiteboardsController {
   }
 
   /**
-   * Open/View a specific whiteboard page
-   * Allows both owner and collaborators to access the whiteboard
-   * Returns all whiteboard data including shapes, snapshots, owner, and collaborators
-   * Requires authentication and access permission
-   * Access rules:
-   * - Owner can always access
-   * - Collaborators can access if they were invited
-   * - Private whiteboards (no collaborators) can only be accessed by owner
+   * Create a share link for a whiteboard (owner only)
+   * Requires authentication and ownership
    * @param id - Whiteboard ID
-   * @param user - Current authenticated user (from JWT token)
-   * @returns Whiteboard with all shapes, snapshots, owner, and collaborators data
+   * @param createShareLinkDto - Role (default: viewer), optional expiry and optional password
+   * @param user - Current authenticated user (must be the owner)
+   * @param res - Express response object for setting status codes
+   * @returns Created share link with its token
    */
-  @Get(':id')
-  async getWhiteboardById(
+  @Post(':id/share-links')
+  @HttpCode(HttpStatus.CREATED)
+  async createShareLink(
     @Param('id', ParseUUIDPipe) id: string,
+    @Body(ValidationPipe) createShareLinkDto: CreateShareLinkDto,
     @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
   ) {
     try {
-      const whiteboard = await this.whiteboardsService.findByIdWithAccess(
+      const shareLink = await this.whiteboardsService.createShareLink(
         id,
         user,
+        {
+          role: createShareLinkDto.role ?? 'viewer',
+          expiresAt: createShareLinkDto.expiresAt
+            ? new Date(createShareLinkDto.expiresAt)
+            : null,
+          password: createShareLinkDto.password,
+        },
       );
 
-      // Extract all shapes from snapshots for easy access
-      const allShapes: any[] = [];
-      whiteboard.snapshots?.forEach((snapshot) => {
-        if (snapshot.data && typeof snapshot.data === 'object') {
-          // Extract shapes from snapshot data if they exist
-          if (Array.isArray(snapshot.data.shapes)) {
-            allShapes.push(...snapshot.data.shapes);
-          } else if (snapshot.data.shapes) {
-            allShapes.push(snapshot.data.shapes);
-          }
-        }
-      });
+      return {
+        success: true,
+        statusCode: HttpStatus.CREATED,
+        message: 'Share link created successfully',
+        data: this.toShareLinkResponse(shareLink),
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to create share links for this whiteboard',
+          data: null,
+        };
+      }
+
+      if (error instanceof BadRequestException) {
+        res.status(HttpStatus.BAD_REQUEST);
+        return {
+          success: false,
+          statusCode: HttpStatus.BAD_REQUEST,
+          message: error.message || 'Invalid request',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to create share link',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * List the share links of a whiteboard (owner only)
+   * Expired links are listed too
+   * Requires authentication and ownership
+   * @param id - Whiteboard ID
+   * @param user - Current authenticated user (must be the owner)
+   * @param res - Express response object for setting status codes
+   * @returns Array of share links with their tokens
+   */
+  @Get(':id/share-links')
+  @HttpCode(HttpStatus.OK)
+  async listShareLinks(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const shareLinks = await this.whiteboardsService.listShareLinks(id, user);
 
       return {
         success: true,
         statusCode: HttpStatus.OK,
-        message: 'Whiteboard retrieved successfully',
-        data: {
+        message: 'Share links retrieved successfully',
+        data: shareLinks.map((shareLink) =>
+          this.toShareLinkResponse(shareLink),
+        ),
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to see the share links of this whiteboard',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to retrieve share links',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Revoke a share link (owner only)
+   * Connections opened through the link are dropped from the whiteboard room
+   * Requires authentication and ownership
+   * @param id - Whiteboard ID
+   * @param shareLinkId - Share link ID
+   * @param user - Current authenticated user (must be the owner)
+   * @param res - Express response object for setting status codes
+   * @returns Success message
+   */
+  @Delete(':id/share-links/:shareLinkId')
+  @HttpCode(HttpStatus.OK)
+  async revokeShareLink(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('shareLinkId', ParseUUIDPipe) shareLinkId: string,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      await this.whiteboardsService.revokeShareLink(id, shareLinkId, user);
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Share link revoked successfully',
+        data: null,
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard or share link not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to revoke share links of this whiteboard',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to revoke share link',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Change guest access to a whiteboard (owner only)
+   * Guests joining through a share link get the least privileged of the
+   * link's role and this guest role
+   * Requires authentication and ownership
+   * @param id - Whiteboard ID
+   * @param updateGuestAccessDto - Highest guest role, or null to keep guests out
+   * @param user - Current authenticated user (must be the owner)
+   * @param res - Express response object for setting status codes
+   * @returns Updated guest access
+   */
+  @Patch(':id/guest-access')
+  @HttpCode(HttpStatus.OK)
+  async updateGuestAccess(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(ValidationPipe) updateGuestAccessDto: UpdateGuestAccessDto,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const whiteboard = await this.whiteboardsService.updateGuestRole(
+        id,
+        updateGuestAccessDto.guestRole,
+        user,
+      );
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Guest access updated successfully',
+        data: {
+          id: whiteboard.id,
+          guestRole: whiteboard.guestRole,
+          updatedAt: whiteboard.updatedAt,
+        },
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to change guest access to this whiteboard',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to update guest access',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Maps a share link to its response shape
+   * The password itself is never returned, only whether there is one
+   * @param shareLinkWithToken - Share link and its token
+   * @returns Share link information
+   */
+  private toShareLinkResponse({ shareLink, token }: ShareLinkWithToken) {
+    return {
+      id: shareLink.id,
+      token,
+      role: shareLink.role,
+      hasPassword: shareLink.passwordHash !== null,
+      status:
+        shareLink.expiresAt && shareLink.expiresAt.getTime() <= Date.now()
+          ? 'expired'
+          : 'active',
+      expiresAt: shareLink.expiresAt,
+      useCount: shareLink.useCount,
+      lastUsedAt: shareLink.lastUsedAt,
+      createdAt: shareLink.createdAt,
+    };
+  }
+
+  /**
+   * Change the role of a collaborator (owner only)
+   * Requires authentication and ownership
+   * @param id - Whiteboard ID
+   * @param userId - User ID of the collaborator
+   * @param updateCollaboratorRoleDto - New role
+   * @param user - Current authenticated user (must be the owner)
+   * @param res - Express response object for setting status codes
+   * @returns Updated collaborator information
+   */
+  @Patch(':id/collaborators/:userId')
+  @HttpCode(HttpStatus.OK)
+  async updateCollaboratorRole(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body(ValidationPipe) updateCollaboratorRoleDto: UpdateCollaboratorRoleDto,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const collaborator = await this.whiteboardsService.updateCollaboratorRole(
+        id,
+        userId,
+        updateCollaboratorRoleDto.role,
+        user,
+      );
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Collaborator role updated successfully',
+        data: {
+          userId: collaborator.userId,
+          user: {
+            id: collaborator.user.id,
+            email: collaborator.user.email,
+            fullName: collaborator.user.fullName,
+          },
+          role: collaborator.role,
+          updatedAt: collaborator.updatedAt,
+        },
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard or collaborator not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to change collaborator roles on this whiteboard',
+          data: null,
+        };
+      }
+
+      if (error instanceof BadRequestException) {
+        res.status(HttpStatus.BAD_REQUEST);
+        return {
+          success: false,
+          statusCode: HttpStatus.BAD_REQUEST,
+          message: error.message || 'Invalid request',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to update collaborator role',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * List the user groups added to a whiteboard (owner only)
+   * Requires authentication and ownership
+   * @param id - Whiteboard ID
+   * @param user - Current authenticated user (must be the owner)
+   * @param res - Express response object for setting status codes
+   * @returns List of groups with their roles
+   */
+  @Get(':id/group-collaborators')
+  async listGroupCollaborators(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const groupCollaborators =
+        await this.whiteboardsService.listGroupCollaborators(id, user);
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Group collaborators retrieved successfully',
+        data: groupCollaborators.map((groupCollaborator) => ({
+          groupId: groupCollaborator.groupId,
+          group: {
+            id: groupCollaborator.group.id,
+            name: groupCollaborator.group.name,
+          },
+          role: groupCollaborator.role,
+          createdAt: groupCollaborator.createdAt,
+        })),
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to view the groups of this whiteboard',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to retrieve group collaborators',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Add a user group to a whiteboard as a collaborator (owner only)
+   * Every member of the group gets the role unless they have a higher one
+   * Requires authentication and ownership
+   * @param id - Whiteboard ID
+   * @param addGroupCollaboratorDto - ID of a group the owner created or belongs to, and optionally its role
+   * @param user - Current authenticated user (must be the owner)
+   * @param res - Express response object for setting status codes
+   * @returns Added group information
+   */
+  @Post(':id/group-collaborators')
+  @HttpCode(HttpStatus.CREATED)
+  async addGroupCollaborator(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(ValidationPipe) addGroupCollaboratorDto: AddGroupCollaboratorDto,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const groupCollaborator =
+        await this.whiteboardsService.addGroupCollaborator(
+          id,
+          addGroupCollaboratorDto.groupId,
+          user,
+          addGroupCollaboratorDto.role,
+        );
+
+      return {
+        success: true,
+        statusCode: HttpStatus.CREATED,
+        message: 'Group added successfully',
+        data: {
+          groupId: groupCollaborator.groupId,
+          group: {
+            id: groupCollaborator.group.id,
+            name: groupCollaborator.group.name,
+          },
+          role: groupCollaborator.role,
+          createdAt: groupCollaborator.createdAt,
+        },
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard or group not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to add collaborators to this whiteboard',
+          data: null,
+        };
+      }
+
+      if (error instanceof ConflictException) {
+        res.status(HttpStatus.CONFLICT);
+        return {
+          success: false,
+          statusCode: HttpStatus.CONFLICT,
+          message:
+            error.message ||
+            'This group is already a collaborator on this whiteboard',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to add group',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Change the role of a user group on a whiteboard (owner only)
+   * Requires authentication and ownership
+   * @param id - Whiteboard ID
+   * @param groupId - User group ID
+   * @param updateCollaboratorRoleDto - New role
+   * @param user - Current authenticated user (must be the owner)
+   * @param res - Express response object for setting status codes
+   * @returns Updated group information
+   */
+  @Patch(':id/group-collaborators/:groupId')
+  @HttpCode(HttpStatus.OK)
+  async updateGroupCollaboratorRole(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body(ValidationPipe) updateCollaboratorRoleDto: UpdateCollaboratorRoleDto,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const groupCollaborator =
+        await this.whiteboardsService.updateGroupCollaboratorRole(
+          id,
+          groupId,
+          updateCollaboratorRoleDto.role,
+          user,
+        );
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Group role updated successfully',
+        data: {
+          groupId: groupCollaborator.groupId,
+          group: {
+            id: groupCollaborator.group.id,
+            name: groupCollaborator.group.name,
+          },
+          role: groupCollaborator.role,
+          updatedAt: groupCollaborator.updatedAt,
+        },
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard or group not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to change collaborator roles on this whiteboard',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to update group role',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Remove a user group from a whiteboard (owner only)
+   * Requires authentication and ownership
+   * @param id - Whiteboard ID
+   * @param groupId - User group ID
+   * @param user - Current authenticated user (must be the owner)
+   * @param res - Express response object for setting status codes
+   * @returns Success message
+   */
+  @Delete(':id/group-collaborators/:groupId')
+  @HttpCode(HttpStatus.OK)
+  async removeGroupCollaborator(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      await this.whiteboardsService.removeGroupCollaborator(id, groupId, user);
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Group removed successfully',
+        data: null,
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard or group not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to remove collaborators from this whiteboard',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to remove group',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Move a whiteboard into a workspace, or back out of one (owner only)
+   * Requires authentication and ownership
+   * @param id - Whiteboard ID
+   * @param moveWhiteboardDto - Target workspace ID, or null for a personal board
+   * @param user - Current authenticated user (must be the owner)
+   * @param res - Express response object for setting status codes
+   * @returns Updated whiteboard information
+   */
+  @Patch(':id/workspace')
+  @HttpCode(HttpStatus.OK)
+  async moveToWorkspace(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(ValidationPipe) moveWhiteboardDto: MoveWhiteboardDto,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const whiteboard = await this.whiteboardsService.moveToWorkspace(
+        id,
+        moveWhiteboardDto.workspaceId,
+        user,
+      );
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Whiteboard moved successfully',
+        data: {
+          id: whiteboard.id,
+          workspaceId: whiteboard.workspaceId,
+          updatedAt: whiteboard.updatedAt,
+        },
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard or workspace not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to move this whiteboard',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to move whiteboard',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Nominate a collaborator as the new owner of a whiteboard (owner only)
+   * Ownership moves once the nominee accepts
+   * Requires authentication and ownership
+   * @param id - Whiteboard ID
+   * @param transferOwnershipDto - User ID of the collaborator to nominate
+   * @param user - Current authenticated user (must be the owner)
+   * @param res - Express response object for setting status codes
+   * @returns Pending ownership transfer
+   */
+  @Post(':id/ownership-transfer')
+  @HttpCode(HttpStatus.CREATED)
+  async requestOwnershipTransfer(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(ValidationPipe) transferOwnershipDto: TransferOwnershipDto,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const whiteboard = await this.whiteboardsService.requestOwnershipTransfer(
+        id,
+        transferOwnershipDto.userId,
+        user,
+      );
+
+      return {
+        success: true,
+        statusCode: HttpStatus.CREATED,
+        message: 'Ownership transfer requested successfully',
+        data: {
+          id: whiteboard.id,
+          pendingOwner: whiteboard.pendingOwner
+            ? {
+                id: whiteboard.pendingOwner.id,
+                email: whiteboard.pendingOwner.email,
+                fullName: whiteboard.pendingOwner.fullName,
+              }
+            : null,
+          requestedAt: whiteboard.ownershipTransferRequestedAt,
+        },
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to transfer ownership of this whiteboard',
+          data: null,
+        };
+      }
+
+      if (error instanceof BadRequestException) {
+        res.status(HttpStatus.BAD_REQUEST);
+        return {
+          success: false,
+          statusCode: HttpStatus.BAD_REQUEST,
+          message: error.message || 'Invalid request',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to request ownership transfer',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Cancel a pending ownership transfer (owner only)
+   * Requires authentication and ownership
+   * @param id - Whiteboard ID
+   * @param user - Current authenticated user (must be the owner)
+   * @param res - Express response object for setting status codes
+   * @returns Success message
+   */
+  @Delete(':id/ownership-transfer')
+  @HttpCode(HttpStatus.OK)
+  async cancelOwnershipTransfer(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      await this.whiteboardsService.cancelOwnershipTransfer(id, user);
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Ownership transfer cancelled successfully',
+        data: null,
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message:
+            error.message ||
+            'No ownership transfer is pending on this whiteboard',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to cancel this ownership transfer',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to cancel ownership transfer',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Accept ownership of a whiteboard (nominee only)
+   * The previous owner stays on the board as an editor
+   * Requires authentication
+   * @param id - Whiteboard ID
+   * @param user - Current authenticated user (must be the nominee)
+   * @param res - Express response object for setting status codes
+   * @returns Whiteboard information with its new owner
+   */
+  @Post(':id/ownership-transfer/accept')
+  @HttpCode(HttpStatus.OK)
+  async acceptOwnershipTransfer(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const whiteboard = await this.whiteboardsService.acceptOwnershipTransfer(
+        id,
+        user,
+      );
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Ownership transferred successfully',
+        data: {
+          id: whiteboard.id,
+          title: whiteboard.title,
+          owner: {
+            id: whiteboard.owner.id,
+            email: whiteboard.owner.email,
+            fullName: whiteboard.owner.fullName,
+          },
+          collaborators:
+            whiteboard.collaborators?.map((collab) => ({
+              userId: collab.userId,
+              user: {
+                id: collab.user.id,
+                email: collab.user.email,
+                fullName: collab.user.fullName,
+              },
+              role: collab.role,
+            })) || [],
+          updatedAt: whiteboard.updatedAt,
+        },
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message:
+            error.message ||
+            'No ownership transfer is pending for you on this whiteboard',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to accept ownership transfer',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Decline ownership of a whiteboard (nominee only)
+   * The nominee keeps their collaborator role
+   * Requires authentication
+   * @param id - Whiteboard ID
+   * @param user - Current authenticated user (must be the nominee)
+   * @param res - Express response object for setting status codes
+   * @returns Success message
+   */
+  @Post(':id/ownership-transfer/decline')
+  @HttpCode(HttpStatus.OK)
+  async declineOwnershipTransfer(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      await this.whiteboardsService.declineOwnershipTransfer(id, user);
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Ownership transfer declined successfully',
+        data: null,
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message:
+            error.message ||
+            'No ownership transfer is pending for you on this whiteboard',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to decline ownership transfer',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Leave a whiteboard (remove current user as collaborator)
+   * User must be a collaborator (not owner) to leave
+   * Requires authentication
+   * @param id - Whiteboard ID
+   * @param user - Current authenticated user (must be a collaborator, not owner)
+   * @param res - Express response object for setting status codes
+   * @returns Success message
+   */
+  @Delete(':id/leave')
+  @HttpCode(HttpStatus.OK)
+  async leaveWhiteboard(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      await this.whiteboardsService.leaveWhiteboard(id, user);
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'You have successfully left the whiteboard',
+        data: null,
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message: error.message || 'You cannot leave this whiteboard',
+          data: null,
+        };
+      }
+
+      if (error instanceof BadRequestException) {
+        res.status(HttpStatus.BAD_REQUEST);
+        return {
+          success: false,
+          statusCode: HttpStatus.BAD_REQUEST,
+          message: error.message || 'Invalid request',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to leave whiteboard',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Duplicate a whiteboard (owner only)
+   * Duplicates the whiteboard with title, description, all snapshots, and all collaborators
+   * Requires authentication and ownership
+   * @param id - Whiteboard ID to duplicate
+   * @param user - Current authenticated user (must be the owner)
+   * @param res - Express response object for setting status codes
+   * @returns Duplicated whiteboard information
+   */
+  @Post(':id/duplicate')
+  @HttpCode(HttpStatus.CREATED)
+  async duplicateWhiteboard(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const duplicatedWhiteboard = await this.whiteboardsService.duplicate(
+        id,
+        user,
+      );
+
+      return {
+        success: true,
+        statusCode: HttpStatus.CREATED,
+        message: 'Whiteboard duplicated successfully',
+        data: {
+          id: duplicatedWhiteboard.id,
+          title: duplicatedWhiteboard.title,
+          description: duplicatedWhiteboard.description,
+          isPublic: duplicatedWhiteboard.isPublic,
+          owner: {
+            id: duplicatedWhiteboard.owner.id,
+            email: duplicatedWhiteboard.owner.email,
+            fullName: duplicatedWhiteboard.owner.fullName,
+          },
+          collaborators:
+            duplicatedWhiteboard.collaborators?.map((collab) => ({
+              userId: collab.userId,
+              user: {
+                id: collab.user.id,
+                email: collab.user.email,
+                fullName: collab.user.fullName,
+              },
+              role: collab.role,
+            })) || [],
+          snapshots:
+            duplicatedWhiteboard.snapshots?.map((snapshot) => ({
+              id: snapshot.id,
+              version: snapshot.version,
+              data: snapshot.data,
+              createdAt: snapshot.createdAt,
+              updatedAt: snapshot.updatedAt,
+            })) || [],
+          createdAt: duplicatedWhiteboard.createdAt,
+          updatedAt: duplicatedWhiteboard.updatedAt,
+        },
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message: error.message || 'You do not have permission to duplicate this whiteboard',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to duplicate whiteboard',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Delete a whiteboard (owner only)
+   * This will automatically delete all snapshots and collaborators due to CASCADE constraints
+   * Requires authentication and ownership
+   * @param id - Whiteboard ID
+   * @param user - Current authenticated user (must be the owner)
+   * @param res - Express response object for setting status codes
+   * @returns Success message
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  async deleteWhiteboard(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      await this.whiteboardsService.delete(id, user);
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Whiteboard deleted successfully',
+        data: null,
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message: error.message || 'You do not have permission to delete this whiteboard',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to delete whiteboard',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Get the current state of a whiteboard
+   * Returns one canonical board document built from the latest snapshot
+   * plus every draw operation appended after it
+   * Requires authentication and access permission (owner or collaborator)
+   * @param id - Whiteboard ID
+   * @param user - Current authenticated user (from JWT token)
+   * @param res - Express response object for setting status codes
+   * @returns Board document and the operation sequence it reflects
+   */
+  @Get(':id/state')
+  async getWhiteboardState(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const whiteboard = await this.whiteboardsService.findByIdWithAccess(
+        id,
+        user,
+      );
+      const state = await this.whiteboardsService.getCurrentState(whiteboard);
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Whiteboard state retrieved successfully',
+        data: {
+          whiteboardId: state.whiteboardId,
+          sequence: state.sequence,
+          snapshotId: state.snapshotId,
+          document: state.document,
+        },
+      };
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to access this whiteboard',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to retrieve whiteboard state',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Get the users currently connected to a whiteboard
+   * One entry per user, however many tabs they have open
+   * Requires authentication and access permission
+   * @param id - Whiteboard ID
+   * @param user - Current authenticated user (from JWT token)
+   * @param res - Express response object for setting status codes
+   * @returns Live roster with full names, colours and join times
+   */
+  @Get(':id/participants')
+  async getWhiteboardParticipants(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const whiteboard = await this.whiteboardsService.findByIdWithAccess(
+        id,
+        user,
+      );
+      const participants =
+        await this.whiteboardsService.getParticipants(whiteboard);
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Participants retrieved successfully',
+        data: participants,
+      };
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Whiteboard not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to access this whiteboard',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to retrieve participants',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Open/View a specific whiteboard page
+   * Allows both owner and collaborators to access the whiteboard
+   * Returns all whiteboard data including shapes, snapshots, owner, and collaborators
+   * Shapes come from the materialised board state (latest snapshot + operation log)
+   * snapshots holds the head version only; older versions are listed by the
+   * snapshots routes
+   * Requires authentication and access permission
+   * Access rules:
+   * - Owner can always access
+   * - Collaborators can access if they were invited
+   * - Private whiteboards (no collaborators) can only be accessed by owner
+   * @param id - Whiteboard ID
+   * @param user - Current authenticated user (from JWT token)
+   * @returns Whiteboard with all shapes, snapshots, owner, and collaborators data
+   */
+  @Get(':id')
+  async getWhiteboardById(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+  ) {
+    try {
+      const whiteboard = await this.whiteboardsService.findByIdWithAccess(
+        id,
+        user,
+      );
+
+      // Current shapes, with deletes and clears from the operation log applied
+      const state = await this.whiteboardsService.getCurrentState(whiteboard);
+      const shapes = state.document.shapes;
+
+      // Only the head version; the whole timeline is at /snapshots/versions
+      const head = await this.whiteboardsService.getLatestSnapshot(whiteboard);
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Whiteboard retrieved successfully',
+        data: {
           id: whiteboard.id,
           title: whiteboard.title,
           description: whiteboard.description,
@@ -585,13 +2118,20 @@ export class WhiteboardsController {
             },
             role: collab.role,
           })) || [],
-          snapshots: whiteboard.snapshots?.map((snapshot) => ({
-            id: snapshot.id,
-            data: snapshot.data, // Contains shapes and drawings
-            createdAt: snapshot.createdAt,
-            updatedAt: snapshot.updatedAt,
-          })) || [],
-          shapes: allShapes.length > 0 ? allShapes : undefined, // All shapes from all snapshots
+          snapshots: head
+            ? [
+                {
+                  id: head.id,
+                  version: head.version,
+                  etag: formatSnapshotETag(head), // If-Match of the next save
+                  data: head.data, // Contains shapes and drawings
+                  createdAt: head.createdAt,
+                  updatedAt: head.updatedAt,
+                },
+              ]
+            : [],
+          shapes: shapes.length > 0 ? shapes : undefined,
+          sequence: state.sequence, // Last operation reflected in shapes
           createdAt: whiteboard.createdAt,
           updatedAt: whiteboard.updatedAt,
         },
@@ -5,14 +5,28 @@ import { WhiteboardsController } from './whiteboards.controller';
 import { Whiteboard } from './entities/whiteboard.entity';
 import { UsersModule } from '../users/users.module';
 import { WhiteboardCollaboratorsModule } from '../whiteboard-collaborators/whiteboard-collaborators.module';
+import { WhiteboardInvitationsModule } from '../whiteboard-invitations/whiteboard-invitations.module';
+import { WhiteboardShareLinksModule } from '../whiteboard-share-links/whiteboard-share-links.module';
+import { WorkspacesModule } from '../workspaces/workspaces.module';
+import { UserGroupsModule } from '../user-groups/user-groups.module';
 import { WhiteboardSnapshotsModule } from '../whiteboard-snapshots/whiteboard-snapshots.module';
+import { WhiteboardOperationsModule } from '../whiteboard-operations/whiteboard-operations.module';
+import { PresenceModule } from '../presence/presence.module';
+import { PubSubModule } from '../pubsub/pubsub.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([Whiteboard]),
     UsersModule,
     WhiteboardCollaboratorsModule,
+    WhiteboardInvitationsModule,
+    WhiteboardShareLinksModule,
+    WorkspacesModule,
+    UserGroupsModule,
     forwardRef(() => WhiteboardSnapshotsModule),
+    forwardRef(() => WhiteboardOperationsModule),
+    PresenceModule,
+    PubSubModule,
   ],
   controllers: [WhiteboardsController],
   providers: [WhiteboardsService],
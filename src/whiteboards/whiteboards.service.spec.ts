@@ -0,0 +1,162 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { WhiteboardsService } from './whiteboards.service';
+import { Whiteboard } from './entities/whiteboard.entity';
+import { User } from '../users/entities/user.entity';
+import { UsersService } from '../users/users.service';
+import { WhiteboardCollaboratorsService } from '../whiteboard-collaborators/whiteboard-collaborators.service';
+import { WhiteboardInvitationsService } from '../whiteboard-invitations/whiteboard-invitations.service';
+import { WhiteboardShareLinksService } from '../whiteboard-share-links/whiteboard-share-links.service';
+import { WorkspacesService } from '../workspaces/workspaces.service';
+import { UserGroupsService } from '../user-groups/user-groups.service';
+import { WhiteboardSnapshotsService } from '../whiteboard-snapshots/whiteboard-snapshots.service';
+import { BoardStateService } from '../whiteboard-operations/board-state.service';
+import { PresenceService } from '../presence/presence.service';
+import { PubSubBroker } from '../pubsub/pubsub-broker';
+
+const owner = { id: 'owner-1', email: 'owner@example.com' } as User;
+const user = { id: 'user-1', email: 'ada@example.com' } as User;
+
+const whiteboard = (workspaceId?: string) =>
+  ({ id: 'board-1', owner, workspaceId }) as Whiteboard;
+
+describe('WhiteboardsService', () => {
+  let service: WhiteboardsService;
+  let collaboratorsService: Record<string, jest.Mock>;
+  let workspacesService: Record<string, jest.Mock>;
+  let whiteboardRepository: Record<string, jest.Mock>;
+  let snapshotsService: Record<string, jest.Mock>;
+  let boardStateService: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    collaboratorsService = {
+      findCollaboratorByUserAndWhiteboard: jest.fn().mockResolvedValue(null),
+      findGroupRole: jest.fn().mockResolvedValue(null),
+    };
+    workspacesService = {
+      getMemberRole: jest.fn().mockResolvedValue(null),
+    };
+    whiteboardRepository = {
+      findOne: jest.fn(),
+      create: jest.fn((entity: Partial<Whiteboard>) => entity),
+      save: jest.fn((entity: Partial<Whiteboard>) =>
+        Promise.resolve({ ...entity, id: 'copy-1' }),
+      ),
+    };
+    snapshotsService = {
+      createSnapshot: jest.fn().mockResolvedValue({}),
+    };
+    boardStateService = {
+      getCurrentState: jest.fn(),
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        WhiteboardsService,
+        {
+          provide: getRepositoryToken(Whiteboard),
+          useValue: whiteboardRepository,
+        },
+        { provide: UsersService, useValue: {} },
+        {
+          provide: WhiteboardCollaboratorsService,
+          useValue: collaboratorsService,
+        },
+        { provide: WhiteboardInvitationsService, useValue: {} },
+        { provide: WhiteboardShareLinksService, useValue: {} },
+        { provide: WorkspacesService, useValue: workspacesService },
+        { provide: UserGroupsService, useValue: {} },
+        { provide: WhiteboardSnapshotsService, useValue: snapshotsService },
+        { provide: BoardStateService, useValue: boardStateService },
+        { provide: PresenceService, useValue: {} },
+        { provide: PubSubBroker, useValue: {} },
+      ],
+    }).compile();
+
+    service = app.get<WhiteboardsService>(WhiteboardsService);
+  });
+
+  describe('getRole', () => {
+    it('should make the owner the owner', async () => {
+      await expect(service.getRole(whiteboard(), owner)).resolves.toBe('owner');
+    });
+
+    it('should give workspace members access without an invite', async () => {
+      workspacesService.getMemberRole.mockResolvedValue('member');
+
+      await expect(
+        service.getRole(whiteboard('workspace-1'), user),
+      ).resolves.toBe('editor');
+      expect(workspacesService.getMemberRole).toHaveBeenCalledWith(
+        'workspace-1',
+        user.id,
+      );
+    });
+
+    it('should give workspace guests only the role they were invited with', async () => {
+      workspacesService.getMemberRole.mockResolvedValue('guest');
+      collaboratorsService.findCollaboratorByUserAndWhiteboard.mockResolvedValue(
+        { role: 'viewer' },
+      );
+
+      await expect(
+        service.getRole(whiteboard('workspace-1'), user),
+      ).resolves.toBe('viewer');
+    });
+
+    it('should give the highest role of the invite and the groups', async () => {
+      collaboratorsService.findCollaboratorByUserAndWhiteboard.mockResolvedValue(
+        { role: 'viewer' },
+      );
+      collaboratorsService.findGroupRole.mockResolvedValue('editor');
+
+      await expect(service.getRole(whiteboard(), user)).resolves.toBe('editor');
+      expect(collaboratorsService.findGroupRole).toHaveBeenCalledWith(
+        'board-1',
+        user.id,
+      );
+    });
+
+    it('should give access through a group without an invite', async () => {
+      collaboratorsService.findGroupRole.mockResolvedValue('commenter');
+
+      await expect(service.hasAccess(whiteboard(), user)).resolves.toBe(true);
+    });
+
+    it('should not look up workspaces for a personal board', async () => {
+      await expect(service.getRole(whiteboard(), user)).resolves.toBeNull();
+      await expect(service.hasAccess(whiteboard(), user)).resolves.toBe(false);
+      expect(workspacesService.getMemberRole).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('duplicate', () => {
+    it('should copy the current board, including unsaved draw updates', async () => {
+      const document = {
+        shapes: [{ id: 'a', type: 'rectangle' }],
+        crdt: { clock: 42, registers: {}, cleared: null },
+      };
+      whiteboardRepository.findOne
+        .mockResolvedValueOnce({ ...whiteboard(), title: 'Plan' })
+        .mockResolvedValueOnce({ id: 'copy-1' });
+      boardStateService.getCurrentState.mockResolvedValue({
+        whiteboardId: 'board-1',
+        document,
+        sequence: 7,
+      });
+
+      await service.duplicate('board-1', owner);
+
+      expect(boardStateService.getCurrentState).toHaveBeenCalledWith('board-1');
+      expect(whiteboardRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Plan', lamportClock: 42 }),
+      );
+      expect(snapshotsService.createSnapshot).toHaveBeenCalledTimes(1);
+      expect(snapshotsService.createSnapshot).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'copy-1' }),
+        document,
+        { createdBy: owner },
+      );
+    });
+  });
+});
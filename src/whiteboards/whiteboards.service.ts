@@ -5,6 +5,7 @@ import {
   ForbiddenException,
   Inject,
   forwardRef,
+  Logger,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, In, Not } from 'typeorm';
@@ -12,36 +13,116 @@ import { Whiteboard } from './entities/whiteboard.entity';
 import { User } from '../users/entities/user.entity';
 import { UsersService } from '../users/users.service';
 import { WhiteboardCollaboratorsService } from '../whiteboard-collaborators/whiteboard-collaborators.service';
-import { WhiteboardCollaborator } from '../whiteboard-collaborators/entities/whiteboard-collaborator.entity';
+import {
+  CollaboratorRole,
+  WhiteboardCollaborator,
+} from '../whiteboard-collaborators/entities/whiteboard-collaborator.entity';
+import {
+  highestRole,
+  lowestRole,
+} from '../whiteboard-collaborators/collaborator-roles';
 import { WhiteboardSnapshotsService } from '../whiteboard-snapshots/whiteboard-snapshots.service';
+import { WhiteboardSnapshot } from '../whiteboard-snapshots/entities/whiteboard-snapshot.entity';
+import { WhiteboardInvitationsService } from '../whiteboard-invitations/whiteboard-invitations.service';
+import { WhiteboardInvitation } from '../whiteboard-invitations/entities/whiteboard-invitation.entity';
+import {
+  CreateShareLinkOptions,
+  WhiteboardShareLinksService,
+} from '../whiteboard-share-links/whiteboard-share-links.service';
+import { WhiteboardShareLink } from '../whiteboard-share-links/entities/whiteboard-share-link.entity';
+import { WorkspacesService } from '../workspaces/workspaces.service';
+import { UserGroupsService } from '../user-groups/user-groups.service';
+import { WhiteboardGroupCollaborator } from '../whiteboard-collaborators/entities/whiteboard-group-collaborator.entity';
+import {
+  LIBRARY_ROLES,
+  getInheritedBoardRole,
+} from '../workspaces/workspace-roles';
+import {
+  BoardState,
+  BoardStateService,
+} from '../whiteboard-operations/board-state.service';
 import { CreateWhiteboardDto, BoardAccessType } from './dto/create-whiteboard.dto';
+import { Participant, PresenceService } from '../presence/presence.service';
+import { PubSubBroker } from '../pubsub/pubsub-broker';
+import {
+  WHITEBOARD_ACCESS_CHANNEL,
+  WhiteboardAccessEvent,
+} from './whiteboard-access-events';
+
+/**
+ * A share link together with its token
+ */
+export interface ShareLinkWithToken {
+  shareLink: WhiteboardShareLink;
+  token: string;
+}
+
+/**
+ * What a guest joining through a share link gets
+ */
+export interface GuestAccess {
+  whiteboard: Whiteboard;
+  shareLink: WhiteboardShareLink;
+  role: CollaboratorRole;
+}
+
+/**
+ * A whiteboard opened through a share link
+ */
+export interface SharedWhiteboard {
+  whiteboard: Whiteboard;
+  shareLink: WhiteboardShareLink;
+  state: BoardState;
+}
 
 @Injectable()
 export class WhiteboardsService {
+  private readonly logger = new Logger(WhiteboardsService.name);
+
   constructor(
     @InjectRepository(Whiteboard)
     private readonly whiteboardRepository: Repository<Whiteboard>,
     private readonly usersService: UsersService,
     private readonly collaboratorsService: WhiteboardCollaboratorsService,
+    private readonly invitationsService: WhiteboardInvitationsService,
+    private readonly shareLinksService: WhiteboardShareLinksService,
+    private readonly workspacesService: WorkspacesService,
+    private readonly userGroupsService: UserGroupsService,
     @Inject(forwardRef(() => WhiteboardSnapshotsService))
     private readonly snapshotsService: WhiteboardSnapshotsService,
+    @Inject(forwardRef(() => BoardStateService))
+    private readonly boardStateService: BoardStateService,
+    private readonly presenceService: PresenceService,
+    private readonly pubSubBroker: PubSubBroker,
   ) {}
 
   /**
    * Create a new whiteboard
    * @param createWhiteboardDto - Whiteboard creation data
    * @param owner - User creating the whiteboard
-   * @returns Created whiteboard entity with collaborators
+   * @returns Created whiteboard entity with collaborators and pending invitations
+   * @throws NotFoundException if the workspace is not found
+   * @throws ForbiddenException if the owner may not add boards to the workspace
    */
   async create(
     createWhiteboardDto: CreateWhiteboardDto,
     owner: User,
   ): Promise<Whiteboard> {
+    if (createWhiteboardDto.workspaceId) {
+      await this.workspacesService.findWithMembership(
+        createWhiteboardDto.workspaceId,
+        owner,
+        LIBRARY_ROLES,
+        'Only admins and members can add whiteboards to this workspace',
+      );
+    }
+
     // Create whiteboard entity
     const whiteboard = this.whiteboardRepository.create({
       title: createWhiteboardDto.title.trim(),
       description: createWhiteboardDto.description?.trim() || undefined,
       owner,
+      workspaceId: createWhiteboardDto.workspaceId ?? null,
       isPublic: false, // Always private by default
     });
 
@@ -57,9 +138,9 @@ export class WhiteboardsService {
         );
       }
 
-      // Validate that all invited users exist
+      // Registered users become collaborators, other emails get a pending invitation
       const invitedUsers: User[] = [];
-      const invalidEmails: string[] = [];
+      const unregisteredEmails: string[] = [];
 
       for (const email of createWhiteboardDto.invitedEmails) {
         const normalizedEmail = email.toLowerCase().trim();
@@ -72,16 +153,11 @@ export class WhiteboardsService {
         const user = await this.usersService.findByEmail(normalizedEmail);
         if (user) {
           invitedUsers.push(user);
-        } else {
-          invalidEmails.push(email);
+        } else if (!unregisteredEmails.includes(normalizedEmail)) {
+          unregisteredEmails.push(normalizedEmail);
         }
       }
 
-      if (invalidEmails.length > 0) {
-        throw new BadRequestException(
-          `The following users do not exist in the system: ${invalidEmails.join(', ')}`,
-        );
-      }
 
       // Add collaborators
       if (invitedUsers.length > 0) {
@@ -91,12 +167,26 @@ export class WhiteboardsService {
           'editor', // Default role - all users can update the whiteboard
         );
       }
+
+      for (const email of unregisteredEmails) {
+        await this.invitationsService.invite(
+          savedWhiteboard,
+          email,
+          'editor',
+          owner,
+        );
+      }
     }
 
     // Load whiteboard with relations
     const whiteboardWithRelations = await this.whiteboardRepository.findOne({
       where: { id: savedWhiteboard.id },
-      relations: ['owner', 'collaborators', 'collaborators.user'],
+      relations: [
+        'owner',
+        'collaborators',
+        'collaborators.user',
+        'invitations',
+      ],
     });
 
     if (!whiteboardWithRelations) {
@@ -141,12 +231,21 @@ export class WhiteboardsService {
     // Get all collaborations for this user
     const collaborations = await this.collaboratorsService.findByUserId(userId);
 
-    if (collaborations.length === 0) {
-      return [];
-    }
+    // Whiteboards shared with one of the user's groups count as well
+    const groupWhiteboardIds =
+      await this.collaboratorsService.findWhiteboardIdsByGroupMember(userId);
 
     // Extract whiteboard IDs
-    const whiteboardIds = collaborations.map((collab) => collab.whiteboardId);
+    const whiteboardIds = [
+      ...new Set([
+        ...collaborations.map((collab) => collab.whiteboardId),
+        ...groupWhiteboardIds,
+      ]),
+    ];
+
+    if (whiteboardIds.length === 0) {
+      return [];
+    }
 
     // Find whiteboards where user is a collaborator but not the owner
     const whiteboards = await this.whiteboardRepository.find({
@@ -185,7 +284,7 @@ export class WhiteboardsService {
     // Verify that the user is NOT the owner
     if (whiteboard.owner.id === user.id) {
       throw new ForbiddenException(
-        'Owner cannot leave their own whiteboard. Please delete the whiteboard instead.',
+        'Owner cannot leave their own whiteboard. Please transfer ownership to a collaborator or delete the whiteboard instead.',
       );
     }
 
@@ -203,6 +302,14 @@ export class WhiteboardsService {
 
     // Remove the user as a collaborator
     await this.collaboratorsService.removeCollaborator(whiteboardId, user.id);
+    await this.clearOwnershipNomination(whiteboardId, user.id);
+
+    // A group or the workspace may still give them access
+    await this.publishAccessEvent({
+      type: 'access_changed',
+      whiteboardId,
+      userId: user.id,
+    });
   }
 
   /**
@@ -210,15 +317,33 @@ export class WhiteboardsService {
    * Access rules:
    * - Owner can always access
    * - Collaborators can access if they were invited
+   * - Members of a user group added to the whiteboard can access
+   * - Admins and members of the board's workspace can access
    * - Private whiteboards (no collaborators) can only be accessed by owner
    * @param whiteboard - Whiteboard entity
    * @param user - User to check access for
    * @returns true if user has access, false otherwise
    */
   async hasAccess(whiteboard: Whiteboard, user: User): Promise<boolean> {
+    return (await this.getRole(whiteboard, user)) !== null;
+  }
+
+  /**
+   * Get the effective role of a user on a whiteboard
+   * The owner is always 'owner'; otherwise the user gets the highest of
+   * their collaborator row's role, the roles of their groups added to the
+   * board and the role their workspace membership gives on the board
+   * @param whiteboard - Whiteboard entity (with owner relation)
+   * @param user - User to get the role of
+   * @returns Role, or null if the user has no access
+   */
+  async getRole(
+    whiteboard: Whiteboard,
+    user: User,
+  ): Promise<CollaboratorRole | null> {
     // Owner always has access
     if (whiteboard.owner.id === user.id) {
-      return true;
+      return 'owner';
     }
 
     // Check if user is a collaborator (invited user)
@@ -228,15 +353,50 @@ export class WhiteboardsService {
         user.id,
       );
 
-    // If user is a collaborator, they have access
-    return collaborator !== null;
+    // Groups the user belongs to may have been added with a higher role
+    const groupRole = await this.collaboratorsService.findGroupRole(
+      whiteboard.id,
+      user.id,
+    );
+
+    // Workspace members see the boards of their workspace without an invite
+    const workspaceRole = whiteboard.workspaceId
+      ? await this.workspacesService.getMemberRole(
+          whiteboard.workspaceId,
+          user.id,
+        )
+      : null;
+
+    return highestRole(
+      collaborator?.role,
+      groupRole,
+      getInheritedBoardRole(workspaceRole),
+    );
+  }
+
+  /**
+   * Tell the gateway of every API process about an access change
+   * The change itself is already saved, so a failed publish is not rethrown
+   * (the affected sockets then keep their room until they reconnect)
+   * @param event - Access event
+   */
+  private async publishAccessEvent(
+    event: WhiteboardAccessEvent,
+  ): Promise<void> {
+    try {
+      await this.pubSubBroker.publish(WHITEBOARD_ACCESS_CHANNEL, event);
+    } catch (error) {
+      this.logger.error(
+        `Failed to publish ${event.type} access event for whiteboard ${event.whiteboardId}: ${error.message}`,
+      );
+    }
   }
 
   /**
-   * Get whiteboard by ID with snapshots and access control
+   * Get whiteboard by ID with access control
    * @param whiteboardId - Whiteboard ID
    * @param user - Current user requesting access
-   * @returns Whiteboard entity with snapshots
+   * @returns Whiteboard entity with owner and collaborators
    * @throws NotFoundException if whiteboard not found
    * @throws ForbiddenException if user doesn't have access
    */
@@ -244,20 +404,11 @@ export class WhiteboardsService {
     whiteboardId: string,
     user: User,
   ): Promise<Whiteboard> {
-    // Find whiteboard with all relations
+    // Find whiteboard with owner and collaborators; versions are loaded on
+    // demand (see getLatestSnapshot and the snapshots routes)
     const whiteboard = await this.whiteboardRepository.findOne({
       where: { id: whiteboardId },
-      relations: [
-        'owner',
-        'collaborators',
-        'collaborators.user',
-        'snapshots',
-      ],
-      order: {
-        snapshots: {
-          createdAt: 'ASC', // Oldest snapshots first
-        },
-      },
+      relations: ['owner', 'collaborators', 'collaborators.user'],
     });
 
     if (!whiteboard) {
@@ -275,22 +426,59 @@ export class WhiteboardsService {
     return whiteboard;
   }
 
+  /**
+   * Get the current board document of a whiteboard
+   * Replays the operation log on top of the latest snapshot
+   * Access must already have been checked (see findByIdWithAccess)
+   * @param whiteboard - Whiteboard entity
+   * @returns Materialised board state and the sequence it reflects
+   */
+  async getCurrentState(whiteboard: Whiteboard): Promise<BoardState> {
+    return await this.boardStateService.getCurrentState(whiteboard.id);
+  }
+
+  /**
+   * Get the head version of a whiteboard
+   * Access must already have been checked (see findByIdWithAccess)
+   * @param whiteboard - Whiteboard entity
+   * @returns Latest snapshot entity or null for a board never saved
+   */
+  async getLatestSnapshot(
+    whiteboard: Whiteboard,
+  ): Promise<WhiteboardSnapshot | null> {
+    return await this.snapshotsService.findLatestByWhiteboardId(whiteboard.id);
+  }
+
+  /**
+   * Get the users currently connected to a whiteboard
+   * Access must already have been checked (see findByIdWithAccess)
+   * @param whiteboard - Whiteboard entity
+   * @returns Live roster, one entry per user
+   */
+  async getParticipants(whiteboard: Whiteboard): Promise<Participant[]> {
+    return await this.presenceService.getParticipants(whiteboard.id);
+  }
+
   /**
    * Add a collaborator to a whiteboard (owner only)
+   * An email without an account gets a pending invitation instead, which
+   * becomes a collaborator row when someone registers with it
    * @param whiteboardId - Whiteboard ID
    * @param userEmail - Email of the user to add as collaborator
    * @param owner - Current user (must be the owner)
-   * @returns Created collaborator entity with user relation
+   * @param role - Role for the collaborator (default: 'editor')
+   * @returns Created collaborator entity with user relation, or the pending invitation
    * @throws NotFoundException if whiteboard not found
    * @throws ForbiddenException if user is not the owner
-   * @throws BadRequestException if user doesn't exist in the system
+   * @throws BadRequestException if the owner tries to add themselves
    * @throws ConflictException if user is already a collaborator
    */
   async addCollaborator(
     whiteboardId: string,
     userEmail: string,
     owner: User,
-  ): Promise<WhiteboardCollaborator> {
+    role: CollaboratorRole = 'editor',
+  ): Promise<WhiteboardCollaborator | WhiteboardInvitation> {
     // Find whiteboard with owner relation
     const whiteboard = await this.whiteboardRepository.findOne({
       where: { id: whiteboardId },
@@ -321,17 +509,21 @@ export class WhiteboardsService {
     // Find the user by email
     const userToAdd = await this.usersService.findByEmail(normalizedEmail);
 
+    // No account yet: invite the email instead
     if (!userToAdd) {
-      throw new BadRequestException(
-        'User with this email does not exist in the system',
+      return await this.invitationsService.invite(
+        whiteboard,
+        normalizedEmail,
+        role,
+        owner,
       );
     }
 
     // Add collaborator (this will throw ConflictException if already exists)
-    const collaborator = await this.collaboratorsService.addCollaborator(
+    await this.collaboratorsService.addCollaborator(
       whiteboard,
       userToAdd,
-      'editor',
+      role,
     );
 
     // Load collaborator with user relation
@@ -348,155 +540,976 @@ export class WhiteboardsService {
   }
 
   /**
-   * Delete a whiteboard (owner only)
-   * This will cascade delete all snapshots and collaborators due to CASCADE constraints
+   * List the invitations of a whiteboard (owner only)
    * @param whiteboardId - Whiteboard ID
    * @param owner - Current user (must be the owner)
+   * @returns Array of invitation entities, expired ones included
    * @throws NotFoundException if whiteboard not found
    * @throws ForbiddenException if user is not the owner
    */
-  async delete(whiteboardId: string, owner: User): Promise<void> {
-    // Find whiteboard with owner relation
-    const whiteboard = await this.whiteboardRepository.findOne({
-      where: { id: whiteboardId },
-      relations: ['owner'],
-    });
+  async listInvitations(
+    whiteboardId: string,
+    owner: User,
+  ): Promise<WhiteboardInvitation[]> {
+    await this.findOwnedWhiteboard(
+      whiteboardId,
+      owner,
+      'Only the owner can see the invitations of this whiteboard',
+    );
 
-    if (!whiteboard) {
-      throw new NotFoundException('Whiteboard not found');
-    }
+    return await this.invitationsService.findByWhiteboardId(whiteboardId);
+  }
 
-    // Verify that the current user is the owner
-    if (whiteboard.owner.id !== owner.id) {
-      throw new ForbiddenException(
-        'Only the owner can delete this whiteboard',
-      );
-    }
+  /**
+   * Resend an invitation, restarting its expiry (owner only)
+   * @param whiteboardId - Whiteboard ID
+   * @param invitationId - Invitation ID
+   * @param owner - Current user (must be the owner)
+   * @returns Updated invitation entity
+   * @throws NotFoundException if whiteboard or invitation not found
+   * @throws ForbiddenException if user is not the owner
+   */
+  async resendInvitation(
+    whiteboardId: string,
+    invitationId: string,
+    owner: User,
+  ): Promise<WhiteboardInvitation> {
+    await this.findOwnedWhiteboard(
+      whiteboardId,
+      owner,
+      'Only the owner can resend invitations to this whiteboard',
+    );
 
-    // Delete whiteboard (CASCADE will automatically delete snapshots and collaborators)
-    await this.whiteboardRepository.remove(whiteboard);
+    return await this.invitationsService.resend(whiteboardId, invitationId);
   }
 
   /**
-   * Remove a collaborator from a whiteboard (owner only)
+   * Revoke an invitation (owner only)
    * @param whiteboardId - Whiteboard ID
-   * @param userEmail - Email of the collaborator to remove
+   * @param invitationId - Invitation ID
    * @param owner - Current user (must be the owner)
-   * @throws NotFoundException if whiteboard not found or collaborator not found
+   * @throws NotFoundException if whiteboard or invitation not found
    * @throws ForbiddenException if user is not the owner
-   * @throws BadRequestException if user doesn't exist in the system
    */
-  async removeCollaborator(
+  async revokeInvitation(
     whiteboardId: string,
-    userEmail: string,
+    invitationId: string,
     owner: User,
   ): Promise<void> {
-    // Find whiteboard with owner relation
-    const whiteboard = await this.whiteboardRepository.findOne({
-      where: { id: whiteboardId },
-      relations: ['owner'],
-    });
-
-    if (!whiteboard) {
-      throw new NotFoundException('Whiteboard not found');
-    }
+    await this.findOwnedWhiteboard(
+      whiteboardId,
+      owner,
+      'Only the owner can revoke invitations to this whiteboard',
+    );
 
-    // Verify that the current user is the owner
-    if (whiteboard.owner.id !== owner.id) {
-      throw new ForbiddenException(
-        'Only the owner can remove collaborators from this whiteboard',
-      );
-    }
+    await this.invitationsService.revoke(whiteboardId, invitationId);
+  }
 
-    // Normalize email
-    const normalizedEmail = userEmail.toLowerCase().trim();
+  /**
+   * Create a share link for a whiteboard (owner only)
+   * @param whiteboardId - Whiteboard ID
+   * @param owner - Current user (must be the owner)
+   * @param options - Role, optional expiry and optional password
+   * @returns Created share link and its token
+   * @throws NotFoundException if whiteboard not found
+   * @throws ForbiddenException if user is not the owner
+   * @throws BadRequestException if the expiry is in the past
+   */
+  async createShareLink(
+    whiteboardId: string,
+    owner: User,
+    options: CreateShareLinkOptions,
+  ): Promise<ShareLinkWithToken> {
+    const whiteboard = await this.findOwnedWhiteboard(
+      whiteboardId,
+      owner,
+      'Only the owner can create share links for this whiteboard',
+    );
 
-    // Don't allow removing the owner
-    if (normalizedEmail === owner.email.toLowerCase()) {
-      throw new BadRequestException(
-        'You cannot remove yourself as a collaborator',
-      );
+    if (options.expiresAt && options.expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('Expiry must be in the future');
     }
 
-    // Find the user by email to verify they exist in the system
-    const userToRemove = await this.usersService.findByEmail(normalizedEmail);
+    const shareLink = await this.shareLinksService.create(
+      whiteboard,
+      owner,
+      options,
+    );
 
-    if (!userToRemove) {
-      throw new BadRequestException(
-        'User with this email does not exist in the system',
-      );
-    }
+    return { shareLink, token: this.shareLinksService.signToken(shareLink) };
+  }
 
-    // Remove collaborator (this will throw NotFoundException if not a collaborator)
-    await this.collaboratorsService.removeCollaborator(
+  /**
+   * List the share links of a whiteboard (owner only)
+   * @param whiteboardId - Whiteboard ID
+   * @param owner - Current user (must be the owner)
+   * @returns Share links with their tokens, expired ones included
+   * @throws NotFoundException if whiteboard not found
+   * @throws ForbiddenException if user is not the owner
+   */
+  async listShareLinks(
+    whiteboardId: string,
+    owner: User,
+  ): Promise<ShareLinkWithToken[]> {
+    await this.findOwnedWhiteboard(
       whiteboardId,
-      userToRemove.id,
+      owner,
+      'Only the owner can see the share links of this whiteboard',
     );
+
+    const shareLinks =
+      await this.shareLinksService.findByWhiteboardId(whiteboardId);
+
+    return shareLinks.map((shareLink) => ({
+      shareLink,
+      token: this.shareLinksService.signToken(shareLink),
+    }));
   }
 
   /**
-   * Duplicate a whiteboard (owner only)
-   * Duplicates the whiteboard with title and description, all snapshots, and all collaborators
-   * @param whiteboardId - Whiteboard ID to duplicate
+   * Revoke a share link (owner only)
+   * Connections opened through the link are taken out of the room
+   * @param whiteboardId - Whiteboard ID
+   * @param shareLinkId - Share link ID
    * @param owner - Current user (must be the owner)
-   * @returns Duplicated whiteboard entity with all relations
-   * @throws NotFoundException if whiteboard not found
+   * @throws NotFoundException if whiteboard or share link not found
    * @throws ForbiddenException if user is not the owner
    */
-  async duplicate(whiteboardId: string, owner: User): Promise<Whiteboard> {
-    // Find whiteboard with all relations
-    const originalWhiteboard = await this.whiteboardRepository.findOne({
-      where: { id: whiteboardId },
-      relations: [
-        'owner',
-        'collaborators',
-        'collaborators.user',
-        'snapshots',
-      ],
+  async revokeShareLink(
+    whiteboardId: string,
+    shareLinkId: string,
+    owner: User,
+  ): Promise<void> {
+    await this.findOwnedWhiteboard(
+      whiteboardId,
+      owner,
+      'Only the owner can revoke share links of this whiteboard',
+    );
+
+    await this.shareLinksService.revoke(whiteboardId, shareLinkId);
+
+    await this.publishAccessEvent({
+      type: 'share_link_revoked',
+      whiteboardId,
+      shareLinkId,
     });
+  }
 
-    if (!originalWhiteboard) {
+  /**
+   * Open a whiteboard through a share link (no account needed)
+   * Counts one use of the link
+   * @param token - Share link token
+   * @param password - Password, for links that have one
+   * @param clientIp - IP address of the client
+   * @returns Whiteboard, share link and current board state
+   * @throws NotFoundException if the link is invalid, revoked or its whiteboard is gone
+   * @throws ForbiddenException if the link expired
+   * @throws UnauthorizedException if the password is missing or wrong
+   * @throws HttpException (429) if the client tried too many wrong passwords
+   */
+  async openShareLink(
+    token: string,
+    password: string | undefined,
+    clientIp: string,
+  ): Promise<SharedWhiteboard> {
+    const shareLink = await this.shareLinksService.resolve(
+      token,
+      password,
+      clientIp,
+    );
+
+    const whiteboard = await this.whiteboardRepository.findOne({
+      where: { id: shareLink.whiteboardId },
+      relations: ['owner'],
+    });
+
+    if (!whiteboard) {
       throw new NotFoundException('Whiteboard not found');
     }
 
-    // Verify that the current user is the owner
-    if (originalWhiteboard.owner.id !== owner.id) {
-      throw new ForbiddenException(
-        'Only the owner can duplicate this whiteboard',
-      );
-    }
+    await this.shareLinksService.recordUse(shareLink);
+    const state = await this.getCurrentState(whiteboard);
 
-    // Create new whiteboard with duplicated title and description
-    const duplicatedWhiteboard = this.whiteboardRepository.create({
-      title: originalWhiteboard.title,
-      description: originalWhiteboard.description,
-      owner,
-      isPublic: originalWhiteboard.isPublic,
+    return { whiteboard, shareLink, state };
+  }
+
+  /**
+   * Get the role a guest has through a share link
+   * Guests get the least privileged of the link's role and the board's guest role
+   * @param whiteboard - Whiteboard entity
+   * @param shareLink - Share link the guest joined through
+   * @returns Role, or null if the board doesn't allow guests
+   */
+  getGuestRole(
+    whiteboard: Whiteboard,
+    shareLink: WhiteboardShareLink,
+  ): CollaboratorRole | null {
+    return whiteboard.guestRole
+      ? lowestRole(shareLink.role, whiteboard.guestRole)
+      : null;
+  }
+
+  /**
+   * Check that a share link lets guests join its whiteboard
+   * Counts one use of the link
+   * @param token - Share link token
+   * @param password - Password, for links that have one
+   * @param clientIp - IP address of the client
+   * @returns Whiteboard, share link and the role guests get
+   * @throws NotFoundException if the link is invalid, revoked or its whiteboard is gone
+   * @throws ForbiddenException if the link expired or the board doesn't allow guests
+   * @throws UnauthorizedException if the password is missing or wrong
+   * @throws HttpException (429) if the client tried too many wrong passwords
+   */
+  async resolveGuestAccess(
+    token: string,
+    password: string | undefined,
+    clientIp: string,
+  ): Promise<GuestAccess> {
+    const shareLink = await this.shareLinksService.resolve(
+      token,
+      password,
+      clientIp,
+    );
+
+    const whiteboard = await this.whiteboardRepository.findOne({
+      where: { id: shareLink.whiteboardId },
+      relations: ['owner'],
     });
 
-    const savedWhiteboard = await this.whiteboardRepository.save(duplicatedWhiteboard);
+    if (!whiteboard) {
+      throw new NotFoundException('Whiteboard not found');
+    }
 
-    // Duplicate all snapshots
-    if (originalWhiteboard.snapshots && originalWhiteboard.snapshots.length > 0) {
-      for (const snapshot of originalWhiteboard.snapshots) {
-        await this.snapshotsService.createSnapshot(
-          savedWhiteboard,
-          snapshot.data,
-        );
-      }
+    const role = this.getGuestRole(whiteboard, shareLink);
+    if (!role) {
+      throw new ForbiddenException('This whiteboard does not allow guests');
     }
 
-    // Duplicate all collaborators
-    if (originalWhiteboard.collaborators && originalWhiteboard.collaborators.length > 0) {
-      const collaboratorsToAdd = originalWhiteboard.collaborators.map(
-        (collab) => collab.user,
-      );
-      
-      await this.collaboratorsService.addCollaborators(
-        savedWhiteboard,
-        collaboratorsToAdd,
-        'editor',
-      );
+    await this.shareLinksService.recordUse(shareLink);
+
+    return { whiteboard, shareLink, role };
+  }
+
+  /**
+   * Set the highest role guests can have on a whiteboard (owner only)
+   * @param whiteboardId - Whiteboard ID
+   * @param guestRole - Highest guest role, or null to keep guests out
+   * @param owner - Current user (must be the owner)
+   * @returns Updated whiteboard entity
+   * @throws NotFoundException if whiteboard not found
+   * @throws ForbiddenException if user is not the owner
+   */
+  async updateGuestRole(
+    whiteboardId: string,
+    guestRole: CollaboratorRole | null,
+    owner: User,
+  ): Promise<Whiteboard> {
+    const whiteboard = await this.findOwnedWhiteboard(
+      whiteboardId,
+      owner,
+      'Only the owner can change guest access to this whiteboard',
+    );
+
+    whiteboard.guestRole = guestRole;
+    const updatedWhiteboard = await this.whiteboardRepository.save(whiteboard);
+
+    // Guests already on the board pick up the change
+    await this.publishAccessEvent({
+      type: 'guest_access_changed',
+      whiteboardId,
+      guestRole,
+    });
+
+    return updatedWhiteboard;
+  }
+
+  /**
+   * Find a whiteboard and check that the user owns it
+   * @param whiteboardId - Whiteboard ID
+   * @param owner - Current user (must be the owner)
+   * @param forbiddenMessage - Message of the ForbiddenException
+   * @returns Whiteboard entity with owner relation
+   * @throws NotFoundException if whiteboard not found
+   * @throws ForbiddenException if user is not the owner
+   */
+  private async findOwnedWhiteboard(
+    whiteboardId: string,
+    owner: User,
+    forbiddenMessage: string,
+  ): Promise<Whiteboard> {
+    const whiteboard = await this.whiteboardRepository.findOne({
+      where: { id: whiteboardId },
+      relations: ['owner'],
+    });
+
+    if (!whiteboard) {
+      throw new NotFoundException('Whiteboard not found');
+    }
+
+    if (whiteboard.owner.id !== owner.id) {
+      throw new ForbiddenException(forbiddenMessage);
+    }
+
+    return whiteboard;
+  }
+
+  /**
+   * Change the role of a collaborator (owner only)
+   * @param whiteboardId - Whiteboard ID
+   * @param userId - User ID of the collaborator
+   * @param role - New role
+   * @param owner - Current user (must be the owner)
+   * @returns Updated collaborator entity with user relation
+   * @throws NotFoundException if whiteboard not found or collaborator not found
+   * @throws ForbiddenException if user is not the owner
+   * @throws BadRequestException if the owner tries to change their own role
+   */
+  async updateCollaboratorRole(
+    whiteboardId: string,
+    userId: string,
+    role: CollaboratorRole,
+    owner: User,
+  ): Promise<WhiteboardCollaborator> {
+    // Find whiteboard with owner relation
+    const whiteboard = await this.whiteboardRepository.findOne({
+      where: { id: whiteboardId },
+      relations: ['owner'],
+    });
+
+    if (!whiteboard) {
+      throw new NotFoundException('Whiteboard not found');
+    }
+
+    // Verify that the current user is the owner
+    if (whiteboard.owner.id !== owner.id) {
+      throw new ForbiddenException(
+        'Only the owner can change collaborator roles on this whiteboard',
+      );
+    }
+
+    if (userId === owner.id) {
+      throw new BadRequestException('You cannot change your own role');
+    }
+
+    // Update role (this will throw NotFoundException if not a collaborator)
+    const collaborator = await this.collaboratorsService.updateRole(
+      whiteboardId,
+      userId,
+      role,
+    );
+
+    // Open connections pick up their new effective role (a group or the
+    // workspace may still give them a higher one)
+    await this.publishAccessEvent({
+      type: 'access_changed',
+      whiteboardId,
+      userId,
+    });
+
+    return collaborator;
+  }
+
+  /**
+   * Add a user group to a whiteboard as a collaborator (owner only)
+   * Every member of the group gets the role, unless they have a higher one
+   * another way; members with the board open pick it up right away
+   * @param whiteboardId - Whiteboard ID
+   * @param groupId - User group ID
+   * @param owner - Current user (must be the owner, and created or belong to the group)
+   * @param role - Role for the group (default: 'editor')
+   * @returns Created group collaborator entity with group relation
+   * @throws NotFoundException if whiteboard or group not found
+   * @throws ForbiddenException if user is not the owner or cannot see the group
+   * @throws ConflictException if the group is already a collaborator
+   */
+  async addGroupCollaborator(
+    whiteboardId: string,
+    groupId: string,
+    owner: User,
+    role: CollaboratorRole = 'editor',
+  ): Promise<WhiteboardGroupCollaborator> {
+    const whiteboard = await this.findOwnedWhiteboard(
+      whiteboardId,
+      owner,
+      'Only the owner can add collaborators to this whiteboard',
+    );
+
+    // Only groups the owner can see may be added
+    const group = await this.userGroupsService.findVisible(groupId, owner);
+
+    const groupCollaborator =
+      await this.collaboratorsService.addGroupCollaborator(
+        whiteboard,
+        group,
+        role,
+      );
+
+    await this.publishGroupAccessChanged(whiteboardId, groupId, owner);
+
+    return groupCollaborator;
+  }
+
+  /**
+   * List the user groups added to a whiteboard (owner only)
+   * @param whiteboardId - Whiteboard ID
+   * @param owner - Current user (must be the owner)
+   * @returns Array of group collaborator entities with group relation
+   * @throws NotFoundException if whiteboard not found
+   * @throws ForbiddenException if user is not the owner
+   */
+  async listGroupCollaborators(
+    whiteboardId: string,
+    owner: User,
+  ): Promise<WhiteboardGroupCollaborator[]> {
+    await this.findOwnedWhiteboard(
+      whiteboardId,
+      owner,
+      'Only the owner can view the groups of this whiteboard',
+    );
+
+    return await this.collaboratorsService.findGroupsByWhiteboardId(
+      whiteboardId,
+    );
+  }
+
+  /**
+   * Change the role of a user group on a whiteboard (owner only)
+   * @param whiteboardId - Whiteboard ID
+   * @param groupId - User group ID
+   * @param role - New role
+   * @param owner - Current user (must be the owner)
+   * @returns Updated group collaborator entity with group relation
+   * @throws NotFoundException if whiteboard not found or group not on the whiteboard
+   * @throws ForbiddenException if user is not the owner
+   */
+  async updateGroupCollaboratorRole(
+    whiteboardId: string,
+    groupId: string,
+    role: CollaboratorRole,
+    owner: User,
+  ): Promise<WhiteboardGroupCollaborator> {
+    await this.findOwnedWhiteboard(
+      whiteboardId,
+      owner,
+      'Only the owner can change collaborator roles on this whiteboard',
+    );
+
+    const groupCollaborator = await this.collaboratorsService.updateGroupRole(
+      whiteboardId,
+      groupId,
+      role,
+    );
+
+    await this.publishGroupAccessChanged(whiteboardId, groupId, owner);
+
+    return groupCollaborator;
+  }
+
+  /**
+   * Remove a user group from a whiteboard (owner only)
+   * Members without access another way leave the board right away
+   * @param whiteboardId - Whiteboard ID
+   * @param groupId - User group ID
+   * @param owner - Current user (must be the owner)
+   * @throws NotFoundException if whiteboard not found or group not on the whiteboard
+   * @throws ForbiddenException if user is not the owner
+   */
+  async removeGroupCollaborator(
+    whiteboardId: string,
+    groupId: string,
+    owner: User,
+  ): Promise<void> {
+    await this.findOwnedWhiteboard(
+      whiteboardId,
+      owner,
+      'Only the owner can remove collaborators from this whiteboard',
+    );
+
+    await this.collaboratorsService.removeGroupCollaborator(
+      whiteboardId,
+      groupId,
+    );
+
+    await this.publishGroupAccessChanged(whiteboardId, groupId, owner);
+  }
+
+  /**
+   * Tell the open connections of a group's members to re-check their role
+   * on a whiteboard after the group's grant on it changed
+   */
+  private async publishGroupAccessChanged(
+    whiteboardId: string,
+    groupId: string,
+    owner: User,
+  ): Promise<void> {
+    const memberIds = await this.userGroupsService.findMemberIds(groupId);
+
+    for (const userId of memberIds) {
+      if (userId === owner.id) {
+        continue;
+      }
+
+      await this.publishAccessEvent({
+        type: 'access_changed',
+        whiteboardId,
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Move a whiteboard into a workspace, or back out of one (owner only)
+   * The owner must be an admin or member of the target workspace. Members
+   * of the previous workspace keep access only through a per-board invite
+   * @param whiteboardId - Whiteboard ID
+   * @param workspaceId - Target workspace ID, or null for a personal board
+   * @param owner - Current user (must be the owner)
+   * @returns Updated whiteboard entity
+   * @throws NotFoundException if whiteboard or workspace not found
+   * @throws ForbiddenException if user is not the owner or may not add boards to the workspace
+   */
+  async moveToWorkspace(
+    whiteboardId: string,
+    workspaceId: string | null,
+    owner: User,
+  ): Promise<Whiteboard> {
+    const whiteboard = await this.findOwnedWhiteboard(
+      whiteboardId,
+      owner,
+      'Only the owner can move this whiteboard',
+    );
+
+    if (workspaceId) {
+      await this.workspacesService.findWithMembership(
+        workspaceId,
+        owner,
+        LIBRARY_ROLES,
+        'Only admins and members can add whiteboards to this workspace',
+      );
+    }
+
+    const previousWorkspaceId = whiteboard.workspaceId;
+    whiteboard.workspaceId = workspaceId;
+    const updatedWhiteboard = await this.whiteboardRepository.save(whiteboard);
+
+    // Members of the workspace the board left re-check their open connections
+    if (previousWorkspaceId && previousWorkspaceId !== workspaceId) {
+      const memberIds =
+        await this.workspacesService.findMemberIds(previousWorkspaceId);
+
+      for (const userId of memberIds) {
+        if (userId === owner.id) {
+          continue;
+        }
+
+        await this.publishAccessEvent({
+          type: 'access_changed',
+          whiteboardId,
+          userId,
+        });
+      }
+    }
+
+    return updatedWhiteboard;
+  }
+
+  /**
+   * Nominate a collaborator as the new owner of a whiteboard (owner only)
+   * Ownership only moves once the nominee accepts; a new nomination replaces
+   * the pending one
+   * @param whiteboardId - Whiteboard ID
+   * @param userId - User ID of the collaborator to nominate
+   * @param owner - Current user (must be the owner)
+   * @returns Whiteboard entity with owner and pendingOwner relations
+   * @throws NotFoundException if whiteboard not found
+   * @throws ForbiddenException if user is not the owner
+   * @throws BadRequestException if the nominee is the owner or not a collaborator
+   */
+  async requestOwnershipTransfer(
+    whiteboardId: string,
+    userId: string,
+    owner: User,
+  ): Promise<Whiteboard> {
+    const whiteboard = await this.findOwnedWhiteboard(
+      whiteboardId,
+      owner,
+      'Only the owner can transfer ownership of this whiteboard',
+    );
+
+    if (userId === owner.id) {
+      throw new BadRequestException('You already own this whiteboard');
+    }
+
+    const collaborator =
+      await this.collaboratorsService.findCollaboratorByUserAndWhiteboard(
+        whiteboardId,
+        userId,
+      );
+
+    if (!collaborator) {
+      throw new BadRequestException(
+        'Ownership can only be transferred to a collaborator of this whiteboard',
+      );
+    }
+
+    whiteboard.pendingOwnerId = userId;
+    whiteboard.pendingOwner = collaborator.user;
+    whiteboard.ownershipTransferRequestedAt = new Date();
+
+    return await this.whiteboardRepository.save(whiteboard);
+  }
+
+  /**
+   * Withdraw a pending ownership transfer (owner only)
+   * @param whiteboardId - Whiteboard ID
+   * @param owner - Current user (must be the owner)
+   * @throws NotFoundException if whiteboard not found or no transfer is pending
+   * @throws ForbiddenException if user is not the owner
+   */
+  async cancelOwnershipTransfer(
+    whiteboardId: string,
+    owner: User,
+  ): Promise<void> {
+    const whiteboard = await this.findOwnedWhiteboard(
+      whiteboardId,
+      owner,
+      'Only the owner can cancel an ownership transfer of this whiteboard',
+    );
+
+    if (!whiteboard.pendingOwnerId) {
+      throw new NotFoundException(
+        'No ownership transfer is pending on this whiteboard',
+      );
+    }
+
+    await this.clearOwnershipNomination(
+      whiteboardId,
+      whiteboard.pendingOwnerId,
+    );
+  }
+
+  /**
+   * Find the whiteboards a user was nominated to take over
+   * @param userId - User ID
+   * @returns Array of whiteboard entities with owner relation, newest nomination first
+   */
+  async findPendingOwnershipTransfers(userId: string): Promise<Whiteboard[]> {
+    return await this.whiteboardRepository.find({
+      where: { pendingOwnerId: userId },
+      relations: ['owner'],
+      order: { ownershipTransferRequestedAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Accept a pending ownership transfer (nominee only)
+   * The nominee becomes the owner and loses their collaborator row; the
+   * previous owner stays on the board as an editor. Open connections of
+   * both pick up their new role
+   * @param whiteboardId - Whiteboard ID
+   * @param user - Current user (must be the nominee)
+   * @returns Whiteboard entity with its new owner and collaborators
+   * @throws NotFoundException if whiteboard not found or no transfer is pending for the user
+   */
+  async acceptOwnershipTransfer(
+    whiteboardId: string,
+    user: User,
+  ): Promise<Whiteboard> {
+    const whiteboard = await this.findPendingTransfer(whiteboardId, user);
+    const previousOwner = whiteboard.owner;
+
+    await this.whiteboardRepository.manager.transaction(async (manager) => {
+      // Only succeeds if the nomination and the owner haven't changed meanwhile
+      const result = await manager
+        .createQueryBuilder()
+        .update(Whiteboard)
+        .set({
+          owner: { id: user.id },
+          pendingOwnerId: null,
+          ownershipTransferRequestedAt: null,
+        })
+        .where('id = :whiteboardId', { whiteboardId })
+        .andWhere('pending_owner_id = :userId', { userId: user.id })
+        .andWhere('owner_id = :previousOwnerId', {
+          previousOwnerId: previousOwner.id,
+        })
+        .execute();
+
+      if (!result.affected) {
+        throw new NotFoundException(
+          'No ownership transfer is pending for you on this whiteboard',
+        );
+      }
+
+      // The owner's role comes from whiteboards.owner_id, never from a collaborator row
+      await manager.delete(WhiteboardCollaborator, {
+        whiteboardId,
+        userId: user.id,
+      });
+      await manager.save(
+        manager.create(WhiteboardCollaborator, {
+          whiteboardId,
+          userId: previousOwner.id,
+          role: 'editor',
+        }),
+      );
+    });
+
+    await this.publishAccessEvent({
+      type: 'role_changed',
+      whiteboardId,
+      userId: user.id,
+      role: 'owner',
+    });
+    await this.publishAccessEvent({
+      type: 'role_changed',
+      whiteboardId,
+      userId: previousOwner.id,
+      role: 'editor',
+    });
+
+    const transferredWhiteboard = await this.findById(whiteboardId);
+    if (!transferredWhiteboard) {
+      throw new NotFoundException('Whiteboard not found');
+    }
+
+    return transferredWhiteboard;
+  }
+
+  /**
+   * Decline a pending ownership transfer (nominee only)
+   * The nominee stays a collaborator with their current role
+   * @param whiteboardId - Whiteboard ID
+   * @param user - Current user (must be the nominee)
+   * @throws NotFoundException if whiteboard not found or no transfer is pending for the user
+   */
+  async declineOwnershipTransfer(
+    whiteboardId: string,
+    user: User,
+  ): Promise<void> {
+    await this.findPendingTransfer(whiteboardId, user);
+    await this.clearOwnershipNomination(whiteboardId, user.id);
+  }
+
+  /**
+   * Find a whiteboard on which a user is the nominated owner
+   * @param whiteboardId - Whiteboard ID
+   * @param user - Nominee
+   * @returns Whiteboard entity with owner relation
+   * @throws NotFoundException if whiteboard not found or no transfer is pending for the user
+   */
+  private async findPendingTransfer(
+    whiteboardId: string,
+    user: User,
+  ): Promise<Whiteboard> {
+    const whiteboard = await this.whiteboardRepository.findOne({
+      where: { id: whiteboardId },
+      relations: ['owner'],
+    });
+
+    if (!whiteboard) {
+      throw new NotFoundException('Whiteboard not found');
+    }
+
+    if (whiteboard.pendingOwnerId !== user.id) {
+      throw new NotFoundException(
+        'No ownership transfer is pending for you on this whiteboard',
+      );
+    }
+
+    return whiteboard;
+  }
+
+  /**
+   * Drop the ownership nomination of a user, if they have one on the whiteboard
+   * @param whiteboardId - Whiteboard ID
+   * @param userId - User ID of the nominee
+   */
+  private async clearOwnershipNomination(
+    whiteboardId: string,
+    userId: string,
+  ): Promise<void> {
+    await this.whiteboardRepository.update(
+      { id: whiteboardId, pendingOwnerId: userId },
+      { pendingOwnerId: null, ownershipTransferRequestedAt: null },
+    );
+  }
+
+  /**
+   * Delete a whiteboard (owner only)
+   * This will cascade delete all snapshots and collaborators due to CASCADE constraints
+   * @param whiteboardId - Whiteboard ID
+   * @param owner - Current user (must be the owner)
+   * @throws NotFoundException if whiteboard not found
+   * @throws ForbiddenException if user is not the owner
+   */
+  async delete(whiteboardId: string, owner: User): Promise<void> {
+    // Find whiteboard with owner relation
+    const whiteboard = await this.whiteboardRepository.findOne({
+      where: { id: whiteboardId },
+      relations: ['owner'],
+    });
+
+    if (!whiteboard) {
+      throw new NotFoundException('Whiteboard not found');
+    }
+
+    // Verify that the current user is the owner
+    if (whiteboard.owner.id !== owner.id) {
+      throw new ForbiddenException(
+        'Only the owner can delete this whiteboard',
+      );
+    }
+
+    // Delete whiteboard (CASCADE will automatically delete snapshots and collaborators)
+    await this.whiteboardRepository.remove(whiteboard);
+  }
+
+  /**
+   * Remove a collaborator from a whiteboard (owner only)
+   * @param whiteboardId - Whiteboard ID
+   * @param userEmail - Email of the collaborator to remove
+   * @param owner - Current user (must be the owner)
+   * @throws NotFoundException if whiteboard not found or collaborator not found
+   * @throws ForbiddenException if user is not the owner
+   * @throws BadRequestException if user doesn't exist in the system
+   */
+  async removeCollaborator(
+    whiteboardId: string,
+    userEmail: string,
+    owner: User,
+  ): Promise<void> {
+    // Find whiteboard with owner relation
+    const whiteboard = await this.whiteboardRepository.findOne({
+      where: { id: whiteboardId },
+      relations: ['owner'],
+    });
+
+    if (!whiteboard) {
+      throw new NotFoundException('Whiteboard not found');
+    }
+
+    // Verify that the current user is the owner
+    if (whiteboard.owner.id !== owner.id) {
+      throw new ForbiddenException(
+        'Only the owner can remove collaborators from this whiteboard',
+      );
+    }
+
+    // Normalize email
+    const normalizedEmail = userEmail.toLowerCase().trim();
+
+    // Don't allow removing the owner
+    if (normalizedEmail === owner.email.toLowerCase()) {
+      throw new BadRequestException(
+        'You cannot remove yourself as a collaborator',
+      );
+    }
+
+    // Find the user by email to verify they exist in the system
+    const userToRemove = await this.usersService.findByEmail(normalizedEmail);
+
+    if (!userToRemove) {
+      throw new BadRequestException(
+        'User with this email does not exist in the system',
+      );
+    }
+
+    // Remove collaborator (this will throw NotFoundException if not a collaborator)
+    await this.collaboratorsService.removeCollaborator(
+      whiteboardId,
+      userToRemove.id,
+    );
+    await this.clearOwnershipNomination(whiteboardId, userToRemove.id);
+
+    // Drop their open connections from the whiteboard room, unless a group
+    // or the workspace still gives them access
+    await this.publishAccessEvent({
+      type: 'access_changed',
+      whiteboardId,
+      userId: userToRemove.id,
+    });
+  }
+
+  /**
+   * Duplicate a whiteboard (owner only)
+   * Duplicates the whiteboard with title and description, its current board
+   * (including draw updates not yet autosaved) as the copy's first version,
+   * and all collaborators
+   * @param whiteboardId - Whiteboard ID to duplicate
+   * @param owner - Current user (must be the owner)
+   * @returns Duplicated whiteboard entity with all relations
+   * @throws NotFoundException if whiteboard not found
+   * @throws ForbiddenException if user is not the owner
+   */
+  async duplicate(whiteboardId: string, owner: User): Promise<Whiteboard> {
+    // Find whiteboard with all relations
+    const originalWhiteboard = await this.whiteboardRepository.findOne({
+      where: { id: whiteboardId },
+      relations: ['owner', 'collaborators', 'collaborators.user'],
+    });
+
+    if (!originalWhiteboard) {
+      throw new NotFoundException('Whiteboard not found');
+    }
+
+    // Verify that the current user is the owner
+    if (originalWhiteboard.owner.id !== owner.id) {
+      throw new ForbiddenException(
+        'Only the owner can duplicate this whiteboard',
+      );
+    }
+
+    const state = await this.boardStateService.getCurrentState(
+      originalWhiteboard.id,
+    );
+
+    // The copy stays in the workspace if the owner may still add boards to it
+    const workspaceRole = originalWhiteboard.workspaceId
+      ? await this.workspacesService.getMemberRole(
+          originalWhiteboard.workspaceId,
+          owner.id,
+        )
+      : null;
+
+    // Create new whiteboard with duplicated title and description
+    const duplicatedWhiteboard = this.whiteboardRepository.create({
+      title: originalWhiteboard.title,
+      description: originalWhiteboard.description,
+      owner,
+      workspaceId:
+        workspaceRole && LIBRARY_ROLES.includes(workspaceRole)
+          ? originalWhiteboard.workspaceId
+          : null,
+      isPublic: originalWhiteboard.isPublic,
+      // The copied shapes keep their stamps, so the copy's clock starts
+      // where the original's got to
+      lamportClock: state.document.crdt?.clock ?? 0,
+    });
+
+    const savedWhiteboard = await this.whiteboardRepository.save(duplicatedWhiteboard);
+
+    // The copy starts with an empty log, so its first version (sequence 0)
+    // holds the whole current board
+    await this.snapshotsService.createSnapshot(
+      savedWhiteboard,
+      { ...state.document },
+      { createdBy: owner },
+    );
+
+    // Duplicate all collaborators, keeping their roles
+    if (
+      originalWhiteboard.collaborators &&
+      originalWhiteboard.collaborators.length > 0
+    ) {
+      for (const collab of originalWhiteboard.collaborators) {
+        await this.collaboratorsService.addCollaborators(
+          savedWhiteboard,
+          [collab.user],
+          collab.role,
+        );
+      }
     }
 
     // Load duplicated whiteboard with all relations
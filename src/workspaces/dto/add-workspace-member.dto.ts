@@ -0,0 +1,18 @@
+import { IsEmail, IsIn, IsNotEmpty, IsOptional } from 'class-validator';
+import { WORKSPACE_ROLES } from '../workspace-roles';
+import type { WorkspaceRole } from '../entities/workspace-member.entity';
+
+/**
+ * DTO for adding a member to a workspace
+ */
+export class AddWorkspaceMemberDto {
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  @IsNotEmpty({ message: 'Email is required' })
+  email: string;
+
+  @IsOptional()
+  @IsIn(WORKSPACE_ROLES, {
+    message: `Role must be one of: ${WORKSPACE_ROLES.join(', ')}`,
+  })
+  role?: WorkspaceRole;
+}
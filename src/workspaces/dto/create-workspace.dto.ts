@@ -0,0 +1,15 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+/**
+ * DTO for creating a workspace
+ */
+export class CreateWorkspaceDto {
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(255, { message: 'Name must be at most 255 characters' })
+  name: string;
+
+  @IsString({ message: 'Description must be a string' })
+  @IsOptional()
+  description?: string;
+}
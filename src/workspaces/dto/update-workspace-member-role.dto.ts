@@ -0,0 +1,14 @@
+import { IsIn, IsNotEmpty } from 'class-validator';
+import { WORKSPACE_ROLES } from '../workspace-roles';
+import type { WorkspaceRole } from '../entities/workspace-member.entity';
+
+/**
+ * DTO for changing the role of a workspace member
+ */
+export class UpdateWorkspaceMemberRoleDto {
+  @IsNotEmpty({ message: 'Role is required' })
+  @IsIn(WORKSPACE_ROLES, {
+    message: `Role must be one of: ${WORKSPACE_ROLES.join(', ')}`,
+  })
+  role: WorkspaceRole;
+}
@@ -0,0 +1,50 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Workspace } from './workspace.entity';
+import { User } from '../../users/entities/user.entity';
+
+// admin: manages the workspace and its members; member: sees every board of
+// the workspace; guest: only sees the boards they were invited to
+export type WorkspaceRole = 'admin' | 'member' | 'guest';
+
+@Entity({ name: 'workspace_members' })
+@Index('IDX_workspace_members_user', ['userId'])
+export class WorkspaceMember {
+  @PrimaryColumn({ name: 'workspace_id', type: 'uuid' })
+  workspaceId: string;
+
+  @ManyToOne(() => Workspace, (workspace) => workspace.members, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'workspace_id' })
+  workspace: Workspace;
+
+  @PrimaryColumn({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({
+    type: 'enum',
+    enum: ['admin', 'member', 'guest'],
+    default: 'member',
+  })
+  role: WorkspaceRole;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp with time zone' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamp with time zone' })
+  updatedAt: Date;
+}
@@ -0,0 +1,13 @@
+import { getInheritedBoardRole } from './workspace-roles';
+
+describe('workspace roles', () => {
+  it('should let admins and members edit every board of the workspace', () => {
+    expect(getInheritedBoardRole('admin')).toBe('editor');
+    expect(getInheritedBoardRole('member')).toBe('editor');
+  });
+
+  it('should give guests and non-members no role on the workspace boards', () => {
+    expect(getInheritedBoardRole('guest')).toBeNull();
+    expect(getInheritedBoardRole(null)).toBeNull();
+  });
+});
@@ -0,0 +1,29 @@
+import { WorkspaceRole } from './entities/workspace-member.entity';
+import type { CollaboratorRole } from '../whiteboard-collaborators/entities/whiteboard-collaborator.entity';
+
+/**
+ * Workspace Roles
+ * What each workspace role may do, and the role it gives on the
+ * workspace's whiteboards without a per-board invite.
+ */
+
+// Every workspace role
+export const WORKSPACE_ROLES: readonly WorkspaceRole[] = [
+  'admin',
+  'member',
+  'guest',
+];
+
+// Roles that see the whole board library and may add boards to it
+export const LIBRARY_ROLES: readonly WorkspaceRole[] = ['admin', 'member'];
+
+/**
+ * Get the role a workspace role gives on every board of the workspace
+ * Guests get none: they need a per-board invite like anyone else
+ * @param role - Workspace role (null when not a member)
+ * @returns Inherited board role, or null
+ */
+export const getInheritedBoardRole = (
+  role: WorkspaceRole | null | undefined,
+): CollaboratorRole | null =>
+  role && LIBRARY_ROLES.includes(role) ? 'editor' : null;
@@ -0,0 +1,688 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Patch,
+  Body,
+  Param,
+  HttpStatus,
+  HttpCode,
+  ValidationPipe,
+  ParseUUIDPipe,
+  UseGuards,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ConflictException,
+  Res,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { WorkspacesService } from './workspaces.service';
+import { CreateWorkspaceDto } from './dto/create-workspace.dto';
+import { UpdateWorkspaceDto } from './dto/update-workspace.dto';
+import { AddWorkspaceMemberDto } from './dto/add-workspace-member.dto';
+import { UpdateWorkspaceMemberRoleDto } from './dto/update-workspace-member-role.dto';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { User } from '../users/entities/user.entity';
+
+@Controller('workspaces')
+@UseGuards(JwtAuthGuard)
+export class WorkspacesController {
+  constructor(private readonly workspacesService: WorkspacesService) {}
+
+  /**
+   * Create a workspace
+   * The current user becomes its first admin
+   * Requires authentication
+   * @param createWorkspaceDto - Workspace name and optional description
+   * @param user - Current authenticated user (from JWT token)
+   * @returns Created workspace information
+   */
+  @Post()
+  async create(
+    @Body(ValidationPipe) createWorkspaceDto: CreateWorkspaceDto,
+    @CurrentUser() user: User,
+  ) {
+    const workspace = await this.workspacesService.create(
+      createWorkspaceDto.name,
+      createWorkspaceDto.description,
+      user,
+    );
+
+    return {
+      statusCode: HttpStatus.CREATED,
+      message: 'Workspace created successfully',
+      data: {
+        id: workspace.id,
+        name: workspace.name,
+        description: workspace.description,
+        role: 'admin',
+        createdAt: workspace.createdAt,
+        updatedAt: workspace.updatedAt,
+      },
+    };
+  }
+
+  /**
+   * Get all workspaces the current user belongs to
+   * Requires authentication
+   * @param user - Current authenticated user (from JWT token)
+   * @returns List of workspaces with the user's role in each
+   */
+  @Get()
+  async getMyWorkspaces(@CurrentUser() user: User) {
+    try {
+      const memberships = await this.workspacesService.findByMember(user.id);
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Workspaces retrieved successfully',
+        data: memberships.map((membership) => ({
+          id: membership.workspace.id,
+          name: membership.workspace.name,
+          description: membership.workspace.description,
+          role: membership.role,
+          updatedAt: membership.workspace.updatedAt,
+        })),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to retrieve workspaces',
+        error: error.message,
+        data: [],
+      };
+    }
+  }
+
+  /**
+   * Get a workspace by ID (members only)
+   * Requires authentication and membership
+   * @param id - Workspace ID
+   * @param user - Current authenticated user (must be a member)
+   * @param res - Express response object for setting status codes
+   * @returns Workspace information with the user's role
+   */
+  @Get(':id')
+  async getWorkspaceById(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const { workspace, role } =
+        await this.workspacesService.findWithMembership(id, user);
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Workspace retrieved successfully',
+        data: {
+          id: workspace.id,
+          name: workspace.name,
+          description: workspace.description,
+          role,
+          createdAt: workspace.createdAt,
+          updatedAt: workspace.updatedAt,
+        },
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Workspace not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to access this workspace',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to retrieve workspace',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Rename a workspace or change its description (admin only)
+   * Requires authentication and the admin role
+   * @param id - Workspace ID
+   * @param updateWorkspaceDto - New name and/or description
+   * @param user - Current authenticated user (must be an admin)
+   * @param res - Express response object for setting status codes
+   * @returns Updated workspace information
+   */
+  @Patch(':id')
+  @HttpCode(HttpStatus.OK)
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(ValidationPipe) updateWorkspaceDto: UpdateWorkspaceDto,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const workspace = await this.workspacesService.update(
+        id,
+        updateWorkspaceDto,
+        user,
+      );
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Workspace updated successfully',
+        data: {
+          id: workspace.id,
+          name: workspace.name,
+          description: workspace.description,
+          updatedAt: workspace.updatedAt,
+        },
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Workspace not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to change this workspace',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to update workspace',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Delete a workspace (admin only)
+   * Its whiteboards must be moved out or deleted first
+   * Requires authentication and the admin role
+   * @param id - Workspace ID
+   * @param user - Current authenticated user (must be an admin)
+   * @param res - Express response object for setting status codes
+   * @returns Success message
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  async delete(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      await this.workspacesService.delete(id, user);
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Workspace deleted successfully',
+        data: null,
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Workspace not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to delete this workspace',
+          data: null,
+        };
+      }
+
+      if (error instanceof BadRequestException) {
+        res.status(HttpStatus.BAD_REQUEST);
+        return {
+          success: false,
+          statusCode: HttpStatus.BAD_REQUEST,
+          message: error.message || 'Invalid request',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to delete workspace',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * List the members of a workspace (members only)
+   * Requires authentication and membership
+   * @param id - Workspace ID
+   * @param user - Current authenticated user (must be a member)
+   * @param res - Express response object for setting status codes
+   * @returns List of members with their workspace role
+   */
+  @Get(':id/members')
+  async listMembers(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const members = await this.workspacesService.listMembers(id, user);
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Members retrieved successfully',
+        data: members.map((member) => ({
+          userId: member.userId,
+          user: {
+            id: member.user.id,
+            email: member.user.email,
+            fullName: member.user.fullName,
+          },
+          role: member.role,
+          joinedAt: member.createdAt,
+        })),
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Workspace not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to access this workspace',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to retrieve members',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Add a registered user to a workspace (admin only)
+   * Requires authentication and the admin role
+   * @param id - Workspace ID
+   * @param addWorkspaceMemberDto - Email of the user, and optionally their role (default: member)
+   * @param user - Current authenticated user (must be an admin)
+   * @param res - Express response object for setting status codes
+   * @returns Added member information
+   */
+  @Post(':id/members')
+  @HttpCode(HttpStatus.CREATED)
+  async addMember(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(ValidationPipe) addWorkspaceMemberDto: AddWorkspaceMemberDto,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const member = await this.workspacesService.addMember(
+        id,
+        addWorkspaceMemberDto.email,
+        user,
+        addWorkspaceMemberDto.role,
+      );
+
+      return {
+        success: true,
+        statusCode: HttpStatus.CREATED,
+        message: 'Member added successfully',
+        data: {
+          userId: member.userId,
+          user: {
+            id: member.user.id,
+            email: member.user.email,
+            fullName: member.user.fullName,
+          },
+          role: member.role,
+          joinedAt: member.createdAt,
+        },
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Workspace or user not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to add members to this workspace',
+          data: null,
+        };
+      }
+
+      if (error instanceof ConflictException) {
+        res.status(HttpStatus.CONFLICT);
+        return {
+          success: false,
+          statusCode: HttpStatus.CONFLICT,
+          message:
+            error.message || 'This user is already a member of this workspace',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to add member',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Change the role of a workspace member (admin only)
+   * Requires authentication and the admin role
+   * @param id - Workspace ID
+   * @param userId - User ID of the member
+   * @param updateWorkspaceMemberRoleDto - New workspace role
+   * @param user - Current authenticated user (must be an admin)
+   * @param res - Express response object for setting status codes
+   * @returns Updated member information
+   */
+  @Patch(':id/members/:userId')
+  @HttpCode(HttpStatus.OK)
+  async updateMemberRole(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body(ValidationPipe)
+    updateWorkspaceMemberRoleDto: UpdateWorkspaceMemberRoleDto,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const member = await this.workspacesService.updateMemberRole(
+        id,
+        userId,
+        updateWorkspaceMemberRoleDto.role,
+        user,
+      );
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Member role updated successfully',
+        data: {
+          userId: member.userId,
+          user: {
+            id: member.user.id,
+            email: member.user.email,
+            fullName: member.user.fullName,
+          },
+          role: member.role,
+          joinedAt: member.createdAt,
+        },
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Workspace or member not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to change member roles in this workspace',
+          data: null,
+        };
+      }
+
+      if (error instanceof BadRequestException) {
+        res.status(HttpStatus.BAD_REQUEST);
+        return {
+          success: false,
+          statusCode: HttpStatus.BAD_REQUEST,
+          message: error.message || 'Invalid request',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to update member role',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Remove a member from a workspace (admin only, or the member to leave)
+   * Requires authentication
+   * @param id - Workspace ID
+   * @param userId - User ID of the member
+   * @param user - Current authenticated user (an admin, or the member)
+   * @param res - Express response object for setting status codes
+   * @returns Success message
+   */
+  @Delete(':id/members/:userId')
+  @HttpCode(HttpStatus.OK)
+  async removeMember(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      await this.workspacesService.removeMember(id, userId, user);
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Member removed successfully',
+        data: null,
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Workspace or member not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to remove members from this workspace',
+          data: null,
+        };
+      }
+
+      if (error instanceof BadRequestException) {
+        res.status(HttpStatus.BAD_REQUEST);
+        return {
+          success: false,
+          statusCode: HttpStatus.BAD_REQUEST,
+          message: error.message || 'Invalid request',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to remove member',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * List the whiteboards of a workspace (members only)
+   * Admins and members get every board; guests only the boards they own or were invited to
+   * Requires authentication and membership
+   * @param id - Workspace ID
+   * @param user - Current authenticated user (must be a member)
+   * @param res - Express response object for setting status codes
+   * @returns List of whiteboards in the workspace
+   */
+  @Get(':id/whiteboards')
+  async listWhiteboards(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    try {
+      const whiteboards = await this.workspacesService.listWhiteboards(
+        id,
+        user,
+      );
+
+      return {
+        success: true,
+        statusCode: HttpStatus.OK,
+        message: 'Whiteboards retrieved successfully',
+        data: whiteboards.map((whiteboard) => ({
+          id: whiteboard.id,
+          title: whiteboard.title,
+          description: whiteboard.description,
+          createdAt: whiteboard.createdAt,
+          updatedAt: whiteboard.updatedAt,
+          ownerName: whiteboard.owner.fullName,
+        })),
+      };
+    } catch (error) {
+      // Handle different error types
+      if (error instanceof NotFoundException) {
+        res.status(HttpStatus.NOT_FOUND);
+        return {
+          success: false,
+          statusCode: HttpStatus.NOT_FOUND,
+          message: error.message || 'Workspace not found',
+          data: null,
+        };
+      }
+
+      if (error instanceof ForbiddenException) {
+        res.status(HttpStatus.FORBIDDEN);
+        return {
+          success: false,
+          statusCode: HttpStatus.FORBIDDEN,
+          message:
+            error.message ||
+            'You do not have permission to access this workspace',
+          data: null,
+        };
+      }
+
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR);
+      return {
+        success: false,
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        message: 'Failed to retrieve whiteboards',
+        error: error.message,
+        data: null,
+      };
+    }
+  }
+}
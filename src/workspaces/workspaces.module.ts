@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WorkspacesService } from './workspaces.service';
+import { WorkspacesController } from './workspaces.controller';
+import { Workspace } from './entities/workspace.entity';
+import { WorkspaceMember } from './entities/workspace-member.entity';
+import { Whiteboard } from '../whiteboards/entities/whiteboard.entity';
+import { UsersModule } from '../users/users.module';
+import { PubSubModule } from '../pubsub/pubsub.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Workspace, WorkspaceMember, Whiteboard]),
+    UsersModule,
+    PubSubModule,
+  ],
+  controllers: [WorkspacesController],
+  providers: [WorkspacesService],
+  exports: [WorkspacesService],
+})
+export class WorkspacesModule {}
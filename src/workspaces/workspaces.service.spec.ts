@@ -0,0 +1,214 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { WorkspacesService } from './workspaces.service';
+import { Workspace } from './entities/workspace.entity';
+import {
+  WorkspaceMember,
+  WorkspaceRole,
+} from './entities/workspace-member.entity';
+import { Whiteboard } from '../whiteboards/entities/whiteboard.entity';
+import { User } from '../users/entities/user.entity';
+import { UsersService } from '../users/users.service';
+import { PubSubBroker } from '../pubsub/pubsub-broker';
+import { WHITEBOARD_ACCESS_CHANNEL } from '../whiteboards/whiteboard-access-events';
+
+const WORKSPACE_ID = 'workspace-1';
+
+const admin = { id: 'admin-1', email: 'admin@example.com' } as User;
+const member = { id: 'member-1', email: 'member@example.com' } as User;
+const newcomer = { id: 'user-2', email: 'grace@example.com' } as User;
+
+describe('WorkspacesService', () => {
+  let service: WorkspacesService;
+  let roles: Map<string, WorkspaceRole>;
+  let workspaceRepository: Record<string, jest.Mock>;
+  let memberRepository: Record<string, jest.Mock>;
+  let usersService: Record<string, jest.Mock>;
+  let pubSubBroker: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    // Workspace roles by user ID
+    roles = new Map<string, WorkspaceRole>([
+      [admin.id, 'admin'],
+      [member.id, 'member'],
+    ]);
+
+    workspaceRepository = {
+      findOne: jest.fn().mockResolvedValue({ id: WORKSPACE_ID }),
+    };
+    memberRepository = {
+      findOne: jest.fn(({ where }: { where: { userId: string } }) => {
+        const role = roles.get(where.userId);
+        return Promise.resolve(
+          role
+            ? { workspaceId: WORKSPACE_ID, userId: where.userId, role }
+            : null,
+        );
+      }),
+      create: jest.fn((entity: Partial<WorkspaceMember>) => ({ ...entity })),
+      save: jest.fn((entity: WorkspaceMember) => Promise.resolve(entity)),
+      remove: jest.fn().mockResolvedValue(undefined),
+      count: jest.fn().mockResolvedValue(0),
+    };
+    usersService = {
+      findByEmail: jest.fn().mockResolvedValue(newcomer),
+    };
+    pubSubBroker = {
+      publish: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkspacesService,
+        {
+          provide: getRepositoryToken(Workspace),
+          useValue: workspaceRepository,
+        },
+        {
+          provide: getRepositoryToken(WorkspaceMember),
+          useValue: memberRepository,
+        },
+        {
+          provide: getRepositoryToken(Whiteboard),
+          useValue: {
+            find: jest.fn().mockResolvedValue([{ id: 'board-1' }]),
+          },
+        },
+        { provide: UsersService, useValue: usersService },
+        { provide: PubSubBroker, useValue: pubSubBroker },
+      ],
+    }).compile();
+
+    service = app.get<WorkspacesService>(WorkspacesService);
+  });
+
+  describe('findWithMembership', () => {
+    it('should return the workspace with the role of the user', async () => {
+      await expect(
+        service.findWithMembership(WORKSPACE_ID, member),
+      ).resolves.toEqual({ workspace: { id: WORKSPACE_ID }, role: 'member' });
+    });
+
+    it('should reject an unknown workspace', async () => {
+      workspaceRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.findWithMembership(WORKSPACE_ID, member),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it('should reject a user who is not a member', async () => {
+      await expect(
+        service.findWithMembership(WORKSPACE_ID, newcomer),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+
+    it('should reject a member without one of the roles asked for', async () => {
+      await expect(
+        service.findWithMembership(WORKSPACE_ID, member, ['admin']),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+  });
+
+  describe('addMember', () => {
+    it('should add the user and have their open boards re-check access', async () => {
+      const added = await service.addMember(
+        WORKSPACE_ID,
+        ' Grace@Example.com ',
+        admin,
+      );
+
+      expect(usersService.findByEmail).toHaveBeenCalledWith(
+        'grace@example.com',
+      );
+      expect(added).toMatchObject({
+        workspaceId: WORKSPACE_ID,
+        userId: newcomer.id,
+        role: 'member',
+        user: newcomer,
+      });
+      expect(pubSubBroker.publish).toHaveBeenCalledWith(
+        WHITEBOARD_ACCESS_CHANNEL,
+        {
+          type: 'access_changed',
+          whiteboardId: 'board-1',
+          userId: newcomer.id,
+        },
+      );
+    });
+
+    it('should only let admins add members', async () => {
+      await expect(
+        service.addMember(WORKSPACE_ID, newcomer.email, member),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(memberRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject an email without an account', async () => {
+      usersService.findByEmail.mockResolvedValue(null);
+
+      await expect(
+        service.addMember(WORKSPACE_ID, 'nobody@example.com', admin),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it('should not add an existing member twice', async () => {
+      usersService.findByEmail.mockResolvedValue(member);
+
+      await expect(
+        service.addMember(WORKSPACE_ID, member.email, admin),
+      ).rejects.toBeInstanceOf(ConflictException);
+      expect(memberRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateMemberRole', () => {
+    it('should save the new role', async () => {
+      const updated = await service.updateMemberRole(
+        WORKSPACE_ID,
+        member.id,
+        'guest',
+        admin,
+      );
+
+      expect(updated.role).toBe('guest');
+      expect(pubSubBroker.publish).toHaveBeenCalled();
+    });
+
+    it('should not leave the workspace without an admin', async () => {
+      await expect(
+        service.updateMemberRole(WORKSPACE_ID, admin.id, 'member', admin),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(memberRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeMember', () => {
+    it('should let a member leave', async () => {
+      await service.removeMember(WORKSPACE_ID, member.id, member);
+
+      expect(memberRepository.remove).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: member.id }),
+      );
+    });
+
+    it('should not let a member remove someone else', async () => {
+      await expect(
+        service.removeMember(WORKSPACE_ID, admin.id, member),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(memberRepository.remove).not.toHaveBeenCalled();
+    });
+
+    it('should not let the last admin leave', async () => {
+      await expect(
+        service.removeMember(WORKSPACE_ID, admin.id, admin),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+});
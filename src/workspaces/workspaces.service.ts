@@ -0,0 +1,474 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Not, Repository } from 'typeorm';
+import { Workspace } from './entities/workspace.entity';
+import {
+  WorkspaceMember,
+  WorkspaceRole,
+} from './entities/workspace-member.entity';
+import { LIBRARY_ROLES } from './workspace-roles';
+import { Whiteboard } from '../whiteboards/entities/whiteboard.entity';
+import { User } from '../users/entities/user.entity';
+import { UsersService } from '../users/users.service';
+import { PubSubBroker } from '../pubsub/pubsub-broker';
+import {
+  WHITEBOARD_ACCESS_CHANNEL,
+  WhiteboardAccessEvent,
+} from '../whiteboards/whiteboard-access-events';
+
+/**
+ * A workspace together with the role of the user who asked for it
+ */
+export interface WorkspaceMembership {
+  workspace: Workspace;
+  role: WorkspaceRole;
+}
+
+/**
+ * Workspaces Service
+ * Keeps workspaces, their members and their board library
+ *
+ * Members and admins see every board of the workspace (see
+ * getInheritedBoardRole); guests only see boards they were invited to.
+ * Membership changes tell the gateway to re-check the member's open
+ * connections to the workspace's boards.
+ */
+@Injectable()
+export class WorkspacesService {
+  private readonly logger = new Logger(WorkspacesService.name);
+
+  constructor(
+    @InjectRepository(Workspace)
+    private readonly workspaceRepository: Repository<Workspace>,
+    @InjectRepository(WorkspaceMember)
+    private readonly memberRepository: Repository<WorkspaceMember>,
+    @InjectRepository(Whiteboard)
+    private readonly whiteboardRepository: Repository<Whiteboard>,
+    private readonly usersService: UsersService,
+    private readonly pubSubBroker: PubSubBroker,
+  ) {}
+
+  /**
+   * Create a workspace; its creator becomes its first admin
+   * @param name - Workspace name
+   * @param description - Optional description
+   * @param creator - User creating the workspace
+   * @returns Created workspace entity
+   */
+  async create(
+    name: string,
+    description: string | undefined,
+    creator: User,
+  ): Promise<Workspace> {
+    return await this.workspaceRepository.manager.transaction(
+      async (manager) => {
+        const workspace = await manager.save(
+          manager.create(Workspace, {
+            name: name.trim(),
+            description: description?.trim() || undefined,
+          }),
+        );
+
+        await manager.save(
+          manager.create(WorkspaceMember, {
+            workspaceId: workspace.id,
+            userId: creator.id,
+            role: 'admin',
+          }),
+        );
+
+        return workspace;
+      },
+    );
+  }
+
+  /**
+   * Find the workspaces a user belongs to
+   * @param userId - User ID
+   * @returns Memberships with their workspace, most recent first
+   */
+  async findByMember(userId: string): Promise<WorkspaceMember[]> {
+    return await this.memberRepository.find({
+      where: { userId },
+      relations: ['workspace'],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Get the role of a user in a workspace
+   * @param workspaceId - Workspace ID
+   * @param userId - User ID
+   * @returns Workspace role, or null if the user is not a member
+   */
+  async getMemberRole(
+    workspaceId: string,
+    userId: string,
+  ): Promise<WorkspaceRole | null> {
+    const member = await this.memberRepository.findOne({
+      where: { workspaceId, userId },
+    });
+
+    return member?.role ?? null;
+  }
+
+  /**
+   * Find a workspace and check that the user belongs to it
+   * @param workspaceId - Workspace ID
+   * @param user - Current user
+   * @param roles - Roles allowed (default: any member)
+   * @param forbiddenMessage - Message of the ForbiddenException
+   * @returns Workspace and the user's role in it
+   * @throws NotFoundException if workspace not found
+   * @throws ForbiddenException if the user is not a member or lacks the role
+   */
+  async findWithMembership(
+    workspaceId: string,
+    user: User,
+    roles?: readonly WorkspaceRole[],
+    forbiddenMessage = 'You do not have permission to access this workspace',
+  ): Promise<WorkspaceMembership> {
+    const workspace = await this.workspaceRepository.findOne({
+      where: { id: workspaceId },
+    });
+
+    if (!workspace) {
+      throw new NotFoundException('Workspace not found');
+    }
+
+    const role = await this.getMemberRole(workspaceId, user.id);
+    if (!role || (roles && !roles.includes(role))) {
+      throw new ForbiddenException(forbiddenMessage);
+    }
+
+    return { workspace, role };
+  }
+
+  /**
+   * Rename a workspace or change its description (admin only)
+   * @param workspaceId - Workspace ID
+   * @param changes - New name and/or description
+   * @param admin - Current user (must be an admin)
+   * @returns Updated workspace entity
+   * @throws NotFoundException if workspace not found
+   * @throws ForbiddenException if user is not an admin
+   */
+  async update(
+    workspaceId: string,
+    changes: { name?: string; description?: string },
+    admin: User,
+  ): Promise<Workspace> {
+    const { workspace } = await this.findWithMembership(
+      workspaceId,
+      admin,
+      ['admin'],
+      'Only an admin can change this workspace',
+    );
+
+    if (changes.name !== undefined) {
+      workspace.name = changes.name.trim();
+    }
+    if (changes.description !== undefined) {
+      workspace.description = changes.description.trim() || undefined;
+    }
+
+    return await this.workspaceRepository.save(workspace);
+  }
+
+  /**
+   * Delete a workspace (admin only)
+   * Its boards must be moved out or deleted first
+   * @param workspaceId - Workspace ID
+   * @param admin - Current user (must be an admin)
+   * @throws NotFoundException if workspace not found
+   * @throws ForbiddenException if user is not an admin
+   * @throws BadRequestException if the workspace still has boards
+   */
+  async delete(workspaceId: string, admin: User): Promise<void> {
+    const { workspace } = await this.findWithMembership(
+      workspaceId,
+      admin,
+      ['admin'],
+      'Only an admin can delete this workspace',
+    );
+
+    const boardCount = await this.whiteboardRepository.count({
+      where: { workspaceId },
+    });
+    if (boardCount > 0) {
+      throw new BadRequestException(
+        'Move or delete the whiteboards of this workspace before deleting it',
+      );
+    }
+
+    await this.workspaceRepository.remove(workspace);
+  }
+
+  /**
+   * List the members of a workspace (any member)
+   * @param workspaceId - Workspace ID
+   * @param user - Current user (must be a member)
+   * @returns Members with their user, oldest first
+   * @throws NotFoundException if workspace not found
+   * @throws ForbiddenException if user is not a member
+   */
+  async listMembers(
+    workspaceId: string,
+    user: User,
+  ): Promise<WorkspaceMember[]> {
+    await this.findWithMembership(workspaceId, user);
+
+    return await this.memberRepository.find({
+      where: { workspaceId },
+      relations: ['user'],
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Add a registered user to a workspace (admin only)
+   * @param workspaceId - Workspace ID
+   * @param email - Email of the user to add
+   * @param admin - Current user (must be an admin)
+   * @param role - Workspace role (default: 'member')
+   * @returns Created member entity with user relation
+   * @throws NotFoundException if workspace or user not found
+   * @throws ForbiddenException if current user is not an admin
+   * @throws ConflictException if the user is already a member
+   */
+  async addMember(
+    workspaceId: string,
+    email: string,
+    admin: User,
+    role: WorkspaceRole = 'member',
+  ): Promise<WorkspaceMember> {
+    await this.findWithMembership(
+      workspaceId,
+      admin,
+      ['admin'],
+      'Only an admin can add members to this workspace',
+    );
+
+    const user = await this.usersService.findByEmail(
+      email.toLowerCase().trim(),
+    );
+    if (!user || user.isGuest) {
+      throw new NotFoundException('User with this email does not exist');
+    }
+
+    if (await this.getMemberRole(workspaceId, user.id)) {
+      throw new ConflictException(
+        'This user is already a member of this workspace',
+      );
+    }
+
+    const member = await this.memberRepository.save(
+      this.memberRepository.create({ workspaceId, userId: user.id, role }),
+    );
+    member.user = user;
+
+    // Connections to boards they were invited to pick up the inherited role
+    await this.publishAccessChanged(workspaceId, user.id);
+
+    return member;
+  }
+
+  /**
+   * Change the role of a workspace member (admin only)
+   * @param workspaceId - Workspace ID
+   * @param userId - User ID of the member
+   * @param role - New workspace role
+   * @param admin - Current user (must be an admin)
+   * @returns Updated member entity with user relation
+   * @throws NotFoundException if workspace or member not found
+   * @throws ForbiddenException if current user is not an admin
+   * @throws BadRequestException if it would leave the workspace without an admin
+   */
+  async updateMemberRole(
+    workspaceId: string,
+    userId: string,
+    role: WorkspaceRole,
+    admin: User,
+  ): Promise<WorkspaceMember> {
+    await this.findWithMembership(
+      workspaceId,
+      admin,
+      ['admin'],
+      'Only an admin can change member roles in this workspace',
+    );
+
+    const member = await this.findMember(workspaceId, userId);
+
+    if (member.role === 'admin' && role !== 'admin') {
+      await this.assertAnotherAdmin(workspaceId, userId);
+    }
+
+    member.role = role;
+    const updatedMember = await this.memberRepository.save(member);
+
+    await this.publishAccessChanged(workspaceId, userId);
+
+    return updatedMember;
+  }
+
+  /**
+   * Remove a member from a workspace (admin, or the member themselves to leave)
+   * The member keeps the boards they own and any per-board invites
+   * @param workspaceId - Workspace ID
+   * @param userId - User ID of the member
+   * @param user - Current user (an admin, or the member)
+   * @throws NotFoundException if workspace or member not found
+   * @throws ForbiddenException if current user is neither an admin nor the member
+   * @throws BadRequestException if it would leave the workspace without an admin
+   */
+  async removeMember(
+    workspaceId: string,
+    userId: string,
+    user: User,
+  ): Promise<void> {
+    await this.findWithMembership(
+      workspaceId,
+      user,
+      userId === user.id ? undefined : ['admin'],
+      'Only an admin can remove members from this workspace',
+    );
+
+    const member = await this.findMember(workspaceId, userId);
+
+    if (member.role === 'admin') {
+      await this.assertAnotherAdmin(workspaceId, userId);
+    }
+
+    await this.memberRepository.remove(member);
+
+    await this.publishAccessChanged(workspaceId, userId);
+  }
+
+  /**
+   * List the boards of a workspace (any member)
+   * Admins and members get the whole library; guests only the boards they
+   * own or were invited to
+   * @param workspaceId - Workspace ID
+   * @param user - Current user (must be a member)
+   * @returns Whiteboard entities with owner relation, most recently updated first
+   * @throws NotFoundException if workspace not found
+   * @throws ForbiddenException if user is not a member
+   */
+  async listWhiteboards(
+    workspaceId: string,
+    user: User,
+  ): Promise<Whiteboard[]> {
+    const { role } = await this.findWithMembership(workspaceId, user);
+
+    const query = this.whiteboardRepository
+      .createQueryBuilder('whiteboard')
+      .leftJoinAndSelect('whiteboard.owner', 'owner')
+      .where('whiteboard.workspaceId = :workspaceId', { workspaceId })
+      .orderBy('whiteboard.updatedAt', 'DESC');
+
+    if (!LIBRARY_ROLES.includes(role)) {
+      query.andWhere(
+        `(owner.id = :userId OR EXISTS (
+          SELECT 1 FROM whiteboard_collaborators collaborator
+          WHERE collaborator.whiteboard_id = whiteboard.id
+            AND collaborator.user_id = :userId
+        ))`,
+        { userId: user.id },
+      );
+    }
+
+    return await query.getMany();
+  }
+
+  /**
+   * Get the IDs of every member of a workspace
+   * @param workspaceId - Workspace ID
+   * @returns Array of user IDs
+   */
+  async findMemberIds(workspaceId: string): Promise<string[]> {
+    const members = await this.memberRepository.find({
+      where: { workspaceId },
+      select: ['userId'],
+    });
+
+    return members.map((member) => member.userId);
+  }
+
+  /**
+   * Find a member of a workspace
+   * @throws NotFoundException if the user is not a member
+   */
+  private async findMember(
+    workspaceId: string,
+    userId: string,
+  ): Promise<WorkspaceMember> {
+    const member = await this.memberRepository.findOne({
+      where: { workspaceId, userId },
+      relations: ['user'],
+    });
+
+    if (!member) {
+      throw new NotFoundException('Member not found in this workspace');
+    }
+
+    return member;
+  }
+
+  /**
+   * Check that a workspace keeps an admin once a user stops being one
+   * @throws BadRequestException if the user is the last admin
+   */
+  private async assertAnotherAdmin(
+    workspaceId: string,
+    userId: string,
+  ): Promise<void> {
+    const otherAdmins = await this.memberRepository.count({
+      where: { workspaceId, role: 'admin', userId: Not(userId) },
+    });
+
+    if (otherAdmins === 0) {
+      throw new BadRequestException(
+        'A workspace needs at least one admin; make someone else an admin first',
+      );
+    }
+  }
+
+  /**
+   * Tell the gateway to re-check a user's connections to every board of a workspace
+   * The change itself is already saved, so a failed publish is not rethrown
+   * @param workspaceId - Workspace ID
+   * @param userId - User whose membership changed
+   */
+  private async publishAccessChanged(
+    workspaceId: string,
+    userId: string,
+  ): Promise<void> {
+    const whiteboards = await this.whiteboardRepository.find({
+      where: { workspaceId },
+      select: ['id'],
+    });
+
+    for (const whiteboard of whiteboards) {
+      const event: WhiteboardAccessEvent = {
+        type: 'access_changed',
+        whiteboardId: whiteboard.id,
+        userId,
+      };
+
+      try {
+        await this.pubSubBroker.publish(WHITEBOARD_ACCESS_CHANNEL, event);
+      } catch (error) {
+        this.logger.error(
+          `Failed to publish access_changed event for whiteboard ${whiteboard.id}: ${error.message}`,
+        );
+      }
+    }
+  }
+}